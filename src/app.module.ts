@@ -25,6 +25,12 @@ import { SeederModule } from './common/seeder/seeder.module';
 import { SearchModule } from './modules/search/search.module';
 import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
 import { StatisticsModule } from './statistics/statistics.module';
+import { RefundPolicyModule } from './refund-policy/refund-policy.module';
+import { FareModifierModule } from './fare-modifier/fare-modifier.module';
+import { CrewModule } from './crew/crew.module';
+import { FareRuleModule } from './fare-rule/fare-rule.module';
+import { PricingCurveModule } from './pricing-curve/pricing-curve.module';
+import { WaitlistModule } from './waitlist/waitlist.module';
 
 @Module({
   imports: [
@@ -64,6 +70,12 @@ import { StatisticsModule } from './statistics/statistics.module';
     TicketModule,
     PaymentModule,
     StatisticsModule,
+    RefundPolicyModule,
+    FareModifierModule,
+    CrewModule,
+    FareRuleModule,
+    PricingCurveModule,
+    WaitlistModule,
   ],
   controllers: [AppController],
   providers: [
@@ -26,6 +26,7 @@ import * as crypto from 'crypto';
 import * as bcrypt from 'bcryptjs';
 import type { Request } from 'express';
 import { normalizeEmail } from '../common/utils/string-normalizer.util';
+import { JwtStrategy } from './strategies/jwt.strategy';
 
 const BCRYPT_SALT_ROUNDS = 12;
 
@@ -37,6 +38,7 @@ export class AuthService {
     private configService: ConfigService,
     private redisService: RedisService,
     private emailService: EmailService,
+    private jwtStrategy: JwtStrategy,
   ) {}
 
   async validateUser(
@@ -395,6 +397,24 @@ export class AuthService {
     }
   }
 
+  /**
+   * Verify an access token outside of HTTP requests (e.g. WebSocket handshake)
+   * and resolve the same user as JwtStrategy does for `req.user`
+   */
+  async verifyAccessToken(accessToken: string) {
+    let payload;
+    try {
+      payload = await this.jwtService.verifyAsync(accessToken, {
+        secret:
+          this.configService.get('JWT_ACCESS_SECRET') || 'fallback-secret',
+      });
+    } catch (error) {
+      throw new UnauthorizedException('Invalid access token');
+    }
+
+    return this.jwtStrategy.validate(payload);
+  }
+
   async logout(userId: string) {
     // Remove refresh token from Redis
     await this.redisService.del(`refresh_token:${userId}`);
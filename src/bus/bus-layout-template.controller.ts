@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Patch,
+  Delete,
+  Query,
+  UseGuards,
+  ParseEnumPipe,
+} from '@nestjs/common';
+import { BusLayoutTemplateService } from './bus-layout-template.service';
+import {
+  CreateBusLayoutTemplateDto,
+  UpdateBusLayoutTemplateDto,
+} from './dto/bus-layout-template.dto';
+import { BusType } from './enums/bus-type.enum';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { UserRole } from '../users/enums/user-role.enum';
+import { Roles } from '../common/decorators/roles.decorator';
+
+@Controller('bus-layout-templates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+export class BusLayoutTemplateController {
+  constructor(private readonly templateService: BusLayoutTemplateService) {}
+
+  @Get()
+  findAll(@Query('busType') busType?: BusType) {
+    return this.templateService.findAll(busType);
+  }
+
+  // Sơ đồ sẽ được dùng khi tạo xe mới không chọn mẫu
+  @Get('default/:busType')
+  getDefault(@Param('busType', new ParseEnumPipe(BusType)) busType: BusType) {
+    return this.templateService.resolveLayout(busType);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.templateService.findOne(id);
+  }
+
+  @Post()
+  create(@Body() dto: CreateBusLayoutTemplateDto) {
+    return this.templateService.create(dto);
+  }
+
+  @Patch(':id')
+  update(@Param('id') id: string, @Body() dto: UpdateBusLayoutTemplateDto) {
+    return this.templateService.update(id, dto);
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string) {
+    return this.templateService.remove(id);
+  }
+}
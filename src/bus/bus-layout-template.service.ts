@@ -0,0 +1,259 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  BusLayoutTemplate,
+  BusLayoutTemplateDocument,
+} from './entities/bus-layout-template.entity';
+import { BusLayout, LayoutCell } from './entities/bus-layout.entity';
+import {
+  CreateBusLayoutTemplateDto,
+  UpdateBusLayoutTemplateDto,
+} from './dto/bus-layout-template.dto';
+import { BusType } from './enums/bus-type.enum';
+import { LayoutCellType } from './enums/layout-cell-type.enum';
+import { SeatClass } from '../seat/enums/seat-class.enum';
+import { SeatPosition } from '../seat/enums/seat-position.enum';
+
+/**
+ * Xe giường nằm 2 tầng (A = tầng dưới, B = tầng trên), mỗi tầng 3 dãy giường
+ * với 2 lối đi ở cột 2 và 4; hàng cuối chỉ có 2 giường sát cửa sổ → 17 giường/tầng.
+ */
+function buildSleeperLayout(): BusLayout {
+  const cells: LayoutCell[] = [];
+
+  ['A', 'B'].forEach((prefix, index) => {
+    const deck = index + 1;
+    let seatIndex = 0;
+
+    for (let row = 1; row <= 6; row++) {
+      for (const column of [1, 3, 5]) {
+        if (row === 6 && column === 3) {
+          cells.push({ deck, row, column, type: LayoutCellType.BLOCKED });
+          continue;
+        }
+        seatIndex++;
+        cells.push({
+          deck,
+          row,
+          column,
+          type: LayoutCellType.SEAT,
+          seatNo: `${prefix}${seatIndex}`,
+          seatClass: SeatClass.STANDARD,
+          position: column === 3 ? SeatPosition.AISLE : SeatPosition.WINDOW,
+          nearDriver: deck === 1 && row === 1,
+        });
+      }
+    }
+  });
+
+  return { decks: 2, rows: 6, columns: 5, cells };
+}
+
+/**
+ * Xe ghế ngồi 1 tầng, 7 hàng × 4 ghế, lối đi ở cột 3 → 28 ghế đánh số 1-28.
+ */
+function buildSeaterLayout(): BusLayout {
+  const cells: LayoutCell[] = [];
+  let seatIndex = 0;
+
+  for (let row = 1; row <= 7; row++) {
+    for (const column of [1, 2, 4, 5]) {
+      seatIndex++;
+      cells.push({
+        deck: 1,
+        row,
+        column,
+        type: LayoutCellType.SEAT,
+        seatNo: `${seatIndex}`,
+        seatClass: SeatClass.STANDARD,
+        position:
+          column === 1 || column === 5
+            ? SeatPosition.WINDOW
+            : SeatPosition.AISLE,
+        nearDriver: row === 1,
+      });
+    }
+  }
+
+  return { decks: 1, rows: 7, columns: 5, cells };
+}
+
+/**
+ * Sơ đồ mặc định khi admin chưa cấu hình mẫu cho loại xe
+ * (giữ nguyên cách đánh số ghế trước khi có sơ đồ)
+ */
+export const DEFAULT_BUS_LAYOUTS: Record<BusType, BusLayout> = {
+  [BusType.SLEEPER]: buildSleeperLayout(),
+  [BusType.SEATER]: buildSeaterLayout(),
+};
+
+@Injectable()
+export class BusLayoutTemplateService {
+  constructor(
+    @InjectModel(BusLayoutTemplate.name)
+    private templateModel: Model<BusLayoutTemplateDocument>,
+  ) {}
+
+  async findAll(busType?: BusType) {
+    return this.templateModel
+      .find(busType ? { busType } : {})
+      .sort({ busType: 1, isDefault: -1, name: 1 })
+      .exec();
+  }
+
+  async findOne(id: string) {
+    const template = await this.templateModel.findById(id).exec();
+    if (!template) throw new NotFoundException('Layout template not found');
+    return template;
+  }
+
+  /**
+   * Resolve the layout for a new bus (given template > default template > built-in)
+   */
+  async resolveLayout(
+    busType: BusType,
+    templateId?: string,
+  ): Promise<{ layout: BusLayout; templateId: Types.ObjectId | null }> {
+    if (templateId) {
+      const template = await this.findOne(templateId);
+      if (template.busType !== busType) {
+        throw new BadRequestException(
+          `Layout template is for ${template.busType} buses, not ${busType}`,
+        );
+      }
+      return {
+        layout: this.copyLayout(template.layout),
+        templateId: template._id as Types.ObjectId,
+      };
+    }
+
+    const defaultTemplate = await this.templateModel
+      .findOne({ busType, isDefault: true })
+      .exec();
+    if (defaultTemplate) {
+      return {
+        layout: this.copyLayout(defaultTemplate.layout),
+        templateId: defaultTemplate._id as Types.ObjectId,
+      };
+    }
+
+    return {
+      layout: this.copyLayout(DEFAULT_BUS_LAYOUTS[busType]),
+      templateId: null,
+    };
+  }
+
+  async create(dto: CreateBusLayoutTemplateDto) {
+    this.validateLayout(dto.layout);
+
+    if (dto.isDefault) {
+      await this.clearDefault(dto.busType);
+    }
+
+    return this.templateModel.create(dto);
+  }
+
+  async update(id: string, dto: UpdateBusLayoutTemplateDto) {
+    const template = await this.findOne(id);
+
+    if (dto.layout) {
+      this.validateLayout(dto.layout);
+    }
+
+    const busType = dto.busType ?? template.busType;
+    if (dto.isDefault) {
+      await this.clearDefault(busType, template._id as Types.ObjectId);
+    }
+
+    // Xe đã tạo giữ bản sao sơ đồ riêng nên sửa mẫu không ảnh hưởng xe cũ
+    Object.assign(template, dto);
+    return template.save();
+  }
+
+  async remove(id: string) {
+    const result = await this.templateModel.deleteOne({
+      _id: new Types.ObjectId(id),
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Layout template not found');
+    }
+    return { message: 'Layout template removed' };
+  }
+
+  /**
+   * Cells must fit the grid, not overlap, and every seat needs a unique seatNo
+   */
+  validateLayout(layout: BusLayout): void {
+    const positions = new Set<string>();
+    const seatNos = new Set<string>();
+
+    for (const cell of layout.cells) {
+      if (
+        cell.deck > layout.decks ||
+        cell.row > layout.rows ||
+        cell.column > layout.columns
+      ) {
+        throw new BadRequestException(
+          `Cell (${cell.deck}, ${cell.row}, ${cell.column}) is outside the ${layout.decks}×${layout.rows}×${layout.columns} layout`,
+        );
+      }
+
+      const position = `${cell.deck}:${cell.row}:${cell.column}`;
+      if (positions.has(position)) {
+        throw new BadRequestException(
+          `Cell (${cell.deck}, ${cell.row}, ${cell.column}) is defined twice`,
+        );
+      }
+      positions.add(position);
+
+      if (cell.type !== LayoutCellType.SEAT) continue;
+
+      if (!cell.seatNo) {
+        throw new BadRequestException(
+          `Seat cell (${cell.deck}, ${cell.row}, ${cell.column}) has no seatNo`,
+        );
+      }
+      if (seatNos.has(cell.seatNo)) {
+        throw new BadRequestException(`Duplicate seatNo ${cell.seatNo}`);
+      }
+      seatNos.add(cell.seatNo);
+    }
+
+    if (seatNos.size === 0) {
+      throw new BadRequestException('Layout must contain at least one seat');
+    }
+  }
+
+  private async clearDefault(busType: BusType, exceptId?: Types.ObjectId) {
+    await this.templateModel.updateMany(
+      { busType, isDefault: true, ...(exceptId && { _id: { $ne: exceptId } }) },
+      { $set: { isDefault: false } },
+    );
+  }
+
+  private copyLayout(layout: BusLayout): BusLayout {
+    return {
+      decks: layout.decks,
+      rows: layout.rows,
+      columns: layout.columns,
+      cells: layout.cells.map((cell) => ({
+        deck: cell.deck,
+        row: cell.row,
+        column: cell.column,
+        type: cell.type,
+        seatNo: cell.seatNo,
+        seatClass:
+          cell.type === LayoutCellType.SEAT
+            ? (cell.seatClass ?? SeatClass.STANDARD)
+            : undefined,
+        position: cell.position,
+        nearDriver: cell.nearDriver ?? false,
+      })),
+    };
+  }
+}
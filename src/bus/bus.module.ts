@@ -8,17 +8,35 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { ExcelService } from '../common/excel/excel.service';
 import { CloudinaryService } from 'src/common/cloudinary/cloudinary.service';
 import { Seat, SeatSchema } from 'src/seat/entities/seat.entity';
+import {
+  BusLayoutTemplate,
+  BusLayoutTemplateSchema,
+} from './entities/bus-layout-template.entity';
+import { BusLayoutTemplateService } from './bus-layout-template.service';
+import { BusLayoutTemplateController } from './bus-layout-template.controller';
+import {
+  CrewMember,
+  CrewMemberSchema,
+} from '../crew/entities/crew-member.entity';
 
 @Module({
   imports: [
     MongooseModule.forFeature([
       { name: Bus.name, schema: BusSchema },
       { name: Seat.name, schema: SeatSchema },
+      { name: BusLayoutTemplate.name, schema: BusLayoutTemplateSchema },
+      { name: CrewMember.name, schema: CrewMemberSchema },
     ]),
     AuthModule,
   ],
-  controllers: [BusController],
-  providers: [BusService, JwtAuthGuard, ExcelService, CloudinaryService],
-  exports: [BusService],
+  controllers: [BusController, BusLayoutTemplateController],
+  providers: [
+    BusService,
+    BusLayoutTemplateService,
+    JwtAuthGuard,
+    ExcelService,
+    CloudinaryService,
+  ],
+  exports: [BusService, BusLayoutTemplateService],
 })
 export class BusModule { }
@@ -4,7 +4,7 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { Model, Types } from 'mongoose';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Bus, BusDocument, BusImage } from '../bus/entities/bus.entity';
 import { BusImageDto, CreateBusDto } from './dto/create-bus.dto';
@@ -12,72 +12,88 @@ import { UpdateBusDto } from './dto/update-bus.dto';
 import { ExcelService } from '../common/excel/excel.service';
 import { BusExcelRow } from './type/bus-excel-row.type';
 import { BusStatus } from '../bus/enums/bus-status.enum';
-import { BusType } from './enums/bus-type.enum';
 import { PaginationDto } from './dto/bus-pagination.dto';
 import { SortOrder } from 'mongoose';
 import { Seat } from 'src/seat/entities/seat.entity';
 import { CloudinaryService } from 'src/common/cloudinary/cloudinary.service';
 import { BusUpdatedEvent } from '../common/events/scheduling-reindex.event';
+import { BusLayoutTemplateService } from './bus-layout-template.service';
+import { LayoutCellType } from './enums/layout-cell-type.enum';
+import {
+  CrewMember,
+  CrewMemberDocument,
+} from '../crew/entities/crew-member.entity';
+import { CrewRole } from '../crew/enums/crew-role.enum';
+import { CrewStatus } from '../crew/enums/crew-status.enum';
 
 @Injectable()
 export class BusService {
   constructor(
     @InjectModel(Bus.name) private busModel: Model<BusDocument>,
     @InjectModel(Seat.name) private seatModel: Model<Seat>,
+    @InjectModel(CrewMember.name)
+    private crewMemberModel: Model<CrewMemberDocument>,
 
     private readonly excelService: ExcelService,
     private readonly cloudinaryService: CloudinaryService,
     private readonly eventEmitter: EventEmitter2,
+    private readonly layoutTemplateService: BusLayoutTemplateService,
   ) { }
   async create(createBusDto: CreateBusDto): Promise<Bus> {
-    const bus = new this.busModel(createBusDto);
+    const bus = new this.busModel({
+      ...createBusDto,
+      ...(await this.resolveDriver(createBusDto.driverId)),
+    });
     return bus.save();
   }
 
-  private generateSeats(type: BusType): Partial<Seat>[] {
-    const seats: Partial<Seat>[] = [];
-
-    if (type === BusType.SLEEPER) {
-      for (let i = 1; i <= 17; i++) {
-        seats.push({ seatNo: `A${i}` });
-        seats.push({ seatNo: `B${i}` });
-      }
-    } else if (type === BusType.SEATER) {
-      for (let i = 1; i <= 28; i++) {
-        seats.push({ seatNo: `${i}` });
-      }
-    }
-
-    return seats;
-  }
-
   async createWithSeats(createBusDto: CreateBusDto): Promise<Bus> {
     try {
-      // 1. Tạo bus trước, chưa gán seats
+      // 1. Lấy sơ đồ ghế từ mẫu (hoặc mẫu mặc định của loại xe)
+      const { layout, templateId } =
+        await this.layoutTemplateService.resolveLayout(
+          createBusDto.type,
+          createBusDto.layoutTemplateId,
+        );
+
+      // 2. Tạo bus trước, chưa gán seats
       const images: BusImage[] = (createBusDto.images || []).map((img) => ({
         url: img.url,
         publicId: img.publicId,
       }));
 
+      const driver = await this.resolveDriver(createBusDto.driverId);
+
       const bus = new this.busModel({
         ...createBusDto,
+        ...driver,
         vacancy: 0,
         images,
         seats: [],
+        layout,
+        layoutTemplateId: templateId,
       });
 
       const savedBus = await bus.save(); // bây giờ có _id
 
-      // 2. Tạo seat với busId
-      const seatsData = this.generateSeats(createBusDto.type).map((seat) => ({
-        ...seat,
-        busId: savedBus._id, // bắt buộc
-      }));
+      // 3. Sinh seat từ các ô SEAT của sơ đồ
+      const seatsData = layout.cells
+        .filter((cell) => cell.type === LayoutCellType.SEAT)
+        .map((cell) => ({
+          seatNo: cell.seatNo,
+          busId: savedBus._id, // bắt buộc
+          deck: cell.deck,
+          row: cell.row,
+          column: cell.column,
+          seatClass: cell.seatClass,
+          position: cell.position,
+          nearDriver: cell.nearDriver,
+        }));
 
       const seats = await this.seatModel.insertMany(seatsData);
       const seatIds = seats.map((seat) => seat._id);
 
-      // 3. Update bus với seatIds và vacancy
+      // 4. Update bus với seatIds và vacancy
       savedBus.seats = seatIds;
       savedBus.vacancy = seats.length;
 
@@ -176,7 +192,9 @@ export class BusService {
   }
 
   async findOne(id: string): Promise<Bus> {
-    const bus = await this.busModel.findById(id);
+    const bus = await this.busModel
+      .findById(id)
+      .populate('driverId', 'fullName phone licenseNumber status');
     if (!bus) throw new NotFoundException('Bus not found');
     return bus;
   }
@@ -213,18 +231,51 @@ export class BusService {
       bus.images = [...bus.images, ...uploadedImages];
     }
 
-    // 3. Update các field khác
-    Object.assign(bus, updateBusDto);
+    // 3. Sơ đồ ghế cố định sau khi tạo xe (ghế đã gắn với vé/chuyến)
+    const { layoutTemplateId, driverId, ...fields } = updateBusDto;
+    if (
+      layoutTemplateId &&
+      layoutTemplateId !== bus.layoutTemplateId?.toString()
+    ) {
+      throw new BadRequestException('Không thể đổi sơ đồ ghế của xe đã tạo');
+    }
+
+    // 4. Update các field khác
+    Object.assign(bus, fields, await this.resolveDriver(driverId));
 
-    // 4. Lưu lại
+    // 5. Lưu lại
     const updatedBus = await bus.save();
 
-    // 5. Emit event để reindex schedulings liên quan
+    // 6. Emit event để reindex schedulings liên quan
     this.eventEmitter.emit('bus.updated', new BusUpdatedEvent(id));
 
     return updatedBus;
   }
 
+  /**
+   * Tài xế chính phải là crew member vai trò tài xế, chưa nghỉ việc;
+   * driverName lấy theo tên người đó để tìm kiếm/hiển thị như trước
+   */
+  private async resolveDriver(
+    driverId?: string | null,
+  ): Promise<Partial<Pick<Bus, 'driverId' | 'driverName'>>> {
+    if (driverId === undefined) return {};
+    if (driverId === null) return { driverId: null };
+
+    const driver = await this.crewMemberModel.findById(driverId).exec();
+    if (!driver || driver.role !== CrewRole.DRIVER) {
+      throw new BadRequestException('Không tìm thấy tài xế');
+    }
+    if (driver.status === CrewStatus.INACTIVE) {
+      throw new BadRequestException(`Tài xế ${driver.fullName} đã nghỉ việc`);
+    }
+
+    return {
+      driverId: new Types.ObjectId(driverId),
+      driverName: driver.fullName,
+    };
+  }
+
   async removeImage(busId: string, publicId: string): Promise<Bus> {
     const bus = await this.busModel.findById(busId);
     if (!bus) throw new NotFoundException('Bus not found');
@@ -0,0 +1,96 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { PartialType } from '@nestjs/mapped-types';
+import { BusType } from '../enums/bus-type.enum';
+import { LayoutCellType } from '../enums/layout-cell-type.enum';
+import { SeatClass } from '../../seat/enums/seat-class.enum';
+import { SeatPosition } from '../../seat/enums/seat-position.enum';
+
+export class LayoutCellDto {
+  @IsInt()
+  @Min(1)
+  deck: number;
+
+  @IsInt()
+  @Min(1)
+  row: number;
+
+  @IsInt()
+  @Min(1)
+  column: number;
+
+  @IsEnum(LayoutCellType)
+  type: LayoutCellType;
+
+  @IsString()
+  @IsOptional()
+  seatNo?: string;
+
+  @IsEnum(SeatClass)
+  @IsOptional()
+  seatClass?: SeatClass;
+
+  @IsEnum(SeatPosition)
+  @IsOptional()
+  position?: SeatPosition;
+
+  @IsBoolean()
+  @IsOptional()
+  nearDriver?: boolean;
+}
+
+export class BusLayoutDto {
+  @IsInt()
+  @Min(1)
+  @Max(2)
+  decks: number;
+
+  @IsInt()
+  @Min(1)
+  rows: number;
+
+  @IsInt()
+  @Min(1)
+  columns: number;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => LayoutCellDto)
+  cells: LayoutCellDto[];
+}
+
+export class CreateBusLayoutTemplateDto {
+  @IsString()
+  name: string;
+
+  @IsEnum(BusType)
+  busType: BusType;
+
+  @IsBoolean()
+  @IsOptional()
+  isDefault?: boolean;
+
+  @ValidateNested()
+  @Type(() => BusLayoutDto)
+  layout: BusLayoutDto;
+
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
+
+export class UpdateBusLayoutTemplateDto extends PartialType(
+  CreateBusLayoutTemplateDto,
+) {}
@@ -4,6 +4,8 @@ import {
   IsEnum,
   IsArray,
   IsInt,
+  IsMongoId,
+  ValidateIf,
   ValidateNested,
 } from 'class-validator';
 import { BusStatus } from '../enums/bus-status.enum';
@@ -28,13 +30,25 @@ export class CreateBusDto {
   @IsEnum(BusType)
   type: BusType;
 
+  // Bỏ trống khi có driverId: lấy theo tên của tài xế đó
+  @ValidateIf((dto: CreateBusDto) => !dto.driverId)
   @IsString()
-  driverName: string;
+  driverName?: string;
+
+  // Tài xế chính (crew member vai trò tài xế); null để bỏ
+  @IsMongoId()
+  @IsOptional()
+  driverId?: string | null;
 
   @IsEnum(BusStatus)
   @IsOptional()
   status?: BusStatus;
 
+  // Mẫu sơ đồ ghế; bỏ trống để dùng mẫu mặc định của loại xe
+  @IsMongoId()
+  @IsOptional()
+  layoutTemplateId?: string;
+
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => BusImageDto)
@@ -0,0 +1,38 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { BusType } from '../enums/bus-type.enum';
+import { BusLayout, BusLayoutSchema } from './bus-layout.entity';
+
+export type BusLayoutTemplateDocument = BusLayoutTemplate & Document;
+
+/**
+ * Mẫu sơ đồ ghế dùng lại cho các xe cùng loại.
+ * Mỗi BusType có tối đa một mẫu mặc định (isDefault).
+ */
+@Schema({ timestamps: true, collection: 'bus_layout_templates' })
+export class BusLayoutTemplate {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: String, enum: Object.values(BusType), required: true })
+  busType: BusType;
+
+  @Prop({ type: Boolean, default: false })
+  isDefault: boolean;
+
+  @Prop({ type: BusLayoutSchema, required: true })
+  layout: BusLayout;
+
+  @Prop({ type: String })
+  description?: string;
+
+  readonly createdAt?: Date;
+
+  readonly updatedAt?: Date;
+}
+
+export const BusLayoutTemplateSchema =
+  SchemaFactory.createForClass(BusLayoutTemplate);
+
+// Indexes
+BusLayoutTemplateSchema.index({ busType: 1, isDefault: 1 });
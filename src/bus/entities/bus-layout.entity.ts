@@ -0,0 +1,55 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { LayoutCellType } from '../enums/layout-cell-type.enum';
+import { SeatClass } from '../../seat/enums/seat-class.enum';
+import { SeatPosition } from '../../seat/enums/seat-position.enum';
+
+export interface LayoutCell {
+  deck: number; // 1 = tầng dưới, 2 = tầng trên
+  row: number; // Tính từ đầu xe
+  column: number; // Tính từ bên trái
+  type: LayoutCellType;
+  seatNo?: string; // Bắt buộc với ô SEAT
+  seatClass?: SeatClass;
+  position?: SeatPosition;
+  nearDriver?: boolean;
+}
+
+/**
+ * Sơ đồ xe dạng lưới deck × row × column.
+ * Chỉ khai báo các ô có nội dung; ô không khai báo là lối đi.
+ */
+@Schema({ _id: false })
+export class BusLayout {
+  @Prop({ type: Number, required: true, min: 1, max: 2 })
+  decks: number;
+
+  @Prop({ type: Number, required: true, min: 1 })
+  rows: number;
+
+  @Prop({ type: Number, required: true, min: 1 })
+  columns: number;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        deck: { type: Number, required: true, min: 1 },
+        row: { type: Number, required: true, min: 1 },
+        column: { type: Number, required: true, min: 1 },
+        type: {
+          type: String,
+          enum: Object.values(LayoutCellType),
+          default: LayoutCellType.SEAT,
+        },
+        seatNo: { type: String },
+        seatClass: { type: String, enum: Object.values(SeatClass) },
+        position: { type: String, enum: Object.values(SeatPosition) },
+        nearDriver: { type: Boolean, default: false },
+      },
+    ],
+    default: [],
+  })
+  cells: LayoutCell[];
+}
+
+export const BusLayoutSchema = SchemaFactory.createForClass(BusLayout);
@@ -3,6 +3,7 @@ import { Document } from 'mongoose';
 import { BusStatus } from '../enums/bus-status.enum';
 import { BusType } from '../enums/bus-type.enum';
 import { Seat } from '../../seat/entities/seat.entity';
+import { BusLayout, BusLayoutSchema } from './bus-layout.entity';
 import * as mongoose from 'mongoose';
 
 export type BusDocument = Bus & Document;
@@ -37,8 +38,25 @@ export class Bus {
   })
   seats: mongoose.Types.ObjectId[];
 
+  @Prop({ type: BusLayoutSchema, default: null })
+  layout?: BusLayout | null; // Null với xe tạo trước khi có sơ đồ ghế
+
+  @Prop({
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'BusLayoutTemplate',
+    default: null,
+  })
+  layoutTemplateId?: mongoose.Types.ObjectId | null;
+
+  @Prop({
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'CrewMember',
+    default: null,
+  })
+  driverId?: mongoose.Types.ObjectId | null; // Tài xế chính của xe
+
   @Prop()
-  driverName: string;
+  driverName: string; // Theo tên của driverId khi có, xe cũ chỉ có tên
 
   @Prop({ enum: BusStatus, default: BusStatus.AVAILABLE })
   status: BusStatus;
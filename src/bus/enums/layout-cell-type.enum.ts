@@ -0,0 +1,5 @@
+export enum LayoutCellType {
+  SEAT = 'SEAT',
+  DRIVER = 'DRIVER',
+  BLOCKED = 'BLOCKED',
+}
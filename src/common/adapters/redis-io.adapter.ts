@@ -0,0 +1,45 @@
+import { INestApplicationContext, Logger } from '@nestjs/common';
+import { IoAdapter } from '@nestjs/platform-socket.io';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { Server, ServerOptions } from 'socket.io';
+import { RedisService } from '../../modules/redis/redis.service';
+
+/**
+ * Socket.IO adapter dùng Redis pub/sub để broadcast giữa nhiều instance API.
+ * `server.to(room).emit(...)` trên một node sẽ tới cả socket đang kết nối ở node khác.
+ */
+export class RedisIoAdapter extends IoAdapter {
+  private readonly logger = new Logger(RedisIoAdapter.name);
+  private adapterConstructor: ReturnType<typeof createAdapter>;
+
+  constructor(
+    app: INestApplicationContext,
+    private readonly redisService: RedisService,
+  ) {
+    super(app);
+  }
+
+  async connectToRedis(): Promise<void> {
+    // Pub/sub needs its own connections, same settings as RedisService
+    const pubClient = this.redisService.duplicate({ lazyConnect: true });
+    const subClient = pubClient.duplicate();
+
+    pubClient.on('error', (error) => {
+      this.logger.error(`Redis pub client error: ${error.message}`);
+    });
+    subClient.on('error', (error) => {
+      this.logger.error(`Redis sub client error: ${error.message}`);
+    });
+
+    await Promise.all([pubClient.connect(), subClient.connect()]);
+
+    this.adapterConstructor = createAdapter(pubClient, subClient);
+    this.logger.log('Socket.IO Redis adapter connected');
+  }
+
+  createIOServer(port: number, options?: ServerOptions): Server {
+    const server = super.createIOServer(port, options) as Server;
+    server.adapter(this.adapterConstructor);
+    return server;
+  }
+}
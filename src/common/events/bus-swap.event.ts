@@ -0,0 +1,7 @@
+export class SchedulingBusSwappedEvent {
+    constructor(
+        public readonly schedulingId: string,
+        public readonly oldBusId: string,
+        public readonly newBusId: string,
+    ) { }
+}
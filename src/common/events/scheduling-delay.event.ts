@@ -0,0 +1,10 @@
+export class SchedulingDelayedEvent {
+    constructor(
+        public readonly schedulingId: string,
+        public readonly originalDepartureAt: Date,
+        public readonly expectedDepartureAt: Date,
+        public readonly expectedArrivalAt: Date | null,
+        public readonly delayMinutes: number,
+        public readonly reason?: string,
+    ) { }
+}
@@ -0,0 +1,15 @@
+export class SeatHoldCreatedEvent {
+    constructor(
+        public readonly schedulingId: string,
+        public readonly seatNos: string[],
+        public readonly holdExpiresAt: Date,
+        public readonly userId: string,
+    ) { }
+}
+
+export class SeatHoldReleasedEvent {
+    constructor(
+        public readonly schedulingId: string,
+        public readonly seatNos: string[],
+    ) { }
+}
@@ -3,6 +3,7 @@ import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { faker } from '@faker-js/faker';
 import { Ticket } from '../../ticket/entities/ticket.entity';
+import { PaymentProviderName } from '../../payment-provider/enums/payment-provider.enum';
 import { User } from '../../users/entities/user.entity';
 import { Seat } from '../../seat/entities/seat.entity';
 import { Scheduling } from '../../scheduling/entities/scheduling.entity';
@@ -268,11 +269,8 @@ export class SeederDashboardService {
 
                     // For SUCCESS tickets, add payment details
                     if (status === 'SUCCESS') {
+                        ticket.paymentProvider = faker.helpers.arrayElement(Object.values(PaymentProviderName));
                         ticket.transactionId = `TXN${faker.string.numeric(10)}`;
-                        ticket.vnpayTransactionNo = faker.string.numeric(13);
-                        ticket.bankCode = faker.helpers.arrayElement(['NCB', 'VIETCOMBANK', 'TECHCOMBANK', 'MBBANK']);
-                        ticket.responseCode = '00';
-                        ticket.responseMessage = 'Giao dịch thành công';
                         ticket.paidAt = createdAt;
                     }
 
@@ -0,0 +1,44 @@
+import {
+  BOOKING_CODE_ALPHABET,
+  BOOKING_CODE_PATTERN,
+  generateBookingCode,
+  isBookingCodeConflict,
+  normalizeBookingCode,
+} from './booking-code.util';
+
+describe('booking code utils', () => {
+  it('should generate 6-character codes without ambiguous characters', () => {
+    for (let i = 0; i < 50; i++) {
+      const code = generateBookingCode();
+      expect(code).toMatch(BOOKING_CODE_PATTERN);
+      expect(code).not.toMatch(/[01ILO]/);
+    }
+  });
+
+  it('should leave out look-alike characters from the alphabet', () => {
+    expect(BOOKING_CODE_ALPHABET).not.toMatch(/[01ILO]/);
+    expect(new Set(BOOKING_CODE_ALPHABET).size).toBe(
+      BOOKING_CODE_ALPHABET.length,
+    );
+  });
+
+  it('should normalize codes typed by customers', () => {
+    expect(normalizeBookingCode(' k7m-x3q ')).toBe('K7MX3Q');
+    expect(normalizeBookingCode('')).toBe('');
+  });
+
+  it('should tell a booking code collision from other duplicate keys', () => {
+    const duplicate = (index: string) =>
+      Object.assign(
+        new Error(
+          `E11000 duplicate key error collection: db.tickets index: ${index} dup key`,
+        ),
+        { code: 11000 },
+      );
+
+    expect(isBookingCodeConflict(duplicate('bookingCode_1'))).toBe(true);
+    expect(isBookingCodeConflict(duplicate('_id_'))).toBe(false);
+    expect(isBookingCodeConflict(new Error('bookingCode'))).toBe(false);
+    expect(isBookingCodeConflict(null)).toBe(false);
+  });
+});
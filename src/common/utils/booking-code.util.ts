@@ -0,0 +1,45 @@
+import { randomInt } from 'crypto';
+
+/**
+ * Letters and digits that cannot be misread over the phone or on paper
+ * (no 0/O, 1/I/L)
+ */
+export const BOOKING_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export const BOOKING_CODE_LENGTH = 6;
+
+export const BOOKING_CODE_PATTERN = new RegExp(
+  `^[${BOOKING_CODE_ALPHABET}]{${BOOKING_CODE_LENGTH}}$`,
+);
+
+/**
+ * Random booking reference (PNR)
+ * Example: "K7MX3Q"
+ */
+export function generateBookingCode(): string {
+  let code = '';
+  for (let i = 0; i < BOOKING_CODE_LENGTH; i++) {
+    code += BOOKING_CODE_ALPHABET[randomInt(BOOKING_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Normalize a code typed by a customer: "k7m-x3q " -> "K7MX3Q"
+ */
+export function normalizeBookingCode(code: string): string {
+  if (!code) return '';
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Duplicate key error raised by a booking code unique index, i.e. another
+ * insert took the same code after it was checked
+ */
+export function isBookingCodeConflict(error: unknown): boolean {
+  const { code, message } = (error ?? {}) as {
+    code?: number;
+    message?: string;
+  };
+  return code === 11000 && !!message?.includes('bookingCode');
+}
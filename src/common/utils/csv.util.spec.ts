@@ -0,0 +1,33 @@
+import { parseCsv } from './csv.util';
+
+describe('parseCsv', () => {
+  it('should map rows to header keys', () => {
+    expect(parseCsv('orderId,amount\nA1,225000\nA2,150000')).toEqual([
+      { orderId: 'A1', amount: '225000' },
+      { orderId: 'A2', amount: '150000' },
+    ]);
+  });
+
+  it('should handle quoted fields with delimiters and escaped quotes', () => {
+    expect(parseCsv('name,note\n"Nguyen, Van A","say ""hi"""')).toEqual([
+      { name: 'Nguyen, Van A', note: 'say "hi"' },
+    ]);
+  });
+
+  it('should handle CRLF, BOM and blank lines', () => {
+    expect(parseCsv('\uFEFFid,amount\r\n1,100\r\n\r\n2,200\r\n')).toEqual([
+      { id: '1', amount: '100' },
+      { id: '2', amount: '200' },
+    ]);
+  });
+
+  it('should support a custom delimiter', () => {
+    expect(parseCsv('id;amount\n1;100', ';')).toEqual([
+      { id: '1', amount: '100' },
+    ]);
+  });
+
+  it('should return empty array for empty content', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
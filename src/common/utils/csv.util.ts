@@ -0,0 +1,60 @@
+/**
+ * Parse CSV text into rows keyed by header
+ * Supports quoted fields ("a, b"), escaped quotes ("") and CRLF line endings
+ * Example: 'id,amount\n1,"10,000"' -> [{ id: '1', amount: '10,000' }]
+ */
+export function parseCsv(
+  content: string,
+  delimiter = ',',
+): Record<string, string>[] {
+  const text = content.replace(/^\uFEFF/, ''); // Excel UTF-8 BOM
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((cells) =>
+    cells.some((cell) => cell.trim() !== ''),
+  );
+  if (!header) return [];
+
+  const keys = header.map((key) => key.trim());
+  return records.map((cells) =>
+    Object.fromEntries(
+      keys.map((key, index) => [key, (cells[index] ?? '').trim()]),
+    ),
+  );
+}
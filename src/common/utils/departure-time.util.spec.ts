@@ -0,0 +1,19 @@
+import { getDepartureAt } from './departure-time.util';
+
+describe('getDepartureAt', () => {
+  const departureDate = new Date('2026-03-10T00:00:00');
+
+  it('should combine the departure day with etd', () => {
+    expect(getDepartureAt({ departureDate, etd: '14:30' })).toEqual(
+      new Date('2026-03-10T14:30:00'),
+    );
+  });
+
+  it('should use the rescheduled time of a delayed trip', () => {
+    const expectedDepartureAt = new Date('2026-03-10T17:15:00');
+
+    expect(
+      getDepartureAt({ departureDate, etd: '14:30', expectedDepartureAt }),
+    ).toEqual(expectedDepartureAt);
+  });
+});
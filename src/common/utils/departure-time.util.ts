@@ -0,0 +1,20 @@
+import type { Scheduling } from '../../scheduling/entities/scheduling.entity';
+
+export type ScheduledDeparture = Pick<
+  Scheduling,
+  'departureDate' | 'etd' | 'expectedDepartureAt'
+>;
+
+/**
+ * Departure time of a trip (the rescheduled one if the trip is delayed).
+ * departureDate only holds the day; the time of day is in etd ("HH:mm").
+ */
+export function getDepartureAt(scheduling: ScheduledDeparture): Date {
+  if (scheduling.expectedDepartureAt) {
+    return new Date(scheduling.expectedDepartureAt);
+  }
+  const [hours, minutes] = scheduling.etd.split(':').map(Number);
+  const departureAt = new Date(scheduling.departureDate);
+  departureAt.setHours(hours, minutes, 0, 0);
+  return departureAt;
+}
@@ -0,0 +1,107 @@
+import {
+  calculateSegmentFare,
+  getSegmentDistance,
+  getSegmentLegs,
+  isFullRoute,
+  resolveRouteSegment,
+} from './route-segment.util';
+
+describe('route segment utils', () => {
+  const stations = ['saigon', 'baoloc', 'dalat'];
+
+  describe('resolveRouteSegment', () => {
+    it('should default to the whole route', () => {
+      expect(resolveRouteSegment(stations)).toEqual({
+        fromStopIndex: 0,
+        toStopIndex: 2,
+      });
+    });
+
+    it('should resolve intermediate stations', () => {
+      expect(resolveRouteSegment(stations, 'baoloc')).toEqual({
+        fromStopIndex: 1,
+        toStopIndex: 2,
+      });
+      expect(resolveRouteSegment(stations, undefined, 'baoloc')).toEqual({
+        fromStopIndex: 0,
+        toStopIndex: 1,
+      });
+    });
+
+    it('should reject unknown stations and reversed segments', () => {
+      expect(resolveRouteSegment(stations, 'nhatrang')).toBeNull();
+      expect(resolveRouteSegment(stations, 'dalat', 'saigon')).toBeNull();
+      expect(resolveRouteSegment(stations, 'baoloc', 'baoloc')).toBeNull();
+    });
+  });
+
+  it('should list the legs of a segment', () => {
+    expect(getSegmentLegs({ fromStopIndex: 0, toStopIndex: 2 })).toEqual([
+      0, 1,
+    ]);
+    expect(getSegmentLegs({ fromStopIndex: 1, toStopIndex: 2 })).toEqual([1]);
+  });
+
+  it('should detect the whole route', () => {
+    expect(isFullRoute({ fromStopIndex: 0, toStopIndex: 2 }, 3)).toBe(true);
+    expect(isFullRoute({ fromStopIndex: 1, toStopIndex: 2 }, 3)).toBe(false);
+  });
+
+  describe('getSegmentDistance', () => {
+    const segment = { fromStopIndex: 1, toStopIndex: 2 };
+
+    it('should sum known leg distances', () => {
+      expect(
+        getSegmentDistance(
+          { distance: 300, legDistances: [190, 110] },
+          segment,
+          3,
+        ),
+      ).toBe(110);
+    });
+
+    it('should split evenly without leg distances or coordinates', () => {
+      expect(getSegmentDistance({ distance: 300 }, segment, 3)).toBe(150);
+    });
+
+    it('should split by straight-line distance between stops', () => {
+      const distance = getSegmentDistance(
+        {
+          distance: 300,
+          stopCoordinates: [
+            [106.0, 10.0],
+            [106.0, 11.0],
+            [106.0, 11.5],
+          ],
+        },
+        segment,
+        3,
+      );
+      expect(distance).toBe(100);
+    });
+  });
+
+  describe('calculateSegmentFare', () => {
+    it('should use route pricing rules', () => {
+      expect(
+        calculateSegmentFare(300000, 300, 110, {
+          basePrice: 50000,
+          pricePerKm: 1000,
+        }),
+      ).toBe(160000);
+    });
+
+    it('should never exceed the trip price', () => {
+      expect(
+        calculateSegmentFare(300000, 300, 290, {
+          basePrice: 50000,
+          pricePerKm: 1000,
+        }),
+      ).toBe(300000);
+    });
+
+    it('should prorate the trip price without pricing rules', () => {
+      expect(calculateSegmentFare(300000, 300, 110, {})).toBe(110000);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * A part of a multi-stop route, by position in Route.stationIds
+ * Leg i runs from stop i to stop i + 1
+ */
+export interface RouteSegment {
+  fromStopIndex: number;
+  toStopIndex: number;
+}
+
+export interface RouteDistanceInfo {
+  distance: number; // Route length (km)
+  legDistances?: number[]; // Length of each leg (km), when known for every leg
+  stopCoordinates?: Array<[number, number] | null>; // [longitude, latitude]
+}
+
+export interface RoutePricing {
+  basePrice?: number;
+  pricePerKm?: number;
+}
+
+/**
+ * Resolve boarding/alighting stations to stop indexes on an ordered route.
+ * Omitted stations default to the first/last stop.
+ * Returns null when a station is not on the route or alighting is not after boarding.
+ */
+export function resolveRouteSegment(
+  stationIds: Array<{ toString(): string }>,
+  boardingStationId?: string | null,
+  alightingStationId?: string | null,
+): RouteSegment | null {
+  const stops = stationIds.map(String);
+  if (stops.length < 2) return null;
+
+  const fromStopIndex = boardingStationId
+    ? stops.indexOf(boardingStationId)
+    : 0;
+  const toStopIndex = alightingStationId
+    ? stops.lastIndexOf(alightingStationId)
+    : stops.length - 1;
+
+  if (fromStopIndex < 0 || toStopIndex < 0 || toStopIndex <= fromStopIndex) {
+    return null;
+  }
+
+  return { fromStopIndex, toStopIndex };
+}
+
+/**
+ * Legs covered by a segment
+ * Example: stops 1 → 3 -> legs [1, 2]
+ */
+export function getSegmentLegs(segment: RouteSegment): number[] {
+  const legs: number[] = [];
+  for (let leg = segment.fromStopIndex; leg < segment.toStopIndex; leg++) {
+    legs.push(leg);
+  }
+  return legs;
+}
+
+export function isFullRoute(segment: RouteSegment, stopCount: number): boolean {
+  return segment.fromStopIndex === 0 && segment.toStopIndex === stopCount - 1;
+}
+
+/**
+ * Segment length (km). Uses the per-leg distances when every leg is known,
+ * otherwise splits the route distance by straight-line distance between
+ * stops, or evenly when stops have no coordinates.
+ */
+export function getSegmentDistance(
+  route: RouteDistanceInfo,
+  segment: RouteSegment,
+  stopCount: number,
+): number {
+  const legCount = stopCount - 1;
+  const legs = getSegmentLegs(segment);
+
+  if (route.legDistances?.length === legCount) {
+    return round(legs.reduce((sum, leg) => sum + route.legDistances![leg], 0));
+  }
+
+  const coordinates = route.stopCoordinates;
+  if (coordinates?.length === stopCount && coordinates.every(Boolean)) {
+    const straight = Array.from({ length: legCount }, (_, leg) =>
+      haversineKm(coordinates[leg]!, coordinates[leg + 1]!),
+    );
+    const total = straight.reduce((sum, value) => sum + value, 0);
+    if (total > 0) {
+      const share = legs.reduce((sum, leg) => sum + straight[leg], 0) / total;
+      return round(route.distance * share);
+    }
+  }
+
+  return round((route.distance * legs.length) / legCount);
+}
+
+/**
+ * Base fare of a segment: basePrice + pricePerKm × distance when the route
+ * has pricing rules, otherwise the trip price prorated by distance.
+ * Never more than the full trip price.
+ */
+export function calculateSegmentFare(
+  tripPrice: number,
+  routeDistance: number,
+  segmentDistance: number,
+  pricing: RoutePricing,
+): number {
+  const hasPricing = !!pricing.basePrice || !!pricing.pricePerKm;
+  const fare = hasPricing
+    ? (pricing.basePrice ?? 0) + (pricing.pricePerKm ?? 0) * segmentDistance
+    : routeDistance > 0
+      ? (tripPrice * segmentDistance) / routeDistance
+      : tripPrice;
+
+  return Math.round(Math.min(fare, tripPrice));
+}
+
+function haversineKm(
+  [lng1, lat1]: [number, number],
+  [lng2, lat2]: [number, number],
+): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function round(km: number): number {
+  return Math.round(km * 10) / 10;
+}
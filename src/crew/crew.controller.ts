@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { CrewService } from './crew.service';
+import { CreateCrewMemberDto } from './dto/create-crew-member.dto';
+import { UpdateCrewMemberDto } from './dto/update-crew-member.dto';
+import { CrewRole } from './enums/crew-role.enum';
+import { CrewStatus } from './enums/crew-status.enum';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+
+@ApiTags('Crew')
+@Controller('crew')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class CrewController {
+  constructor(private readonly crewService: CrewService) {}
+
+  @Get()
+  @Roles(UserRole.ADMIN, UserRole.SELLER)
+  @ApiOperation({ summary: 'List drivers and conductors' })
+  @ApiQuery({ name: 'role', required: false, enum: CrewRole })
+  @ApiQuery({ name: 'status', required: false, enum: CrewStatus })
+  findAll(
+    @Query('role') role?: CrewRole,
+    @Query('status') status?: CrewStatus,
+  ) {
+    return this.crewService.findAll(role, status);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.ADMIN, UserRole.SELLER)
+  @ApiOperation({ summary: 'Get a crew member' })
+  @ApiParam({ name: 'id', description: 'Crew member ID' })
+  findOne(@Param('id') id: string) {
+    return this.crewService.findOne(id);
+  }
+
+  @Get(':id/assignments')
+  @Roles(UserRole.ADMIN, UserRole.SELLER)
+  @ApiOperation({ summary: 'Trips a crew member is assigned to' })
+  @ApiParam({ name: 'id', description: 'Crew member ID' })
+  @ApiQuery({ name: 'from', required: false, example: '2025-01-01' })
+  @ApiQuery({ name: 'to', required: false, example: '2025-01-31' })
+  findAssignments(
+    @Param('id') id: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+  ) {
+    return this.crewService.findAssignments(id, from, to);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a crew member (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Crew member created' })
+  @ApiResponse({ status: 409, description: 'Phone already registered' })
+  create(@Body() dto: CreateCrewMemberDto) {
+    return this.crewService.create(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a crew member (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Crew member ID' })
+  update(@Param('id') id: string, @Body() dto: UpdateCrewMemberDto) {
+    return this.crewService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a crew member (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Crew member ID' })
+  @ApiResponse({ status: 409, description: 'Still assigned to upcoming trips' })
+  remove(@Param('id') id: string) {
+    return this.crewService.remove(id);
+  }
+}
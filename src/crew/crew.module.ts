@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { CrewService } from './crew.service';
+import { CrewController } from './crew.controller';
+import { CrewMember, CrewMemberSchema } from './entities/crew-member.entity';
+import {
+  Scheduling,
+  SchedulingSchema,
+} from '../scheduling/entities/scheduling.entity';
+import { Bus, BusSchema } from '../bus/entities/bus.entity';
+import { AuthModule } from '../auth/auth.module';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: CrewMember.name, schema: CrewMemberSchema },
+      { name: Scheduling.name, schema: SchedulingSchema },
+      { name: Bus.name, schema: BusSchema },
+    ]),
+    AuthModule,
+  ],
+  providers: [CrewService, JwtAuthGuard],
+  controllers: [CrewController],
+  exports: [CrewService],
+})
+export class CrewModule {}
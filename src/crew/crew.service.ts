@@ -0,0 +1,153 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { CrewMember, CrewMemberDocument } from './entities/crew-member.entity';
+import { CreateCrewMemberDto } from './dto/create-crew-member.dto';
+import { UpdateCrewMemberDto } from './dto/update-crew-member.dto';
+import { CrewRole } from './enums/crew-role.enum';
+import { CrewStatus } from './enums/crew-status.enum';
+import {
+  Scheduling,
+  SchedulingDocument,
+} from '../scheduling/entities/scheduling.entity';
+import { Bus, BusDocument } from '../bus/entities/bus.entity';
+
+@Injectable()
+export class CrewService {
+  constructor(
+    @InjectModel(CrewMember.name)
+    private crewMemberModel: Model<CrewMemberDocument>,
+    @InjectModel(Scheduling.name)
+    private schedulingModel: Model<SchedulingDocument>,
+    @InjectModel(Bus.name) private busModel: Model<BusDocument>,
+  ) {}
+
+  async findAll(role?: CrewRole, status?: CrewStatus) {
+    const filter: Record<string, unknown> = {};
+    if (role) filter.role = role;
+    if (status) filter.status = status;
+
+    return this.crewMemberModel.find(filter).sort({ fullName: 1 }).exec();
+  }
+
+  async findOne(id: string) {
+    const member = await this.crewMemberModel.findById(id).exec();
+    if (!member) throw new NotFoundException('Crew member not found');
+    return member;
+  }
+
+  async create(dto: CreateCrewMemberDto) {
+    this.validate(dto);
+    await this.ensureUniquePhone(dto.phone);
+
+    return this.crewMemberModel.create({
+      ...dto,
+      licenseExpiry: dto.licenseExpiry
+        ? new Date(dto.licenseExpiry)
+        : undefined,
+    });
+  }
+
+  async update(id: string, dto: UpdateCrewMemberDto) {
+    const member = await this.findOne(id);
+
+    if (dto.phone && dto.phone !== member.phone) {
+      await this.ensureUniquePhone(dto.phone);
+    }
+
+    const { licenseExpiry, ...fields } = dto;
+    Object.assign(member, fields);
+    if (licenseExpiry !== undefined) {
+      member.licenseExpiry = new Date(licenseExpiry);
+    }
+
+    this.validate(member);
+    return member.save();
+  }
+
+  /**
+   * Crew members still assigned to upcoming trips cannot be deleted;
+   * set status INACTIVE or reassign those trips first. Buses they were
+   * the regular driver of keep only the driver name.
+   */
+  async remove(id: string) {
+    await this.findOne(id);
+
+    const upcoming = await this.schedulingModel
+      .countDocuments({
+        ...this.assignedTo(id),
+        status: { $in: ['scheduled', 'delayed', 'in-progress'] },
+        isDeleted: false,
+      })
+      .exec();
+    if (upcoming > 0) {
+      throw new ConflictException(
+        `Crew member is assigned to ${upcoming} upcoming trip(s), reassign them first`,
+      );
+    }
+
+    await this.busModel.updateMany(
+      { driverId: new Types.ObjectId(id) },
+      { $set: { driverId: null } },
+    );
+    await this.crewMemberModel.deleteOne({ _id: new Types.ObjectId(id) });
+    return { message: 'Crew member removed' };
+  }
+
+  /**
+   * Trips a crew member is assigned to, by departure date
+   */
+  async findAssignments(id: string, from?: string, to?: string) {
+    await this.findOne(id);
+
+    const filter: Record<string, unknown> = {
+      ...this.assignedTo(id),
+      status: { $ne: 'cancelled' },
+      isDeleted: false,
+    };
+    if (from || to) {
+      const departureDate: Record<string, Date> = {};
+      if (from) departureDate.$gte = new Date(from);
+      if (to) departureDate.$lte = new Date(to);
+      filter.departureDate = departureDate;
+    }
+
+    return this.schedulingModel
+      .find(filter)
+      .select(
+        'routeId busId departureDate etd eta arrivalDate status driverId conductorIds',
+      )
+      .populate('routeId', 'name')
+      .populate('busId', 'plateNo busNo')
+      .sort({ departureDate: 1, etd: 1 })
+      .exec();
+  }
+
+  private assignedTo(id: string) {
+    const memberId = new Types.ObjectId(id);
+    return { $or: [{ driverId: memberId }, { conductorIds: memberId }] };
+  }
+
+  private async ensureUniquePhone(phone: string) {
+    const existing = await this.crewMemberModel.exists({ phone });
+    if (existing) {
+      throw new ConflictException(
+        'A crew member with this phone already exists',
+      );
+    }
+  }
+
+  /**
+   * Drivers must carry a license number
+   */
+  private validate(dto: Partial<CrewMember> | CreateCrewMemberDto) {
+    if (dto.role === CrewRole.DRIVER && !dto.licenseNumber) {
+      throw new BadRequestException('Drivers must have a license number');
+    }
+  }
+}
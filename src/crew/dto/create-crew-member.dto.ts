@@ -0,0 +1,52 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { CrewRole } from '../enums/crew-role.enum';
+import { CrewStatus } from '../enums/crew-status.enum';
+
+export class CreateCrewMemberDto {
+  @ApiProperty({ example: 'Nguyễn Văn A' })
+  @IsString()
+  fullName: string;
+
+  @ApiProperty({ enum: CrewRole })
+  @IsEnum(CrewRole)
+  role: CrewRole;
+
+  @ApiProperty({ example: '0912345678' })
+  @Matches(/^(\+84|84|0)[3|5|7|8|9][0-9]{8}$/, {
+    message: 'phone must be a valid Vietnamese phone number',
+  })
+  phone: string;
+
+  @ApiPropertyOptional({
+    description: 'Driving license number (required for drivers)',
+    example: 'B123456789',
+  })
+  @IsOptional()
+  @IsString()
+  licenseNumber?: string;
+
+  @ApiPropertyOptional({
+    description: 'Driving license expiry date',
+    example: '2028-12-31',
+  })
+  @IsOptional()
+  @IsDateString()
+  licenseExpiry?: string;
+
+  @ApiPropertyOptional({ enum: CrewStatus, default: CrewStatus.ACTIVE })
+  @IsOptional()
+  @IsEnum(CrewStatus)
+  status?: CrewStatus;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
@@ -0,0 +1,48 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { CrewRole } from '../enums/crew-role.enum';
+import { CrewStatus } from '../enums/crew-status.enum';
+
+export type CrewMemberDocument = CrewMember & Document;
+
+/**
+ * Tài xế / phụ xe của nhà xe. Lịch trình tham chiếu tới crew member qua
+ * driverId / conductorIds để kiểm tra trùng lịch và giới hạn giờ lái.
+ */
+@Schema({ timestamps: true, collection: 'crew_members' })
+export class CrewMember {
+  @Prop({ required: true, trim: true })
+  fullName: string;
+
+  @Prop({ type: String, enum: Object.values(CrewRole), required: true })
+  role: CrewRole;
+
+  @Prop({ required: true, match: /^(\+84|84|0)[3|5|7|8|9][0-9]{8}$/ })
+  phone: string;
+
+  @Prop({ type: String, trim: true })
+  licenseNumber?: string; // Bắt buộc với tài xế
+
+  @Prop({ type: Date })
+  licenseExpiry?: Date;
+
+  @Prop({
+    type: String,
+    enum: Object.values(CrewStatus),
+    default: CrewStatus.ACTIVE,
+  })
+  status: CrewStatus;
+
+  @Prop({ type: String })
+  note?: string;
+
+  readonly createdAt?: Date;
+
+  readonly updatedAt?: Date;
+}
+
+export const CrewMemberSchema = SchemaFactory.createForClass(CrewMember);
+
+// Indexes
+CrewMemberSchema.index({ phone: 1 }, { unique: true });
+CrewMemberSchema.index({ role: 1, status: 1 });
@@ -0,0 +1,4 @@
+export enum CrewRole {
+  DRIVER = 'DRIVER', // Tài xế
+  CONDUCTOR = 'CONDUCTOR', // Phụ xe
+}
@@ -0,0 +1,5 @@
+export enum CrewStatus {
+  ACTIVE = 'ACTIVE',
+  ON_LEAVE = 'ON_LEAVE', // Nghỉ phép, không phân công
+  INACTIVE = 'INACTIVE', // Đã nghỉ việc
+}
@@ -0,0 +1,75 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SeatClass } from '../../seat/enums/seat-class.enum';
+import { SeatPosition } from '../../seat/enums/seat-position.enum';
+
+export class CreateFareModifierDto {
+  @ApiProperty({ example: 'Phụ thu giường tầng dưới' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Only apply on this route (omit for every route)',
+  })
+  @IsOptional()
+  @IsMongoId()
+  routeId?: string;
+
+  @ApiPropertyOptional({ enum: SeatClass })
+  @IsOptional()
+  @IsEnum(SeatClass)
+  seatClass?: SeatClass;
+
+  @ApiPropertyOptional({ enum: SeatPosition })
+  @IsOptional()
+  @IsEnum(SeatPosition)
+  position?: SeatPosition;
+
+  @ApiPropertyOptional({ description: 'Deck number (1 = lower)', example: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  deck?: number;
+
+  @ApiPropertyOptional({ description: 'Match front seats next to the driver' })
+  @IsOptional()
+  @IsBoolean()
+  nearDriver?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Percentage of the scheduling price (negative = discount)',
+    example: 10,
+    minimum: -100,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(-100)
+  percent?: number;
+
+  @ApiPropertyOptional({
+    description: 'Fixed amount in VND (negative = discount)',
+    example: 20000,
+  })
+  @IsOptional()
+  @IsNumber()
+  amount?: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateFareModifierDto } from './create-fare-modifier.dto';
+
+export class UpdateFareModifierDto extends PartialType(CreateFareModifierDto) {}
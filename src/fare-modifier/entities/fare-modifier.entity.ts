@@ -0,0 +1,68 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { SeatClass } from '../../seat/enums/seat-class.enum';
+import { SeatPosition } from '../../seat/enums/seat-position.enum';
+
+export type FareModifierDocument = FareModifier & Document;
+
+export interface AppliedFareModifier {
+  modifierId: string;
+  name: string;
+  percent: number;
+  amount: number;
+  value: number; // Số tiền thực cộng thêm (âm = giảm)
+}
+
+/**
+ * Phụ thu / giảm giá theo hạng ghế hoặc vị trí ghế trên sơ đồ xe.
+ * Ghế khớp khi thỏa mọi tiêu chí được khai báo (seatClass, position, deck, nearDriver).
+ * Giá ghế = giá chuyến + Σ (giá chuyến × percent / 100 + amount) của các modifier khớp.
+ * routeId = null áp dụng cho mọi tuyến.
+ */
+@Schema({ timestamps: true, collection: 'fare_modifiers' })
+export class FareModifier {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Route', default: null })
+  routeId: Types.ObjectId | null;
+
+  // ============================================
+  // MATCH CRITERIA
+  // ============================================
+  @Prop({ type: String, enum: Object.values(SeatClass) })
+  seatClass?: SeatClass;
+
+  @Prop({ type: String, enum: Object.values(SeatPosition) })
+  position?: SeatPosition;
+
+  @Prop({ type: Number, min: 1 })
+  deck?: number; // 1 = tầng dưới
+
+  @Prop({ type: Boolean })
+  nearDriver?: boolean; // Ghế đầu xe
+
+  // ============================================
+  // ADJUSTMENT
+  // ============================================
+  @Prop({ type: Number, default: 0, min: -100 })
+  percent: number; // % so với giá chuyến, âm = giảm giá
+
+  @Prop({ type: Number, default: 0 })
+  amount: number; // Cộng thêm cố định (VND), âm = giảm giá
+
+  @Prop({ type: Boolean, default: true })
+  isActive: boolean;
+
+  @Prop({ type: String })
+  description?: string;
+
+  readonly createdAt?: Date;
+
+  readonly updatedAt?: Date;
+}
+
+export const FareModifierSchema = SchemaFactory.createForClass(FareModifier);
+
+// Indexes
+FareModifierSchema.index({ isActive: 1, routeId: 1 });
@@ -0,0 +1,73 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { FareModifierService } from './fare-modifier.service';
+import { CreateFareModifierDto } from './dto/create-fare-modifier.dto';
+import { UpdateFareModifierDto } from './dto/update-fare-modifier.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+
+@ApiTags('Fare Modifiers')
+@Controller('fare-modifiers')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class FareModifierController {
+  constructor(private readonly fareModifierService: FareModifierService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List seat fare modifiers (Admin only)',
+    description: 'With routeId, lists the modifiers that apply on that route',
+  })
+  @ApiQuery({ name: 'routeId', required: false })
+  findAll(@Query('routeId') routeId?: string) {
+    return this.fareModifierService.findAll(routeId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a seat fare modifier (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Fare modifier ID' })
+  findOne(@Param('id') id: string) {
+    return this.fareModifierService.findOne(id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a seat fare modifier (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Fare modifier created' })
+  create(@Body() dto: CreateFareModifierDto) {
+    return this.fareModifierService.create(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a seat fare modifier (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Fare modifier ID' })
+  update(@Param('id') id: string, @Body() dto: UpdateFareModifierDto) {
+    return this.fareModifierService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a seat fare modifier (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Fare modifier ID' })
+  remove(@Param('id') id: string) {
+    return this.fareModifierService.remove(id);
+  }
+}
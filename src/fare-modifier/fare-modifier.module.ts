@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { FareModifierService } from './fare-modifier.service';
+import { FareModifierController } from './fare-modifier.controller';
+import {
+  FareModifier,
+  FareModifierSchema,
+} from './entities/fare-modifier.entity';
+import { AuthModule } from '../auth/auth.module';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: FareModifier.name, schema: FareModifierSchema },
+    ]),
+    AuthModule,
+  ],
+  providers: [FareModifierService, JwtAuthGuard],
+  controllers: [FareModifierController],
+  exports: [FareModifierService],
+})
+export class FareModifierModule {}
@@ -0,0 +1,144 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { FareModifierService } from './fare-modifier.service';
+import { FareModifier } from './entities/fare-modifier.entity';
+import { CreateFareModifierDto } from './dto/create-fare-modifier.dto';
+import { SeatClass } from '../seat/enums/seat-class.enum';
+import { SeatPosition } from '../seat/enums/seat-position.enum';
+
+describe('FareModifierService', () => {
+  let service: FareModifierService;
+
+  // Active modifiers returned by the next lookup
+  let active: Array<Partial<FareModifier> & { _id: Types.ObjectId }>;
+
+  const fareModifierModel = {
+    find: jest.fn(() => ({
+      sort: () => ({ exec: () => Promise.resolve(active) }),
+    })),
+    create: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    active = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FareModifierService,
+        {
+          provide: getModelToken(FareModifier.name),
+          useValue: fareModifierModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<FareModifierService>(FareModifierService);
+  });
+
+  it('should price a seat without a seat class as a standard seat', async () => {
+    active = [
+      {
+        _id: new Types.ObjectId(),
+        name: 'Ghế thường tầng trên',
+        seatClass: SeatClass.STANDARD,
+        deck: 2,
+        percent: 0,
+        amount: -20000,
+      },
+    ];
+
+    const [legacy, vip] = await service.calculateSeatFares(250000, [
+      { deck: 2 },
+      { deck: 2, seatClass: SeatClass.VIP },
+    ]);
+
+    expect(legacy.seatPrice).toBe(230000);
+    expect(vip.seatPrice).toBe(250000);
+  });
+
+  it('should tell seats away from the driver apart from any seat', async () => {
+    active = [
+      {
+        _id: new Types.ObjectId(),
+        name: 'Ghế cuối xe',
+        nearDriver: false,
+        percent: -5,
+        amount: 0,
+      },
+    ];
+
+    const [unmarked, front] = await service.calculateSeatFares(200000, [
+      { position: SeatPosition.AISLE },
+      { position: SeatPosition.AISLE, nearDriver: true },
+    ]);
+
+    expect(unmarked.seatPrice).toBe(190000);
+    expect(front.fareModifiers).toEqual([]);
+  });
+
+  it('should round each modifier value to whole dong', async () => {
+    active = [
+      {
+        _id: new Types.ObjectId(),
+        name: 'Ghế đôi',
+        deck: 1,
+        percent: 7.5,
+        amount: 10000,
+      },
+    ];
+
+    const fare = await service.calculateSeatFare(333333, { deck: 1 });
+
+    // 7,5% × 333.333 + 10.000 = 34.999,975
+    expect(fare.fareModifiers[0].value).toBe(35000);
+    expect(fare.seatPrice).toBe(368333);
+  });
+
+  it('should never price a seat below zero', async () => {
+    active = [
+      {
+        _id: new Types.ObjectId(),
+        name: 'Ghế phụ',
+        position: SeatPosition.MIDDLE,
+        percent: -50,
+        amount: -200000,
+      },
+    ];
+
+    const fare = await service.calculateSeatFare(300000, {
+      position: SeatPosition.MIDDLE,
+    });
+
+    expect(fare.seatSurcharge).toBe(-350000);
+    expect(fare.seatPrice).toBe(0);
+  });
+
+  it('should look up default and route modifiers in one query', async () => {
+    const routeId = new Types.ObjectId();
+
+    await service.calculateSeatFares(
+      200000,
+      [{ deck: 1 }, { deck: 2 }, { deck: 2 }],
+      routeId,
+    );
+
+    expect(fareModifierModel.find).toHaveBeenCalledTimes(1);
+    expect(fareModifierModel.find).toHaveBeenCalledWith({
+      isActive: true,
+      routeId: { $in: [null, routeId] },
+    });
+  });
+
+  it.each([
+    ['targets every seat', { name: 'Toàn xe', percent: 10 }],
+    ['changes nothing', { name: 'Tầng dưới', deck: 1, percent: 0, amount: 0 }],
+  ])('should reject a modifier that %s', async (_, dto) => {
+    await expect(
+      service.create(dto as CreateFareModifierDto),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(fareModifierModel.create).not.toHaveBeenCalled();
+  });
+});
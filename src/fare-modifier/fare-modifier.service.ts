@@ -0,0 +1,194 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  AppliedFareModifier,
+  FareModifier,
+  FareModifierDocument,
+} from './entities/fare-modifier.entity';
+import { CreateFareModifierDto } from './dto/create-fare-modifier.dto';
+import { UpdateFareModifierDto } from './dto/update-fare-modifier.dto';
+import { Seat } from '../seat/entities/seat.entity';
+import { SeatClass } from '../seat/enums/seat-class.enum';
+
+export type FareSeat = Partial<
+  Pick<Seat, 'seatClass' | 'position' | 'deck' | 'nearDriver'>
+>;
+
+export interface SeatFare {
+  basePrice: number; // Giá chuyến (scheduling.price)
+  seatSurcharge: number; // Tổng phụ thu theo ghế
+  seatPrice: number; // Giá ghế trước khuyến mãi
+  fareModifiers: AppliedFareModifier[];
+}
+
+@Injectable()
+export class FareModifierService {
+  constructor(
+    @InjectModel(FareModifier.name)
+    private fareModifierModel: Model<FareModifierDocument>,
+  ) {}
+
+  async findAll(routeId?: string) {
+    const filter = routeId
+      ? { routeId: { $in: [null, new Types.ObjectId(routeId)] } }
+      : {};
+    return this.fareModifierModel
+      .find(filter)
+      .populate('routeId', 'name')
+      .sort({ routeId: 1, name: 1 })
+      .exec();
+  }
+
+  async findOne(id: string) {
+    const modifier = await this.fareModifierModel.findById(id).exec();
+    if (!modifier) throw new NotFoundException('Fare modifier not found');
+    return modifier;
+  }
+
+  async create(dto: CreateFareModifierDto) {
+    this.validate(dto);
+    return this.fareModifierModel.create({
+      ...dto,
+      routeId: dto.routeId ? new Types.ObjectId(dto.routeId) : null,
+    });
+  }
+
+  async update(id: string, dto: UpdateFareModifierDto) {
+    const modifier = await this.findOne(id);
+
+    const { routeId, ...fields } = dto;
+    Object.assign(modifier, fields);
+    if (routeId !== undefined) {
+      modifier.routeId = routeId ? new Types.ObjectId(routeId) : null;
+    }
+
+    this.validate(modifier);
+    return modifier.save();
+  }
+
+  async remove(id: string) {
+    const result = await this.fareModifierModel.deleteOne({
+      _id: new Types.ObjectId(id),
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Fare modifier not found');
+    }
+    return { message: 'Fare modifier removed' };
+  }
+
+  /**
+   * Price a seat on a scheduling (before promotion)
+   */
+  async calculateSeatFare(
+    basePrice: number,
+    seat: FareSeat,
+    routeId?: string | Types.ObjectId | null,
+  ): Promise<SeatFare> {
+    const modifiers = await this.getActiveModifiers(routeId);
+    return this.applyModifiers(basePrice, seat, modifiers);
+  }
+
+  /**
+   * Price several seats of the same scheduling with one lookup
+   */
+  async calculateSeatFares(
+    basePrice: number,
+    seats: FareSeat[],
+    routeId?: string | Types.ObjectId | null,
+  ): Promise<SeatFare[]> {
+    const modifiers = await this.getActiveModifiers(routeId);
+    return seats.map((seat) => this.applyModifiers(basePrice, seat, modifiers));
+  }
+
+  private async getActiveModifiers(
+    routeId?: string | Types.ObjectId | null,
+  ): Promise<FareModifierDocument[]> {
+    const routeIds: Array<Types.ObjectId | null> = [null];
+    if (routeId) routeIds.push(new Types.ObjectId(routeId.toString()));
+
+    return this.fareModifierModel
+      .find({ isActive: true, routeId: { $in: routeIds } })
+      .sort({ createdAt: 1 })
+      .exec();
+  }
+
+  private applyModifiers(
+    basePrice: number,
+    seat: FareSeat,
+    modifiers: FareModifierDocument[],
+  ): SeatFare {
+    const fareModifiers: AppliedFareModifier[] = modifiers
+      .filter((modifier) => this.matches(modifier, seat))
+      .map((modifier) => ({
+        modifierId: (modifier._id as Types.ObjectId).toString(),
+        name: modifier.name,
+        percent: modifier.percent,
+        amount: modifier.amount,
+        value: Math.round(
+          (basePrice * modifier.percent) / 100 + modifier.amount,
+        ),
+      }));
+
+    const seatSurcharge = fareModifiers.reduce(
+      (sum, modifier) => sum + modifier.value,
+      0,
+    );
+
+    return {
+      basePrice,
+      seatSurcharge,
+      // Giảm giá không làm giá ghế âm
+      seatPrice: Math.max(basePrice + seatSurcharge, 0),
+      fareModifiers,
+    };
+  }
+
+  private matches(modifier: FareModifier, seat: FareSeat): boolean {
+    // Ghế tạo trước khi có hạng ghế được coi là STANDARD
+    const seatClass = seat.seatClass ?? SeatClass.STANDARD;
+    if (modifier.seatClass && modifier.seatClass !== seatClass) {
+      return false;
+    }
+    if (modifier.position && modifier.position !== seat.position) {
+      return false;
+    }
+    if (modifier.deck && modifier.deck !== seat.deck) {
+      return false;
+    }
+    if (
+      modifier.nearDriver !== undefined &&
+      modifier.nearDriver !== null &&
+      modifier.nearDriver !== !!seat.nearDriver
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * A modifier must target some seats and change the price
+   */
+  private validate(dto: Partial<FareModifier> | CreateFareModifierDto) {
+    const hasCriteria =
+      !!dto.seatClass ||
+      !!dto.position ||
+      !!dto.deck ||
+      (dto.nearDriver !== undefined && dto.nearDriver !== null);
+    if (!hasCriteria) {
+      throw new BadRequestException(
+        'Fare modifier needs at least one of seatClass, position, deck or nearDriver',
+      );
+    }
+
+    if (!dto.percent && !dto.amount) {
+      throw new BadRequestException(
+        'Fare modifier must set a non-zero percent or amount',
+      );
+    }
+  }
+}
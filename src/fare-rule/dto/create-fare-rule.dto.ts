@@ -0,0 +1,87 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { BusType } from '../../bus/enums/bus-type.enum';
+import { DayType } from '../enums/day-type.enum';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class CreateFareRuleDto {
+  @ApiProperty({ example: 'Phụ thu cuối tuần' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Only apply on this route (omit for every route)',
+  })
+  @IsOptional()
+  @IsMongoId()
+  routeId?: string;
+
+  @ApiPropertyOptional({ enum: BusType })
+  @IsOptional()
+  @IsEnum(BusType)
+  busType?: BusType;
+
+  @ApiPropertyOptional({
+    enum: DayType,
+    description: 'WEEKEND = Saturday and Sunday',
+  })
+  @IsOptional()
+  @IsEnum(DayType)
+  dayType?: DayType;
+
+  @ApiPropertyOptional({
+    description: 'Peak window start, departure time from (HH:mm)',
+    example: '17:00',
+  })
+  @IsOptional()
+  @Matches(TIME_PATTERN, { message: 'peakStart must be HH:mm' })
+  peakStart?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Peak window end, exclusive (HH:mm); before peakStart = overnight',
+    example: '20:00',
+  })
+  @IsOptional()
+  @Matches(TIME_PATTERN, { message: 'peakEnd must be HH:mm' })
+  peakEnd?: string;
+
+  @ApiPropertyOptional({
+    description: 'Multiplier on the route price (1.2 = +20%)',
+    example: 1.2,
+    default: 1,
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  multiplier?: number;
+
+  @ApiPropertyOptional({
+    description: 'Fixed amount in VND (negative = discount)',
+    example: 20000,
+  })
+  @IsOptional()
+  @IsNumber()
+  amount?: number;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
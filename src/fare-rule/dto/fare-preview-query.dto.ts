@@ -0,0 +1,36 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsMongoId,
+  IsOptional,
+  Matches,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { BusType } from '../../bus/enums/bus-type.enum';
+
+export class FarePreviewQueryDto {
+  @ApiProperty({ description: 'Route ID' })
+  @IsMongoId()
+  routeId: string;
+
+  @ApiPropertyOptional({ description: 'Bus ID (its type wins over busType)' })
+  @IsOptional()
+  @IsMongoId()
+  busId?: string;
+
+  @ApiPropertyOptional({ enum: BusType })
+  @IsOptional()
+  @IsEnum(BusType)
+  busType?: BusType;
+
+  @ApiProperty({
+    description: 'Departure date (YYYY-MM-DD)',
+    example: '2025-01-04',
+  })
+  @IsDateString()
+  departureDate: string;
+
+  @ApiProperty({ description: 'Departure time (HH:mm)', example: '18:30' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/, { message: 'etd must be HH:mm' })
+  etd: string;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateFareRuleDto } from './create-fare-rule.dto';
+
+export class UpdateFareRuleDto extends PartialType(CreateFareRuleDto) {}
@@ -0,0 +1,67 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { BusType } from '../../bus/enums/bus-type.enum';
+import { DayType } from '../enums/day-type.enum';
+
+export type FareRuleDocument = FareRule & Document;
+
+export interface AppliedFareRule {
+  ruleId: string;
+  name: string;
+  multiplier: number;
+  amount: number;
+}
+
+/**
+ * Hệ số giá chuyến theo loại xe, ngày trong tuần hoặc giờ cao điểm.
+ * Chuyến khớp khi thỏa mọi tiêu chí được khai báo (busType, dayType, peakStart–peakEnd).
+ * Giá chuyến = (basePrice + pricePerKm × distance của tuyến) × Π multiplier + Σ amount.
+ * routeId = null áp dụng cho mọi tuyến.
+ */
+@Schema({ timestamps: true, collection: 'fare_rules' })
+export class FareRule {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Route', default: null })
+  routeId: Types.ObjectId | null;
+
+  // ============================================
+  // MATCH CRITERIA
+  // ============================================
+  @Prop({ type: String, enum: Object.values(BusType) })
+  busType?: BusType;
+
+  @Prop({ type: String, enum: Object.values(DayType) })
+  dayType?: DayType; // WEEKEND = thứ 7, chủ nhật
+
+  @Prop({ type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/ })
+  peakStart?: string; // HH:mm, giờ khởi hành từ (bao gồm)
+
+  @Prop({ type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/ })
+  peakEnd?: string; // HH:mm, đến (không bao gồm); peakEnd < peakStart = qua đêm
+
+  // ============================================
+  // ADJUSTMENT
+  // ============================================
+  @Prop({ type: Number, default: 1, min: 0 })
+  multiplier: number; // 1.2 = +20%
+
+  @Prop({ type: Number, default: 0 })
+  amount: number; // Cộng thêm cố định (VND), âm = giảm giá
+
+  @Prop({ type: Boolean, default: true })
+  isActive: boolean;
+
+  @Prop({ type: String })
+  description?: string;
+
+  readonly createdAt?: Date;
+
+  readonly updatedAt?: Date;
+}
+
+export const FareRuleSchema = SchemaFactory.createForClass(FareRule);
+
+// Indexes
+FareRuleSchema.index({ isActive: 1, routeId: 1 });
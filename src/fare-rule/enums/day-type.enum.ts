@@ -0,0 +1,4 @@
+export enum DayType {
+  WEEKDAY = 'WEEKDAY',
+  WEEKEND = 'WEEKEND',
+}
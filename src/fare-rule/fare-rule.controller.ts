@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { FareRuleService } from './fare-rule.service';
+import { CreateFareRuleDto } from './dto/create-fare-rule.dto';
+import { UpdateFareRuleDto } from './dto/update-fare-rule.dto';
+import { FarePreviewQueryDto } from './dto/fare-preview-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+
+@ApiTags('Fare Rules')
+@Controller('fare-rules')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class FareRuleController {
+  constructor(private readonly fareRuleService: FareRuleService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List trip fare rules (Admin only)',
+    description: 'With routeId, lists the rules that apply on that route',
+  })
+  @ApiQuery({ name: 'routeId', required: false })
+  findAll(@Query('routeId') routeId?: string) {
+    return this.fareRuleService.findAll(routeId);
+  }
+
+  @Get('preview')
+  @Roles(UserRole.ADMIN, UserRole.SELLER)
+  @ApiOperation({
+    summary: 'Preview the default price of a trip',
+    description:
+      'Route basePrice + pricePerKm × distance, adjusted by the matching fare rules',
+  })
+  @ApiResponse({ status: 200, description: 'Price with the applied rules' })
+  @ApiResponse({ status: 400, description: 'Route has no pricing rules' })
+  preview(@Query() query: FarePreviewQueryDto) {
+    return this.fareRuleService.preview(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a trip fare rule (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Fare rule ID' })
+  findOne(@Param('id') id: string) {
+    return this.fareRuleService.findOne(id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a trip fare rule (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Fare rule created' })
+  create(@Body() dto: CreateFareRuleDto) {
+    return this.fareRuleService.create(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a trip fare rule (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Fare rule ID' })
+  update(@Param('id') id: string, @Body() dto: UpdateFareRuleDto) {
+    return this.fareRuleService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a trip fare rule (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Fare rule ID' })
+  remove(@Param('id') id: string) {
+    return this.fareRuleService.remove(id);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { FareRuleService } from './fare-rule.service';
+import { FareRuleController } from './fare-rule.controller';
+import { FareRule, FareRuleSchema } from './entities/fare-rule.entity';
+import { Route, RouteSchema } from '../route/entities/route.entity';
+import { Bus, BusSchema } from '../bus/entities/bus.entity';
+import { AuthModule } from '../auth/auth.module';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: FareRule.name, schema: FareRuleSchema },
+      { name: Route.name, schema: RouteSchema },
+      { name: Bus.name, schema: BusSchema },
+    ]),
+    AuthModule,
+  ],
+  providers: [FareRuleService, JwtAuthGuard],
+  controllers: [FareRuleController],
+  exports: [FareRuleService],
+})
+export class FareRuleModule {}
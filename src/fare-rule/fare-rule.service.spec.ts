@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { FareRuleService } from './fare-rule.service';
+import { FareRule } from './entities/fare-rule.entity';
+import { DayType } from './enums/day-type.enum';
+import { Route } from '../route/entities/route.entity';
+import { Bus } from '../bus/entities/bus.entity';
+import { BusType } from '../bus/enums/bus-type.enum';
+
+// The Bus schema cannot be built under ts-jest (enum props without an explicit type)
+jest.mock('../bus/entities/bus.entity', () => ({ Bus: class Bus {} }));
+
+describe('FareRuleService', () => {
+  let service: FareRuleService;
+
+  const rule = (fields: Partial<FareRule>) => ({
+    _id: new Types.ObjectId(),
+    multiplier: 1,
+    amount: 0,
+    ...fields,
+  });
+
+  const rules = [
+    rule({ name: 'Xe giường nằm', busType: BusType.SLEEPER, multiplier: 1.2 }),
+    rule({ name: 'Cuối tuần', dayType: DayType.WEEKEND, amount: 30000 }),
+    rule({
+      name: 'Giờ cao điểm tối',
+      peakStart: '17:00',
+      peakEnd: '20:00',
+      multiplier: 1.1,
+    }),
+    rule({
+      name: 'Chuyến đêm',
+      peakStart: '22:00',
+      peakEnd: '05:00',
+      multiplier: 0.9,
+    }),
+  ];
+
+  // 100.000 + 1.000 × 200 km = 300.000
+  const route = {
+    _id: new Types.ObjectId(),
+    basePrice: 100000,
+    pricePerKm: 1000,
+    distance: 200,
+  };
+
+  const find = jest.fn(() => ({
+    sort: () => ({ exec: () => Promise.resolve(rules) }),
+  }));
+
+  beforeEach(async () => {
+    find.mockClear();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FareRuleService,
+        { provide: getModelToken(FareRule.name), useValue: { find } },
+        { provide: getModelToken(Route.name), useValue: {} },
+        { provide: getModelToken(Bus.name), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<FareRuleService>(FareRuleService);
+  });
+
+  it('should price a trip from the route rules when no fare rule matches', async () => {
+    // Wednesday morning, seater
+    const quote = await service.quoteTripPrice(route, {
+      busType: BusType.SEATER,
+      departureDate: '2025-01-08',
+      etd: '08:00',
+    });
+
+    expect(quote).toEqual({ routePrice: 300000, fareRules: [], price: 300000 });
+  });
+
+  it('should multiply then add every matching rule', async () => {
+    // Saturday evening, sleeper: 300.000 × 1.2 × 1.1 + 30.000
+    const quote = await service.quoteTripPrice(route, {
+      busType: BusType.SLEEPER,
+      departureDate: '2025-01-04',
+      etd: '18:30',
+    });
+
+    expect(quote.fareRules.map((item) => item.name)).toEqual([
+      'Xe giường nằm',
+      'Cuối tuần',
+      'Giờ cao điểm tối',
+    ]);
+    expect(quote.price).toBe(426000);
+  });
+
+  it('should match overnight peak windows', async () => {
+    const [late, early, evening] = await service.quoteTripPrices(route, [
+      { departureDate: '2025-01-08', etd: '23:00' },
+      { departureDate: '2025-01-08', etd: '04:59' },
+      { departureDate: '2025-01-08', etd: '21:59' },
+    ]);
+
+    expect(late.price).toBe(270000);
+    expect(early.price).toBe(270000);
+    expect(evening.price).toBe(300000);
+    expect(find).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse routes without pricing rules', async () => {
+    await expect(
+      service.quoteTripPrice(
+        { _id: route._id, distance: 200 },
+        { departureDate: '2025-01-08', etd: '08:00' },
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
@@ -0,0 +1,250 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  AppliedFareRule,
+  FareRule,
+  FareRuleDocument,
+} from './entities/fare-rule.entity';
+import { CreateFareRuleDto } from './dto/create-fare-rule.dto';
+import { UpdateFareRuleDto } from './dto/update-fare-rule.dto';
+import { FarePreviewQueryDto } from './dto/fare-preview-query.dto';
+import { DayType } from './enums/day-type.enum';
+import { Route, RouteDocument } from '../route/entities/route.entity';
+import { Bus, BusDocument } from '../bus/entities/bus.entity';
+import { BusType } from '../bus/enums/bus-type.enum';
+
+export type FareRoute = Pick<Route, 'basePrice' | 'pricePerKm' | 'distance'> & {
+  _id: unknown;
+};
+
+export interface FareTrip {
+  busType?: BusType;
+  departureDate: string | Date;
+  etd: string; // HH:mm
+}
+
+export interface TripFareQuote {
+  routePrice: number; // basePrice + pricePerKm × distance
+  fareRules: AppliedFareRule[];
+  price: number; // Giá chuyến, làm tròn 1.000 VND
+}
+
+@Injectable()
+export class FareRuleService {
+  constructor(
+    @InjectModel(FareRule.name)
+    private fareRuleModel: Model<FareRuleDocument>,
+    @InjectModel(Route.name) private routeModel: Model<RouteDocument>,
+    @InjectModel(Bus.name) private busModel: Model<BusDocument>,
+  ) {}
+
+  async findAll(routeId?: string) {
+    const filter = routeId
+      ? { routeId: { $in: [null, new Types.ObjectId(routeId)] } }
+      : {};
+    return this.fareRuleModel
+      .find(filter)
+      .populate('routeId', 'name')
+      .sort({ routeId: 1, name: 1 })
+      .exec();
+  }
+
+  async findOne(id: string) {
+    const rule = await this.fareRuleModel.findById(id).exec();
+    if (!rule) throw new NotFoundException('Fare rule not found');
+    return rule;
+  }
+
+  async create(dto: CreateFareRuleDto) {
+    this.validate(dto);
+    return this.fareRuleModel.create({
+      ...dto,
+      routeId: dto.routeId ? new Types.ObjectId(dto.routeId) : null,
+    });
+  }
+
+  async update(id: string, dto: UpdateFareRuleDto) {
+    const rule = await this.findOne(id);
+
+    const { routeId, ...fields } = dto;
+    Object.assign(rule, fields);
+    if (routeId !== undefined) {
+      rule.routeId = routeId ? new Types.ObjectId(routeId) : null;
+    }
+
+    this.validate(rule);
+    return rule.save();
+  }
+
+  async remove(id: string) {
+    const result = await this.fareRuleModel.deleteOne({
+      _id: new Types.ObjectId(id),
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Fare rule not found');
+    }
+    return { message: 'Fare rule removed' };
+  }
+
+  /**
+   * Default price of a trip from the route pricing rules and the fare rules
+   */
+  async quoteTripPrice(
+    route: FareRoute,
+    trip: FareTrip,
+  ): Promise<TripFareQuote> {
+    const [quote] = await this.quoteTripPrices(route, [trip]);
+    return quote;
+  }
+
+  /**
+   * Price several trips of the same route with one lookup
+   */
+  async quoteTripPrices(
+    route: FareRoute,
+    trips: FareTrip[],
+  ): Promise<TripFareQuote[]> {
+    const routePrice = this.getRoutePrice(route);
+    const rules = await this.getActiveRules(String(route._id));
+    return trips.map((trip) => this.applyRules(routePrice, trip, rules));
+  }
+
+  /**
+   * Preview the default price of a trip before creating it
+   */
+  async preview(query: FarePreviewQueryDto) {
+    const route = await this.routeModel.findById(query.routeId).lean().exec();
+    if (!route) throw new NotFoundException('Route not found');
+
+    let busType = query.busType;
+    if (query.busId) {
+      const bus = await this.busModel.findById(query.busId).lean().exec();
+      if (!bus) throw new NotFoundException('Bus not found');
+      busType = bus.type;
+    }
+
+    const quote = await this.quoteTripPrice(route, {
+      busType,
+      departureDate: query.departureDate,
+      etd: query.etd,
+    });
+
+    return {
+      routeId: (route._id as Types.ObjectId).toString(),
+      basePrice: route.basePrice ?? 0,
+      pricePerKm: route.pricePerKm ?? 0,
+      distance: route.distance,
+      busType,
+      departureDate: query.departureDate,
+      etd: query.etd,
+      ...quote,
+    };
+  }
+
+  private getRoutePrice(route: FareRoute): number {
+    if (!route.basePrice && !route.pricePerKm) {
+      throw new BadRequestException(
+        'Route has no pricing rules (basePrice / pricePerKm), set the trip price manually',
+      );
+    }
+    return (route.basePrice ?? 0) + (route.pricePerKm ?? 0) * route.distance;
+  }
+
+  private async getActiveRules(routeId: string): Promise<FareRuleDocument[]> {
+    return this.fareRuleModel
+      .find({
+        isActive: true,
+        routeId: { $in: [null, new Types.ObjectId(routeId)] },
+      })
+      .sort({ createdAt: 1 })
+      .exec();
+  }
+
+  private applyRules(
+    routePrice: number,
+    trip: FareTrip,
+    rules: FareRuleDocument[],
+  ): TripFareQuote {
+    const fareRules: AppliedFareRule[] = rules
+      .filter((rule) => this.matches(rule, trip))
+      .map((rule) => ({
+        ruleId: (rule._id as Types.ObjectId).toString(),
+        name: rule.name,
+        multiplier: rule.multiplier,
+        amount: rule.amount,
+      }));
+
+    const multiplier = fareRules.reduce(
+      (product, rule) => product * rule.multiplier,
+      1,
+    );
+    const amount = fareRules.reduce((sum, rule) => sum + rule.amount, 0);
+    const price = Math.max(routePrice * multiplier + amount, 0);
+
+    return {
+      routePrice: Math.round(routePrice),
+      fareRules,
+      price: Math.round(price / 1000) * 1000,
+    };
+  }
+
+  private matches(rule: FareRule, trip: FareTrip): boolean {
+    if (rule.busType && rule.busType !== trip.busType) {
+      return false;
+    }
+    if (rule.dayType) {
+      const day = new Date(trip.departureDate).getDay();
+      const dayType =
+        day === 0 || day === 6 ? DayType.WEEKEND : DayType.WEEKDAY;
+      if (rule.dayType !== dayType) return false;
+    }
+    if (rule.peakStart && rule.peakEnd) {
+      const etd = this.toMinutes(trip.etd);
+      const start = this.toMinutes(rule.peakStart);
+      const end = this.toMinutes(rule.peakEnd);
+      const inPeak =
+        start <= end ? etd >= start && etd < end : etd >= start || etd < end;
+      if (!inPeak) return false;
+    }
+    return true;
+  }
+
+  private toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * A rule must target some trips and change the price
+   */
+  private validate(dto: Partial<FareRule> | CreateFareRuleDto) {
+    if (!!dto.peakStart !== !!dto.peakEnd) {
+      throw new BadRequestException(
+        'Fare rule peak window needs both peakStart and peakEnd',
+      );
+    }
+    if (dto.peakStart && dto.peakStart === dto.peakEnd) {
+      throw new BadRequestException(
+        'Fare rule peakStart and peakEnd must differ',
+      );
+    }
+
+    if (!dto.busType && !dto.dayType && !dto.peakStart) {
+      throw new BadRequestException(
+        'Fare rule needs at least one of busType, dayType or a peak window',
+      );
+    }
+
+    const multiplier = dto.multiplier ?? 1;
+    if (multiplier === 1 && !dto.amount) {
+      throw new BadRequestException(
+        'Fare rule must set a multiplier other than 1 or a non-zero amount',
+      );
+    }
+  }
+}
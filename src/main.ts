@@ -3,6 +3,8 @@ import { AppModule } from './app.module';
 import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { TransformInterceptor } from './common/interceptors/transform.interceptor';
+import { RedisIoAdapter } from './common/adapters/redis-io.adapter';
+import { RedisService } from './modules/redis/redis.service';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import cookieParser from 'cookie-parser';
 
@@ -31,6 +33,11 @@ async function bootstrap() {
     credentials: true,
   });
 
+  // WebSocket: share Socket.IO rooms across API instances through Redis
+  const redisIoAdapter = new RedisIoAdapter(app, app.get(RedisService));
+  await redisIoAdapter.connectToRedis();
+  app.useWebSocketAdapter(redisIoAdapter);
+
   // Global prefix
   app.setGlobalPrefix(configService.get('API_PREFIX') || 'api/v1');
 
@@ -122,4 +122,80 @@ export class EmailService {
 
     return this.sendEmail(email, 'Welcome to CheckItOut!', html);
   }
+
+  async sendTripDelayEmail(
+    email: string,
+    name: string,
+    trip: {
+      routeName: string;
+      seatNos: string[];
+      originalDepartureAt: Date;
+      expectedDepartureAt: Date;
+      delayMinutes: number;
+      reason?: string;
+    },
+  ) {
+    const format = (date: Date) =>
+      date.toLocaleString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' });
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Your Trip Has Been Delayed</h2>
+        <p>Hello ${name},</p>
+        <p>We are sorry to let you know that your trip <strong>${trip.routeName}</strong> is delayed by ${trip.delayMinutes} minutes.</p>
+        <table style="margin: 20px 0; border-collapse: collapse;">
+          <tr><td style="padding: 4px 12px 4px 0; color: #666;">Seats</td><td>${trip.seatNos.join(', ')}</td></tr>
+          <tr><td style="padding: 4px 12px 4px 0; color: #666;">Scheduled departure</td><td>${format(trip.originalDepartureAt)}</td></tr>
+          <tr><td style="padding: 4px 12px 4px 0; color: #666;">New departure</td><td><strong>${format(trip.expectedDepartureAt)}</strong></td></tr>
+          ${trip.reason ? `<tr><td style="padding: 4px 12px 4px 0; color: #666;">Reason</td><td>${trip.reason}</td></tr>` : ''}
+        </table>
+        <p>Your ticket stays valid for the new departure time. No action is needed.</p>
+        <p>Best regards,<br>The CheckItOut Team</p>
+      </div>
+    `;
+
+    return this.sendEmail(email, 'Trip Delay Notice - CheckItOut', html);
+  }
+
+  async sendWaitlistOfferEmail(
+    email: string,
+    name: string,
+    offer: {
+      routeName: string;
+      seatNo: string;
+      departureDate: Date;
+      totalPrice: number;
+      expiresAt: Date;
+      ticketId: string;
+    },
+  ) {
+    const frontendUrl = this.configService.get('FRONTEND_URL');
+    const payUrl = `${frontendUrl}/payment?ticketId=${offer.ticketId}`;
+    const format = (date: Date) =>
+      date.toLocaleString('vi-VN', { timeZone: 'Asia/Ho_Chi_Minh' });
+
+    const html = `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">A Seat Is Available For You</h2>
+        <p>Hello ${name},</p>
+        <p>A seat has opened up on <strong>${offer.routeName}</strong> and we are holding it for you.</p>
+        <table style="margin: 20px 0; border-collapse: collapse;">
+          <tr><td style="padding: 4px 12px 4px 0; color: #666;">Seat</td><td>${offer.seatNo}</td></tr>
+          <tr><td style="padding: 4px 12px 4px 0; color: #666;">Departure</td><td>${format(offer.departureDate)}</td></tr>
+          <tr><td style="padding: 4px 12px 4px 0; color: #666;">Price</td><td>${offer.totalPrice.toLocaleString('vi-VN')} VND</td></tr>
+          <tr><td style="padding: 4px 12px 4px 0; color: #666;">Held until</td><td><strong>${format(offer.expiresAt)}</strong></td></tr>
+        </table>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${payUrl}" 
+             style="background-color: #007bff; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block;">
+            Pay Now
+          </a>
+        </div>
+        <p>If you do not pay before the hold ends, the seat goes to the next customer on the waitlist.</p>
+        <p>Best regards,<br>The CheckItOut Team</p>
+      </div>
+    `;
+
+    return this.sendEmail(email, 'Your Waitlist Seat - CheckItOut', html);
+  }
 }
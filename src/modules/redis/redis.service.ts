@@ -1,6 +1,6 @@
 import { Injectable, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import Redis from 'ioredis';
+import Redis, { RedisOptions } from 'ioredis';
 
 @Injectable()
 export class RedisService implements OnModuleDestroy {
@@ -57,6 +57,13 @@ export class RedisService implements OnModuleDestroy {
     await this.client.setex(key, expireInSeconds, value);
   }
 
+  /**
+   * New connection with the same settings (e.g. for pub/sub)
+   */
+  duplicate(options?: Partial<RedisOptions>): Redis {
+    return this.client.duplicate(options);
+  }
+
   async onModuleDestroy() {
     await this.client.quit();
   }
@@ -0,0 +1,5 @@
+export enum PaymentProviderName {
+  VNPAY = 'VNPAY',
+  MOMO = 'MOMO',
+  ZALOPAY = 'ZALOPAY',
+}
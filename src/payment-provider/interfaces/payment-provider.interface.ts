@@ -0,0 +1,129 @@
+import { PaymentProviderName } from '../enums/payment-provider.enum';
+
+export interface CreatePaymentRequest {
+  orderId: string; // Mã giao dịch của hệ thống (TICKET_xxx / BOOKING_xxx)
+  amount: number; // VND
+  orderInfo: string;
+  ipAddr: string;
+  createdAt: Date;
+}
+
+export interface CreatePaymentResult {
+  paymentUrl: string;
+  providerOrderId?: string; // Mã đơn phía cổng thanh toán nếu khác orderId
+}
+
+export interface PaymentCallbackResult {
+  isValid: boolean; // Chữ ký hợp lệ
+  isSuccess: boolean;
+  orderId: string;
+  providerOrderId?: string;
+  amount: number;
+  providerTransactionNo?: string;
+  bankCode?: string;
+  responseCode: string;
+  message: string;
+  raw: Record<string, any>;
+}
+
+/**
+ * Kết quả xử lý IPN, mỗi cổng tự chuyển sang định dạng phản hồi riêng
+ */
+export type PaymentCallbackOutcome =
+  | 'CONFIRMED'
+  | 'ALREADY_CONFIRMED'
+  | 'NOT_FOUND'
+  | 'INVALID_AMOUNT'
+  | 'INVALID_SIGNATURE'
+  | 'ERROR';
+
+export interface QueryPaymentRequest {
+  orderId: string;
+  providerOrderId?: string;
+  amount: number;
+  createdAt: Date;
+  orderInfo: string;
+  ipAddr: string;
+}
+
+export interface QueryPaymentResult {
+  isValid: boolean;
+  status: 'PAID' | 'FAILED' | 'PENDING';
+  amount?: number;
+  providerTransactionNo?: string;
+  bankCode?: string;
+  responseCode: string;
+  message: string;
+  raw: Record<string, any>;
+}
+
+/**
+ * Trạng thái hoàn tiền phía cổng; PENDING = cổng đang xử lý hoặc chưa rõ
+ * kết quả (timeout), cần tra cứu lại bằng queryRefund
+ */
+export type RefundStatus = 'REFUNDED' | 'FAILED' | 'PENDING';
+
+export interface RefundPaymentRequest {
+  requestId: string; // Mã yêu cầu hoàn tiền (createRefundRequestId), lưu trước khi gọi cổng
+  orderId: string;
+  providerOrderId?: string;
+  providerTransactionNo?: string;
+  amount: number; // Số tiền hoàn
+  originalAmount: number; // Số tiền đã thanh toán
+  createdAt: Date; // Thời điểm tạo giao dịch thanh toán gốc
+  description: string;
+  createdBy: string;
+  ipAddr: string;
+}
+
+export interface RefundPaymentResult {
+  isValid: boolean;
+  status: RefundStatus;
+  requestId: string;
+  responseCode: string;
+  message: string;
+  raw: Record<string, any>;
+}
+
+export interface QueryRefundRequest {
+  requestId: string; // Mã yêu cầu hoàn tiền đã gửi
+  orderId: string; // Mã giao dịch thanh toán gốc
+  providerOrderId?: string;
+  createdAt: Date; // Thời điểm tạo giao dịch thanh toán gốc
+  orderInfo: string;
+  ipAddr: string;
+}
+
+export interface QueryRefundResult {
+  isValid: boolean;
+  status: RefundStatus;
+  responseCode: string;
+  message: string;
+  raw: Record<string, any>;
+}
+
+/**
+ * Cổng thanh toán online (VNPay, MoMo, ZaloPay)
+ */
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  createPayment(data: CreatePaymentRequest): Promise<CreatePaymentResult>;
+
+  /** Verify IPN / return URL params */
+  verifyCallback(params: Record<string, any>): PaymentCallbackResult;
+
+  queryPayment(data: QueryPaymentRequest): Promise<QueryPaymentResult>;
+
+  /** Request ID for a refund, known before the call so a timeout can be queried */
+  createRefundRequestId(): string;
+
+  refund(data: RefundPaymentRequest): Promise<RefundPaymentResult>;
+
+  queryRefund(data: QueryRefundRequest): Promise<QueryRefundResult>;
+
+  /** Response body the provider expects from our IPN endpoint */
+  buildCallbackAck(
+    outcome: PaymentCallbackOutcome,
+  ): Record<string, unknown> | undefined;
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { PaymentProviderService } from './payment-provider.service';
+import { VNPayProvider } from './providers/vnpay.provider';
+import { MoMoProvider } from './providers/momo.provider';
+import { ZaloPayProvider } from './providers/zalopay.provider';
+import { VNPayService } from '../vnpay/vnpay.service';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    PaymentProviderService,
+    VNPayService,
+    VNPayProvider,
+    MoMoProvider,
+    ZaloPayProvider,
+  ],
+  exports: [PaymentProviderService],
+})
+export class PaymentProviderModule {}
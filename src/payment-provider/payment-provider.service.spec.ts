@@ -0,0 +1,257 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import axios from 'axios';
+import { PaymentProviderService } from './payment-provider.service';
+import { VNPayProvider } from './providers/vnpay.provider';
+import { MoMoProvider } from './providers/momo.provider';
+import { ZaloPayProvider } from './providers/zalopay.provider';
+import { PaymentProviderName } from './enums/payment-provider.enum';
+import { VNPayService } from '../vnpay/vnpay.service';
+
+describe('PaymentProviderService', () => {
+  let service: PaymentProviderService;
+
+  const mockConfig = {
+    VNPAY_TMN_CODE: 'TEST_TMN_CODE',
+    VNPAY_HASH_SECRET: 'TEST_SECRET_KEY_123456789',
+    VNPAY_API_URL: 'https://sandbox.vnpayment.vn/paymentv2/vpcpay.html',
+    VNPAY_RETURN_URL: 'http://localhost:3000/payment/vnpay-return',
+    MOMO_PARTNER_CODE: 'MOMO_TEST',
+    MOMO_ACCESS_KEY: 'MOMO_ACCESS_KEY',
+    MOMO_SECRET_KEY: 'MOMO_SECRET_KEY',
+    ZALOPAY_APP_ID: '2553',
+    ZALOPAY_KEY1: 'ZALOPAY_KEY1',
+    ZALOPAY_KEY2: 'ZALOPAY_KEY2',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentProviderService,
+        VNPayService,
+        VNPayProvider,
+        MoMoProvider,
+        ZaloPayProvider,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn(
+              (key: string) => mockConfig[key as keyof typeof mockConfig],
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentProviderService>(PaymentProviderService);
+  });
+
+  it('should register VNPay, MoMo and ZaloPay', () => {
+    expect(service.getAvailableProviders()).toEqual([
+      PaymentProviderName.VNPAY,
+      PaymentProviderName.MOMO,
+      PaymentProviderName.ZALOPAY,
+    ]);
+    expect(service.get(PaymentProviderName.MOMO).name).toBe(
+      PaymentProviderName.MOMO,
+    );
+  });
+
+  it('should reject an unknown provider', () => {
+    expect(() => service.get('PAYPAL' as PaymentProviderName)).toThrow(
+      'Unsupported payment provider: PAYPAL',
+    );
+  });
+
+  describe('MoMo IPN', () => {
+    const buildIpn = (overrides: Record<string, any> = {}) => {
+      const params: Record<string, any> = {
+        partnerCode: 'MOMO_TEST',
+        orderId: 'TICKET_123_1704369845',
+        requestId: 'TICKET_123_1704369845',
+        amount: 225000,
+        orderInfo: 'Thanh toan ve xe',
+        orderType: 'momo_wallet',
+        transId: 4088878653,
+        resultCode: 0,
+        message: 'Successful.',
+        payType: 'qr',
+        responseTime: 1704369900000,
+        extraData: '',
+        ...overrides,
+      };
+      const raw = [
+        `accessKey=MOMO_ACCESS_KEY`,
+        `amount=${params.amount}`,
+        `extraData=${params.extraData}`,
+        `message=${params.message}`,
+        `orderId=${params.orderId}`,
+        `orderInfo=${params.orderInfo}`,
+        `orderType=${params.orderType}`,
+        `partnerCode=${params.partnerCode}`,
+        `payType=${params.payType}`,
+        `requestId=${params.requestId}`,
+        `responseTime=${params.responseTime}`,
+        `resultCode=${params.resultCode}`,
+        `transId=${params.transId}`,
+      ].join('&');
+      params.signature = crypto
+        .createHmac('sha256', 'MOMO_SECRET_KEY')
+        .update(raw)
+        .digest('hex');
+      return params;
+    };
+
+    it('should accept a correctly signed successful IPN', () => {
+      const result = service
+        .get(PaymentProviderName.MOMO)
+        .verifyCallback(buildIpn());
+
+      expect(result.isValid).toBe(true);
+      expect(result.isSuccess).toBe(true);
+      expect(result.orderId).toBe('TICKET_123_1704369845');
+      expect(result.amount).toBe(225000);
+      expect(result.providerTransactionNo).toBe('4088878653');
+    });
+
+    it('should report a failed payment with a valid signature', () => {
+      const result = service
+        .get(PaymentProviderName.MOMO)
+        .verifyCallback(buildIpn({ resultCode: 1006, message: 'Denied' }));
+
+      expect(result.isValid).toBe(true);
+      expect(result.isSuccess).toBe(false);
+      expect(result.responseCode).toBe('1006');
+    });
+
+    it('should reject a tampered amount', () => {
+      const params = buildIpn();
+      params.amount = 1000;
+
+      const result = service
+        .get(PaymentProviderName.MOMO)
+        .verifyCallback(params);
+
+      expect(result.isValid).toBe(false);
+      expect(result.isSuccess).toBe(false);
+    });
+  });
+
+  describe('ZaloPay callback', () => {
+    const data = JSON.stringify({
+      app_id: 2553,
+      app_trans_id: '240104_1704369845123456',
+      app_time: 1704369845123,
+      amount: 225000,
+      embed_data: JSON.stringify({ orderId: 'BOOKING_456_1704369845' }),
+      zp_trans_id: 240104000000123,
+      channel: 38,
+    });
+    const mac = crypto
+      .createHmac('sha256', 'ZALOPAY_KEY2')
+      .update(data)
+      .digest('hex');
+
+    it('should verify the mac with key2 and read the order from embed_data', () => {
+      const result = service
+        .get(PaymentProviderName.ZALOPAY)
+        .verifyCallback({ data, mac, type: 1 });
+
+      expect(result.isValid).toBe(true);
+      expect(result.isSuccess).toBe(true);
+      expect(result.orderId).toBe('BOOKING_456_1704369845');
+      expect(result.providerOrderId).toBe('240104_1704369845123456');
+      expect(result.providerTransactionNo).toBe('240104000000123');
+    });
+
+    it('should reject an invalid mac', () => {
+      const result = service
+        .get(PaymentProviderName.ZALOPAY)
+        .verifyCallback({ data, mac: 'invalid', type: 1 });
+
+      expect(result.isValid).toBe(false);
+    });
+
+    it('should map outcomes to the ZaloPay return_code contract', () => {
+      const provider = service.get(PaymentProviderName.ZALOPAY);
+
+      expect(provider.buildCallbackAck('CONFIRMED')).toEqual({
+        return_code: 1,
+        return_message: 'success',
+      });
+      expect(provider.buildCallbackAck('ALREADY_CONFIRMED')?.return_code).toBe(
+        2,
+      );
+      expect(provider.buildCallbackAck('INVALID_SIGNATURE')?.return_code).toBe(
+        -1,
+      );
+    });
+  });
+
+  describe('ZaloPay refund', () => {
+    const post = jest.spyOn(axios, 'post');
+    const refundRequest = {
+      orderId: 'TICKET_123_1704369845',
+      providerTransactionNo: '240104000000123',
+      amount: 225000,
+      originalAmount: 225000,
+      createdAt: new Date(),
+      description: 'Hoan tien ve 123',
+      createdBy: 'admin',
+      ipAddr: '127.0.0.1',
+    };
+
+    afterEach(() => post.mockReset());
+
+    it('should keep a refund ZaloPay is still processing pending', async () => {
+      const provider = service.get(PaymentProviderName.ZALOPAY);
+      const requestId = provider.createRefundRequestId();
+      post.mockResolvedValueOnce({
+        data: { return_code: 3, return_message: 'processing' },
+      });
+
+      const result = await provider.refund({ ...refundRequest, requestId });
+
+      expect(requestId).toMatch(/^\d{6}_2553_\d+$/);
+      expect(result).toMatchObject({ status: 'PENDING', requestId });
+    });
+
+    it('should confirm the refund through query_refund', async () => {
+      const provider = service.get(PaymentProviderName.ZALOPAY);
+      post.mockResolvedValueOnce({
+        data: { return_code: 1, return_message: 'success' },
+      });
+
+      const result = await provider.queryRefund({
+        requestId: '240104_2553_1704369845123',
+        orderId: refundRequest.orderId,
+        createdAt: refundRequest.createdAt,
+        orderInfo: 'Truy van hoan tien',
+        ipAddr: '127.0.0.1',
+      });
+
+      expect(post.mock.calls[0][0]).toMatch(/\/query_refund$/);
+      expect(result.status).toBe('REFUNDED');
+    });
+  });
+
+  describe('VNPay IPN ack', () => {
+    it('should map outcomes to the VNPay RspCode contract', () => {
+      const provider = service.get(PaymentProviderName.VNPAY);
+
+      expect(provider.buildCallbackAck('CONFIRMED')).toEqual({
+        RspCode: '00',
+        Message: 'Confirm Success',
+      });
+      expect(provider.buildCallbackAck('NOT_FOUND')?.RspCode).toBe('01');
+      expect(provider.buildCallbackAck('ALREADY_CONFIRMED')?.RspCode).toBe(
+        '02',
+      );
+      expect(provider.buildCallbackAck('INVALID_AMOUNT')?.RspCode).toBe('04');
+      expect(provider.buildCallbackAck('INVALID_SIGNATURE')?.RspCode).toBe(
+        '97',
+      );
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PaymentProviderName } from './enums/payment-provider.enum';
+import { PaymentProvider } from './interfaces/payment-provider.interface';
+import { VNPayProvider } from './providers/vnpay.provider';
+import { MoMoProvider } from './providers/momo.provider';
+import { ZaloPayProvider } from './providers/zalopay.provider';
+
+/**
+ * Registry các cổng thanh toán online, chọn theo ticket.paymentProvider
+ */
+@Injectable()
+export class PaymentProviderService {
+  private readonly providers: Map<PaymentProviderName, PaymentProvider>;
+
+  constructor(
+    vnpayProvider: VNPayProvider,
+    momoProvider: MoMoProvider,
+    zaloPayProvider: ZaloPayProvider,
+  ) {
+    this.providers = new Map<PaymentProviderName, PaymentProvider>(
+      [vnpayProvider, momoProvider, zaloPayProvider].map((provider) => [
+        provider.name,
+        provider,
+      ]),
+    );
+  }
+
+  get(name: PaymentProviderName): PaymentProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new BadRequestException(`Unsupported payment provider: ${name}`);
+    }
+    return provider;
+  }
+
+  getAvailableProviders(): PaymentProviderName[] {
+    return [...this.providers.keys()];
+  }
+}
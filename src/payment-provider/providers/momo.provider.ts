@@ -0,0 +1,323 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import axios from 'axios';
+import { PaymentProviderName } from '../enums/payment-provider.enum';
+import {
+  CreatePaymentRequest,
+  CreatePaymentResult,
+  PaymentCallbackResult,
+  PaymentProvider,
+  QueryPaymentRequest,
+  QueryPaymentResult,
+  QueryRefundRequest,
+  QueryRefundResult,
+  RefundPaymentRequest,
+  RefundPaymentResult,
+  RefundStatus,
+} from '../interfaces/payment-provider.interface';
+
+export interface MoMoConfig {
+  partnerCode: string;
+  accessKey: string;
+  secretKey: string;
+  apiUrl: string;
+  redirectUrl: string;
+  ipnUrl: string;
+}
+
+/**
+ * Fields read from MoMo API responses and IPN bodies
+ */
+interface MoMoResponse extends Record<string, unknown> {
+  orderId: string;
+  requestId: string;
+  amount: number;
+  resultCode: number;
+  message: string;
+  transId?: number;
+  payType?: string;
+  payUrl?: string;
+  signature?: string;
+  refundTrans?: Array<{ orderId: string; resultCode: number }>;
+}
+
+/**
+ * MoMo All-In-One (API v2)
+ * Reference: https://developers.momo.vn/v3/docs/payment/api/wallet/onetime
+ */
+@Injectable()
+export class MoMoProvider implements PaymentProvider {
+  readonly name = PaymentProviderName.MOMO;
+
+  private readonly logger = new Logger(MoMoProvider.name);
+  private config: MoMoConfig;
+
+  constructor(private configService: ConfigService) {
+    this.config = {
+      partnerCode: this.configService.get<string>('MOMO_PARTNER_CODE') || '',
+      accessKey: this.configService.get<string>('MOMO_ACCESS_KEY') || '',
+      secretKey: this.configService.get<string>('MOMO_SECRET_KEY') || '',
+      apiUrl:
+        this.configService.get<string>('MOMO_API_URL') ||
+        'https://test-payment.momo.vn/v2/gateway/api',
+      redirectUrl: this.configService.get<string>('MOMO_REDIRECT_URL') || '',
+      ipnUrl: this.configService.get<string>('MOMO_IPN_URL') || '',
+    };
+  }
+
+  async createPayment(
+    data: CreatePaymentRequest,
+  ): Promise<CreatePaymentResult> {
+    const body: Record<string, any> = {
+      partnerCode: this.config.partnerCode,
+      accessKey: this.config.accessKey,
+      requestId: data.orderId,
+      amount: Math.round(data.amount),
+      orderId: data.orderId,
+      orderInfo: data.orderInfo,
+      redirectUrl: this.config.redirectUrl,
+      ipnUrl: this.config.ipnUrl,
+      requestType: 'captureWallet',
+      extraData: '',
+      lang: 'vi',
+    };
+    body.signature = this.sign(body, [
+      'accessKey',
+      'amount',
+      'extraData',
+      'ipnUrl',
+      'orderId',
+      'orderInfo',
+      'partnerCode',
+      'redirectUrl',
+      'requestId',
+      'requestType',
+    ]);
+
+    const response = await this.post('create', body);
+    if (response.resultCode !== 0 || !response.payUrl) {
+      throw new Error(
+        `MoMo create payment failed: ${response.resultCode} ${response.message}`,
+      );
+    }
+
+    return { paymentUrl: response.payUrl };
+  }
+
+  verifyCallback(params: MoMoResponse): PaymentCallbackResult {
+    const isValid =
+      params.signature ===
+      this.sign(params, [
+        'accessKey',
+        'amount',
+        'extraData',
+        'message',
+        'orderId',
+        'orderInfo',
+        'orderType',
+        'partnerCode',
+        'payType',
+        'requestId',
+        'responseTime',
+        'resultCode',
+        'transId',
+      ]);
+    const resultCode = String(params.resultCode);
+
+    return {
+      isValid,
+      isSuccess: isValid && resultCode === '0',
+      orderId: params.orderId,
+      amount: Number(params.amount),
+      providerTransactionNo:
+        params.transId !== undefined ? String(params.transId) : undefined,
+      bankCode: params.payType,
+      responseCode: resultCode,
+      message: isValid ? params.message : 'Chữ ký không hợp lệ',
+      raw: params,
+    };
+  }
+
+  async queryPayment(data: QueryPaymentRequest): Promise<QueryPaymentResult> {
+    const body: Record<string, any> = {
+      partnerCode: this.config.partnerCode,
+      accessKey: this.config.accessKey,
+      requestId: this.generateRequestId(),
+      orderId: data.orderId,
+      lang: 'vi',
+    };
+    body.signature = this.sign(body, [
+      'accessKey',
+      'orderId',
+      'partnerCode',
+      'requestId',
+    ]);
+
+    const response = await this.post('query', body);
+
+    // 0 = thành công, 1000/7000/7002 = đang xử lý, còn lại = thất bại
+    let status: QueryPaymentResult['status'] = 'FAILED';
+    if (response.resultCode === 0) {
+      status = 'PAID';
+    } else if ([1000, 7000, 7002].includes(response.resultCode)) {
+      status = 'PENDING';
+    }
+
+    return {
+      // Query response is not signed by MoMo, trust the TLS channel
+      isValid: response.orderId === data.orderId,
+      status,
+      amount: response.amount,
+      providerTransactionNo:
+        response.transId !== undefined ? String(response.transId) : undefined,
+      bankCode: response.payType,
+      responseCode: String(response.resultCode),
+      message: response.message,
+      raw: response,
+    };
+  }
+
+  createRefundRequestId(): string {
+    return this.generateRequestId();
+  }
+
+  async refund(data: RefundPaymentRequest): Promise<RefundPaymentResult> {
+    const { requestId } = data;
+    const body: Record<string, any> = {
+      partnerCode: this.config.partnerCode,
+      accessKey: this.config.accessKey,
+      // Mỗi lần hoàn tiền cần một orderId mới
+      orderId: this.getRefundOrderId(data.orderId, requestId),
+      requestId,
+      amount: Math.round(data.amount),
+      transId: Number(data.providerTransactionNo),
+      description: data.description,
+      lang: 'vi',
+    };
+    body.signature = this.sign(body, [
+      'accessKey',
+      'amount',
+      'description',
+      'orderId',
+      'partnerCode',
+      'requestId',
+      'transId',
+    ]);
+
+    const response = await this.post('refund', body);
+
+    return {
+      isValid: response.requestId === requestId,
+      status: this.toRefundStatus(response.resultCode),
+      requestId,
+      responseCode: String(response.resultCode),
+      message: response.message,
+      raw: response,
+    };
+  }
+
+  async queryRefund(data: QueryRefundRequest): Promise<QueryRefundResult> {
+    const body: Record<string, any> = {
+      partnerCode: this.config.partnerCode,
+      accessKey: this.config.accessKey,
+      requestId: this.generateRequestId(),
+      orderId: data.orderId,
+      lang: 'vi',
+    };
+    body.signature = this.sign(body, [
+      'accessKey',
+      'orderId',
+      'partnerCode',
+      'requestId',
+    ]);
+
+    const response = await this.post('refund/query', body);
+
+    // Danh sách các lần hoàn tiền của giao dịch gốc
+    const refundOrderId = this.getRefundOrderId(data.orderId, data.requestId);
+    const refund = (response.refundTrans ?? []).find(
+      (item) => item.orderId === refundOrderId,
+    );
+
+    let status: RefundStatus = 'PENDING';
+    if (refund) {
+      status = this.toRefundStatus(refund.resultCode);
+    } else if (response.resultCode === 0) {
+      status = 'FAILED'; // MoMo không ghi nhận yêu cầu hoàn tiền này
+    }
+
+    return {
+      // Query response is not signed by MoMo, trust the TLS channel
+      isValid: response.orderId === data.orderId,
+      status,
+      responseCode: String(refund?.resultCode ?? response.resultCode),
+      message: response.message,
+      raw: response,
+    };
+  }
+
+  /**
+   * MoMo chỉ cần HTTP 204, không cần body
+   */
+  buildCallbackAck() {
+    return undefined;
+  }
+
+  /**
+   * HMAC SHA256 trên chuỗi key=value nối bằng "&" theo thứ tự quy định
+   */
+  private sign(data: Record<string, any>, keys: string[]): string {
+    const raw = keys
+      .map((key) =>
+        key === 'accessKey'
+          ? `accessKey=${this.config.accessKey}`
+          : `${key}=${data[key] ?? ''}`,
+      )
+      .join('&');
+
+    return crypto
+      .createHmac('sha256', this.config.secretKey)
+      .update(raw)
+      .digest('hex');
+  }
+
+  private async post(
+    path: string,
+    body: Record<string, any>,
+  ): Promise<MoMoResponse> {
+    this.logger.log(`📡 MoMo ${path} → ${body.orderId}`);
+
+    const { data } = await axios.post<MoMoResponse>(
+      `${this.config.apiUrl}/${path}`,
+      body,
+      {
+        headers: { 'Content-Type': 'application/json' },
+        timeout: 30000,
+      },
+    );
+
+    this.logger.log(
+      `📨 MoMo ${path} response: ${data?.resultCode} ${data?.message}`,
+    );
+
+    return data;
+  }
+
+  private getRefundOrderId(orderId: string, requestId: string): string {
+    return `${orderId}_RF_${requestId}`;
+  }
+
+  /**
+   * 0 = thành công, 1000/7000/7002 = đang xử lý, còn lại = thất bại
+   */
+  private toRefundStatus(resultCode: number): RefundStatus {
+    if (resultCode === 0) return 'REFUNDED';
+    if ([1000, 7000, 7002].includes(resultCode)) return 'PENDING';
+    return 'FAILED';
+  }
+
+  private generateRequestId(): string {
+    return `${Date.now()}${crypto.randomInt(100000, 999999)}`;
+  }
+}
@@ -0,0 +1,178 @@
+import { Injectable } from '@nestjs/common';
+import { VNPayService } from '../../vnpay/vnpay.service';
+import { PaymentProviderName } from '../enums/payment-provider.enum';
+import {
+  CreatePaymentRequest,
+  CreatePaymentResult,
+  PaymentCallbackOutcome,
+  PaymentCallbackResult,
+  PaymentProvider,
+  QueryPaymentRequest,
+  QueryPaymentResult,
+  QueryRefundRequest,
+  QueryRefundResult,
+  RefundPaymentRequest,
+  RefundPaymentResult,
+  RefundStatus,
+} from '../interfaces/payment-provider.interface';
+
+/**
+ * VNPay adapter - chữ ký, URL và merchant API nằm trong VNPayService
+ */
+@Injectable()
+export class VNPayProvider implements PaymentProvider {
+  readonly name = PaymentProviderName.VNPAY;
+
+  constructor(private readonly vnpayService: VNPayService) {}
+
+  createPayment(data: CreatePaymentRequest): Promise<CreatePaymentResult> {
+    const paymentUrl = this.vnpayService.createPaymentUrl({
+      amount: data.amount,
+      orderInfo: data.orderInfo,
+      orderId: data.orderId,
+      ipAddr: data.ipAddr,
+      createDate: data.createdAt,
+    });
+
+    return Promise.resolve({ paymentUrl });
+  }
+
+  verifyCallback(params: Record<string, string>): PaymentCallbackResult {
+    const result = this.vnpayService.verifyReturnUrl(params);
+
+    return {
+      isValid: result.isValid,
+      isSuccess: result.isValid && result.responseCode === '00',
+      orderId: params.vnp_TxnRef,
+      amount: parseInt(params.vnp_Amount) / 100,
+      providerTransactionNo: params.vnp_TransactionNo,
+      bankCode: params.vnp_BankCode,
+      responseCode: result.responseCode,
+      message: result.message,
+      raw: params,
+    };
+  }
+
+  async queryPayment(data: QueryPaymentRequest): Promise<QueryPaymentResult> {
+    const result = await this.vnpayService.queryTransaction({
+      txnRef: data.orderId,
+      transactionDate: data.createdAt,
+      orderInfo: data.orderInfo,
+      ipAddr: data.ipAddr,
+    });
+
+    // 00 = giao dịch thanh toán thành công, 02 = giao dịch bị lỗi
+    let status: QueryPaymentResult['status'] = 'PENDING';
+    if (result.responseCode === '00' && result.transactionStatus === '00') {
+      status = 'PAID';
+    } else if (
+      result.responseCode === '00' &&
+      result.transactionStatus === '02'
+    ) {
+      status = 'FAILED';
+    }
+
+    return {
+      isValid: result.isValid,
+      status,
+      amount: result.amount,
+      providerTransactionNo: result.transactionNo,
+      bankCode: result.raw.vnp_BankCode,
+      responseCode: result.transactionStatus ?? result.responseCode,
+      message: result.message,
+      raw: result.raw,
+    };
+  }
+
+  createRefundRequestId(): string {
+    return this.vnpayService.generateRequestId();
+  }
+
+  async refund(data: RefundPaymentRequest): Promise<RefundPaymentResult> {
+    const result = await this.vnpayService.refundTransaction({
+      requestId: data.requestId,
+      txnRef: data.orderId,
+      transactionDate: data.createdAt,
+      amount: data.amount,
+      // 02: hoàn toàn phần, 03: hoàn một phần
+      transactionType: data.amount >= data.originalAmount ? '02' : '03',
+      transactionNo: data.providerTransactionNo,
+      orderInfo: data.description,
+      createBy: data.createdBy,
+      ipAddr: data.ipAddr,
+    });
+
+    // 00 = đã hoàn tiền (05/06: VNPay/ngân hàng đang xử lý),
+    // 94 = yêu cầu hoàn tiền trùng, đang được xử lý
+    let status: RefundStatus = 'FAILED';
+    if (result.responseCode === '00') {
+      status = ['05', '06'].includes(result.transactionStatus ?? '')
+        ? 'PENDING'
+        : 'REFUNDED';
+    } else if (result.responseCode === '94') {
+      status = 'PENDING';
+    }
+
+    return {
+      isValid: result.isValid,
+      status,
+      requestId: result.requestId,
+      responseCode: result.responseCode,
+      message: result.message,
+      raw: result.raw,
+    };
+  }
+
+  /**
+   * VNPay has no refund lookup: querydr on the original payment shows the
+   * refund in vnp_TransactionType (02/03) and vnp_TransactionStatus
+   */
+  async queryRefund(data: QueryRefundRequest): Promise<QueryRefundResult> {
+    const result = await this.vnpayService.queryTransaction({
+      txnRef: data.orderId,
+      transactionDate: data.createdAt,
+      orderInfo: data.orderInfo,
+      ipAddr: data.ipAddr,
+    });
+
+    // 05/06 = đang xử lý hoàn tiền, 09 = hoàn tiền bị từ chối,
+    // giao dịch vẫn là thanh toán (01) = VNPay chưa nhận yêu cầu hoàn tiền
+    let status: RefundStatus = 'PENDING';
+    if (result.responseCode === '00') {
+      const transactionType = result.raw.vnp_TransactionType;
+      if (result.transactionStatus === '09') {
+        status = 'FAILED';
+      } else if (['05', '06'].includes(result.transactionStatus ?? '')) {
+        status = 'PENDING';
+      } else if (['02', '03'].includes(transactionType)) {
+        status = result.transactionStatus === '00' ? 'REFUNDED' : 'PENDING';
+      } else if (transactionType === '01') {
+        status = 'FAILED';
+      }
+    }
+
+    return {
+      isValid: result.isValid,
+      status,
+      responseCode: result.transactionStatus ?? result.responseCode,
+      message: result.message,
+      raw: result.raw,
+    };
+  }
+
+  /**
+   * VNPay IPN contract: { RspCode, Message }
+   */
+  buildCallbackAck(outcome: PaymentCallbackOutcome) {
+    const acks: Record<PaymentCallbackOutcome, [string, string]> = {
+      CONFIRMED: ['00', 'Confirm Success'],
+      NOT_FOUND: ['01', 'Order not found'],
+      ALREADY_CONFIRMED: ['02', 'Order already confirmed'],
+      INVALID_AMOUNT: ['04', 'Invalid amount'],
+      INVALID_SIGNATURE: ['97', 'Invalid signature'],
+      ERROR: ['99', 'Unknown error'],
+    };
+    const [RspCode, Message] = acks[outcome];
+    return { RspCode, Message };
+  }
+}
@@ -0,0 +1,328 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as querystring from 'qs';
+import axios from 'axios';
+import { PaymentProviderName } from '../enums/payment-provider.enum';
+import {
+  CreatePaymentRequest,
+  CreatePaymentResult,
+  PaymentCallbackOutcome,
+  PaymentCallbackResult,
+  PaymentProvider,
+  QueryPaymentRequest,
+  QueryPaymentResult,
+  QueryRefundRequest,
+  QueryRefundResult,
+  RefundPaymentRequest,
+  RefundPaymentResult,
+  RefundStatus,
+} from '../interfaces/payment-provider.interface';
+
+export interface ZaloPayConfig {
+  appId: string;
+  key1: string; // Ký request
+  key2: string; // Verify callback
+  apiUrl: string;
+  redirectUrl: string;
+  callbackUrl: string;
+}
+
+/**
+ * Fields read from ZaloPay API responses
+ */
+interface ZaloPayResponse extends Record<string, unknown> {
+  return_code: number;
+  return_message: string;
+  order_url?: string;
+  amount?: number;
+  zp_trans_id?: number;
+}
+
+/**
+ * Payment data signed in a ZaloPay callback (JSON string in `data`)
+ */
+interface ZaloPayCallbackData extends Record<string, unknown> {
+  app_trans_id?: string;
+  amount?: number;
+  zp_trans_id?: number;
+  channel?: number;
+  embed_data?: string;
+}
+
+/**
+ * ZaloPay Gateway (API v2)
+ * Reference: https://docs.zalopay.vn/v2/general/overview.html
+ */
+@Injectable()
+export class ZaloPayProvider implements PaymentProvider {
+  readonly name = PaymentProviderName.ZALOPAY;
+
+  private readonly logger = new Logger(ZaloPayProvider.name);
+  private config: ZaloPayConfig;
+
+  constructor(private configService: ConfigService) {
+    this.config = {
+      appId: this.configService.get<string>('ZALOPAY_APP_ID') || '',
+      key1: this.configService.get<string>('ZALOPAY_KEY1') || '',
+      key2: this.configService.get<string>('ZALOPAY_KEY2') || '',
+      apiUrl:
+        this.configService.get<string>('ZALOPAY_API_URL') ||
+        'https://sb-openapi.zalopay.vn/v2',
+      redirectUrl: this.configService.get<string>('ZALOPAY_REDIRECT_URL') || '',
+      callbackUrl: this.configService.get<string>('ZALOPAY_CALLBACK_URL') || '',
+    };
+  }
+
+  async createPayment(
+    data: CreatePaymentRequest,
+  ): Promise<CreatePaymentResult> {
+    // app_trans_id bắt buộc dạng yymmdd_xxx (GMT+7), tối đa 40 ký tự
+    const appTransId = `${this.formatYYMMDD(data.createdAt)}_${data.createdAt.getTime()}${crypto.randomInt(100, 999)}`;
+
+    const order = {
+      app_id: this.config.appId,
+      app_trans_id: appTransId,
+      app_user: 'checkitout',
+      app_time: data.createdAt.getTime(),
+      amount: Math.round(data.amount),
+      item: '[]',
+      embed_data: JSON.stringify({
+        redirecturl: this.config.redirectUrl,
+        orderId: data.orderId,
+      }),
+      description: data.orderInfo,
+      bank_code: '',
+      callback_url: this.config.callbackUrl,
+    };
+    const mac = this.hmac(this.config.key1, [
+      order.app_id,
+      order.app_trans_id,
+      order.app_user,
+      order.amount,
+      order.app_time,
+      order.embed_data,
+      order.item,
+    ]);
+
+    const response = await this.post('create', { ...order, mac });
+    if (response.return_code !== 1 || !response.order_url) {
+      throw new Error(
+        `ZaloPay create order failed: ${response.return_code} ${response.return_message}`,
+      );
+    }
+
+    return { paymentUrl: response.order_url, providerOrderId: appTransId };
+  }
+
+  /**
+   * Callback chỉ được gửi khi thanh toán thành công: { data, mac, type }
+   */
+  verifyCallback(params: {
+    data?: string;
+    mac?: string;
+  }): PaymentCallbackResult {
+    const isValid =
+      typeof params.data === 'string' &&
+      params.mac === this.hmac(this.config.key2, [params.data]);
+
+    let payload: ZaloPayCallbackData = {};
+    let embedData: { orderId?: string } = {};
+    try {
+      payload = JSON.parse(params.data ?? '') as ZaloPayCallbackData;
+      embedData = JSON.parse(payload.embed_data || '{}') as {
+        orderId?: string;
+      };
+    } catch {
+      // Dữ liệu hỏng → coi như chữ ký không hợp lệ
+    }
+
+    return {
+      isValid,
+      isSuccess: isValid,
+      orderId: embedData.orderId ?? '',
+      providerOrderId: payload.app_trans_id,
+      amount: Number(payload.amount),
+      providerTransactionNo:
+        payload.zp_trans_id !== undefined
+          ? String(payload.zp_trans_id)
+          : undefined,
+      bankCode: payload.channel !== undefined ? String(payload.channel) : '',
+      responseCode: isValid ? '1' : '-1',
+      message: isValid ? 'Giao dịch thành công' : 'Chữ ký không hợp lệ',
+      raw: payload,
+    };
+  }
+
+  async queryPayment(data: QueryPaymentRequest): Promise<QueryPaymentResult> {
+    const appTransId = data.providerOrderId ?? data.orderId;
+    const body = {
+      app_id: this.config.appId,
+      app_trans_id: appTransId,
+      mac: this.hmac(this.config.key1, [
+        this.config.appId,
+        appTransId,
+        this.config.key1,
+      ]),
+    };
+
+    const response = await this.post('query', body);
+
+    // 1 = thành công, 2 = thất bại, 3 = đang xử lý / chưa thanh toán
+    let status: QueryPaymentResult['status'] = 'PENDING';
+    if (response.return_code === 1) {
+      status = 'PAID';
+    } else if (response.return_code === 2) {
+      status = 'FAILED';
+    }
+
+    return {
+      // Query response is not signed by ZaloPay, trust the TLS channel
+      isValid: true,
+      status,
+      amount: response.amount,
+      providerTransactionNo:
+        response.zp_trans_id !== undefined
+          ? String(response.zp_trans_id)
+          : undefined,
+      responseCode: String(response.return_code),
+      message: response.return_message,
+      raw: response,
+    };
+  }
+
+  /**
+   * m_refund_id bắt buộc dạng yymmdd_appid_xxx
+   */
+  createRefundRequestId(): string {
+    return `${this.formatYYMMDD(new Date())}_${this.config.appId}_${Date.now()}${crypto.randomInt(100, 999)}`;
+  }
+
+  async refund(data: RefundPaymentRequest): Promise<RefundPaymentResult> {
+    const timestamp = Date.now();
+
+    const refund = {
+      app_id: this.config.appId,
+      m_refund_id: data.requestId,
+      zp_trans_id: data.providerTransactionNo ?? '',
+      amount: Math.round(data.amount),
+      timestamp,
+      description: data.description,
+    };
+    const mac = this.hmac(this.config.key1, [
+      refund.app_id,
+      refund.zp_trans_id,
+      refund.amount,
+      refund.description,
+      refund.timestamp,
+    ]);
+
+    const response = await this.post('refund', { ...refund, mac });
+
+    // 1 = hoàn tiền thành công, 3 = ZaloPay đã nhận yêu cầu và đang xử lý
+    let status: RefundStatus = 'FAILED';
+    if (response.return_code === 1) {
+      status = 'REFUNDED';
+    } else if (response.return_code === 3) {
+      status = 'PENDING';
+    }
+
+    return {
+      isValid: true,
+      status,
+      requestId: data.requestId,
+      responseCode: String(response.return_code),
+      message: response.return_message,
+      raw: response,
+    };
+  }
+
+  async queryRefund(data: QueryRefundRequest): Promise<QueryRefundResult> {
+    const timestamp = Date.now();
+    const body = {
+      app_id: this.config.appId,
+      m_refund_id: data.requestId,
+      timestamp,
+      mac: this.hmac(this.config.key1, [
+        this.config.appId,
+        data.requestId,
+        timestamp,
+      ]),
+    };
+
+    const response = await this.post('query_refund', body);
+
+    // 1 = đã hoàn tiền, 2 = thất bại, 3 = đang xử lý
+    let status: RefundStatus = 'PENDING';
+    if (response.return_code === 1) {
+      status = 'REFUNDED';
+    } else if (response.return_code === 2) {
+      status = 'FAILED';
+    }
+
+    return {
+      // Query response is not signed by ZaloPay, trust the TLS channel
+      isValid: true,
+      status,
+      responseCode: String(response.return_code),
+      message: response.return_message,
+      raw: response,
+    };
+  }
+
+  /**
+   * ZaloPay callback contract: { return_code, return_message }
+   * return_code <= 0 → ZaloPay gửi lại callback (tối đa 3 lần)
+   */
+  buildCallbackAck(outcome: PaymentCallbackOutcome) {
+    const acks: Record<PaymentCallbackOutcome, [number, string]> = {
+      CONFIRMED: [1, 'success'],
+      ALREADY_CONFIRMED: [2, 'order already confirmed'],
+      NOT_FOUND: [0, 'order not found'],
+      INVALID_AMOUNT: [0, 'invalid amount'],
+      INVALID_SIGNATURE: [-1, 'mac not equal'],
+      ERROR: [0, 'unknown error'],
+    };
+    const [return_code, return_message] = acks[outcome];
+    return { return_code, return_message };
+  }
+
+  private hmac(key: string, values: Array<string | number>): string {
+    return crypto
+      .createHmac('sha256', key)
+      .update(values.join('|'))
+      .digest('hex');
+  }
+
+  private async post(
+    path: string,
+    body: Record<string, string | number>,
+  ): Promise<ZaloPayResponse> {
+    this.logger.log(
+      `📡 ZaloPay ${path} → ${body.app_trans_id ?? body.m_refund_id}`,
+    );
+
+    const { data } = await axios.post<ZaloPayResponse>(
+      `${this.config.apiUrl}/${path}`,
+      querystring.stringify(body),
+      {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        timeout: 30000,
+      },
+    );
+
+    this.logger.log(
+      `📨 ZaloPay ${path} response: ${data?.return_code} ${data?.return_message}`,
+    );
+
+    return data;
+  }
+
+  /**
+   * yymmdd theo giờ Việt Nam (GMT+7)
+   */
+  private formatYYMMDD(date: Date): string {
+    const vnTime = new Date(date.getTime() + 7 * 60 * 60 * 1000);
+    return vnTime.toISOString().slice(2, 10).replace(/-/g, '');
+  }
+}
@@ -0,0 +1,69 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsMongoId,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PricingCurveType } from '../enums/pricing-curve-type.enum';
+
+export class PricingCurveStepDto {
+  @ApiProperty({
+    description:
+      'LOAD_FACTOR: % of seats sold from; TIME_TO_DEPARTURE: hours before departure or less',
+    example: 80,
+  })
+  @IsNumber()
+  @Min(0)
+  threshold: number;
+
+  @ApiProperty({
+    description: 'Percentage of the trip price (negative = discount)',
+    example: 15,
+    minimum: -100,
+  })
+  @IsNumber()
+  @Min(-100)
+  percent: number;
+}
+
+export class CreatePricingCurveDto {
+  @ApiProperty({ example: 'Tăng giá khi xe gần đầy' })
+  @IsString()
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Only apply on this route (omit for the default curve)',
+  })
+  @IsOptional()
+  @IsMongoId()
+  routeId?: string;
+
+  @ApiProperty({ enum: PricingCurveType })
+  @IsEnum(PricingCurveType)
+  type: PricingCurveType;
+
+  @ApiProperty({ type: [PricingCurveStepDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => PricingCurveStepDto)
+  steps: PricingCurveStepDto[];
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
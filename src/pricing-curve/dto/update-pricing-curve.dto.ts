@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreatePricingCurveDto } from './create-pricing-curve.dto';
+
+export class UpdatePricingCurveDto extends PartialType(CreatePricingCurveDto) {}
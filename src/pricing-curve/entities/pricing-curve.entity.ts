@@ -0,0 +1,81 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PricingCurveType } from '../enums/pricing-curve-type.enum';
+
+export type PricingCurveDocument = PricingCurve & Document;
+
+export interface AppliedPricingCurve {
+  curveId: string;
+  name: string;
+  type: PricingCurveType;
+  threshold: number; // Bậc được áp dụng
+  percent: number;
+  value: number; // Số tiền thực cộng thêm (âm = giảm)
+}
+
+/**
+ * Giá động của một chuyến tại thời điểm báo giá (lưu trên vé để đối soát)
+ */
+export interface DynamicPrice {
+  basePrice: number; // Giá trước điều chỉnh (giá chuyến / chặng)
+  loadFactor: number; // % ghế đã bán
+  hoursToDeparture: number;
+  adjustments: AppliedPricingCurve[];
+  price: number; // Giá sau điều chỉnh, trước phụ thu ghế và khuyến mãi
+  quotedAt: Date;
+  guaranteedUntil?: Date; // Hết hạn giữ giá (theo khóa ghế)
+}
+
+@Schema({ _id: false })
+export class PricingCurveStep {
+  @Prop({ type: Number, required: true, min: 0 })
+  threshold: number;
+
+  @Prop({ type: Number, required: true, min: -100 })
+  percent: number;
+}
+
+export const PricingCurveStepSchema =
+  SchemaFactory.createForClass(PricingCurveStep);
+
+/**
+ * Đường cong giá theo tỉ lệ lấp đầy hoặc thời gian tới giờ khởi hành.
+ * LOAD_FACTOR: threshold = % ghế đã bán, áp dụng bậc cao nhất đã đạt.
+ * TIME_TO_DEPARTURE: threshold = số giờ trước khởi hành, áp dụng bậc nhỏ nhất còn trong khoảng.
+ * Giá = giá chuyến × (1 + Σ percent / 100).
+ * Mỗi tuyến có tối đa một đường cong mỗi loại; routeId = null là mặc định cho mọi tuyến,
+ * đường cong riêng của tuyến thay thế đường cong mặc định cùng loại.
+ */
+@Schema({ timestamps: true, collection: 'pricing_curves' })
+export class PricingCurve {
+  @Prop({ required: true })
+  name: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Route', default: null })
+  routeId: Types.ObjectId | null;
+
+  @Prop({
+    type: String,
+    enum: Object.values(PricingCurveType),
+    required: true,
+  })
+  type: PricingCurveType;
+
+  @Prop({ type: [PricingCurveStepSchema], default: [] })
+  steps: PricingCurveStep[];
+
+  @Prop({ type: Boolean, default: true })
+  isActive: boolean;
+
+  @Prop({ type: String })
+  description?: string;
+
+  readonly createdAt?: Date;
+
+  readonly updatedAt?: Date;
+}
+
+export const PricingCurveSchema = SchemaFactory.createForClass(PricingCurve);
+
+// Indexes
+PricingCurveSchema.index({ routeId: 1, type: 1 }, { unique: true });
@@ -0,0 +1,4 @@
+export enum PricingCurveType {
+  LOAD_FACTOR = 'LOAD_FACTOR',
+  TIME_TO_DEPARTURE = 'TIME_TO_DEPARTURE',
+}
@@ -0,0 +1,77 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { PricingCurveService } from './pricing-curve.service';
+import { CreatePricingCurveDto } from './dto/create-pricing-curve.dto';
+import { UpdatePricingCurveDto } from './dto/update-pricing-curve.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+
+@ApiTags('Pricing Curves')
+@Controller('pricing-curves')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class PricingCurveController {
+  constructor(private readonly pricingCurveService: PricingCurveService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List dynamic pricing curves (Admin only)',
+    description: 'With routeId, lists the route curves and the default ones',
+  })
+  @ApiQuery({ name: 'routeId', required: false })
+  findAll(@Query('routeId') routeId?: string) {
+    return this.pricingCurveService.findAll(routeId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a dynamic pricing curve (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Pricing curve ID' })
+  findOne(@Param('id') id: string) {
+    return this.pricingCurveService.findOne(id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a dynamic pricing curve (Admin only)' })
+  @ApiResponse({ status: 201, description: 'Pricing curve created' })
+  @ApiResponse({
+    status: 409,
+    description: 'The route already has a curve of this type',
+  })
+  create(@Body() dto: CreatePricingCurveDto) {
+    return this.pricingCurveService.create(dto);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a dynamic pricing curve (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Pricing curve ID' })
+  update(@Param('id') id: string, @Body() dto: UpdatePricingCurveDto) {
+    return this.pricingCurveService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a dynamic pricing curve (Admin only)' })
+  @ApiParam({ name: 'id', description: 'Pricing curve ID' })
+  remove(@Param('id') id: string) {
+    return this.pricingCurveService.remove(id);
+  }
+}
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { PricingCurveService } from './pricing-curve.service';
+import { PricingCurveController } from './pricing-curve.controller';
+import {
+  PricingCurve,
+  PricingCurveSchema,
+} from './entities/pricing-curve.entity';
+import {
+  SeatInventory,
+  SeatInventorySchema,
+} from '../seat/entities/seat-inventory.entity';
+import { AuthModule } from '../auth/auth.module';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: PricingCurve.name, schema: PricingCurveSchema },
+      { name: SeatInventory.name, schema: SeatInventorySchema },
+    ]),
+    AuthModule,
+  ],
+  providers: [PricingCurveService, JwtAuthGuard],
+  controllers: [PricingCurveController],
+  exports: [PricingCurveService],
+})
+export class PricingCurveModule {}
@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { PricingCurveService } from './pricing-curve.service';
+import { PricingCurve } from './entities/pricing-curve.entity';
+import { PricingCurveType } from './enums/pricing-curve-type.enum';
+import { SeatInventory } from '../seat/entities/seat-inventory.entity';
+import { SeatStatus } from '../seat/enums/seat-status.enum';
+
+describe('PricingCurveService', () => {
+  let service: PricingCurveService;
+
+  const routeId = new Types.ObjectId();
+  const now = new Date('2025-01-08T08:00:00');
+
+  // Active curves returned by the next lookup
+  let active: Array<Partial<PricingCurve> & { _id: Types.ObjectId }>;
+
+  // Seats sold on the trip, whatever bookedSeats says
+  let soldSeatIds: Types.ObjectId[];
+
+  const pricingCurveModel = {
+    find: jest.fn(() => ({ exec: () => Promise.resolve(active) })),
+  };
+  const seatInventoryModel = {
+    distinct: jest.fn(() => ({ exec: () => Promise.resolve(soldSeatIds) })),
+  };
+
+  // Trip leaving at 20:00 on 2025-01-09, 36 hours after `now`
+  const trip = {
+    _id: new Types.ObjectId(),
+    routeId,
+    bookedSeats: 0,
+    availableSeats: 40,
+    departureDate: new Date('2025-01-09'),
+    etd: '20:00',
+  };
+
+  beforeEach(async () => {
+    active = [];
+    soldSeatIds = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PricingCurveService,
+        {
+          provide: getModelToken(PricingCurve.name),
+          useValue: pricingCurveModel,
+        },
+        {
+          provide: getModelToken(SeatInventory.name),
+          useValue: seatInventoryModel,
+        },
+      ],
+    }).compile();
+
+    service = module.get<PricingCurveService>(PricingCurveService);
+  });
+
+  it('should let a route curve replace the default curve of its type only', async () => {
+    active = [
+      {
+        _id: new Types.ObjectId(),
+        name: 'Lấp đầy (mặc định)',
+        routeId: null,
+        type: PricingCurveType.LOAD_FACTOR,
+        steps: [{ threshold: 50, percent: 5 }],
+      },
+      {
+        _id: new Types.ObjectId(),
+        name: 'Đặt sớm (mặc định)',
+        routeId: null,
+        type: PricingCurveType.TIME_TO_DEPARTURE,
+        steps: [{ threshold: 72, percent: 5 }],
+      },
+      {
+        _id: new Types.ObjectId(),
+        name: 'Lấp đầy tuyến',
+        routeId,
+        type: PricingCurveType.LOAD_FACTOR,
+        steps: [{ threshold: 50, percent: 20 }],
+      },
+    ];
+
+    // Exactly 50% sold reaches the 50% step
+    soldSeatIds = Array.from({ length: 20 }, () => new Types.ObjectId());
+    const quote = await service.evaluate(trip, 300000, now);
+
+    expect(quote.loadFactor).toBe(50);
+    expect(quote.adjustments.map((item) => item.name)).toEqual([
+      'Lấp đầy tuyến',
+      'Đặt sớm (mặc định)',
+    ]);
+    expect(quote.price).toBe(375000);
+    expect(pricingCurveModel.find).toHaveBeenCalledWith({
+      isActive: true,
+      routeId: { $in: [null, routeId] },
+    });
+    expect(seatInventoryModel.distinct).toHaveBeenCalledWith('seatId', {
+      schedulingId: trip._id,
+      status: SeatStatus.SOLD,
+    });
+  });
+
+  it('should price a delayed trip from its expected departure', async () => {
+    active = [
+      {
+        _id: new Types.ObjectId(),
+        name: 'Sát giờ',
+        routeId: null,
+        type: PricingCurveType.TIME_TO_DEPARTURE,
+        steps: [
+          { threshold: 48, percent: 5 },
+          { threshold: 6, percent: -10 },
+        ],
+      },
+    ];
+
+    // Scheduled at 20:00 but now expected to leave 3 hours from now
+    const quote = await service.evaluate(
+      { ...trip, expectedDepartureAt: new Date('2025-01-08T11:00:00') },
+      300000,
+      now,
+    );
+
+    expect(quote.hoursToDeparture).toBe(3);
+    expect(quote.adjustments).toEqual([
+      expect.objectContaining({ threshold: 6, value: -30000 }),
+    ]);
+  });
+
+  it('should treat a trip past its departure as leaving now', async () => {
+    active = [
+      {
+        _id: new Types.ObjectId(),
+        name: 'Sát giờ',
+        routeId: null,
+        type: PricingCurveType.TIME_TO_DEPARTURE,
+        steps: [{ threshold: 2, percent: -20 }],
+      },
+    ];
+
+    const quote = await service.evaluate(
+      trip,
+      300000,
+      new Date('2025-01-09T20:30:00'),
+    );
+
+    expect(quote.hoursToDeparture).toBe(0);
+    expect(quote.price).toBe(240000);
+  });
+
+  it('should not price a trip below zero or divide by an empty bus', async () => {
+    active = [
+      {
+        _id: new Types.ObjectId(),
+        name: 'Lấp đầy',
+        routeId: null,
+        type: PricingCurveType.LOAD_FACTOR,
+        steps: [{ threshold: 0, percent: -60 }],
+      },
+      {
+        _id: new Types.ObjectId(),
+        name: 'Đặt sớm',
+        routeId: null,
+        type: PricingCurveType.TIME_TO_DEPARTURE,
+        steps: [{ threshold: 48, percent: -60 }],
+      },
+    ];
+
+    const quote = await service.evaluate(
+      { ...trip, availableSeats: 0 },
+      300000,
+      now,
+    );
+
+    expect(quote.loadFactor).toBe(0);
+    expect(quote.price).toBe(0);
+  });
+});
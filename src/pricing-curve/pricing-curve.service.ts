@@ -0,0 +1,272 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  AppliedPricingCurve,
+  DynamicPrice,
+  PricingCurve,
+  PricingCurveDocument,
+  PricingCurveStep,
+} from './entities/pricing-curve.entity';
+import { CreatePricingCurveDto } from './dto/create-pricing-curve.dto';
+import { UpdatePricingCurveDto } from './dto/update-pricing-curve.dto';
+import { PricingCurveType } from './enums/pricing-curve-type.enum';
+import { SchedulingDocument } from '../scheduling/entities/scheduling.entity';
+import {
+  SeatInventory,
+  SeatInventoryDocument,
+} from '../seat/entities/seat-inventory.entity';
+import { SeatStatus } from '../seat/enums/seat-status.enum';
+import { getDepartureAt } from '../common/utils/departure-time.util';
+
+export type PricedScheduling = Pick<
+  SchedulingDocument,
+  | '_id'
+  | 'routeId'
+  | 'bookedSeats'
+  | 'availableSeats'
+  | 'departureDate'
+  | 'etd'
+  | 'expectedDepartureAt'
+>;
+
+@Injectable()
+export class PricingCurveService {
+  constructor(
+    @InjectModel(PricingCurve.name)
+    private pricingCurveModel: Model<PricingCurveDocument>,
+    @InjectModel(SeatInventory.name)
+    private seatInventoryModel: Model<SeatInventoryDocument>,
+  ) {}
+
+  async findAll(routeId?: string) {
+    const filter = routeId
+      ? { routeId: { $in: [null, new Types.ObjectId(routeId)] } }
+      : {};
+    return this.pricingCurveModel
+      .find(filter)
+      .populate('routeId', 'name')
+      .sort({ routeId: 1, type: 1 })
+      .exec();
+  }
+
+  async findOne(id: string) {
+    const curve = await this.pricingCurveModel.findById(id).exec();
+    if (!curve) throw new NotFoundException('Pricing curve not found');
+    return curve;
+  }
+
+  async create(dto: CreatePricingCurveDto) {
+    this.validate(dto);
+    const routeId = dto.routeId ? new Types.ObjectId(dto.routeId) : null;
+    await this.ensureUnique(routeId, dto.type);
+
+    return this.pricingCurveModel.create({
+      ...dto,
+      routeId,
+      steps: this.sortSteps(dto.steps),
+    });
+  }
+
+  async update(id: string, dto: UpdatePricingCurveDto) {
+    const curve = await this.findOne(id);
+
+    const { routeId, steps, ...fields } = dto;
+    Object.assign(curve, fields);
+    if (routeId !== undefined) {
+      curve.routeId = routeId ? new Types.ObjectId(routeId) : null;
+    }
+    if (steps) {
+      curve.steps = this.sortSteps(steps);
+    }
+
+    this.validate(curve);
+    if (routeId !== undefined || dto.type) {
+      await this.ensureUnique(
+        curve.routeId,
+        curve.type,
+        curve._id as Types.ObjectId,
+      );
+    }
+    return curve.save();
+  }
+
+  async remove(id: string) {
+    const result = await this.pricingCurveModel.deleteOne({
+      _id: new Types.ObjectId(id),
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Pricing curve not found');
+    }
+    return { message: 'Pricing curve removed' };
+  }
+
+  /**
+   * Adjust the trip price of a scheduling by its load factor
+   * (sold seats in the inventory / total seats) and the time left
+   * before departure
+   */
+  async evaluate(
+    scheduling: PricedScheduling,
+    basePrice: number,
+    now: Date = new Date(),
+  ): Promise<DynamicPrice> {
+    const [curves, soldSeatIds] = await Promise.all([
+      this.getActiveCurves(scheduling.routeId),
+      // Sold seats straight from the inventory, whatever channel sold them
+      this.seatInventoryModel
+        .distinct('seatId', {
+          schedulingId: scheduling._id,
+          status: SeatStatus.SOLD,
+        })
+        .exec(),
+    ]);
+
+    const totalSeats =
+      (scheduling.bookedSeats ?? 0) + (scheduling.availableSeats ?? 0);
+    const loadFactor =
+      totalSeats > 0
+        ? this.round(Math.min(soldSeatIds.length / totalSeats, 1) * 100)
+        : 0;
+
+    const departureAt = getDepartureAt(scheduling);
+    const hoursToDeparture = Math.max(
+      this.round((departureAt.getTime() - now.getTime()) / 3600000),
+      0,
+    );
+
+    const adjustments: AppliedPricingCurve[] = [];
+    for (const curve of curves) {
+      const step =
+        curve.type === PricingCurveType.LOAD_FACTOR
+          ? this.findLoadFactorStep(curve.steps, loadFactor)
+          : this.findTimeToDepartureStep(curve.steps, hoursToDeparture);
+      if (!step) continue;
+
+      adjustments.push({
+        curveId: (curve._id as Types.ObjectId).toString(),
+        name: curve.name,
+        type: curve.type,
+        threshold: step.threshold,
+        percent: step.percent,
+        value: Math.round((basePrice * step.percent) / 100),
+      });
+    }
+
+    const surcharge = adjustments.reduce((sum, item) => sum + item.value, 0);
+
+    return {
+      basePrice,
+      loadFactor,
+      hoursToDeparture,
+      adjustments,
+      // Giảm giá không làm giá âm
+      price: Math.max(basePrice + surcharge, 0),
+      quotedAt: now,
+    };
+  }
+
+  /**
+   * One active curve per type: the route's own curve, else the default one
+   */
+  private async getActiveCurves(
+    routeId?: Types.ObjectId | string | null,
+  ): Promise<PricingCurveDocument[]> {
+    const routeIds: Array<Types.ObjectId | null> = [null];
+    if (routeId) routeIds.push(new Types.ObjectId(routeId.toString()));
+
+    const curves = await this.pricingCurveModel
+      .find({ isActive: true, routeId: { $in: routeIds } })
+      .exec();
+
+    const byType = new Map<PricingCurveType, PricingCurveDocument>();
+    for (const curve of curves) {
+      if (!byType.has(curve.type) || curve.routeId) {
+        byType.set(curve.type, curve);
+      }
+    }
+    return [...byType.values()];
+  }
+
+  /**
+   * Highest step already reached
+   */
+  private findLoadFactorStep(
+    steps: PricingCurveStep[],
+    loadFactor: number,
+  ): PricingCurveStep | undefined {
+    return steps
+      .filter((step) => step.threshold <= loadFactor)
+      .sort((a, b) => b.threshold - a.threshold)[0];
+  }
+
+  /**
+   * Closest step to departure still covering the hours left
+   */
+  private findTimeToDepartureStep(
+    steps: PricingCurveStep[],
+    hoursToDeparture: number,
+  ): PricingCurveStep | undefined {
+    return steps
+      .filter((step) => step.threshold >= hoursToDeparture)
+      .sort((a, b) => a.threshold - b.threshold)[0];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 10) / 10;
+  }
+
+  private sortSteps(steps: PricingCurveStep[]): PricingCurveStep[] {
+    return [...steps].sort((a, b) => a.threshold - b.threshold);
+  }
+
+  private async ensureUnique(
+    routeId: Types.ObjectId | null,
+    type: PricingCurveType,
+    excludeId?: Types.ObjectId,
+  ) {
+    const existing = await this.pricingCurveModel.exists({
+      routeId,
+      type,
+      ...(excludeId && { _id: { $ne: excludeId } }),
+    });
+    if (existing) {
+      throw new ConflictException(
+        routeId
+          ? `This route already has a ${type} pricing curve`
+          : `A default ${type} pricing curve already exists`,
+      );
+    }
+  }
+
+  /**
+   * Steps must have distinct thresholds; load factor thresholds are percentages
+   */
+  private validate(dto: Partial<PricingCurve> | CreatePricingCurveDto) {
+    const steps = dto.steps ?? [];
+    if (steps.length === 0) {
+      throw new BadRequestException('Pricing curve needs at least one step');
+    }
+
+    const thresholds = steps.map((step) => step.threshold);
+    if (new Set(thresholds).size !== thresholds.length) {
+      throw new BadRequestException(
+        'Pricing curve steps must have distinct thresholds',
+      );
+    }
+
+    if (
+      dto.type === PricingCurveType.LOAD_FACTOR &&
+      thresholds.some((threshold) => threshold > 100)
+    ) {
+      throw new BadRequestException(
+        'Load factor thresholds are percentages (0-100)',
+      );
+    }
+  }
+}
@@ -2,4 +2,5 @@ export enum PromotionType {
   DEFAULT = 'Default',
   RECURRING = 'Recurring',
   SPECIAL = 'Special',
+  ROUND_TRIP = 'RoundTrip',
 }
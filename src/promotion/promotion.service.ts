@@ -115,6 +115,7 @@ export class PromotionService {
       [PromotionType.DEFAULT]: 0,
       [PromotionType.RECURRING]: 0,
       [PromotionType.SPECIAL]: 0,
+      [PromotionType.ROUND_TRIP]: 0,
     };
 
     typeStats.forEach((stat) => {
@@ -376,6 +377,38 @@ export class PromotionService {
     return defaultPromo;
   }
 
+  /**
+   * Find round-trip discount rule active for a departure date
+   * Returns null if no round-trip promotion covers this date
+   */
+  async findRoundTripPromotion(
+    departureDate: Date,
+  ): Promise<PromotionDocument | null> {
+    return this.promoModel
+      .findOne({
+        type: PromotionType.ROUND_TRIP,
+        startDate: { $lte: departureDate },
+        expiryDate: { $gte: departureDate },
+        isActive: true,
+      })
+      .sort({ value: -1 })
+      .exec();
+  }
+
+  /**
+   * Pick the promotion for one leg of a round trip:
+   * the better of the leg's own promotion and the round-trip rule
+   */
+  pickRoundTripLegPromotion<T extends Promotion>(
+    legPromotion: T,
+    roundTripPromotion: T | null,
+  ): T {
+    if (roundTripPromotion && roundTripPromotion.value > legPromotion.value) {
+      return roundTripPromotion;
+    }
+    return legPromotion;
+  }
+
   /**
    * Get default promotion (0% for regular days)
    */
@@ -0,0 +1,56 @@
+import {
+  IsArray,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  Max,
+  ArrayMinSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RefundTierDto {
+  @ApiProperty({
+    description:
+      'Tier applies when cancelled at least this many hours before departure',
+    example: 24,
+    minimum: 0,
+  })
+  @IsNumber()
+  @Min(0)
+  minHoursBeforeDeparture: number;
+
+  @ApiProperty({
+    description: 'Refund percentage (0-100)',
+    example: 100,
+    minimum: 0,
+    maximum: 100,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  refundPercent: number;
+}
+
+export class UpdateRefundPolicyDto {
+  @ApiProperty({
+    type: [RefundTierDto],
+    example: [
+      { minHoursBeforeDeparture: 24, refundPercent: 100 },
+      { minHoursBeforeDeparture: 3, refundPercent: 50 },
+      { minHoursBeforeDeparture: 0, refundPercent: 0 },
+    ],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => RefundTierDto)
+  tiers: RefundTierDto[];
+
+  @ApiPropertyOptional({ example: 'Chính sách hoàn vé tuyến HCM - Đà Lạt' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
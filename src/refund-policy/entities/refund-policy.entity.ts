@@ -0,0 +1,39 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type RefundPolicyDocument = RefundPolicy & Document;
+
+export interface RefundTier {
+  minHoursBeforeDeparture: number; // Hủy trước giờ khởi hành >= số giờ này
+  refundPercent: number; // % hoàn tiền (0-100)
+}
+
+/**
+ * Chính sách hoàn tiền khi khách hủy vé.
+ * routeId = null là chính sách mặc định cho mọi tuyến.
+ */
+@Schema({ timestamps: true, collection: 'refund_policies' })
+export class RefundPolicy {
+  @Prop({ type: Types.ObjectId, ref: 'Route', default: null })
+  routeId: Types.ObjectId | null;
+
+  @Prop({
+    type: [
+      {
+        _id: false,
+        minHoursBeforeDeparture: { type: Number, required: true, min: 0 },
+        refundPercent: { type: Number, required: true, min: 0, max: 100 },
+      },
+    ],
+    required: true,
+  })
+  tiers: RefundTier[];
+
+  @Prop({ type: String })
+  description?: string;
+}
+
+export const RefundPolicySchema = SchemaFactory.createForClass(RefundPolicy);
+
+// Indexes
+RefundPolicySchema.index({ routeId: 1 }, { unique: true });
@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Param,
+  Body,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import { RefundPolicyService } from './refund-policy.service';
+import { UpdateRefundPolicyDto } from './dto/update-refund-policy.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+
+@ApiTags('Refund Policy')
+@Controller('refund-policy')
+export class RefundPolicyController {
+  constructor(private readonly refundPolicyService: RefundPolicyService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List configured refund policies (Admin only)' })
+  findAll() {
+    return this.refundPolicyService.findAll();
+  }
+
+  @Get('route/:routeId')
+  @ApiOperation({
+    summary: 'Get effective refund tiers for a route',
+    description: 'Falls back to the default policy if the route has none',
+  })
+  @ApiParam({ name: 'routeId', description: 'Route ID' })
+  getRoutePolicy(@Param('routeId') routeId: string) {
+    return this.refundPolicyService.getEffectivePolicy(routeId);
+  }
+
+  @Put('default')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Set default refund tiers (Admin only)' })
+  @ApiResponse({ status: 200, description: 'Default policy updated' })
+  updateDefaultPolicy(@Body() dto: UpdateRefundPolicyDto) {
+    return this.refundPolicyService.upsertDefaultPolicy(dto);
+  }
+
+  @Put('route/:routeId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Set refund tiers for a route (Admin only)' })
+  @ApiParam({ name: 'routeId', description: 'Route ID' })
+  @ApiResponse({ status: 200, description: 'Route policy updated' })
+  updateRoutePolicy(
+    @Param('routeId') routeId: string,
+    @Body() dto: UpdateRefundPolicyDto,
+  ) {
+    return this.refundPolicyService.upsertRoutePolicy(routeId, dto);
+  }
+
+  @Delete('route/:routeId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Remove route refund policy, default applies (Admin only)',
+  })
+  @ApiParam({ name: 'routeId', description: 'Route ID' })
+  removeRoutePolicy(@Param('routeId') routeId: string) {
+    return this.refundPolicyService.removeRoutePolicy(routeId);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { RefundPolicyService } from './refund-policy.service';
+import { RefundPolicyController } from './refund-policy.controller';
+import {
+  RefundPolicy,
+  RefundPolicySchema,
+} from './entities/refund-policy.entity';
+import { AuthModule } from '../auth/auth.module';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: RefundPolicy.name, schema: RefundPolicySchema },
+    ]),
+    AuthModule,
+  ],
+  providers: [RefundPolicyService, JwtAuthGuard],
+  controllers: [RefundPolicyController],
+  exports: [RefundPolicyService],
+})
+export class RefundPolicyModule {}
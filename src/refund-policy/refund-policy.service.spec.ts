@@ -0,0 +1,98 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { RefundPolicyService } from './refund-policy.service';
+import { RefundPolicy } from './entities/refund-policy.entity';
+
+describe('RefundPolicyService', () => {
+  let service: RefundPolicyService;
+
+  const routeId = new Types.ObjectId();
+  const departureAt = new Date('2026-03-10T14:30:00');
+  const hoursBefore = (hours: number) =>
+    new Date(departureAt.getTime() - hours * 3600 * 1000);
+
+  // routeId → stored policy (null key = admin default policy)
+  let policies: Map<string | null, RefundPolicy>;
+  const findOne = jest.fn((filter: { routeId: Types.ObjectId | null }) => ({
+    lean: () => ({
+      exec: () =>
+        Promise.resolve(
+          policies.get(filter.routeId ? String(filter.routeId) : null) ?? null,
+        ),
+    }),
+  }));
+
+  beforeEach(async () => {
+    policies = new Map();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RefundPolicyService,
+        { provide: getModelToken(RefundPolicy.name), useValue: { findOne } },
+      ],
+    }).compile();
+
+    service = module.get<RefundPolicyService>(RefundPolicyService);
+  });
+
+  it.each([
+    [48, 100],
+    [24, 100],
+    [23.99, 50],
+    [3, 50],
+    [2.99, 0],
+    [0, 0],
+    [-1, 0],
+  ])(
+    'should apply the built-in tier %sh before departure (%s%%)',
+    async (hours, refundPercent) => {
+      const quote = await service.calculateRefund(
+        routeId,
+        departureAt,
+        400000,
+        hoursBefore(hours),
+      );
+
+      expect(quote).toMatchObject({
+        refundPercent,
+        refundAmount: (400000 * refundPercent) / 100,
+        policySource: 'default',
+      });
+    },
+  );
+
+  it('should prefer the route policy over the default one', async () => {
+    policies.set(null, {
+      routeId: null,
+      tiers: [{ minHoursBeforeDeparture: 0, refundPercent: 10 }],
+    } as RefundPolicy);
+    policies.set(String(routeId), {
+      routeId,
+      tiers: [
+        { minHoursBeforeDeparture: 6, refundPercent: 70 },
+        { minHoursBeforeDeparture: 72, refundPercent: 90 },
+      ],
+    } as RefundPolicy);
+
+    const early = await service.calculateRefund(
+      routeId,
+      departureAt,
+      333333,
+      hoursBefore(72),
+    );
+    const late = await service.calculateRefund(
+      routeId,
+      departureAt,
+      333333,
+      hoursBefore(5),
+    );
+
+    expect(early).toMatchObject({
+      refundPercent: 90,
+      refundAmount: 299999.7,
+      policySource: 'route',
+    });
+    // Below the lowest route tier nothing is refunded
+    expect(late).toMatchObject({ refundPercent: 0, refundAmount: 0 });
+  });
+});
@@ -0,0 +1,160 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  RefundPolicy,
+  RefundPolicyDocument,
+  RefundTier,
+} from './entities/refund-policy.entity';
+import { UpdateRefundPolicyDto } from './dto/update-refund-policy.dto';
+
+/**
+ * Chính sách mặc định khi admin chưa cấu hình:
+ * 100% nếu hủy trước > 24h, 50% nếu 3-24h, 0% trong vòng 3h
+ */
+export const DEFAULT_REFUND_TIERS: RefundTier[] = [
+  { minHoursBeforeDeparture: 24, refundPercent: 100 },
+  { minHoursBeforeDeparture: 3, refundPercent: 50 },
+  { minHoursBeforeDeparture: 0, refundPercent: 0 },
+];
+
+export interface RefundQuote {
+  hoursBeforeDeparture: number;
+  refundPercent: number;
+  refundAmount: number;
+  policySource: 'route' | 'default';
+}
+
+@Injectable()
+export class RefundPolicyService {
+  constructor(
+    @InjectModel(RefundPolicy.name)
+    private refundPolicyModel: Model<RefundPolicyDocument>,
+  ) {}
+
+  async findAll() {
+    return this.refundPolicyModel
+      .find()
+      .populate('routeId', 'name')
+      .sort({ routeId: 1 })
+      .exec();
+  }
+
+  /**
+   * Get effective tiers for a route (route policy > default policy > built-in)
+   */
+  async getEffectivePolicy(routeId?: string | Types.ObjectId | null): Promise<{
+    tiers: RefundTier[];
+    source: 'route' | 'default';
+  }> {
+    if (routeId) {
+      const routePolicy = await this.refundPolicyModel
+        .findOne({ routeId: new Types.ObjectId(routeId.toString()) })
+        .lean()
+        .exec();
+      if (routePolicy) {
+        return { tiers: this.sortTiers(routePolicy.tiers), source: 'route' };
+      }
+    }
+
+    const defaultPolicy = await this.refundPolicyModel
+      .findOne({ routeId: null })
+      .lean()
+      .exec();
+
+    return {
+      tiers: this.sortTiers(defaultPolicy?.tiers ?? DEFAULT_REFUND_TIERS),
+      source: 'default',
+    };
+  }
+
+  /**
+   * Calculate refund for a cancellation at `now`
+   * (departureAt = actual departure time, not the midnight departureDate)
+   */
+  async calculateRefund(
+    routeId: string | Types.ObjectId | null | undefined,
+    departureAt: Date,
+    paidAmount: number,
+    now: Date = new Date(),
+  ): Promise<RefundQuote> {
+    const { tiers, source } = await this.getEffectivePolicy(routeId);
+
+    const hoursBeforeDeparture =
+      (new Date(departureAt).getTime() - now.getTime()) / (60 * 60 * 1000);
+
+    // Tiers are sorted by minHoursBeforeDeparture desc → first match wins
+    const tier = tiers.find(
+      (item) => hoursBeforeDeparture >= item.minHoursBeforeDeparture,
+    );
+    const refundPercent = tier?.refundPercent ?? 0;
+    const refundAmount =
+      Math.round(((paidAmount * refundPercent) / 100) * 100) / 100;
+
+    return {
+      hoursBeforeDeparture: Math.round(hoursBeforeDeparture * 100) / 100,
+      refundPercent,
+      refundAmount,
+      policySource: source,
+    };
+  }
+
+  async upsertRoutePolicy(routeId: string, dto: UpdateRefundPolicyDto) {
+    return this.upsert(new Types.ObjectId(routeId), dto);
+  }
+
+  async upsertDefaultPolicy(dto: UpdateRefundPolicyDto) {
+    return this.upsert(null, dto);
+  }
+
+  async removeRoutePolicy(routeId: string) {
+    const result = await this.refundPolicyModel.deleteOne({
+      routeId: new Types.ObjectId(routeId),
+    });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException('Refund policy not found for this route');
+    }
+    return {
+      message: 'Route refund policy removed, default policy now applies',
+    };
+  }
+
+  private async upsert(
+    routeId: Types.ObjectId | null,
+    dto: UpdateRefundPolicyDto,
+  ) {
+    const hours = dto.tiers.map((tier) => tier.minHoursBeforeDeparture);
+    if (new Set(hours).size !== hours.length) {
+      throw new BadRequestException(
+        'Each tier must have a different minHoursBeforeDeparture',
+      );
+    }
+
+    return this.refundPolicyModel
+      .findOneAndUpdate(
+        { routeId },
+        {
+          $set: {
+            routeId,
+            tiers: this.sortTiers(dto.tiers),
+            description: dto.description,
+          },
+        },
+        { upsert: true, new: true },
+      )
+      .exec();
+  }
+
+  private sortTiers(tiers: RefundTier[]): RefundTier[] {
+    return [...tiers]
+      .map(({ minHoursBeforeDeparture, refundPercent }) => ({
+        minHoursBeforeDeparture,
+        refundPercent,
+      }))
+      .sort((a, b) => b.minHoursBeforeDeparture - a.minHoursBeforeDeparture);
+  }
+}
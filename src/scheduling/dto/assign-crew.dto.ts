@@ -0,0 +1,24 @@
+import { IsArray, IsMongoId, IsOptional, ValidateIf } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AssignCrewDto {
+  @ApiProperty({
+    description: 'ID tài xế (null = bỏ phân công tài xế)',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsMongoId()
+  driverId?: string | null;
+
+  @ApiProperty({
+    description: 'Danh sách ID phụ xe / tài xế phụ (mảng rỗng = bỏ phân công)',
+    required: false,
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  conductorIds?: string[];
+}
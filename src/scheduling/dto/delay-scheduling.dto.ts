@@ -0,0 +1,17 @@
+import { IsDateString, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class DelaySchedulingDto {
+  @ApiProperty({
+    description: 'Giờ khởi hành dự kiến mới',
+    example: '2024-12-25T09:30:00+07:00',
+  })
+  @IsDateString()
+  expectedDepartureAt: string;
+
+  @ApiProperty({ description: 'Lý do trễ chuyến', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -76,7 +76,12 @@ export class SchedulingExcelRowDto {
   })
   eta?: string;
 
-  @ApiProperty({ description: 'Giá vé', example: 150000 })
+  @ApiProperty({
+    description: 'Giá vé (bỏ trống: tính theo bảng giá tuyến)',
+    example: 150000,
+    required: false,
+  })
+  @IsOptional()
   @IsNumber({}, { message: 'Giá vé phải là số' })
   @Transform(({ value }) => {
     // Handle Excel number formats
@@ -87,7 +92,7 @@ export class SchedulingExcelRowDto {
     }
     return Number(value) || 0;
   })
-  price: number;
+  price?: number;
 
   @ApiProperty({
     description: 'Tên tài xế',
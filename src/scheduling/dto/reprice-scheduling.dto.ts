@@ -0,0 +1,54 @@
+import {
+  IsBoolean,
+  IsDateString,
+  IsMongoId,
+  IsOptional,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class RepriceSchedulingDto {
+  @ApiProperty({
+    description: 'Chỉ tính lại giá chuyến của tuyến này',
+    required: false,
+  })
+  @IsOptional()
+  @IsMongoId()
+  routeId?: string;
+
+  @ApiProperty({
+    description: 'Khởi hành từ ngày (mặc định: hôm nay)',
+    example: '2025-01-01',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({
+    description: 'Khởi hành đến ngày',
+    example: '2025-01-31',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiProperty({
+    description:
+      'Tính lại cả chuyến có giá nhập tay (mặc định chỉ chuyến tự tính giá)',
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  includeManual?: boolean;
+
+  @ApiProperty({
+    description: 'Chỉ xem trước, không lưu',
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean;
+}
@@ -0,0 +1,173 @@
+import {
+  IsString,
+  IsNotEmpty,
+  IsArray,
+  IsOptional,
+  IsMongoId,
+  IsDateString,
+  IsNumber,
+  IsInt,
+  IsIn,
+  IsEnum,
+  ArrayMinSize,
+  Min,
+  Max,
+  Matches,
+} from 'class-validator';
+import { ApiProperty, PartialType } from '@nestjs/swagger';
+import { DAYS_OF_WEEK } from '../entities/scheduling-template.entity';
+
+export enum SeriesEditScope {
+  THIS = 'this', // Chỉ chuyến này
+  FOLLOWING = 'following', // Chuyến này và các chuyến sau
+  SERIES = 'series', // Cả chuỗi
+}
+
+export class CreateSchedulingTemplateDto {
+  @ApiProperty({ description: 'Tên mẫu', required: false })
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @ApiProperty({ description: 'ID tuyến đường' })
+  @IsMongoId()
+  @IsNotEmpty()
+  routeId: string;
+
+  @ApiProperty({ description: 'Danh sách ID các xe bus', type: [String] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsMongoId({ each: true })
+  busIds: string[];
+
+  @ApiProperty({
+    description: 'Thời gian khởi hành dự kiến (HH:mm)',
+    example: '08:00',
+  })
+  @IsString()
+  @Matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, {
+    message: 'ETD phải có định dạng HH:mm',
+  })
+  etd: string;
+
+  @ApiProperty({ description: 'Giá vé', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @ApiProperty({ description: 'Ghi chú', required: false })
+  @IsOptional()
+  @IsString()
+  note?: string;
+
+  @ApiProperty({
+    description: 'Ngày trong tuần lặp lại',
+    type: [String],
+    example: ['monday', 'wednesday', 'friday'],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(DAYS_OF_WEEK, { each: true })
+  daysOfWeek: string[];
+
+  @ApiProperty({ description: 'Ngày bắt đầu', example: '2024-12-25' })
+  @IsDateString()
+  startDate: string;
+
+  @ApiProperty({
+    description: 'Ngày kết thúc (bỏ trống = không giới hạn)',
+    required: false,
+    example: '2025-06-30',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiProperty({
+    description: 'Ngày không chạy (lễ, Tết)',
+    required: false,
+    type: [String],
+    example: ['2025-01-29', '2025-01-30'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsDateString({}, { each: true })
+  exceptionDates?: string[];
+
+  @ApiProperty({
+    description: 'Sinh trước chuyến cho bao nhiêu ngày tới',
+    required: false,
+    default: 30,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(180)
+  horizonDays?: number;
+}
+
+export class UpdateSchedulingTemplateDto extends PartialType(
+  CreateSchedulingTemplateDto,
+) {}
+
+export class UpdateTemplateExceptionsDto {
+  @ApiProperty({
+    description: 'Thêm ngày không chạy',
+    required: false,
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsDateString({}, { each: true })
+  add?: string[];
+
+  @ApiProperty({
+    description: 'Bỏ ngày không chạy (chuyến sẽ được sinh lại)',
+    required: false,
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsDateString({}, { each: true })
+  remove?: string[];
+}
+
+export class UpdateSeriesTripDto {
+  @ApiProperty({
+    description: 'Phạm vi sửa: this | following | series',
+    enum: SeriesEditScope,
+  })
+  @IsEnum(SeriesEditScope)
+  scope: SeriesEditScope;
+
+  @ApiProperty({ description: 'Thời gian khởi hành (HH:mm)', required: false })
+  @IsOptional()
+  @IsString()
+  @Matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, {
+    message: 'ETD phải có định dạng HH:mm',
+  })
+  etd?: string;
+
+  @ApiProperty({
+    description: 'Danh sách ID các xe bus',
+    required: false,
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsMongoId({ each: true })
+  busIds?: string[];
+
+  @ApiProperty({ description: 'Giá vé', required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  price?: number;
+
+  @ApiProperty({ description: 'Ghi chú', required: false })
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
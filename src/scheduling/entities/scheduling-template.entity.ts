@@ -0,0 +1,63 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+
+export type SchedulingTemplateDocument = SchedulingTemplate & Document;
+
+export const DAYS_OF_WEEK = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Mẫu lịch trình lặp lại: job hằng ngày sinh các chuyến (Scheduling.templateId)
+ * cho horizonDays ngày tới, bỏ qua các ngày nghỉ trong exceptionDates
+ */
+@Schema({ timestamps: true, collection: 'scheduling_templates' })
+export class SchedulingTemplate {
+    @Prop({ type: String, trim: true })
+    name?: string;
+
+    @Prop({ type: Types.ObjectId, ref: 'Route', required: true, index: true })
+    routeId: Types.ObjectId;
+
+    @Prop({ type: [{ type: Types.ObjectId, ref: 'Bus' }], required: true })
+    busIds: Types.ObjectId[];
+
+    @Prop({
+        required: true,
+        match: /^([01]?[0-9]|2[0-3]):[0-5][0-9]$/
+    })
+    etd: string; // HH:mm
+
+    @Prop({ min: 0, max: 10000000 })
+    price?: number;
+
+    @Prop({ maxlength: 500 })
+    note?: string;
+
+    @Prop({ type: [String], enum: DAYS_OF_WEEK, required: true })
+    daysOfWeek: string[];
+
+    @Prop({ type: Date, required: true })
+    startDate: Date;
+
+    @Prop({ type: Date, default: null })
+    endDate?: Date | null; // null = lặp không giới hạn
+
+    @Prop({ type: [String], default: [] })
+    exceptionDates: string[]; // YYYY-MM-DD, không chạy vào các ngày này (lễ, Tết...)
+
+    @Prop({ default: 30, min: 1, max: 180 })
+    horizonDays: number; // Sinh trước bao nhiêu ngày
+
+    @Prop({ type: Date, default: null })
+    generatedUntil?: Date | null; // Ngày cuối cùng đã sinh chuyến
+
+    @Prop({ default: true })
+    isActive: boolean;
+
+    readonly createdAt?: Date;
+
+    readonly updatedAt?: Date;
+}
+
+export const SchedulingTemplateSchema = SchemaFactory.createForClass(SchedulingTemplate);
+
+SchedulingTemplateSchema.index({ isActive: 1 });
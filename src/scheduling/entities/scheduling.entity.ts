@@ -110,6 +110,24 @@ export class Scheduling {
     })
     actualArrivalTime?: string; // Thời gian đến thực tế
 
+    @Prop({ type: Date })
+    expectedDepartureAt?: Date; // Giờ khởi hành dự kiến mới khi chuyến bị trễ
+
+    @Prop({ type: Date })
+    expectedArrivalAt?: Date; // Giờ đến dự kiến mới khi chuyến bị trễ
+
+    @Prop({ default: 0, min: 0 })
+    delayMinutes: number; // Số phút trễ so với lịch
+
+    @Prop({ maxlength: 500 })
+    delayReason?: string; // Lý do trễ chuyến
+
+    @Prop({ type: Date })
+    cancelledAt?: Date; // Thời điểm nhà xe hủy chuyến
+
+    @Prop({ maxlength: 500 })
+    cancellationReason?: string; // Lý do hủy chuyến (xe hỏng, thời tiết...)
+
     @Prop({
         default: 0,
         min: 0,
@@ -142,6 +160,9 @@ export class Scheduling {
     @Max(10000000, { message: 'Giá vé không được vượt quá 10 triệu' })
     price?: number; // Giá vé cho lịch trình này
 
+    @Prop({ default: false })
+    isAutoPriced: boolean; // Giá tính từ bảng giá tuyến + fare rules, được cập nhật khi tính lại giá
+
     @Prop({
         type: {
             name: {
@@ -194,6 +215,12 @@ export class Scheduling {
         phone: string;
     };
 
+    @Prop({ type: Types.ObjectId, ref: 'CrewMember', default: null, index: true })
+    driverId?: Types.ObjectId | null; // Tài xế được phân công (thay cho driver nhập tay)
+
+    @Prop({ type: [{ type: Types.ObjectId, ref: 'CrewMember' }], default: [], index: true })
+    conductorIds: Types.ObjectId[]; // Phụ xe / tài xế phụ được phân công
+
     // Thông tin tự động từ tuyến đường
     @Prop({
         min: 1,
@@ -223,6 +250,12 @@ export class Scheduling {
     @IsOptional()
     @IsBoolean({ message: 'Lặp lại phải là boolean' })
     isRecurring: boolean; // Có phải lịch trình lặp lại không
+
+    @Prop({ type: Types.ObjectId, ref: 'SchedulingTemplate', default: null, index: true })
+    templateId?: Types.ObjectId | null; // Mẫu lặp lại đã sinh ra chuyến này
+
+    @Prop({ default: false })
+    isDetached: boolean; // Đã sửa riêng chuyến này, không nhận thay đổi của cả chuỗi
 }
 
 export const SchedulingSchema = SchemaFactory.createForClass(Scheduling);
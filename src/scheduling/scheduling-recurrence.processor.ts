@@ -0,0 +1,36 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+import {
+    SchedulingRecurrenceJob,
+    SchedulingTemplateService,
+} from './services/scheduling-template.service';
+
+@Processor('scheduling-recurrence')
+export class SchedulingRecurrenceProcessor {
+    private readonly logger = new Logger(SchedulingRecurrenceProcessor.name);
+
+    constructor(private readonly templateService: SchedulingTemplateService) { }
+
+    @Process('roll-forward')
+    async handleRollForward(job: Job<SchedulingRecurrenceJob>) {
+        const { templateId } = job.data;
+
+        this.logger.log(`Processing roll-forward job${templateId ? ` for template ${templateId}` : ''}`);
+
+        try {
+            const results = templateId
+                ? [await this.templateService.rollForward(templateId)]
+                : await this.templateService.rollForwardAll();
+
+            return {
+                success: true,
+                templates: results.length,
+                created: results.reduce((sum, item) => sum + item.created, 0),
+            };
+        } catch (error) {
+            this.logger.error('Roll-forward of recurring schedulings failed:', error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,115 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Body,
+    Patch,
+    Param,
+    Delete,
+    Query,
+    UseGuards,
+} from '@nestjs/common';
+import {
+    ApiTags,
+    ApiOperation,
+    ApiResponse,
+    ApiBearerAuth,
+    ApiQuery,
+} from '@nestjs/swagger';
+import { SchedulingTemplateService } from './services/scheduling-template.service';
+import {
+    CreateSchedulingTemplateDto,
+    UpdateSchedulingTemplateDto,
+    UpdateSeriesTripDto,
+    UpdateTemplateExceptionsDto,
+} from './dto/scheduling-template.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+
+@ApiTags('Scheduling Templates')
+@Controller('scheduling-templates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SELLER)
+@ApiBearerAuth()
+export class SchedulingTemplateController {
+    constructor(private readonly templateService: SchedulingTemplateService) { }
+
+    @Post()
+    @ApiOperation({
+        summary: 'Tạo mẫu lịch trình lặp lại',
+        description: 'Sinh ngay các chuyến trong horizonDays ngày tới, sau đó job hằng ngày tiếp tục sinh',
+    })
+    @ApiResponse({ status: 201, description: 'Mẫu đã được tạo' })
+    @ApiResponse({ status: 400, description: 'Dữ liệu không hợp lệ' })
+    create(@Body() dto: CreateSchedulingTemplateDto) {
+        return this.templateService.create(dto);
+    }
+
+    @Get()
+    @ApiOperation({ summary: 'Danh sách mẫu lịch trình lặp lại' })
+    @ApiQuery({ name: 'routeId', required: false, description: 'Lọc theo tuyến đường' })
+    @ApiQuery({ name: 'includeInactive', required: false, description: 'Bao gồm mẫu đã kết thúc' })
+    findAll(
+        @Query('routeId') routeId?: string,
+        @Query('includeInactive') includeInactive?: string,
+    ) {
+        return this.templateService.findAll(routeId, includeInactive === 'true');
+    }
+
+    @Get(':id')
+    @ApiOperation({ summary: 'Chi tiết mẫu và các chuyến sắp tới' })
+    @ApiResponse({ status: 404, description: 'Không tìm thấy mẫu lịch trình' })
+    findOne(@Param('id') id: string) {
+        return this.templateService.findOneWithTrips(id);
+    }
+
+    @Patch('trips/:schedulingId')
+    @ApiOperation({
+        summary: 'Sửa một chuyến thuộc chuỗi',
+        description: 'scope = this (chỉ chuyến này) | following (chuyến này và các chuyến sau) | series (cả chuỗi)',
+    })
+    @ApiResponse({ status: 200, description: 'Đã cập nhật' })
+    updateTrip(
+        @Param('schedulingId') schedulingId: string,
+        @Body() dto: UpdateSeriesTripDto,
+    ) {
+        return this.templateService.updateTrip(schedulingId, dto);
+    }
+
+    @Patch(':id')
+    @ApiOperation({
+        summary: 'Sửa cả chuỗi',
+        description: 'Áp dụng cho các chuyến sắp tới chưa bị sửa riêng; chuyến không còn khớp lịch sẽ bị hủy nếu chưa có vé',
+    })
+    @ApiResponse({ status: 200, description: 'Đã cập nhật chuỗi' })
+    update(@Param('id') id: string, @Body() dto: UpdateSchedulingTemplateDto) {
+        return this.templateService.updateSeries(id, dto);
+    }
+
+    @Patch(':id/exceptions')
+    @ApiOperation({ summary: 'Thêm/bỏ ngày không chạy (lễ, Tết)' })
+    updateExceptions(
+        @Param('id') id: string,
+        @Body() dto: UpdateTemplateExceptionsDto,
+    ) {
+        return this.templateService.updateExceptions(id, dto);
+    }
+
+    @Post(':id/roll-forward')
+    @ApiOperation({ summary: 'Sinh chuyến ngay cho mẫu (không chờ job hằng ngày)' })
+    rollForward(@Param('id') id: string) {
+        return this.templateService.rollForward(id);
+    }
+
+    @Delete(':id')
+    @Roles(UserRole.ADMIN)
+    @ApiOperation({
+        summary: 'Kết thúc chuỗi lịch trình',
+        description: 'Ngừng sinh chuyến và hủy các chuyến sắp tới chưa có vé',
+    })
+    remove(@Param('id') id: string) {
+        return this.templateService.remove(id);
+    }
+}
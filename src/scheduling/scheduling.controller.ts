@@ -20,6 +20,9 @@ import {
     UpdateSchedulingDto,
     CreateBulkSchedulingDto,
 } from './dto/scheduling.dto';
+import { DelaySchedulingDto } from './dto/delay-scheduling.dto';
+import { AssignCrewDto } from './dto/assign-crew.dto';
+import { RepriceSchedulingDto } from './dto/reprice-scheduling.dto';
 import {
     ApiTags,
     ApiOperation,
@@ -218,6 +221,21 @@ export class SchedulingController {
         };
     }
 
+    @Post('reprice')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN)
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Tính lại giá các chuyến sắp khởi hành',
+        description:
+            'Áp dụng bảng giá tuyến (basePrice, pricePerKm) và fare rules hiện hành cho các chuyến chưa khởi hành. Mặc định bỏ qua chuyến có giá nhập tay; dryRun để xem trước.',
+    })
+    @ApiResponse({ status: 201, description: 'Danh sách chuyến đã đổi giá' })
+    @ApiResponse({ status: 403, description: 'Không có quyền truy cập' })
+    reprice(@Body() dto: RepriceSchedulingDto) {
+        return this.schedulingService.repriceFutureTrips(dto);
+    }
+
     @Post(':id/restore')
     @UseGuards(JwtAuthGuard, RolesGuard)
     @Roles(UserRole.ADMIN)
@@ -288,6 +306,36 @@ export class SchedulingController {
         return this.schedulingService.update(id, updateSchedulingDto);
     }
 
+    @Post(':id/delay')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN, UserRole.SELLER)
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Báo trễ chuyến',
+        description: 'Ghi nhận giờ khởi hành dự kiến mới, dời lịch chuyển trạng thái và gửi email cho khách đã có vé',
+    })
+    @ApiResponse({ status: 201, description: 'Đã cập nhật giờ khởi hành mới' })
+    @ApiResponse({ status: 400, description: 'Chuyến không thể báo trễ hoặc giờ mới không hợp lệ' })
+    @ApiResponse({ status: 404, description: 'Không tìm thấy lịch trình' })
+    delay(@Param('id') id: string, @Body() dto: DelaySchedulingDto) {
+        return this.schedulingService.delay(id, dto);
+    }
+
+    @Patch(':id/crew')
+    @UseGuards(JwtAuthGuard, RolesGuard)
+    @Roles(UserRole.ADMIN, UserRole.SELLER)
+    @ApiBearerAuth()
+    @ApiOperation({
+        summary: 'Phân công tài xế / phụ xe',
+        description: 'Từ chối nếu người được phân công trùng giờ với chuyến khác hoặc tài xế vượt quá số giờ lái trong ngày',
+    })
+    @ApiResponse({ status: 200, description: 'Đã phân công tổ lái' })
+    @ApiResponse({ status: 400, description: 'Trùng lịch, vượt giờ lái hoặc giấy phép hết hạn' })
+    @ApiResponse({ status: 404, description: 'Không tìm thấy lịch trình' })
+    assignCrew(@Param('id') id: string, @Body() dto: AssignCrewDto) {
+        return this.schedulingService.assignCrew(id, dto);
+    }
+
     @Patch(':id/seat-count')
     @UseGuards(JwtAuthGuard, RolesGuard)
     @Roles(UserRole.ADMIN, UserRole.SELLER, UserRole.CUSTOMER)
@@ -13,6 +13,12 @@ import { SchedulingReindexListener } from './services/scheduling-reindex.listene
 import { SchedulingQueueService } from './scheduling-queue.service';
 import { SchedulingProcessor } from './scheduling.processor';
 import { SearchModule } from '../modules/search/search.module';
+import { SchedulingTemplate, SchedulingTemplateSchema } from './entities/scheduling-template.entity';
+import { SchedulingTemplateService } from './services/scheduling-template.service';
+import { SchedulingTemplateController } from './scheduling-template.controller';
+import { SchedulingRecurrenceProcessor } from './scheduling-recurrence.processor';
+import { CrewMember, CrewMemberSchema } from '../crew/entities/crew-member.entity';
+import { FareRuleModule } from '../fare-rule/fare-rule.module';
 
 @Module({
     imports: [
@@ -20,13 +26,17 @@ import { SearchModule } from '../modules/search/search.module';
             { name: Scheduling.name, schema: SchedulingSchema },
             { name: Route.name, schema: RouteSchema },
             { name: Bus.name, schema: BusSchema },
+            { name: SchedulingTemplate.name, schema: SchedulingTemplateSchema },
+            { name: CrewMember.name, schema: CrewMemberSchema },
         ]),
-        BullModule.registerQueue({
-            name: 'scheduling-status',
-        }),
+        BullModule.registerQueue(
+            { name: 'scheduling-status' },
+            { name: 'scheduling-recurrence' },
+        ),
         SearchModule,
+        FareRuleModule,
     ],
-    controllers: [SchedulingController],
+    controllers: [SchedulingController, SchedulingTemplateController],
     providers: [
         SchedulingService,
         ExcelProcessingService,
@@ -35,6 +45,8 @@ import { SearchModule } from '../modules/search/search.module';
         SchedulingReindexListener,
         SchedulingQueueService,
         SchedulingProcessor,
+        SchedulingTemplateService,
+        SchedulingRecurrenceProcessor,
     ],
     exports: [
         SchedulingService,
@@ -42,6 +54,7 @@ import { SearchModule } from '../modules/search/search.module';
         ExcelImportService,
         SchedulingSearchService,
         SchedulingQueueService,
+        SchedulingTemplateService,
     ],
 })
 export class SchedulingModule { }
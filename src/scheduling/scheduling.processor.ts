@@ -37,9 +37,11 @@ export class SchedulingProcessor {
                 return { success: false, reason: 'not-found' };
             }
 
-            // Only update if still in scheduled status
-            if (scheduling.status === 'scheduled') {
+            // Only update if not started yet (a delayed trip starts at its rescheduled time)
+            if (scheduling.status === 'scheduled' || scheduling.status === 'delayed') {
+                const oldStatus = scheduling.status;
                 scheduling.status = 'in-progress';
+                scheduling.actualDepartureTime = this.toTime(new Date());
                 await scheduling.save();
 
                 this.logger.log(`Scheduling ${schedulingId} updated to in-progress`);
@@ -47,7 +49,7 @@ export class SchedulingProcessor {
                 // Emit event for real-time updates
                 this.eventEmitter.emit('scheduling.status.changed', {
                     schedulingId: schedulingId,
-                    oldStatus: 'scheduled',
+                    oldStatus,
                     newStatus: 'in-progress',
                     etd,
                 });
@@ -80,6 +82,7 @@ export class SchedulingProcessor {
             // Only update if in in-progress status
             if (scheduling.status === 'in-progress') {
                 scheduling.status = 'completed';
+                scheduling.actualArrivalTime = this.toTime(new Date());
                 await scheduling.save();
 
                 this.logger.log(`Scheduling ${schedulingId} updated to completed`);
@@ -102,4 +105,8 @@ export class SchedulingProcessor {
             throw error;
         }
     }
+
+    private toTime(date: Date): string {
+        return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+    }
 }
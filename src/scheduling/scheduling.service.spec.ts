@@ -0,0 +1,220 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getConnectionToken, getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { SchedulingService } from './scheduling.service';
+import { Scheduling } from './entities/scheduling.entity';
+import { SchedulingSearchService } from './services/scheduling-search.service';
+import { SchedulingQueueService } from './scheduling-queue.service';
+import { Route } from '../route/entities/route.entity';
+import { Bus } from '../bus/entities/bus.entity';
+import { CrewMember } from '../crew/entities/crew-member.entity';
+import { CrewRole } from '../crew/enums/crew-role.enum';
+import { CrewStatus } from '../crew/enums/crew-status.enum';
+import { FareRuleService } from '../fare-rule/fare-rule.service';
+
+// Keep the heavy service graphs (Bus schema, Elasticsearch, Bull) out of this test
+jest.mock('../bus/entities/bus.entity', () => ({ Bus: class Bus {} }));
+jest.mock('./services/scheduling-search.service', () => ({
+  SchedulingSearchService: class SchedulingSearchService {},
+}));
+jest.mock('./scheduling-queue.service', () => ({
+  SchedulingQueueService: class SchedulingQueueService {},
+}));
+jest.mock('../fare-rule/fare-rule.service', () => ({
+  FareRuleService: class FareRuleService {},
+}));
+
+describe('SchedulingService', () => {
+  let service: SchedulingService;
+
+  const query = <T>(value: T) => ({
+    populate: () => query(value),
+    exec: () => Promise.resolve(value),
+  });
+
+  const driver = {
+    _id: new Types.ObjectId(),
+    fullName: 'Nguyễn Văn Tài',
+    role: CrewRole.DRIVER,
+    status: CrewStatus.ACTIVE,
+    licenseNumber: '790123456789',
+  };
+  const conductor = {
+    _id: new Types.ObjectId(),
+    fullName: 'Trần Văn Phụ',
+    role: CrewRole.CONDUCTOR,
+    status: CrewStatus.ACTIVE,
+  };
+
+  const trip = (
+    etd: string,
+    eta: string,
+    crew: Record<string, unknown> = {},
+  ) => {
+    const fields = {
+      _id: new Types.ObjectId(),
+      routeId: {},
+      departureDate: new Date('2030-03-01'),
+      arrivalDate: new Date('2030-03-01'),
+      etd,
+      eta,
+      estimatedDuration: 240,
+      status: 'scheduled',
+      isDeleted: false,
+      driverId: null,
+      conductorIds: [],
+      ...crew,
+    };
+    return {
+      ...fields,
+      save: jest.fn(),
+      toObject: () => ({ ...fields }),
+    };
+  };
+
+  // The trip being edited and the other trips of its crew
+  let current: ReturnType<typeof trip>;
+  let otherTrips: ReturnType<typeof trip>[];
+
+  const schedulingModel = {
+    findById: jest.fn(() => query(current)),
+    find: jest.fn(() => query(otherTrips)),
+    findByIdAndUpdate: jest.fn(() => query(current)),
+  };
+  const crewMemberModel = {
+    find: jest.fn(() => query([driver, conductor])),
+  };
+  const schedulingQueueService = {
+    updateSchedulingJobs: jest.fn(),
+    removeSchedulingJobs: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    otherTrips = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchedulingService,
+        { provide: getModelToken(Scheduling.name), useValue: schedulingModel },
+        { provide: getModelToken(Route.name), useValue: {} },
+        { provide: getModelToken(Bus.name), useValue: {} },
+        {
+          provide: getModelToken(CrewMember.name),
+          useValue: crewMemberModel,
+        },
+        { provide: getConnectionToken(), useValue: {} },
+        {
+          provide: SchedulingSearchService,
+          useValue: { updateScheduling: jest.fn(), indexScheduling: jest.fn() },
+        },
+        { provide: SchedulingQueueService, useValue: schedulingQueueService },
+        { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: FareRuleService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<SchedulingService>(SchedulingService);
+  });
+
+  describe('assignCrew', () => {
+    it('should assign an available driver and conductor', async () => {
+      current = trip('08:00', '12:00');
+      otherTrips = [trip('13:00', '17:00', { driverId: driver._id })];
+
+      await service.assignCrew(String(current._id), {
+        driverId: String(driver._id),
+        conductorIds: [String(conductor._id)],
+      });
+
+      expect(current.save).toHaveBeenCalled();
+    });
+
+    it('should reject a crew member already on an overlapping trip', async () => {
+      current = trip('12:00', '16:00');
+      otherTrips = [trip('13:00', '17:00', { conductorIds: [conductor._id] })];
+
+      await expect(
+        service.assignCrew(String(current._id), {
+          conductorIds: [String(conductor._id)],
+        }),
+      ).rejects.toThrow(/Trần Văn Phụ: Đã được phân công chuyến từ 13:00/);
+      expect(current.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a driver over the daily driving limit', async () => {
+      // 5 hours already driven that day, 6 more on this trip (limit 10)
+      current = trip('12:00', '18:00');
+      otherTrips = [trip('06:00', '11:00', { driverId: driver._id })];
+
+      await expect(
+        service.assignCrew(String(current._id), {
+          driverId: String(driver._id),
+        }),
+      ).rejects.toThrow(/Vượt quá 10 giờ lái/);
+    });
+
+    it('should reject a driver on leave or whose license expires before arrival', async () => {
+      current = trip('08:00', '12:00');
+      crewMemberModel.find.mockReturnValueOnce(
+        query([
+          {
+            ...driver,
+            status: CrewStatus.ON_LEAVE,
+            licenseExpiry: new Date('2030-02-28'),
+          },
+        ]),
+      );
+
+      await expect(
+        service.assignCrew(String(current._id), {
+          driverId: String(driver._id),
+        }),
+      ).rejects.toThrow(/ON_LEAVE.*Giấy phép lái xe hết hạn ngày 2030-02-28/);
+    });
+  });
+
+  describe('when the trip window changes', () => {
+    beforeEach(() => {
+      current = trip('08:00', '12:00', { driverId: driver._id });
+      otherTrips = [trip('13:00', '17:00', { driverId: driver._id })];
+    });
+
+    it('should reject moving a trip onto another trip of its driver', async () => {
+      await expect(
+        service.update(String(current._id), { etd: '12:00', eta: '16:00' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(schedulingModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should keep the crew check out of edits that do not move the trip', async () => {
+      await service.update(String(current._id), { note: 'Xe mới bảo dưỡng' });
+
+      expect(crewMemberModel.find).not.toHaveBeenCalled();
+      expect(schedulingModel.findByIdAndUpdate).toHaveBeenCalled();
+    });
+
+    it('should reject a delay that runs into the next trip of its driver', async () => {
+      await expect(
+        service.delay(String(current._id), {
+          expectedDepartureAt: new Date(2030, 2, 1, 11, 0).toISOString(),
+          reason: 'Kẹt xe',
+        }),
+      ).rejects.toThrow(/Tổ lái đã phân công không phù hợp với giờ chạy mới/);
+      expect(current.save).not.toHaveBeenCalled();
+    });
+
+    it('should record a delay the crew can still cover', async () => {
+      await service.delay(String(current._id), {
+        expectedDepartureAt: new Date(2030, 2, 1, 8, 30).toISOString(),
+        reason: 'Kẹt xe',
+      });
+
+      expect(current.save).toHaveBeenCalled();
+    });
+  });
+});
@@ -7,6 +7,17 @@ import { Bus, BusDocument } from '../bus/entities/bus.entity';
 import { CreateSchedulingDto, UpdateSchedulingDto, CreateBulkSchedulingDto } from './dto/scheduling.dto';
 import { SchedulingSearchService } from './services/scheduling-search.service';
 import { SchedulingQueueService } from './scheduling-queue.service';
+import { DelaySchedulingDto } from './dto/delay-scheduling.dto';
+import { SchedulingDelayedEvent } from '../common/events/scheduling-delay.event';
+import { SchedulingBusSwappedEvent } from '../common/events/bus-swap.event';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ConfigService } from '@nestjs/config';
+import { AssignCrewDto } from './dto/assign-crew.dto';
+import { CrewMember, CrewMemberDocument } from '../crew/entities/crew-member.entity';
+import { CrewRole } from '../crew/enums/crew-role.enum';
+import { CrewStatus } from '../crew/enums/crew-status.enum';
+import { FareRuleService } from '../fare-rule/fare-rule.service';
+import { RepriceSchedulingDto } from './dto/reprice-scheduling.dto';
 
 export interface BusConflict {
     busId: string;
@@ -14,12 +25,29 @@ export interface BusConflict {
     message: string;
 }
 
+export interface CrewConflict {
+    crewMemberId: string;
+    fullName: string;
+    message: string;
+}
+
 export interface CreateSchedulingResponse {
     scheduling: Scheduling;
     conflicts?: BusConflict[];
     message?: string;
 }
 
+// Chuyến đã lưu hoặc bản sửa chưa lưu của nó (cùng _id)
+type ScheduledTrip = Scheduling & { _id: unknown };
+
+export interface SchedulingPriceChange {
+    schedulingId: string;
+    departureDate: Date;
+    etd: string;
+    oldPrice?: number;
+    newPrice: number;
+}
+
 export interface BulkSchedulingResponse {
     schedules: Scheduling[];
     totalConflicts: number;
@@ -37,13 +65,17 @@ export class SchedulingService {
         @InjectModel(Scheduling.name) private schedulingModel: Model<SchedulingDocument>,
         @InjectModel(Route.name) private routeModel: Model<RouteDocument>,
         @InjectModel(Bus.name) private busModel: Model<BusDocument>,
+        @InjectModel(CrewMember.name) private crewMemberModel: Model<CrewMemberDocument>,
         @InjectConnection() private connection: Connection,
         @Inject(forwardRef(() => SchedulingSearchService))
         private schedulingSearchService: SchedulingSearchService,
         private schedulingQueueService: SchedulingQueueService,
+        private eventEmitter: EventEmitter2,
+        private configService: ConfigService,
+        private fareRuleService: FareRuleService,
     ) { }
 
-    async create(createSchedulingDto: CreateSchedulingDto): Promise<CreateSchedulingResponse> {
+    async create(createSchedulingDto: CreateSchedulingDto, templateId?: string): Promise<CreateSchedulingResponse> {
         // Validate route exists
         const route = await this.routeModel.findById(createSchedulingDto.routeId).exec();
         if (!route) {
@@ -81,6 +113,19 @@ export class SchedulingService {
 
         const primaryBusId = finalBusIds[0];
 
+        // Không nhập giá: tính từ bảng giá tuyến, loại xe chính, ngày và giờ khởi hành
+        let price = createSchedulingDto.price;
+        const isAutoPriced = price === undefined || price === null;
+        if (isAutoPriced) {
+            const primaryBus = buses.find(bus => String(bus._id) === primaryBusId);
+            const quote = await this.fareRuleService.quoteTripPrice(route, {
+                busType: primaryBus?.type,
+                departureDate: createSchedulingDto.departureDate,
+                etd: createSchedulingDto.etd,
+            });
+            price = quote.price;
+        }
+
         // Calculate ETA if not provided
         let eta = createSchedulingDto.eta;
         let arrivalDate = createSchedulingDto.arrivalDate;
@@ -131,9 +176,12 @@ export class SchedulingService {
             departureDate: new Date(createSchedulingDto.departureDate),
             arrivalDate: arrivalDate ? new Date(arrivalDate) : undefined,
             eta,
+            price,
+            isAutoPriced,
             availableSeats: totalSeats,
             estimatedDuration: route.estimatedDuration,
             recurringEndDate: createSchedulingDto.recurringEndDate ? new Date(createSchedulingDto.recurringEndDate) : undefined,
+            templateId: templateId ? new Types.ObjectId(templateId) : null,
             status: initialStatus,
         });
 
@@ -287,6 +335,8 @@ export class SchedulingService {
                 }
             })
             .populate('busIds')
+            .populate('driverId', 'fullName phone licenseNumber')
+            .populate('conductorIds', 'fullName phone role')
             .exec();
 
         if (!scheduling) {
@@ -360,6 +410,23 @@ export class SchedulingService {
             }
         }
 
+        // Đổi giờ chạy: tổ lái đã phân công phải phù hợp với khung giờ mới
+        if (updateSchedulingDto.departureDate || updateSchedulingDto.etd ||
+            updateSchedulingDto.arrivalDate || updateSchedulingDto.eta) {
+            await this.revalidateCrew({
+                ...existingScheduling.toObject<Scheduling>(),
+                _id: existingScheduling._id,
+                departureDate: updateSchedulingDto.departureDate
+                    ? new Date(updateSchedulingDto.departureDate)
+                    : existingScheduling.departureDate,
+                etd: updateSchedulingDto.etd ?? existingScheduling.etd,
+                arrivalDate: updateSchedulingDto.arrivalDate
+                    ? new Date(updateSchedulingDto.arrivalDate)
+                    : existingScheduling.arrivalDate,
+                eta: updateSchedulingDto.eta ?? existingScheduling.eta,
+            });
+        }
+
         const updateData: any = { ...updateSchedulingDto };
 
         if (updateSchedulingDto.routeId) {
@@ -396,6 +463,11 @@ export class SchedulingService {
             updateData.recurringEndDate = updateSchedulingDto.recurringEndDate;
         }
 
+        // Giá nhập tay không bị tính lại theo bảng giá
+        if (updateSchedulingDto.price !== undefined) {
+            updateData.isAutoPriced = false;
+        }
+
         const updatedScheduling = await this.schedulingModel
             .findByIdAndUpdate(id, updateData, { new: true })
             .populate({
@@ -444,6 +516,416 @@ export class SchedulingService {
         return updatedScheduling;
     }
 
+    /**
+     * Báo trễ chuyến: ghi nhận giờ khởi hành dự kiến mới, dời job start/complete
+     * và phát sự kiện để thông báo cho khách đã có vé
+     */
+    async delay(id: string, dto: DelaySchedulingDto): Promise<Scheduling> {
+        const scheduling = await this.schedulingModel.findById(id).exec();
+        if (!scheduling || scheduling.isDeleted) {
+            throw new NotFoundException('Không tìm thấy lịch trình');
+        }
+
+        if (!['scheduled', 'delayed'].includes(scheduling.status)) {
+            throw new BadRequestException(
+                `Không thể báo trễ chuyến đang ở trạng thái ${scheduling.status}`
+            );
+        }
+
+        const originalDepartureAt = this.combineDateAndTime(scheduling.departureDate, scheduling.etd);
+        const expectedDepartureAt = new Date(dto.expectedDepartureAt);
+
+        if (expectedDepartureAt <= originalDepartureAt) {
+            throw new BadRequestException('Giờ khởi hành mới phải sau giờ khởi hành theo lịch');
+        }
+        if (expectedDepartureAt <= new Date()) {
+            throw new BadRequestException('Giờ khởi hành mới phải ở tương lai');
+        }
+
+        const delayMs = expectedDepartureAt.getTime() - originalDepartureAt.getTime();
+
+        // Giờ đến dời theo đúng số phút trễ
+        let expectedArrivalAt: Date | null = null;
+        if (scheduling.eta) {
+            const originalArrivalAt = this.combineDateAndTime(
+                scheduling.arrivalDate || scheduling.departureDate,
+                scheduling.eta
+            );
+            expectedArrivalAt = new Date(originalArrivalAt.getTime() + delayMs);
+        } else if (scheduling.estimatedDuration) {
+            expectedArrivalAt = new Date(expectedDepartureAt.getTime() + scheduling.estimatedDuration * 60 * 1000);
+        }
+
+        scheduling.status = 'delayed';
+        scheduling.expectedDepartureAt = expectedDepartureAt;
+        scheduling.expectedArrivalAt = expectedArrivalAt ?? undefined;
+        scheduling.delayMinutes = Math.round(delayMs / 60000);
+        scheduling.delayReason = dto.reason;
+
+        // Giờ mới có thể chồng lên chuyến kế tiếp của tài xế / phụ xe
+        await this.revalidateCrew(scheduling);
+        await scheduling.save();
+
+        try {
+            if (expectedArrivalAt) {
+                await this.schedulingQueueService.updateSchedulingJobs(id, expectedDepartureAt, expectedArrivalAt);
+            } else {
+                // Không có giờ đến thì không có job; chỉ đảm bảo job cũ không chạy theo giờ cũ
+                await this.schedulingQueueService.removeSchedulingJobs(id);
+            }
+        } catch (error) {
+            this.logger.error(`Failed to reschedule queue jobs for delayed scheduling ${id}:`, error);
+        }
+
+        const populated = await this.schedulingModel.findById(id).populate('routeId', 'name').exec();
+        try {
+            await this.schedulingSearchService.indexScheduling(populated);
+        } catch (error) {
+            this.logger.warn(`Failed to update scheduling ${id} in Elasticsearch: ${error.message}`);
+        }
+
+        this.eventEmitter.emit(
+            'scheduling.delayed',
+            new SchedulingDelayedEvent(
+                id,
+                originalDepartureAt,
+                expectedDepartureAt,
+                expectedArrivalAt,
+                scheduling.delayMinutes,
+                dto.reason,
+            ),
+        );
+
+        this.logger.log(`Scheduling ${id} delayed ${scheduling.delayMinutes} minutes, new ETD ${expectedDepartureAt.toISOString()}`);
+
+        return populated ?? scheduling;
+    }
+
+    /**
+     * Nhà xe hủy chuyến: giữ lại lịch trình (trạng thái cancelled) để tra cứu vé
+     * và báo cáo, gỡ job chuyển trạng thái. Vé của chuyến do TripCancellationService xử lý.
+     */
+    async cancelTrip(id: string, reason: string): Promise<SchedulingDocument> {
+        const scheduling = await this.schedulingModel.findById(id).exec();
+        if (!scheduling || scheduling.isDeleted) {
+            throw new NotFoundException('Không tìm thấy lịch trình');
+        }
+
+        if (!['scheduled', 'delayed'].includes(scheduling.status)) {
+            throw new BadRequestException(
+                `Không thể hủy chuyến đang ở trạng thái ${scheduling.status}`
+            );
+        }
+
+        // Chỉ hủy nếu trạng thái chưa đổi kể từ lúc đọc (hai yêu cầu hủy cùng lúc, chuyến vừa khởi hành)
+        const oldStatus = scheduling.status;
+        const cancelled = await this.schedulingModel
+            .findOneAndUpdate(
+                { _id: scheduling._id, isDeleted: false, status: oldStatus },
+                {
+                    $set: {
+                        status: 'cancelled',
+                        isActive: false,
+                        cancelledAt: new Date(),
+                        cancellationReason: reason,
+                    },
+                },
+                { new: true },
+            )
+            .exec();
+        if (!cancelled) {
+            throw new BadRequestException('Lịch trình vừa được cập nhật bởi thao tác khác, vui lòng thử lại');
+        }
+
+        try {
+            await this.schedulingQueueService.removeSchedulingJobs(id);
+        } catch (error) {
+            this.logger.error(`Failed to remove queue jobs for scheduling ${id}:`, error);
+        }
+
+        // SchedulingSearchService cập nhật Elasticsearch theo sự kiện này
+        this.eventEmitter.emit('scheduling.status.changed', {
+            schedulingId: id,
+            oldStatus,
+            newStatus: 'cancelled',
+        });
+
+        return cancelled;
+    }
+
+    /**
+     * Đổi xe: chỉ cho chuyến chưa khởi hành, xe mới phải qua validateBuses
+     * (không bảo trì, không trùng lịch với chuyến khác)
+     */
+    async validateBusSwap(id: string, newBusId: string): Promise<SchedulingDocument> {
+        const scheduling = await this.schedulingModel.findById(id).exec();
+        if (!scheduling || scheduling.isDeleted) {
+            throw new NotFoundException('Không tìm thấy lịch trình');
+        }
+
+        if (!['scheduled', 'delayed'].includes(scheduling.status)) {
+            throw new BadRequestException(
+                `Không thể đổi xe cho chuyến đang ở trạng thái ${scheduling.status}`
+            );
+        }
+
+        if (scheduling.busId.toString() === newBusId) {
+            throw new BadRequestException('Xe mới trùng với xe hiện tại của chuyến');
+        }
+
+        const { validBusIds, conflicts } = await this.validateBuses(
+            [newBusId],
+            scheduling.departureDate.toISOString(),
+            scheduling.etd,
+            id,
+            scheduling.estimatedDuration
+        );
+
+        if (validBusIds.length === 0) {
+            throw new BadRequestException(
+                `Không thể đổi sang xe này. ${conflicts.map(c => `${c.plateNo}: ${c.message}`).join(', ')}`
+            );
+        }
+
+        return scheduling;
+    }
+
+    /**
+     * Gắn xe mới vào chuyến (thay xe chính), trả về tổng số ghế của các xe sau khi đổi.
+     * Ghế và vé phải được ánh xạ sang xe mới trước khi gọi hàm này; số ghế đã đặt/trống
+     * được tính lại sau đó từ seat inventory (SeatService.syncSeatCounts).
+     */
+    async applyBusSwap(id: string, newBusId: string): Promise<number> {
+        const scheduling = await this.schedulingModel.findById(id).exec();
+        if (!scheduling) {
+            throw new NotFoundException('Không tìm thấy lịch trình');
+        }
+
+        const oldBusId = scheduling.busId.toString();
+        const busIds = [
+            newBusId,
+            ...scheduling.busIds.map(busId => busId.toString()).filter(busId => busId !== oldBusId && busId !== newBusId),
+        ];
+
+        const buses = await this.busModel.find({
+            _id: { $in: busIds.map(busId => new Types.ObjectId(busId)) }
+        }).exec();
+
+        await this.schedulingModel.updateOne(
+            { _id: scheduling._id },
+            {
+                busId: new Types.ObjectId(newBusId),
+                busIds: busIds.map(busId => new Types.ObjectId(busId)),
+            },
+        );
+
+        return buses.reduce((sum, bus) => sum + (bus.seats?.length || bus.vacancy || 0), 0);
+    }
+
+    /**
+     * Đổi xe thất bại giữa chừng: trả xe và số ghế của chuyến về như trước khi đổi
+     */
+    async revertBusSwap(
+        id: string,
+        previous: Pick<Scheduling, 'busId' | 'busIds' | 'bookedSeats' | 'availableSeats'>,
+    ): Promise<void> {
+        await this.schedulingModel.updateOne(
+            { _id: new Types.ObjectId(id) },
+            {
+                busId: previous.busId,
+                busIds: previous.busIds,
+                bookedSeats: previous.bookedSeats,
+                availableSeats: previous.availableSeats,
+            },
+        );
+    }
+
+    /**
+     * Sau khi đổi xe đã ghi xong: cập nhật Elasticsearch và báo các module khác
+     */
+    async publishBusSwap(id: string, oldBusId: string, newBusId: string): Promise<Scheduling> {
+        const scheduling = await this.schedulingModel
+            .findById(id)
+            .populate('routeId', 'name')
+            .exec();
+
+        if (!scheduling) {
+            throw new NotFoundException('Không tìm thấy lịch trình');
+        }
+
+        try {
+            await this.schedulingSearchService.indexScheduling(scheduling);
+        } catch (error) {
+            this.logger.warn(`Failed to update scheduling ${id} in Elasticsearch: ${error.message}`);
+        }
+
+        this.eventEmitter.emit(
+            'scheduling.bus.swapped',
+            new SchedulingBusSwappedEvent(id, oldBusId, newBusId),
+        );
+
+        this.logger.log(`Scheduling ${id} swapped bus ${oldBusId} → ${newBusId}`);
+
+        return scheduling;
+    }
+
+    /**
+     * Phân công tài xế / phụ xe cho chuyến. Trường không gửi lên giữ nguyên;
+     * toàn bộ tổ lái sau khi đổi phải qua validateCrew.
+     */
+    async assignCrew(id: string, dto: AssignCrewDto): Promise<Scheduling> {
+        const scheduling = await this.schedulingModel.findById(id).exec();
+        if (!scheduling || scheduling.isDeleted) {
+            throw new NotFoundException('Không tìm thấy lịch trình');
+        }
+
+        if (!['scheduled', 'delayed'].includes(scheduling.status)) {
+            throw new BadRequestException(
+                `Không thể phân công tổ lái cho chuyến đang ở trạng thái ${scheduling.status}`
+            );
+        }
+
+        const driverId = dto.driverId !== undefined
+            ? dto.driverId
+            : scheduling.driverId?.toString() ?? null;
+        const conductorIds = dto.conductorIds !== undefined
+            ? [...new Set(dto.conductorIds)]
+            : (scheduling.conductorIds || []).map(conductorId => conductorId.toString());
+
+        if (driverId && conductorIds.includes(driverId)) {
+            throw new BadRequestException('Tài xế không thể đồng thời là phụ xe của chuyến');
+        }
+
+        const conflicts = await this.validateCrew(scheduling, driverId, conductorIds);
+        if (conflicts.length > 0) {
+            throw new BadRequestException(
+                `Không thể phân công tổ lái. ${conflicts.map(c => `${c.fullName}: ${c.message}`).join(', ')}`
+            );
+        }
+
+        scheduling.driverId = driverId ? new Types.ObjectId(driverId) : null;
+        scheduling.conductorIds = conductorIds.map(conductorId => new Types.ObjectId(conductorId));
+        await scheduling.save();
+
+        this.logger.log(`Scheduling ${id} crew assigned: driver ${driverId ?? '-'}, conductors [${conductorIds.join(', ')}]`);
+
+        const populated = await this.schedulingModel
+            .findById(id)
+            .populate('driverId', 'fullName phone licenseNumber')
+            .populate('conductorIds', 'fullName phone role')
+            .exec();
+
+        return populated ?? scheduling;
+    }
+
+    /**
+     * Tính lại giá các chuyến sắp khởi hành theo bảng giá tuyến và fare rules hiện hành.
+     * Mặc định chỉ các chuyến tự tính giá; vé đã bán giữ nguyên giá lúc mua.
+     */
+    async repriceFutureTrips(dto: RepriceSchedulingDto) {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+        const from = dto.from ? new Date(dto.from) : today;
+
+        const departureDate: Record<string, Date> = { $gte: from > today ? from : today };
+        if (dto.to) departureDate.$lte = new Date(dto.to);
+
+        const filter: Record<string, unknown> = {
+            status: { $in: ['scheduled', 'delayed'] },
+            isDeleted: false,
+            departureDate,
+        };
+        if (dto.routeId) filter.routeId = new Types.ObjectId(dto.routeId);
+        if (!dto.includeManual) filter.isAutoPriced = true;
+
+        const schedulings = await this.schedulingModel
+            .find(filter)
+            .sort({ departureDate: 1, etd: 1 })
+            .exec();
+
+        const [routes, buses] = await Promise.all([
+            this.routeModel.find({ _id: { $in: schedulings.map(s => s.routeId) } }).lean().exec(),
+            this.busModel.find({ _id: { $in: schedulings.map(s => s.busId) } }).select('type').lean().exec(),
+        ]);
+        const busTypes = new Map(buses.map(bus => [String(bus._id), bus.type]));
+
+        const changes: SchedulingPriceChange[] = [];
+        const skipped: Array<{ routeId: string; trips: number; reason: string }> = [];
+
+        for (const route of routes) {
+            const trips = schedulings.filter(s => String(s.routeId) === String(route._id));
+            try {
+                const quotes = await this.fareRuleService.quoteTripPrices(
+                    route,
+                    trips.map(s => ({
+                        busType: busTypes.get(String(s.busId)),
+                        departureDate: s.departureDate,
+                        etd: s.etd,
+                    })),
+                );
+                trips.forEach((s, index) => {
+                    const newPrice = quotes[index].price;
+                    if (newPrice === s.price) return;
+                    changes.push({
+                        schedulingId: (s._id as Types.ObjectId).toString(),
+                        departureDate: s.departureDate,
+                        etd: s.etd,
+                        oldPrice: s.price,
+                        newPrice,
+                    });
+                });
+            } catch (error) {
+                skipped.push({ routeId: String(route._id), trips: trips.length, reason: error.message });
+            }
+        }
+
+        if (!dto.dryRun && changes.length > 0) {
+            await this.schedulingModel.bulkWrite(
+                changes.map(change => ({
+                    updateOne: {
+                        filter: { _id: new Types.ObjectId(change.schedulingId) },
+                        update: { $set: { price: change.newPrice, isAutoPriced: true } },
+                    },
+                })),
+            );
+
+            // Cập nhật giá trong Elasticsearch
+            const updated = await this.schedulingModel
+                .find({ _id: { $in: changes.map(change => new Types.ObjectId(change.schedulingId)) } })
+                .populate('routeId', 'name')
+                .exec();
+            for (const scheduling of updated) {
+                const id = (scheduling._id as Types.ObjectId).toString();
+                try {
+                    await this.schedulingSearchService.updateScheduling(id, scheduling);
+                } catch (error) {
+                    this.logger.warn(`Failed to update scheduling ${id} in Elasticsearch: ${error.message}`);
+                }
+            }
+        }
+
+        return {
+            dryRun: !!dto.dryRun,
+            matched: schedulings.length,
+            repriced: changes.length,
+            skipped,
+            changes,
+        };
+    }
+
+    /**
+     * Số vé còn hiệu lực của lịch trình: đã thanh toán hoặc đang giữ chỗ chờ thanh toán
+     */
+    async countActiveTickets(id: string): Promise<number> {
+        return this.connection.model('Ticket').countDocuments({
+            schedulingId: new Types.ObjectId(id),
+            $or: [
+                { status: 'SUCCESS' },
+                { status: 'PENDING', expiredTime: { $gt: new Date() } },
+            ],
+        });
+    }
+
     async remove(id: string): Promise<void> {
         const scheduling = await this.schedulingModel.findById(id).exec();
 
@@ -455,12 +937,11 @@ export class SchedulingService {
             throw new BadRequestException('Lịch trình đã bị xóa trước đó');
         }
 
-        // Check if there are any tickets for this scheduling
-        // Note: Assuming you have Ticket model - adjust import and model name as needed
-        // const ticketCount = await this.ticketModel.countDocuments({ schedulingId: id, status: { $ne: 'cancelled' } }).exec();
-        // if (ticketCount > 0) {
-        //     throw new BadRequestException(`Không thể xóa lịch trình này vì có ${ticketCount} vé đang sử dụng`);
-        // }
+        // Không xóa lịch trình còn vé đã bán hoặc đang giữ chỗ
+        const ticketCount = await this.countActiveTickets(id);
+        if (ticketCount > 0) {
+            throw new BadRequestException(`Không thể xóa lịch trình này vì có ${ticketCount} vé đang sử dụng`);
+        }
 
         // Soft delete - set isDeleted to true
         const result = await this.schedulingModel
@@ -815,6 +1296,161 @@ export class SchedulingService {
         return { validBusIds, conflicts };
     }
 
+    /**
+     * Kiểm tra tổ lái giống validateBuses: người phải tồn tại, đang làm việc,
+     * đúng vai trò, không trùng giờ với chuyến khác và tài xế không vượt quá
+     * CREW_MAX_DRIVING_HOURS_PER_DAY giờ lái trong một ngày
+     */
+    private async validateCrew(
+        scheduling: ScheduledTrip,
+        driverId: string | null,
+        conductorIds: string[]
+    ): Promise<CrewConflict[]> {
+        const conflicts: CrewConflict[] = [];
+        const crewIds = [...(driverId ? [driverId] : []), ...conductorIds];
+        if (crewIds.length === 0) {
+            return conflicts;
+        }
+
+        const members = await this.crewMemberModel.find({
+            _id: { $in: crewIds.map(crewId => new Types.ObjectId(crewId)) },
+        }).exec();
+        const membersById = new Map(members.map(m => [(m._id as Types.ObjectId).toString(), m]));
+
+        const trip = this.getTripWindow(scheduling);
+
+        for (const crewId of crewIds) {
+            const member = membersById.get(crewId);
+            if (!member) {
+                conflicts.push({ crewMemberId: crewId, fullName: 'Unknown', message: 'Không tồn tại hoặc đã bị xóa' });
+                continue;
+            }
+            if (member.status !== CrewStatus.ACTIVE) {
+                conflicts.push({ crewMemberId: crewId, fullName: member.fullName, message: `Đang ở trạng thái ${member.status}` });
+            }
+        }
+
+        const driver = driverId ? membersById.get(driverId) : undefined;
+        if (driver) {
+            if (driver.role !== CrewRole.DRIVER) {
+                conflicts.push({ crewMemberId: driverId!, fullName: driver.fullName, message: 'Không phải tài xế' });
+            } else if (driver.licenseExpiry && driver.licenseExpiry < trip.end) {
+                conflicts.push({
+                    crewMemberId: driverId!,
+                    fullName: driver.fullName,
+                    message: `Giấy phép lái xe hết hạn ngày ${driver.licenseExpiry.toISOString().split('T')[0]}`
+                });
+            }
+        }
+
+        const knownIds = crewIds.filter(crewId => membersById.has(crewId));
+        if (knownIds.length === 0) {
+            return conflicts;
+        }
+
+        // Chuyến dài tối đa 48 giờ: lấy các chuyến khởi hành từ 2 ngày trước
+        const dayStart = new Date(trip.start);
+        dayStart.setHours(0, 0, 0, 0);
+        const searchFrom = new Date(dayStart);
+        searchFrom.setDate(searchFrom.getDate() - 2);
+        const searchTo = new Date(trip.end);
+        searchTo.setHours(0, 0, 0, 0);
+        searchTo.setDate(searchTo.getDate() + 1);
+
+        const knownObjectIds = knownIds.map(crewId => new Types.ObjectId(crewId));
+        const otherTrips = await this.schedulingModel.find({
+            _id: { $ne: scheduling._id },
+            status: { $ne: 'cancelled' },
+            isDeleted: false,
+            departureDate: { $gte: searchFrom, $lt: searchTo },
+            $or: [
+                { driverId: { $in: knownObjectIds } },
+                { conductorIds: { $in: knownObjectIds } },
+            ],
+        }).exec();
+
+        // Trùng giờ với chuyến khác của cùng người
+        for (const crewId of knownIds) {
+            const member = membersById.get(crewId)!;
+            for (const other of otherTrips) {
+                const isAssigned = other.driverId?.toString() === crewId
+                    || (other.conductorIds || []).some(id => id.toString() === crewId);
+                if (!isAssigned) continue;
+
+                const window = this.getTripWindow(other);
+                if (trip.start < window.end && window.start < trip.end) {
+                    conflicts.push({
+                        crewMemberId: crewId,
+                        fullName: member.fullName,
+                        message: `Đã được phân công chuyến từ ${other.etd} đến ${other.eta || 'không xác định'} ngày ${other.departureDate.toISOString().split('T')[0]}`
+                    });
+                }
+            }
+        }
+
+        // Giới hạn giờ lái trong ngày, tính cho mọi ngày chuyến này đi qua
+        if (driver && driver.role === CrewRole.DRIVER) {
+            const maxMinutes = Number(this.configService.get<string>('CREW_MAX_DRIVING_HOURS_PER_DAY') ?? 10) * 60;
+            const drivenTrips = otherTrips
+                .filter(other => other.driverId?.toString() === driverId)
+                .map(other => this.getTripWindow(other));
+
+            for (const day = new Date(dayStart); day < trip.end; day.setDate(day.getDate() + 1)) {
+                const nextDay = new Date(day);
+                nextDay.setDate(nextDay.getDate() + 1);
+
+                const drivenMinutes = [trip, ...drivenTrips].reduce((sum, window) => {
+                    const overlap = Math.min(window.end.getTime(), nextDay.getTime()) - Math.max(window.start.getTime(), day.getTime());
+                    return sum + Math.max(0, overlap) / 60000;
+                }, 0);
+
+                if (drivenMinutes > maxMinutes) {
+                    conflicts.push({
+                        crewMemberId: driverId!,
+                        fullName: driver.fullName,
+                        message: `Vượt quá ${maxMinutes / 60} giờ lái ngày ${day.toISOString().split('T')[0]} (${Math.round(drivenMinutes / 6) / 10} giờ)`
+                    });
+                }
+            }
+        }
+
+        return conflicts;
+    }
+
+    /**
+     * Giờ chạy của chuyến đã đổi (sửa lịch, báo trễ): chạy lại validateCrew cho
+     * tổ lái đang phân công với khung giờ mới, lỗi thì không lưu thay đổi
+     */
+    private async revalidateCrew(scheduling: ScheduledTrip): Promise<void> {
+        const driverId = scheduling.driverId?.toString() ?? null;
+        const conductorIds = (scheduling.conductorIds || []).map(conductorId => conductorId.toString());
+
+        const conflicts = await this.validateCrew(scheduling, driverId, conductorIds);
+        if (conflicts.length > 0) {
+            throw new BadRequestException(
+                `Tổ lái đã phân công không phù hợp với giờ chạy mới, hãy phân công lại. ${conflicts.map(c => `${c.fullName}: ${c.message}`).join(', ')}`
+            );
+        }
+    }
+
+    /**
+     * Khoảng thời gian chạy thực tế của chuyến, ưu tiên giờ dự kiến mới khi bị trễ
+     */
+    private getTripWindow(scheduling: Scheduling): { start: Date; end: Date } {
+        const start = scheduling.expectedDepartureAt
+            ?? this.combineDateAndTime(scheduling.departureDate, scheduling.etd);
+
+        let end = scheduling.expectedArrivalAt
+            ?? (scheduling.arrivalDate && scheduling.eta
+                ? this.combineDateAndTime(scheduling.arrivalDate, scheduling.eta)
+                : null);
+        if (!end || end <= start) {
+            end = new Date(start.getTime() + (scheduling.estimatedDuration || 0) * 60000);
+        }
+
+        return { start, end };
+    }
+
     private timeToMinutes(time: string): number {
         const [hours, minutes] = time.split(':').map(Number);
         return hours * 60 + minutes;
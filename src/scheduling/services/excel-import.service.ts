@@ -9,6 +9,7 @@ import { Scheduling, SchedulingDocument } from '../entities/scheduling.entity';
 import { Route, RouteDocument } from '../../route/entities/route.entity';
 import { Bus, BusDocument } from '../../bus/entities/bus.entity';
 import { ExcelProcessingService } from './excel-processing.service';
+import { FareRuleService } from '../../fare-rule/fare-rule.service';
 import {
   SchedulingExcelRowDto,
   ExcelImportResultDto,
@@ -23,6 +24,7 @@ export class ExcelImportService {
     @InjectModel(Route.name) private routeModel: Model<RouteDocument>,
     @InjectModel(Bus.name) private busModel: Model<BusDocument>,
     private excelProcessingService: ExcelProcessingService,
+    private fareRuleService: FareRuleService,
   ) { }
 
   /**
@@ -174,6 +176,18 @@ export class ExcelImportService {
           continue;
         }
 
+        // No price in the row: derive it from the route pricing rules
+        const isAutoPriced = !row.price;
+        const price = isAutoPriced
+          ? (
+            await this.fareRuleService.quoteTripPrice(route, {
+              busType: bus.type,
+              departureDate: row.departureDate,
+              etd: row.etd,
+            })
+          ).price
+          : row.price;
+
         // Create scheduling data
         const schedulingData: any = {
           routeId: route._id,
@@ -182,7 +196,8 @@ export class ExcelImportService {
           etd: row.etd,
           departureDate: row.departureDate,
           eta: row.eta,
-          price: row.price || route.basePrice || route.pricePerKm || 0,
+          price,
+          isAutoPriced,
           note: row.note,
           availableSeats:
             bus.seats?.length || bus.vacancy || bus.seatCount || 30,
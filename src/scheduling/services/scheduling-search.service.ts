@@ -47,6 +47,8 @@ export class SchedulingSearchService implements OnModuleInit {
             },
           },
           estimatedDuration: { type: 'integer' },
+          expectedDepartureAt: { type: 'date' },
+          delayMinutes: { type: 'integer' },
           createdAt: { type: 'date' },
           updatedAt: { type: 'date' },
         },
@@ -75,6 +77,8 @@ export class SchedulingSearchService implements OnModuleInit {
       isActive: scheduling.isActive,
       driver: scheduling.driver,
       estimatedDuration: scheduling.estimatedDuration,
+      expectedDepartureAt: scheduling.expectedDepartureAt,
+      delayMinutes: scheduling.delayMinutes,
       createdAt: scheduling.createdAt,
       updatedAt: scheduling.updatedAt,
     };
@@ -133,6 +137,8 @@ export class SchedulingSearchService implements OnModuleInit {
       isActive: scheduling.isActive,
       driver: scheduling.driver,
       estimatedDuration: scheduling.estimatedDuration,
+      expectedDepartureAt: scheduling.expectedDepartureAt,
+      delayMinutes: scheduling.delayMinutes,
       createdAt: scheduling.createdAt,
       updatedAt: scheduling.updatedAt,
     }));
@@ -0,0 +1,376 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { getQueueToken } from '@nestjs/bull';
+import { Types } from 'mongoose';
+import { SchedulingTemplateService } from './scheduling-template.service';
+import { SchedulingService } from '../scheduling.service';
+import { Scheduling } from '../entities/scheduling.entity';
+import {
+  SchedulingTemplate,
+  SchedulingTemplateDocument,
+} from '../entities/scheduling-template.entity';
+import { SeriesEditScope } from '../dto/scheduling-template.dto';
+import { CreateSchedulingDto } from '../dto/scheduling.dto';
+
+// Keep the SchedulingService graph (Bus schema, seats, tickets) out of this test
+jest.mock('../scheduling.service', () => ({
+  SchedulingService: class SchedulingService {},
+}));
+
+interface FakeTrip {
+  _id: Types.ObjectId;
+  templateId: Types.ObjectId | null;
+  departureDate: Date;
+  etd: string;
+  status: string;
+  isDeleted: boolean;
+  isDetached?: boolean;
+}
+
+type Filter = Record<string, unknown>;
+
+// Just enough of the Mongo query language for the filters the service sends
+const matches = (trip: FakeTrip, filter: Filter) =>
+  Object.entries(filter).every(([key, condition]) => {
+    const value = trip[key as keyof FakeTrip];
+    if (
+      condition &&
+      typeof condition === 'object' &&
+      !(condition instanceof Types.ObjectId)
+    ) {
+      const { $gte, $lt, $ne } = condition as Record<string, unknown>;
+      return (
+        ($gte === undefined || (value as Date) >= ($gte as Date)) &&
+        ($lt === undefined || (value as Date) < ($lt as Date)) &&
+        (!('$ne' in condition) || value !== $ne)
+      );
+    }
+    return String(value) === String(condition);
+  });
+
+describe('SchedulingTemplateService', () => {
+  let service: SchedulingTemplateService;
+
+  let templates: Map<string, SchedulingTemplateDocument>;
+  let trips: FakeTrip[];
+
+  const day = (key: string) => new Date(`${key}T00:00:00.000Z`);
+  const dateKeys = (items: FakeTrip[]) =>
+    items.map((trip) => trip.departureDate.toISOString().slice(0, 10)).sort();
+  const tripOn = (key: string) =>
+    trips.find((trip) => trip.departureDate.getTime() === day(key).getTime())!;
+  const tripsOf = (templateId: unknown) =>
+    trips.filter((trip) => String(trip.templateId) === String(templateId));
+
+  const addTemplate = (data: Record<string, any>) => {
+    const template: Record<string, any> = {
+      _id: new Types.ObjectId(),
+      isActive: true,
+      endDate: null,
+      exceptionDates: [],
+      generatedUntil: null,
+      ...data,
+    };
+    template.save = jest.fn(() => Promise.resolve(template));
+    const document = template as unknown as SchedulingTemplateDocument;
+    templates.set(String(template._id), document);
+    return document;
+  };
+
+  const templateModel = {
+    create: jest.fn((data: Record<string, any>) =>
+      Promise.resolve(addTemplate(data)),
+    ),
+    findById: jest.fn((id: string) => ({
+      exec: () => Promise.resolve(templates.get(String(id)) ?? null),
+    })),
+  };
+
+  const schedulingModel = {
+    find: jest.fn((filter: Filter) => {
+      const query = {
+        select: () => query,
+        exec: () =>
+          Promise.resolve(trips.filter((trip) => matches(trip, filter))),
+      };
+      return query;
+    }),
+    findById: jest.fn((id: string) => ({
+      exec: () =>
+        Promise.resolve(trips.find((trip) => String(trip._id) === id) ?? null),
+    })),
+    updateOne: jest.fn(
+      (filter: Filter, update: { $set: Partial<FakeTrip> }) => {
+        trips
+          .filter((trip) => matches(trip, filter))
+          .slice(0, 1)
+          .forEach((trip) => Object.assign(trip, update.$set));
+        return Promise.resolve({});
+      },
+    ),
+    updateMany: jest.fn(
+      (filter: Filter, update: { $set: Partial<FakeTrip> }) => {
+        trips
+          .filter((trip) => matches(trip, filter))
+          .forEach((trip) => Object.assign(trip, update.$set));
+        return Promise.resolve({});
+      },
+    ),
+  };
+
+  const schedulingService = {
+    create: jest.fn((dto: CreateSchedulingDto, templateId: string) => {
+      const trip: FakeTrip = {
+        _id: new Types.ObjectId(),
+        templateId: new Types.ObjectId(templateId),
+        departureDate: day(dto.departureDate),
+        etd: dto.etd,
+        status: 'scheduled',
+        isDeleted: false,
+      };
+      trips.push(trip);
+      return Promise.resolve(trip);
+    }),
+    update: jest.fn(() => Promise.resolve({})),
+    remove: jest.fn((id: string) => {
+      trips.find((trip) => String(trip._id) === id)!.isDeleted = true;
+      return Promise.resolve();
+    }),
+    countActiveTickets: jest.fn<Promise<number>, [string]>(() =>
+      Promise.resolve(0),
+    ),
+  };
+
+  // Monday–Wednesday–Friday series starting on Monday 2025-01-06
+  const createSeries = (data: Record<string, any> = {}) =>
+    addTemplate({
+      routeId: new Types.ObjectId(),
+      busIds: [new Types.ObjectId()],
+      etd: '08:00',
+      daysOfWeek: ['monday', 'wednesday', 'friday'],
+      startDate: day('2025-01-06'),
+      horizonDays: 7,
+      ...data,
+    });
+
+  beforeEach(async () => {
+    templates = new Map();
+    trips = [];
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2025-01-06T10:00:00.000Z') });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SchedulingTemplateService,
+        {
+          provide: getModelToken(SchedulingTemplate.name),
+          useValue: templateModel,
+        },
+        {
+          provide: getModelToken(Scheduling.name),
+          useValue: schedulingModel,
+        },
+        { provide: SchedulingService, useValue: schedulingService },
+        {
+          provide: getQueueToken('scheduling-recurrence'),
+          useValue: { add: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SchedulingTemplateService>(SchedulingTemplateService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('materialize', () => {
+    it('should create trips on the series weekdays up to the horizon, skipping exception dates', async () => {
+      const template = createSeries({ exceptionDates: ['2025-01-08'] });
+
+      const result = await service.materialize(template);
+
+      expect(result.created).toBe(3);
+      expect(dateKeys(trips)).toEqual([
+        '2025-01-06',
+        '2025-01-10',
+        '2025-01-13',
+      ]);
+      expect(template.generatedUntil).toEqual(day('2025-01-13'));
+    });
+
+    it('should stop generatedUntil before the first failed date and retry it on the next run', async () => {
+      const template = createSeries();
+      schedulingService.create.mockImplementationOnce(() =>
+        Promise.reject(new Error('Xe đã có chuyến khác')),
+      );
+
+      const first = await service.materialize(template);
+
+      expect(first.failed).toEqual([
+        { date: '2025-01-06', reason: 'Xe đã có chuyến khác' },
+      ]);
+      expect(first.created).toBe(3);
+      expect(template.generatedUntil).toEqual(day('2025-01-05'));
+
+      const retry = await service.materialize(template);
+
+      // Days that already have a trip are not generated twice
+      expect(retry.created).toBe(1);
+      expect(dateKeys(trips)).toEqual([
+        '2025-01-06',
+        '2025-01-08',
+        '2025-01-10',
+        '2025-01-13',
+      ]);
+      expect(template.generatedUntil).toEqual(day('2025-01-13'));
+    });
+
+    it('should start from the server calendar day, not the UTC one', async () => {
+      // Shortly after midnight on Monday, server time (still Sunday in UTC east of Greenwich)
+      jest.setSystemTime(new Date(2025, 0, 6, 0, 30));
+      const template = createSeries({
+        daysOfWeek: ['sunday', 'monday'],
+        startDate: day('2025-01-01'),
+        horizonDays: 1,
+      });
+
+      await service.materialize(template);
+
+      expect(dateKeys(trips)).toEqual(['2025-01-06']);
+    });
+  });
+
+  describe('updateTrip', () => {
+    it('should only detach the trip when editing this trip', async () => {
+      const template = createSeries();
+      await service.materialize(template);
+      const trip = tripOn('2025-01-08');
+
+      await service.updateTrip(String(trip._id), {
+        scope: SeriesEditScope.THIS,
+        etd: '09:00',
+      });
+
+      expect(schedulingService.update).toHaveBeenCalledTimes(1);
+      expect(schedulingService.update).toHaveBeenCalledWith(String(trip._id), {
+        etd: '09:00',
+      });
+      expect(trip.isDetached).toBe(true);
+      expect(templateModel.create).not.toHaveBeenCalled();
+      expect(template.etd).toBe('08:00');
+    });
+
+    it('should move the trip and the later ones to a new series when editing following trips', async () => {
+      const template = createSeries({ exceptionDates: ['2025-01-03'] });
+      await service.materialize(template);
+      const trip = tripOn('2025-01-10');
+
+      await service.updateTrip(String(trip._id), {
+        scope: SeriesEditScope.FOLLOWING,
+        etd: '09:00',
+      });
+      const following = [...templates.values()].find(
+        (item) => item !== template,
+      )!;
+
+      expect(following.startDate).toEqual(day('2025-01-10'));
+      expect(following.etd).toBe('09:00');
+      expect(following.exceptionDates).toEqual([]);
+      expect(dateKeys(tripsOf(following._id))).toEqual([
+        '2025-01-10',
+        '2025-01-13',
+      ]);
+      expect(dateKeys(tripsOf(template._id))).toEqual([
+        '2025-01-06',
+        '2025-01-08',
+      ]);
+      expect(template.endDate).toEqual(day('2025-01-09'));
+      expect(template.generatedUntil).toEqual(day('2025-01-09'));
+      expect(schedulingService.update).toHaveBeenCalledTimes(2);
+      expect(schedulingService.update).toHaveBeenCalledWith(String(trip._id), {
+        etd: '09:00',
+      });
+    });
+
+    it('should edit the whole series when editing following trips from its first day', async () => {
+      const template = createSeries();
+      await service.materialize(template);
+      const first = tripOn('2025-01-06');
+
+      await service.updateTrip(String(first._id), {
+        scope: SeriesEditScope.FOLLOWING,
+        etd: '09:00',
+      });
+
+      expect(templateModel.create).not.toHaveBeenCalled();
+      expect(template.etd).toBe('09:00');
+      expect(schedulingService.update).toHaveBeenCalledTimes(4);
+    });
+
+    it('should leave detached trips alone when editing the series', async () => {
+      const template = createSeries();
+      await service.materialize(template);
+      tripOn('2025-01-08').isDetached = true;
+
+      await service.updateTrip(String(tripOn('2025-01-10')._id), {
+        scope: SeriesEditScope.SERIES,
+        etd: '09:00',
+      });
+
+      expect(schedulingService.update).toHaveBeenCalledTimes(3);
+      expect(schedulingService.update).not.toHaveBeenCalledWith(
+        String(tripOn('2025-01-08')._id),
+        expect.anything(),
+      );
+    });
+  });
+
+  describe('updateExceptions', () => {
+    it('should cancel trips on new exception dates unless they hold tickets', async () => {
+      const template = createSeries();
+      await service.materialize(template);
+      const empty = tripOn('2025-01-08');
+      const booked = tripOn('2025-01-10');
+      schedulingService.countActiveTickets.mockImplementation((id: string) =>
+        Promise.resolve(id === String(booked._id) ? 2 : 0),
+      );
+
+      const result = await service.updateExceptions(String(template._id), {
+        add: ['2025-01-10', '2025-01-08'],
+      });
+
+      expect(template.exceptionDates).toEqual(['2025-01-08', '2025-01-10']);
+      expect(schedulingService.remove).toHaveBeenCalledTimes(1);
+      expect(schedulingService.remove).toHaveBeenCalledWith(String(empty._id));
+      expect(empty.templateId).toBeNull();
+      expect(booked.isDetached).toBe(true);
+      expect(result.keptTrips).toEqual([
+        {
+          schedulingId: String(booked._id),
+          departureDate: booked.departureDate,
+          activeTickets: 2,
+        },
+      ]);
+    });
+
+    it('should generate the trip again once its exception date is removed', async () => {
+      const template = createSeries();
+      await service.materialize(template);
+      await service.updateExceptions(String(template._id), {
+        add: ['2025-01-08'],
+      });
+
+      const result = await service.updateExceptions(String(template._id), {
+        remove: ['2025-01-08'],
+      });
+
+      expect(template.exceptionDates).toEqual([]);
+      expect(result.created).toBe(1);
+      expect(
+        dateKeys(tripsOf(template._id).filter((trip) => !trip.isDeleted)),
+      ).toEqual(['2025-01-06', '2025-01-08', '2025-01-10', '2025-01-13']);
+    });
+  });
+});
@@ -0,0 +1,512 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { Model, Types } from 'mongoose';
+import { Scheduling, SchedulingDocument } from '../entities/scheduling.entity';
+import {
+    DAYS_OF_WEEK,
+    SchedulingTemplate,
+    SchedulingTemplateDocument,
+} from '../entities/scheduling-template.entity';
+import {
+    CreateSchedulingTemplateDto,
+    SeriesEditScope,
+    UpdateSchedulingTemplateDto,
+    UpdateSeriesTripDto,
+    UpdateTemplateExceptionsDto,
+} from '../dto/scheduling-template.dto';
+import { UpdateSchedulingDto } from '../dto/scheduling.dto';
+import { SchedulingService } from '../scheduling.service';
+
+export interface SchedulingRecurrenceJob {
+    templateId?: string; // Bỏ trống = mọi mẫu đang hoạt động
+}
+
+export interface MaterializeResult {
+    templateId: string;
+    created: number;
+    failed: Array<{ date: string; reason: string }>;
+    generatedUntil: Date | null;
+}
+
+type TripChanges = Pick<UpdateSeriesTripDto, 'etd' | 'busIds' | 'price' | 'note'>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Job lặp lại: mỗi ngày 01:00 sinh chuyến cho các ngày sắp tới
+const ROLL_FORWARD_CRON = '0 1 * * *';
+
+@Injectable()
+export class SchedulingTemplateService implements OnModuleInit {
+    private readonly logger = new Logger(SchedulingTemplateService.name);
+
+    constructor(
+        @InjectModel(SchedulingTemplate.name)
+        private templateModel: Model<SchedulingTemplateDocument>,
+        @InjectModel(Scheduling.name)
+        private schedulingModel: Model<SchedulingDocument>,
+        private readonly schedulingService: SchedulingService,
+        @InjectQueue('scheduling-recurrence')
+        private recurrenceQueue: Queue<SchedulingRecurrenceJob>,
+    ) { }
+
+    async onModuleInit() {
+        try {
+            await this.recurrenceQueue.add(
+                'roll-forward',
+                {},
+                {
+                    repeat: { cron: ROLL_FORWARD_CRON },
+                    jobId: 'roll-forward',
+                    removeOnComplete: true,
+                    removeOnFail: false,
+                },
+            );
+        } catch (error) {
+            this.logger.error('Failed to register recurring scheduling job:', error);
+        }
+    }
+
+    async create(dto: CreateSchedulingTemplateDto) {
+        this.validateRange(dto.startDate, dto.endDate);
+
+        const template = await this.templateModel.create({
+            ...dto,
+            routeId: new Types.ObjectId(dto.routeId),
+            busIds: dto.busIds.map((id) => new Types.ObjectId(id)),
+            startDate: this.toDay(dto.startDate),
+            endDate: dto.endDate ? this.toDay(dto.endDate) : null,
+            exceptionDates: this.normalizeDates(dto.exceptionDates),
+        });
+
+        const result = await this.materialize(template);
+        return { template, ...result };
+    }
+
+    async findAll(routeId?: string, includeInactive = false) {
+        const filter: Record<string, unknown> = {};
+        if (routeId) filter.routeId = new Types.ObjectId(routeId);
+        if (!includeInactive) filter.isActive = true;
+
+        return this.templateModel
+            .find(filter)
+            .populate('routeId', 'name')
+            .sort({ createdAt: -1 })
+            .exec();
+    }
+
+    async findOne(id: string): Promise<SchedulingTemplateDocument> {
+        const template = await this.templateModel.findById(id).exec();
+        if (!template) throw new NotFoundException('Không tìm thấy mẫu lịch trình');
+        return template;
+    }
+
+    /**
+     * Template + upcoming trips it generated
+     */
+    async findOneWithTrips(id: string) {
+        const template = await this.findOne(id);
+        const trips = await this.schedulingModel
+            .find({
+                templateId: template._id,
+                isDeleted: false,
+                departureDate: { $gte: this.today() },
+            })
+            .sort({ departureDate: 1 })
+            .select('departureDate etd status bookedSeats availableSeats price busIds isDetached')
+            .exec();
+
+        return { template, trips };
+    }
+
+    /**
+     * Sinh chuyến cho mọi mẫu đang hoạt động (Bull job hằng ngày)
+     */
+    async rollForwardAll(): Promise<MaterializeResult[]> {
+        const templates = await this.templateModel.find({ isActive: true }).exec();
+        const results: MaterializeResult[] = [];
+
+        for (const template of templates) {
+            try {
+                results.push(await this.materialize(template));
+            } catch (error) {
+                this.logger.error(`Failed to roll forward template ${String(template._id)}:`, error);
+            }
+        }
+
+        const created = results.reduce((sum, item) => sum + item.created, 0);
+        this.logger.log(`Rolled forward ${templates.length} scheduling templates, created ${created} trips`);
+
+        return results;
+    }
+
+    async rollForward(id: string): Promise<MaterializeResult> {
+        const template = await this.findOne(id);
+        if (!template.isActive) {
+            throw new BadRequestException('Mẫu lịch trình đã ngừng hoạt động');
+        }
+        return this.materialize(template);
+    }
+
+    /**
+     * Sửa cả chuỗi: cập nhật mẫu, áp dụng cho các chuyến sắp tới chưa bị sửa riêng,
+     * hủy chuyến không còn khớp lịch mới và sinh bù các ngày còn thiếu
+     */
+    async updateSeries(id: string, dto: UpdateSchedulingTemplateDto) {
+        const template = await this.findOne(id);
+        if (!template.isActive) {
+            throw new BadRequestException('Mẫu lịch trình đã ngừng hoạt động');
+        }
+
+        this.validateRange(
+            dto.startDate ?? template.startDate,
+            dto.endDate !== undefined ? dto.endDate : template.endDate,
+        );
+
+        const { routeId, busIds, startDate, endDate, exceptionDates, ...fields } = dto;
+        if (routeId && routeId !== template.routeId.toString()) {
+            throw new BadRequestException('Không thể đổi tuyến của mẫu lịch trình, hãy tạo mẫu mới');
+        }
+
+        Object.assign(template, fields);
+        if (busIds) template.busIds = busIds.map((busId) => new Types.ObjectId(busId));
+        if (startDate) template.startDate = this.toDay(startDate);
+        if (endDate !== undefined) template.endDate = endDate ? this.toDay(endDate) : null;
+        if (exceptionDates) template.exceptionDates = this.normalizeDates(exceptionDates);
+        await template.save();
+
+        const updated = await this.applyTripChanges(template, this.today(), {
+            etd: dto.etd,
+            busIds: dto.busIds,
+            price: dto.price,
+            note: dto.note,
+        });
+        const kept = await this.removeUnmatchedTrips(template);
+        const result = await this.materialize(template, true);
+
+        return { template, updatedTrips: updated, keptTrips: kept, ...result };
+    }
+
+    /**
+     * Sửa một chuyến thuộc chuỗi theo phạm vi: chỉ chuyến này / chuyến này và các chuyến sau / cả chuỗi
+     */
+    async updateTrip(schedulingId: string, dto: UpdateSeriesTripDto) {
+        const trip = await this.schedulingModel.findById(schedulingId).exec();
+        if (!trip || trip.isDeleted) {
+            throw new NotFoundException('Không tìm thấy lịch trình');
+        }
+
+        const { scope, ...changes } = dto;
+
+        if (scope === SeriesEditScope.THIS) {
+            const updated = await this.schedulingService.update(schedulingId, this.toUpdateDto(trip, changes));
+            await this.schedulingModel.updateOne({ _id: trip._id }, { $set: { isDetached: true } });
+            return { scope, scheduling: updated };
+        }
+
+        if (!trip.templateId) {
+            throw new BadRequestException('Lịch trình không thuộc chuỗi lặp lại nào');
+        }
+
+        const template = await this.findOne(trip.templateId.toString());
+        const tripDay = this.toDay(trip.departureDate);
+
+        if (scope === SeriesEditScope.SERIES || tripDay <= template.startDate) {
+            const result = await this.updateSeries(String(template._id), changes);
+            return { scope, ...result };
+        }
+
+        // FOLLOWING: tách chuỗi tại ngày của chuyến này
+        const following = await this.splitSeries(template, tripDay, changes);
+        const updated = await this.applyTripChanges(following, tripDay, changes);
+
+        return { scope, template: following, previousTemplate: template, updatedTrips: updated };
+    }
+
+    /**
+     * Thêm/bỏ ngày không chạy. Chuyến vào ngày mới thêm bị hủy nếu chưa có vé,
+     * ngày bị bỏ sẽ được sinh lại chuyến
+     */
+    async updateExceptions(id: string, dto: UpdateTemplateExceptionsDto) {
+        const template = await this.findOne(id);
+
+        const added = this.normalizeDates(dto.add);
+        const removed = new Set(this.normalizeDates(dto.remove));
+        template.exceptionDates = [...new Set([...template.exceptionDates, ...added])]
+            .filter((date) => !removed.has(date))
+            .sort();
+        await template.save();
+
+        const kept = await this.removeUnmatchedTrips(template);
+        const result = removed.size > 0 ? await this.materialize(template, true) : null;
+
+        return { template, keptTrips: kept, created: result?.created ?? 0 };
+    }
+
+    /**
+     * Kết thúc chuỗi: ngừng sinh chuyến và hủy các chuyến sắp tới chưa có vé
+     */
+    async remove(id: string) {
+        const template = await this.findOne(id);
+        template.isActive = false;
+        template.endDate = new Date(this.today().getTime() - DAY_MS);
+        await template.save();
+
+        const kept = await this.removeUnmatchedTrips(template);
+
+        return {
+            message: 'Đã kết thúc chuỗi lịch trình',
+            keptTrips: kept,
+        };
+    }
+
+    /**
+     * Sinh chuyến từ ngày kế tiếp chưa sinh đến hết horizonDays (hoặc endDate).
+     * Ngày đã có chuyến của mẫu (kể cả chuyến bị hủy riêng) không sinh lại.
+     * generatedUntil không vượt qua ngày lỗi đầu tiên, lần chạy sau thử lại từ ngày đó.
+     */
+    async materialize(
+        template: SchedulingTemplateDocument,
+        fromStart = false,
+    ): Promise<MaterializeResult> {
+        const templateId = (template._id as Types.ObjectId).toString();
+        const today = this.today();
+
+        let from = new Date(Math.max(today.getTime(), template.startDate.getTime()));
+        if (!fromStart && template.generatedUntil && template.generatedUntil >= from) {
+            from = new Date(template.generatedUntil.getTime() + DAY_MS);
+        }
+
+        let to = new Date(today.getTime() + template.horizonDays * DAY_MS);
+        if (template.endDate && template.endDate < to) to = template.endDate;
+
+        const result: MaterializeResult = {
+            templateId,
+            created: 0,
+            failed: [],
+            generatedUntil: template.generatedUntil ?? null,
+        };
+        if (!template.isActive || from > to) return result;
+
+        const existing = await this.schedulingModel
+            .find({
+                templateId: template._id,
+                departureDate: { $gte: from, $lt: new Date(to.getTime() + DAY_MS) },
+            })
+            .select('departureDate')
+            .exec();
+        const existingDays = new Set(existing.map((trip) => this.toDateKey(this.toDay(trip.departureDate))));
+
+        for (let date = from; date <= to; date = new Date(date.getTime() + DAY_MS)) {
+            const dateKey = this.toDateKey(date);
+            if (!this.runsOn(template, date) || existingDays.has(dateKey)) continue;
+
+            try {
+                await this.schedulingService.create(
+                    {
+                        routeId: template.routeId.toString(),
+                        busIds: template.busIds.map((busId) => busId.toString()),
+                        etd: template.etd,
+                        departureDate: dateKey,
+                        price: template.price,
+                        note: template.note,
+                        isRecurring: true,
+                        recurringDays: template.daysOfWeek,
+                        recurringEndDate: template.endDate ? this.toDateKey(template.endDate) : undefined,
+                    },
+                    templateId,
+                );
+                result.created++;
+            } catch (error) {
+                // Ví dụ: xe đã kẹt chuyến khác ngày đó → bỏ qua, lần chạy sau thử lại
+                result.failed.push({ date: dateKey, reason: (error as Error).message });
+                this.logger.warn(`Template ${templateId}: failed to create trip on ${dateKey}: ${(error as Error).message}`);
+            }
+        }
+
+        const generatedUntil = result.failed.length > 0
+            ? new Date(this.toDay(result.failed[0].date).getTime() - DAY_MS)
+            : to;
+        template.generatedUntil = generatedUntil;
+        await template.save();
+        result.generatedUntil = generatedUntil;
+
+        return result;
+    }
+
+    /**
+     * Tách chuỗi: mẫu cũ kết thúc trước fromDay, mẫu mới (áp dụng thay đổi)
+     * nhận các chuyến từ fromDay trở đi
+     */
+    private async splitSeries(
+        template: SchedulingTemplateDocument,
+        fromDay: Date,
+        changes: TripChanges,
+    ): Promise<SchedulingTemplateDocument> {
+        const following = await this.templateModel.create({
+            name: template.name,
+            routeId: template.routeId,
+            busIds: changes.busIds ? changes.busIds.map((busId) => new Types.ObjectId(busId)) : template.busIds,
+            etd: changes.etd ?? template.etd,
+            price: changes.price ?? template.price,
+            note: changes.note ?? template.note,
+            daysOfWeek: template.daysOfWeek,
+            startDate: fromDay,
+            endDate: template.endDate ?? null,
+            exceptionDates: template.exceptionDates.filter((date) => date >= this.toDateKey(fromDay)),
+            horizonDays: template.horizonDays,
+            generatedUntil: template.generatedUntil ?? null,
+        });
+
+        await this.schedulingModel.updateMany(
+            { templateId: template._id, departureDate: { $gte: fromDay } },
+            { $set: { templateId: following._id } },
+        );
+
+        const previousEnd = new Date(fromDay.getTime() - DAY_MS);
+        template.endDate = previousEnd;
+        if (template.generatedUntil && template.generatedUntil > previousEnd) {
+            template.generatedUntil = previousEnd;
+        }
+        await template.save();
+
+        return following;
+    }
+
+    /**
+     * Áp dụng thay đổi cho các chuyến còn 'scheduled' của mẫu từ fromDay,
+     * bỏ qua chuyến đã sửa riêng
+     */
+    private async applyTripChanges(
+        template: SchedulingTemplateDocument,
+        fromDay: Date,
+        changes: TripChanges,
+    ): Promise<number> {
+        const hasChanges = Object.values(changes).some((value) => value !== undefined);
+        if (!hasChanges) return 0;
+
+        const trips = await this.schedulingModel
+            .find({
+                templateId: template._id,
+                isDeleted: false,
+                isDetached: { $ne: true },
+                status: 'scheduled',
+                departureDate: { $gte: fromDay },
+            })
+            .exec();
+
+        let updated = 0;
+        for (const trip of trips) {
+            try {
+                await this.schedulingService.update(String(trip._id), this.toUpdateDto(trip, changes));
+                updated++;
+            } catch (error) {
+                this.logger.warn(`Failed to update trip ${String(trip._id)} of series: ${(error as Error).message}`);
+            }
+        }
+
+        return updated;
+    }
+
+    /**
+     * Hủy các chuyến sắp tới không còn khớp lịch của mẫu (ngày, khoảng thời gian, ngày nghỉ).
+     * Chuyến đã có vé được giữ lại và tách khỏi chuỗi; trả về danh sách chuyến bị giữ.
+     */
+    private async removeUnmatchedTrips(template: SchedulingTemplateDocument) {
+        const trips = await this.schedulingModel
+            .find({
+                templateId: template._id,
+                isDeleted: false,
+                status: 'scheduled',
+                departureDate: { $gte: this.today() },
+            })
+            .exec();
+
+        const kept: Array<{ schedulingId: string; departureDate: Date; activeTickets: number }> = [];
+
+        for (const trip of trips) {
+            if (template.isActive && this.runsOn(template, this.toDay(trip.departureDate))) continue;
+
+            // Vé đã thanh toán hoặc đang giữ chỗ (bookedSeats chỉ đếm vé đã bán)
+            const activeTickets = await this.schedulingService.countActiveTickets(String(trip._id));
+            if (activeTickets > 0) {
+                await this.schedulingModel.updateOne({ _id: trip._id }, { $set: { isDetached: true } });
+                kept.push({
+                    schedulingId: String(trip._id),
+                    departureDate: trip.departureDate,
+                    activeTickets,
+                });
+                continue;
+            }
+
+            await this.schedulingService.remove(String(trip._id));
+            // Tách khỏi mẫu để ngày này có thể được sinh lại nếu lịch đổi trở lại
+            await this.schedulingModel.updateOne({ _id: trip._id }, { $set: { templateId: null } });
+        }
+
+        if (kept.length > 0) {
+            this.logger.warn(`Template ${String(template._id)}: kept ${kept.length} booked trips outside the new pattern`);
+        }
+
+        return kept;
+    }
+
+    private toUpdateDto(trip: SchedulingDocument, changes: TripChanges): UpdateSchedulingDto {
+        const dto: UpdateSchedulingDto = {};
+        if (changes.etd) dto.etd = changes.etd;
+        if (changes.price !== undefined) dto.price = changes.price;
+        if (changes.note !== undefined) dto.note = changes.note;
+
+        if (changes.busIds) {
+            // Kiểm tra xe trống cần đủ ngày + giờ khởi hành
+            dto.busIds = changes.busIds;
+            dto.departureDate = this.toDateKey(this.toDay(trip.departureDate));
+            dto.etd = changes.etd ?? trip.etd;
+        }
+
+        return dto;
+    }
+
+    /**
+     * day là ngày lịch lưu ở 00:00 UTC nên thứ trong tuần đọc theo UTC,
+     * không phụ thuộc múi giờ máy chủ
+     */
+    private runsOn(template: SchedulingTemplate, day: Date): boolean {
+        if (day < template.startDate) return false;
+        if (template.endDate && day > template.endDate) return false;
+        if (template.exceptionDates.includes(this.toDateKey(day))) return false;
+        return template.daysOfWeek.includes(DAYS_OF_WEEK[day.getUTCDay()]);
+    }
+
+    private validateRange(startDate: Date | string, endDate?: Date | string | null) {
+        if (endDate && this.toDay(endDate) < this.toDay(startDate)) {
+            throw new BadRequestException('Ngày kết thúc phải sau ngày bắt đầu');
+        }
+    }
+
+    private normalizeDates(dates?: string[]): string[] {
+        return [...new Set((dates ?? []).map((date) => this.toDateKey(this.toDay(date))))];
+    }
+
+    /**
+     * Ngày (00:00 UTC) – cùng quy ước với departureDate 'YYYY-MM-DD' của lịch trình
+     */
+    private toDay(date: Date | string): Date {
+        const key = typeof date === 'string' ? date.slice(0, 10) : this.toDateKey(date);
+        return new Date(`${key}T00:00:00.000Z`);
+    }
+
+    private toDateKey(date: Date): string {
+        return date.toISOString().split('T')[0];
+    }
+
+    /**
+     * Hôm nay theo giờ máy chủ (cùng đồng hồ SchedulingService dùng để ghép etd),
+     * quy về 00:00 UTC. Job 01:00 giờ Việt Nam vẫn là 18:00 UTC hôm trước.
+     */
+    private today(): Date {
+        const now = new Date();
+        return new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+    }
+}
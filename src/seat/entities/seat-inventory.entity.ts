@@ -0,0 +1,57 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { SeatStatus } from '../enums/seat-status.enum';
+
+export type SeatInventoryDocument = SeatInventory & Document;
+
+/**
+ * Trạng thái của một ghế trên một chặng của chuyến (scheduling × seat × leg).
+ * Chặng i đi từ trạm i tới trạm i + 1 của tuyến; vé cả tuyến giữ mọi chặng,
+ * nên một ghế có thể bán Sài Gòn → Bảo Lộc và Bảo Lộc → Đà Lạt cho hai khách.
+ * Không có bản ghi nghĩa là ghế còn trống (EMPTY) trên chặng đó.
+ */
+@Schema({ timestamps: true, collection: 'seat_inventories' })
+export class SeatInventory {
+  @Prop({ type: Types.ObjectId, ref: 'Scheduling', required: true })
+  schedulingId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Seat', required: true })
+  seatId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Bus', required: true })
+  busId: Types.ObjectId;
+
+  @Prop({ required: true })
+  seatNo: string;
+
+  @Prop({ type: Number, default: 0, min: 0 })
+  legIndex: number;
+
+  @Prop({
+    type: String,
+    enum: Object.values(SeatStatus),
+    default: SeatStatus.EMPTY,
+  })
+  status: SeatStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'Ticket', default: null })
+  ticketId?: Types.ObjectId | null;
+
+  @Prop({ type: Date, default: null })
+  holdExpiresAt?: Date | null;
+
+  readonly createdAt?: Date;
+
+  readonly updatedAt?: Date;
+}
+
+export const SeatInventorySchema = SchemaFactory.createForClass(SeatInventory);
+
+// Indexes
+SeatInventorySchema.index(
+  { schedulingId: 1, seatId: 1, legIndex: 1 },
+  { unique: true },
+);
+SeatInventorySchema.index({ schedulingId: 1, status: 1 });
+SeatInventorySchema.index({ ticketId: 1 });
+SeatInventorySchema.index({ holdExpiresAt: 1 });
@@ -1,6 +1,8 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { SeatStatus } from '../enums/seat-status.enum';
+import { SeatClass } from '../enums/seat-class.enum';
+import { SeatPosition } from '../enums/seat-position.enum';
 
 export type SeatDocument = Seat & Document;
 
@@ -15,6 +17,29 @@ export class Seat {
   @Prop({ type: Types.ObjectId, ref: 'Bus', required: true })
   busId: Types.ObjectId;
 
+  // Vị trí trên sơ đồ xe (bus.layout)
+  @Prop({ type: Number })
+  deck?: number;
+
+  @Prop({ type: Number })
+  row?: number;
+
+  @Prop({ type: Number })
+  column?: number;
+
+  @Prop({
+    type: String,
+    enum: Object.values(SeatClass),
+    default: SeatClass.STANDARD,
+  })
+  seatClass: SeatClass;
+
+  @Prop({ type: String, enum: Object.values(SeatPosition) })
+  position?: SeatPosition;
+
+  @Prop({ type: Boolean, default: false })
+  nearDriver: boolean;
+
   readonly createdAt?: Date;
 
   readonly updatedAt?: Date;
@@ -0,0 +1,4 @@
+export enum SeatClass {
+  STANDARD = 'STANDARD',
+  VIP = 'VIP',
+}
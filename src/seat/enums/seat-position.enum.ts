@@ -0,0 +1,5 @@
+export enum SeatPosition {
+  WINDOW = 'WINDOW',
+  AISLE = 'AISLE',
+  MIDDLE = 'MIDDLE',
+}
@@ -9,7 +9,20 @@ import {
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { Logger, UseGuards } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
 import { SeatLockService } from '../services/seat-lock.service';
+import { AuthService } from '../../auth/auth.service';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { SeatHoldCreatedEvent, SeatHoldReleasedEvent } from '../../common/events/seat-hold.event';
+import { SchedulingDelayedEvent } from '../../common/events/scheduling-delay.event';
+import { SchedulingBusSwappedEvent } from '../../common/events/bus-swap.event';
+
+interface JwtUser {
+    userId: string;
+    role: UserRole;
+    email?: string;
+    phone: string;
+}
 
 @WebSocketGateway({
     cors: {
@@ -23,30 +36,137 @@ export class SeatGateway implements OnGatewayConnection, OnGatewayDisconnect {
     server: Server;
 
     private readonly logger = new Logger(SeatGateway.name);
+    private readonly LOCK_GRACE_PERIOD = parseInt(process.env.SEAT_LOCK_GRACE_SECONDS || '30'); // seconds
+    private readonly graceTimers = new Map<string, NodeJS.Timeout>();
+
+    constructor(
+        private readonly seatLockService: SeatLockService,
+        private readonly authService: AuthService,
+    ) { }
+
+    /**
+     * Authenticate the socket during handshake with the same access token as the REST API.
+     * Token: `auth.token` (socket.io client option) or `Authorization: Bearer <token>` header.
+     * A client that reconnects passes its lock session in `auth.lockSession` to get its seats back.
+     */
+    async handleConnection(client: Socket) {
+        const token = this.extractToken(client);
+        if (!token) {
+            this.logger.warn(`Client ${client.id} rejected: missing access token`);
+            client.emit('error', { message: 'Unauthorized' });
+            client.disconnect(true);
+            return;
+        }
+
+        try {
+            client.data.user = await this.authService.verifyAccessToken(token);
+            this.logger.log(`Client connected: ${client.id} (user ${client.data.user.userId})`);
+        } catch (error) {
+            this.logger.warn(`Client ${client.id} rejected: ${error.message}`);
+            client.emit('error', { message: 'Unauthorized' });
+            client.disconnect(true);
+            return;
+        }
+
+        const lockSession = client.handshake.auth?.lockSession;
+        if (typeof lockSession === 'string' && lockSession) {
+            await this.resumeLockSession(client, lockSession);
+        }
+    }
 
-    constructor(private readonly seatLockService: SeatLockService) { }
+    /**
+     * Re-bind the seats of a lock session to the reconnected socket
+     */
+    private async resumeLockSession(client: Socket, sessionToken: string) {
+        const user = this.getUser(client)!;
+
+        try {
+            const resumed = await this.seatLockService.resumeSession(sessionToken, user.userId, client.id);
+            if (!resumed) {
+                client.emit('session:expired', { sessionToken });
+                return;
+            }
+
+            // Previous socket was on this instance: its release is no longer needed
+            this.cancelGraceTimer(resumed.previousClientId);
+            client.data.lockSession = sessionToken;
+
+            for (const lock of resumed.locks) {
+                this.server.to(`scheduling:${lock.schedulingId}`).emit('seat:locked', {
+                    schedulingId: lock.schedulingId,
+                    seatId: lock.seatId,
+                    clientId: client.id,
+                    userId: user.userId,
+                });
+            }
+            client.emit('session:resumed', { sessionToken, locks: resumed.locks });
+        } catch (error) {
+            this.logger.error(`Error resuming lock session: ${error.message}`);
+            client.emit('session:expired', { sessionToken });
+        }
+    }
+
+    private extractToken(client: Socket): string | undefined {
+        const authToken = client.handshake.auth?.token;
+        if (typeof authToken === 'string' && authToken) {
+            return authToken.replace(/^Bearer\s+/i, '');
+        }
+
+        const header = client.handshake.headers.authorization;
+        if (header?.startsWith('Bearer ')) {
+            return header.slice(7);
+        }
+
+        return undefined;
+    }
+
+    private getUser(client: Socket): JwtUser | undefined {
+        return client.data.user;
+    }
 
-    handleConnection(client: Socket) {
-        this.logger.log(`Client connected: ${client.id}`);
+    private cancelGraceTimer(clientId: string) {
+        const timer = this.graceTimers.get(clientId);
+        if (timer) {
+            clearTimeout(timer);
+            this.graceTimers.delete(clientId);
+        }
     }
 
     async handleDisconnect(client: Socket) {
         this.logger.log(`Client disconnected: ${client.id}`);
-        // Get all seats with schedulingId locked by this client before releasing
-        const clientLocks = await this.seatLockService.getClientLocksWithScheduling(client.id);
 
-        // Release all seats locked by this client
-        await this.seatLockService.releaseAllSeatsForClient(client.id);
+        // Client with a lock session may reconnect (flaky mobile data): keep its seats for a while
+        if (client.data.lockSession) {
+            const timer = setTimeout(() => {
+                this.graceTimers.delete(client.id);
+                void this.releaseClientLocks(client.id);
+            }, this.LOCK_GRACE_PERIOD * 1000);
+            this.graceTimers.set(client.id, timer);
+            this.logger.log(`Holding seats of client ${client.id} for ${this.LOCK_GRACE_PERIOD}s grace period`);
+            return;
+        }
 
-        // Notify rooms about released seats using schedulingId from lock data
+        await this.releaseClientLocks(client.id);
+    }
+
+    /**
+     * Release a gone client's seats and end its lock session
+     */
+    private async releaseClientLocks(clientId: string) {
+        // Release seats still locked by this client; locks taken over meanwhile
+        // (e.g. re-bound to a reconnected socket on another instance) are left alone and not broadcast
+        const clientLocks = await this.seatLockService.releaseAllSeatsForClient(clientId);
+        await this.seatLockService.endSession(clientId);
+
+        // Notify rooms on every instance (Redis adapter) about released seats
         for (const lock of clientLocks) {
             const room = `scheduling:${lock.schedulingId}`;
             this.server.to(room).emit('seat:unlocked', {
                 schedulingId: lock.schedulingId,
                 seatId: lock.seatId,
-                clientId: client.id
+                clientId,
             });
-            this.logger.log(`Emitted seat:unlocked for ${lock.seatId} to room ${room} after client ${client.id} disconnected`);
+            this.logger.log(`Emitted seat:unlocked for ${lock.seatId} to room ${room} after client ${clientId} disconnected`);
         }
     }
 
@@ -89,10 +209,22 @@ export class SeatGateway implements OnGatewayConnection, OnGatewayDisconnect {
      */
     @SubscribeMessage('seat:lock')
     async handleLockSeat(
-        @MessageBody() data: { schedulingId: string; seatId: string; userId?: string },
+        @MessageBody() data: {
+            schedulingId: string;
+            seatId: string;
+            boardingStationId?: string; // Vé chặng: trạm lên / xuống xe
+            alightingStationId?: string;
+        },
         @ConnectedSocket() client: Socket,
     ) {
-        const { schedulingId, seatId, userId } = data;
+        const { schedulingId, seatId, boardingStationId, alightingStationId } = data;
+
+        // Never trust a userId sent by the client, use the authenticated one
+        const user = this.getUser(client);
+        if (!user) {
+            return { success: false, seatId, message: 'Unauthorized' };
+        }
+        const userId = user.userId;
 
         try {
             // Try to lock the seat
@@ -101,6 +233,7 @@ export class SeatGateway implements OnGatewayConnection, OnGatewayDisconnect {
                 seatId,
                 client.id,
                 userId,
+                { boardingStationId, alightingStationId },
             );
 
             if (locked) {
@@ -113,9 +246,13 @@ export class SeatGateway implements OnGatewayConnection, OnGatewayDisconnect {
                     userId,
                 });
 
+                // Token to resume these locks after a reconnect
+                const sessionToken = await this.seatLockService.getOrCreateSession(client.id, userId);
+                client.data.lockSession = sessionToken;
+
                 this.logger.log(`✅ Seat ${seatId} locked by ${client.id} in ${roomName}`);
                 this.logger.log(`📢 Broadcasting to room ${roomName}`);
-                return { success: true, seatId, message: 'Seat locked successfully' };
+                return { success: true, seatId, sessionToken, message: 'Seat locked successfully' };
             } else {
                 this.logger.warn(`❌ Failed to lock seat ${seatId} - already locked`);
                 return { success: false, seatId, message: 'Seat already locked by another user' };
@@ -162,6 +299,70 @@ export class SeatGateway implements OnGatewayConnection, OnGatewayDisconnect {
         }
     }
 
+    /**
+     * Booking created: socket locks become the payment hold of the tickets
+     */
+    @OnEvent('seat.hold.created')
+    async handleSeatHoldCreated(event: SeatHoldCreatedEvent) {
+        await this.seatLockService.convertToHold(event.schedulingId, event.seatNos, event.userId);
+
+        for (const seatNo of event.seatNos) {
+            this.server.to(`scheduling:${event.schedulingId}`).emit('seat:held', {
+                schedulingId: event.schedulingId,
+                seatId: seatNo,
+                holdExpiresAt: event.holdExpiresAt,
+            });
+        }
+        this.logger.log(`Seats ${event.seatNos.join(', ')} held for payment in scheduling ${event.schedulingId}`);
+    }
+
+    /**
+     * Hold lapsed or ticket failed/cancelled/transferred: seats are available again
+     */
+    @OnEvent('seat.hold.released')
+    handleSeatHoldReleased(event: SeatHoldReleasedEvent) {
+        for (const seatNo of event.seatNos) {
+            this.server.to(`scheduling:${event.schedulingId}`).emit('seat:released', {
+                schedulingId: event.schedulingId,
+                seatId: seatNo,
+            });
+        }
+        this.logger.log(`Seats ${event.seatNos.join(', ')} released in scheduling ${event.schedulingId}`);
+    }
+
+    /**
+     * Trip delayed: everyone viewing the seat map sees the new departure time
+     */
+    @OnEvent('scheduling.delayed')
+    handleSchedulingDelayed(event: SchedulingDelayedEvent) {
+        this.server.to(`scheduling:${event.schedulingId}`).emit('scheduling:delayed', {
+            schedulingId: event.schedulingId,
+            originalDepartureAt: event.originalDepartureAt,
+            expectedDepartureAt: event.expectedDepartureAt,
+            expectedArrivalAt: event.expectedArrivalAt,
+            delayMinutes: event.delayMinutes,
+            reason: event.reason,
+        });
+        this.logger.log(`Scheduling ${event.schedulingId} delayed ${event.delayMinutes} minutes`);
+    }
+
+    /**
+     * Bus swapped: locks on the old bus seats are dropped and clients reload the seat map
+     */
+    @OnEvent('scheduling.bus.swapped')
+    async handleBusSwapped(event: SchedulingBusSwappedEvent) {
+        const locks = await this.seatLockService.getLockedSeats(event.schedulingId);
+        for (const lock of locks) {
+            await this.seatLockService.forceUnlock(event.schedulingId, lock.seatId);
+        }
+
+        this.server.to(`scheduling:${event.schedulingId}`).emit('scheduling:bus-swapped', {
+            schedulingId: event.schedulingId,
+            busId: event.newBusId,
+        });
+        this.logger.log(`Scheduling ${event.schedulingId} moved to bus ${event.newBusId}, ${locks.length} locks dropped`);
+    }
+
     /**
      * Manually notify about seat booking (called from booking service)
      */
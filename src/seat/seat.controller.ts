@@ -49,32 +49,82 @@ export class SeatController {
     return this.seatService.getSeatByBusIdAndSeatNo(busId, seatNo);
   }
 
-  @Patch('bus/:busId/status')
+  @Patch('scheduling/:schedulingId/status')
   @UseGuards(JwtAuthGuard, RolesGuard)
   @Roles(UserRole.SELLER)
   async updateStatusBySeller(
-    @Param('busId') busId: string,
+    @Param('schedulingId') schedulingId: string,
     @Body() dto: UpdateSeatStatusDto,
   ) {
-    return await this.seatService.sellSeatsBySeller(busId, dto.seatNos);
+    return await this.seatService.sellSeatsBySeller(schedulingId, dto.seatNos);
   }
 
-  @Post('bus/:busId/book')
-  async bookSeats(@Param('busId') busId: string, @Body() dto: BookSeatDto) {
-    return this.seatService.reserveSeatsByCustomer(busId, dto.seatNos);
+  @Post('scheduling/:schedulingId/book')
+  async bookSeats(
+    @Param('schedulingId') schedulingId: string,
+    @Body() dto: BookSeatDto,
+  ) {
+    return this.seatService.reserveSeatsByCustomer(schedulingId, dto.seatNos);
   }
 
-  @Patch('bus/:busId/confirm-seats-payment')
+  @Patch('scheduling/:schedulingId/confirm-seats-payment')
   async confirmSeatsPayment(
-    @Param('busId') busId: string,
+    @Param('schedulingId') schedulingId: string,
     @Body() dto: BookSeatDto,
   ) {
-    return this.seatService.confirmSeatsPayment(busId, dto.seatNos);
+    return this.seatService.confirmSeatsPayment(schedulingId, dto.seatNos);
   }
 
-  @Patch('bus/:busId/reset')
-  async resetSeats(@Param('busId') busId: string) {
-    return this.seatService.resetSeats(busId);
+  @Patch('scheduling/:schedulingId/reset')
+  async resetSeats(@Param('schedulingId') schedulingId: string) {
+    return this.seatService.resetSeats(schedulingId);
+  }
+
+  /**
+   * Get seat map with per-trip status for a scheduling
+   * (boardingStationId / alightingStationId: status on that segment only)
+   */
+  @Get('scheduling/:schedulingId/inventory')
+  async getSeatInventory(
+    @Param('schedulingId') schedulingId: string,
+    @Query('boardingStationId') boardingStationId?: string,
+    @Query('alightingStationId') alightingStationId?: string,
+  ) {
+    const segment = await this.getSegment(
+      schedulingId,
+      boardingStationId,
+      alightingStationId,
+    );
+    return this.seatService.getSeatInventory(schedulingId, segment);
+  }
+
+  /**
+   * Get rendered seat map (decks, rows, columns) with sold/held/locked state
+   * (boardingStationId / alightingStationId: status on that segment only)
+   */
+  @Get('scheduling/:schedulingId/map')
+  async getSeatMap(
+    @Param('schedulingId') schedulingId: string,
+    @Query('boardingStationId') boardingStationId?: string,
+    @Query('alightingStationId') alightingStationId?: string,
+  ) {
+    const segment = await this.getSegment(
+      schedulingId,
+      boardingStationId,
+      alightingStationId,
+    );
+    const locks = await this.seatLockService.getLockedSeats(schedulingId);
+    return this.seatService.getSeatMap(schedulingId, locks, segment);
+  }
+
+  /**
+   * Rebuild per-trip seat inventory from existing tickets (admin only)
+   */
+  @Post('inventory/migrate')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  async migrateInventory() {
+    return this.seatService.migrateInventoryFromTickets();
   }
 
   /**
@@ -99,4 +149,17 @@ export class SeatController {
     const unlocked = await this.seatLockService.forceUnlock(schedulingId, seatId);
     return { success: unlocked };
   }
+
+  private async getSegment(
+    schedulingId: string,
+    boardingStationId?: string,
+    alightingStationId?: string,
+  ) {
+    if (!boardingStationId && !alightingStationId) return undefined;
+    return this.seatService.resolveSegment(
+      schedulingId,
+      boardingStationId,
+      alightingStationId,
+    );
+  }
 }
@@ -5,6 +5,16 @@ import { SeatController } from './seat.controller';
 import { AuthModule } from 'src/auth/auth.module';
 import { Bus, BusSchema } from '../bus/entities/bus.entity';
 import { Seat, SeatSchema } from '../seat/entities/seat.entity';
+import {
+  SeatInventory,
+  SeatInventorySchema,
+} from './entities/seat-inventory.entity';
+import {
+  Scheduling,
+  SchedulingSchema,
+} from '../scheduling/entities/scheduling.entity';
+import { Route, RouteSchema } from '../route/entities/route.entity';
+import { Ticket, TicketSchema } from '../ticket/entities/ticket.entity';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { SeatGateway } from './gateways/seat.gateway';
 import { SeatLockService } from './services/seat-lock.service';
@@ -13,6 +23,12 @@ import { SeatLockService } from './services/seat-lock.service';
   imports: [
     MongooseModule.forFeature([{ name: Seat.name, schema: SeatSchema }]),
     MongooseModule.forFeature([{ name: Bus.name, schema: BusSchema }]),
+    MongooseModule.forFeature([
+      { name: SeatInventory.name, schema: SeatInventorySchema },
+      { name: Scheduling.name, schema: SchedulingSchema },
+      { name: Route.name, schema: RouteSchema },
+      { name: Ticket.name, schema: TicketSchema },
+    ]),
     AuthModule,
   ],
   providers: [SeatService, SeatLockService, SeatGateway, JwtAuthGuard],
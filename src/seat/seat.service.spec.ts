@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { SeatService } from './seat.service';
+import { Seat } from './entities/seat.entity';
+import { SeatInventory } from './entities/seat-inventory.entity';
+import { SeatStatus } from './enums/seat-status.enum';
+import { Bus } from '../bus/entities/bus.entity';
+import { Scheduling } from '../scheduling/entities/scheduling.entity';
+import { Route } from '../route/entities/route.entity';
+import { Ticket } from '../ticket/entities/ticket.entity';
+
+// The Bus and Seat schemas cannot be built under ts-jest (enum props without an explicit type)
+jest.mock('../bus/entities/bus.entity', () => ({ Bus: class Bus {} }));
+jest.mock('./entities/seat.entity', () => ({ Seat: class Seat {} }));
+
+describe('SeatService', () => {
+  let service: SeatService;
+
+  const query = <T>(value: T) => ({
+    sort: () => query(value),
+    exec: () => Promise.resolve(value),
+  });
+
+  const newBusId = new Types.ObjectId();
+  const scheduling = { _id: new Types.ObjectId(), busId: new Types.ObjectId() };
+
+  // Occupied inventory of the trip and seats of the new bus in layout order
+  let occupied: Array<Record<string, unknown>>;
+  let newSeats: Array<{ _id: Types.ObjectId; seatNo: string }>;
+
+  const row = (
+    seatNo: string,
+    status: SeatStatus,
+    ticketId: Types.ObjectId,
+    legIndex = 0,
+  ) => ({ _id: new Types.ObjectId(), seatNo, status, ticketId, legIndex });
+  const seat = (seatNo: string) => ({
+    _id: new Types.ObjectId(),
+    busId: newBusId,
+    seatNo,
+  });
+
+  const model = () => ({});
+  const seatModel = { find: jest.fn(() => query(newSeats)) };
+  const seatInventoryModel = { find: jest.fn(() => query(occupied)) };
+  const schedulingModel = { findById: jest.fn(() => query(scheduling)) };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SeatService,
+        { provide: getModelToken(Bus.name), useValue: model() },
+        { provide: getModelToken(Seat.name), useValue: seatModel },
+        {
+          provide: getModelToken(SeatInventory.name),
+          useValue: seatInventoryModel,
+        },
+        { provide: getModelToken(Scheduling.name), useValue: schedulingModel },
+        { provide: getModelToken(Route.name), useValue: model() },
+        { provide: getModelToken(Ticket.name), useValue: model() },
+      ],
+    }).compile();
+
+    service = module.get<SeatService>(SeatService);
+  });
+
+  describe('planBusSwap', () => {
+    const seatNoOf = (
+      remapping: Awaited<ReturnType<SeatService['planBusSwap']>>,
+      ticketId: Types.ObjectId,
+    ) =>
+      remapping
+        .filter((entry) => entry.ticketId === String(ticketId))
+        .map((entry) => entry.toSeat?.seatNo ?? null);
+
+    it('should keep the seat number, else take the next free seat, else leave the ticket unmapped', async () => {
+      const [sameNo, nextFree, noSeat] = [
+        new Types.ObjectId(),
+        new Types.ObjectId(),
+        new Types.ObjectId(),
+      ];
+      occupied = [
+        row('B5', SeatStatus.SOLD, nextFree),
+        row('A1', SeatStatus.SOLD, sameNo, 0),
+        row('A1', SeatStatus.SOLD, sameNo, 1),
+        row('B6', SeatStatus.SOLD, noSeat),
+      ];
+      newSeats = [seat('A1'), seat('A4')];
+
+      const remapping = await service.planBusSwap(
+        String(scheduling._id),
+        String(newBusId),
+      );
+
+      // Every leg of a ticket moves to the same seat
+      expect(seatNoOf(remapping, sameNo)).toEqual(['A1', 'A1']);
+      expect(seatNoOf(remapping, nextFree)).toEqual(['A4']);
+      expect(seatNoOf(remapping, noSeat)).toEqual([null]);
+      expect(seatModel.find).toHaveBeenCalledWith({ busId: newBusId });
+    });
+
+    it('should seat sold tickets before pending holds when the new bus is short of seats', async () => {
+      const [held, sold] = [new Types.ObjectId(), new Types.ObjectId()];
+      occupied = [
+        row('A1', SeatStatus.PENDING, held),
+        row('A2', SeatStatus.SOLD, sold),
+      ];
+      newSeats = [seat('A1')];
+
+      const remapping = await service.planBusSwap(
+        String(scheduling._id),
+        String(newBusId),
+      );
+
+      expect(seatNoOf(remapping, sold)).toEqual(['A1']);
+      expect(seatNoOf(remapping, held)).toEqual([null]);
+    });
+  });
+});
@@ -1,23 +1,84 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   BadRequestException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
 import { Model, Types } from 'mongoose';
 import { Bus, BusDocument } from '../bus/entities/bus.entity';
+import {
+  Scheduling,
+  SchedulingDocument,
+} from '../scheduling/entities/scheduling.entity';
 import { CreateSeatDto } from './dto/create-seat.dto';
 import { SeatStatus } from './enums/seat-status.enum';
 import { PaginationDto } from '../common/dto/pagination.dto';
 import { Seat, SeatDocument } from './entities/seat.entity';
+import {
+  SeatInventory,
+  SeatInventoryDocument,
+} from './entities/seat-inventory.entity';
+import { LayoutCellType } from '../bus/enums/layout-cell-type.enum';
+import { Route, RouteDocument } from '../route/entities/route.entity';
+import { Ticket, TicketDocument } from '../ticket/entities/ticket.entity';
+import {
+  RouteSegment,
+  getSegmentLegs,
+  resolveRouteSegment,
+} from '../common/utils/route-segment.util';
+import type { SeatLock } from './services/seat-lock.service';
+
+export interface SeatRemapping {
+  inventoryId: Types.ObjectId;
+  ticketId: string | null;
+  status: SeatStatus;
+  fromSeatNo: string;
+  toSeat: SeatDocument | null; // null = no seat left on the new bus
+}
+
+export type SeatInventoryRow = SeatInventory & { _id: Types.ObjectId };
 
 @Injectable()
 export class SeatService {
+  private readonly logger = new Logger(SeatService.name);
+
   constructor(
     @InjectModel(Bus.name) private busModel: Model<BusDocument>,
     @InjectModel(Seat.name) private seatModel: Model<SeatDocument>,
+    @InjectModel(SeatInventory.name)
+    private seatInventoryModel: Model<SeatInventoryDocument>,
+    @InjectModel(Scheduling.name)
+    private schedulingModel: Model<SchedulingDocument>,
+    @InjectModel(Route.name) private routeModel: Model<RouteDocument>,
+    @InjectModel(Ticket.name) private ticketModel: Model<TicketDocument>,
   ) {}
 
+  /**
+   * Resolve boarding/alighting stations to a segment of the scheduling's route
+   * (omitted stations = first/last stop)
+   */
+  async resolveSegment(
+    schedulingId: string,
+    boardingStationId?: string,
+    alightingStationId?: string,
+  ): Promise<RouteSegment> {
+    const scheduling = await this.getScheduling(schedulingId);
+    const stationIds = await this.getRouteStops(scheduling);
+
+    const segment = resolveRouteSegment(
+      stationIds,
+      boardingStationId,
+      alightingStationId,
+    );
+    if (!segment) {
+      throw new BadRequestException(
+        'Boarding and alighting stations must be stops of this route, in travel order',
+      );
+    }
+    return segment;
+  }
+
   async addSeat(createSeatDto: CreateSeatDto) {
     const bus = await this.busModel.findById(createSeatDto.busId);
     if (!bus) throw new NotFoundException('Bus not found');
@@ -62,82 +123,63 @@ export class SeatService {
     };
   }
 
-  async sellSeatsBySeller(busId: string, seatNos: string[]) {
-    console.log('Selling seats:', seatNos);
-    // 1. Kiểm tra bus tồn tại
-    const bus = await this.busModel.findById(busId);
-    if (!bus) throw new NotFoundException('Bus not found');
+  async sellSeatsBySeller(schedulingId: string, seatNos: string[]) {
+    // 1. Lấy chuyến + ghế theo seatNo trên xe của chuyến
+    const seats = await this.getSchedulingSeatsByNo(schedulingId, seatNos);
 
-    // 2. Update ghế: chỉ những ghế đang EMPTY mới được bán
-    const result = await this.seatModel.updateMany(
-      {
-        busId: bus._id,
-        seatNo: { $in: seatNos },
-        status: SeatStatus.EMPTY, // chỉ ghế trống mới bán
-      },
-      { $set: { status: SeatStatus.SOLD } },
+    // 2. Chỉ ghế đang trống trên chuyến này mới được bán (all-or-nothing)
+    const claimed = await this.claimSeats(
+      schedulingId,
+      seats.map((seat) => ({ seat })),
+      SeatStatus.SOLD,
     );
-
-    if (result.matchedCount === 0) {
-      throw new NotFoundException('No available seats to sell');
-    }
+    await this.syncSeatCounts(schedulingId);
 
     return {
       message: 'Seats sold successfully by Seller',
-      soldSeats: seatNos,
-      updatedCount: result.modifiedCount,
+      soldSeats: claimed.map((item) => item.seatNo),
+      updatedCount: claimed.length,
       status: SeatStatus.SOLD,
     };
   }
 
-  async reserveSeatsByCustomer(busId: string, seatNos: string[]) {
+  async reserveSeatsByCustomer(schedulingId: string, seatNos: string[]) {
     const targetStatus = SeatStatus.PENDING;
 
-    // 1. Kiểm tra bus tồn tại
-    const bus = await this.busModel.findById(busId);
-    if (!bus) throw new NotFoundException('Bus not found');
+    const seats = await this.getSchedulingSeatsByNo(schedulingId, seatNos);
 
-    // 2. Update atomic: chỉ update ghế EMPTY
-    const result = await this.seatModel.updateMany(
-      {
-        busId: bus._id,
-        seatNo: { $in: seatNos },
-        status: SeatStatus.EMPTY,
-      },
-      { $set: { status: targetStatus } },
+    const claimed = await this.claimSeats(
+      schedulingId,
+      seats.map((seat) => ({ seat })),
+      targetStatus,
     );
 
-    if (result.matchedCount === 0) {
-      throw new NotFoundException('No seats available to reserve');
-    }
-
     return {
       message: 'Seats reserved successfully',
-      bookedSeats: seatNos,
+      bookedSeats: claimed.map((item) => item.seatNo),
       status: targetStatus,
     };
   }
 
-  async confirmSeatsPayment(busId: string, seatNos: string[]) {
+  async confirmSeatsPayment(schedulingId: string, seatNos: string[]) {
     const targetStatus = SeatStatus.SOLD;
 
-    // 1. Kiểm tra bus tồn tại
-    const bus = await this.busModel.findById(busId);
-    if (!bus) throw new NotFoundException('Bus not found');
+    const seats = await this.getSchedulingSeatsByNo(schedulingId, seatNos);
 
-    // 2. Update atomic: chỉ update những ghế đang PENDING
-    const result = await this.seatModel.updateMany(
+    // Chỉ update những ghế đang PENDING trên chuyến này
+    const result = await this.seatInventoryModel.updateMany(
       {
-        busId: bus._id,
-        seatNo: { $in: seatNos },
+        schedulingId: new Types.ObjectId(schedulingId),
+        seatId: { $in: seats.map((seat) => seat._id) },
         status: SeatStatus.PENDING,
       },
-      { $set: { status: targetStatus } },
+      { $set: { status: targetStatus, holdExpiresAt: null } },
     );
 
     if (result.matchedCount === 0) {
       throw new NotFoundException('No seats found to confirm payment');
     }
+    await this.syncSeatCounts(schedulingId);
 
     return {
       message: 'Seats confirmed and sold successfully',
@@ -146,16 +188,17 @@ export class SeatService {
     };
   }
 
-  async resetSeats(busId: string) {
-    // 1. Kiểm tra bus tồn tại
-    const bus = await this.busModel.findById(busId);
-    if (!bus) throw new NotFoundException('Bus not found');
+  async resetSeats(schedulingId: string) {
+    const scheduling = await this.getScheduling(schedulingId);
 
-    // 2. Update tất cả ghế về EMPTY
-    const result = await this.seatModel.updateMany(
-      { busId: bus._id },
-      { $set: { status: SeatStatus.EMPTY } },
+    // Update tất cả ghế của chuyến về EMPTY
+    const result = await this.seatInventoryModel.updateMany(
+      { schedulingId: scheduling._id },
+      {
+        $set: { status: SeatStatus.EMPTY, ticketId: null, holdExpiresAt: null },
+      },
     );
+    await this.syncSeatCounts(schedulingId);
 
     return {
       message: 'All seats reset to EMPTY successfully',
@@ -163,6 +206,284 @@ export class SeatService {
     };
   }
 
+  /**
+   * Get seat map with per-trip status for a scheduling
+   * (for a segment: the seat status on the legs of that segment)
+   */
+  async getSeatInventory(schedulingId: string, segment?: RouteSegment) {
+    const scheduling = await this.getScheduling(schedulingId);
+    const legs = await this.getTripLegs(scheduling, segment);
+
+    const [seats, inventory] = await Promise.all([
+      this.seatModel.find({ busId: scheduling.busId }).lean().exec(),
+      this.seatInventoryModel
+        .find({ schedulingId: scheduling._id, legIndex: { $in: legs } })
+        .lean()
+        .exec(),
+    ]);
+
+    const bySeatId = this.groupBySeat(inventory);
+
+    return {
+      schedulingId,
+      busId: scheduling.busId.toString(),
+      seats: seats.map((seat) => {
+        const item = this.pickSeatState(
+          bySeatId.get((seat._id as Types.ObjectId).toHexString()) ?? [],
+        );
+        return {
+          seatId: (seat._id as Types.ObjectId).toHexString(),
+          seatNo: seat.seatNo,
+          status: item?.status ?? SeatStatus.EMPTY,
+          ticketId: item?.ticketId?.toString() ?? null,
+          holdExpiresAt: item?.holdExpiresAt ?? null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Seats of a scheduling that can still be sold (EMPTY or lapsed PENDING hold)
+   * on every leg of the segment (default: the whole route)
+   */
+  async getFreeSeats(
+    schedulingId: string,
+    segment?: RouteSegment,
+  ): Promise<SeatDocument[]> {
+    const scheduling = await this.getScheduling(schedulingId);
+    const legs = await this.getTripLegs(scheduling, segment);
+
+    const [seats, taken] = await Promise.all([
+      this.seatModel
+        .find({ busId: scheduling.busId })
+        .sort({ seatNo: 1 })
+        .exec(),
+      this.getOccupiedInventory(scheduling._id as Types.ObjectId, legs),
+    ]);
+
+    const takenIds = new Set(taken.map((item) => item.seatId.toString()));
+    return seats.filter((seat) => !takenIds.has(String(seat._id)));
+  }
+
+  /**
+   * Bus swap: map every occupied seat of the scheduling onto a seat of the new
+   * bus (same seatNo where possible, otherwise the next free seat in layout
+   * order). Sold seats are placed before pending holds; toSeat is null when
+   * the new bus has no seat left. All leg rows of a seat move to the same seat.
+   */
+  async planBusSwap(
+    schedulingId: string,
+    newBusId: string,
+  ): Promise<SeatRemapping[]> {
+    const scheduling = await this.getScheduling(schedulingId);
+
+    const [occupied, newSeats] = await Promise.all([
+      this.getOccupiedInventory(scheduling._id as Types.ObjectId),
+      this.seatModel
+        .find({ busId: new Types.ObjectId(newBusId) })
+        .sort({ deck: 1, row: 1, column: 1, seatNo: 1 })
+        .exec(),
+    ]);
+
+    const freeSeats = new Map(newSeats.map((seat) => [seat.seatNo, seat]));
+    const sorted = occupied.sort(
+      (a, b) =>
+        Number(b.status === SeatStatus.SOLD) -
+          Number(a.status === SeatStatus.SOLD) ||
+        a.seatNo.localeCompare(b.seatNo, undefined, { numeric: true }),
+    );
+
+    // Old seatNo → seat on the new bus; sold seats are placed first, so a
+    // hold never keeps its seat number while a sold seat is left without one
+    const targets = new Map<string, SeatDocument | null>();
+    for (const sold of [true, false]) {
+      const seatNos = [
+        ...new Set(
+          sorted
+            .filter((item) => (item.status === SeatStatus.SOLD) === sold)
+            .map((item) => item.seatNo),
+        ),
+      ].filter((seatNo) => !targets.has(seatNo));
+
+      for (const seatNo of seatNos) {
+        const seat = freeSeats.get(seatNo) ?? null;
+        if (seat) freeSeats.delete(seatNo);
+        targets.set(seatNo, seat);
+      }
+      for (const seatNo of seatNos) {
+        if (targets.get(seatNo)) continue;
+        const next = freeSeats.values().next();
+        if (next.done) break;
+        targets.set(seatNo, next.value);
+        freeSeats.delete(next.value.seatNo);
+      }
+    }
+
+    return sorted.map((item) => ({
+      inventoryId: item._id as Types.ObjectId,
+      ticketId: item.ticketId?.toString() ?? null,
+      status: item.status,
+      fromSeatNo: item.seatNo,
+      toSeat: targets.get(item.seatNo) ?? null,
+    }));
+  }
+
+  /**
+   * Move the seat inventory of a scheduling onto the new bus.
+   * Rows of free seats and of seats that could not be mapped are dropped.
+   */
+  async applyBusSwap(
+    schedulingId: string,
+    remapping: SeatRemapping[],
+  ): Promise<void> {
+    const mapped = remapping.filter((entry) => entry.toSeat);
+
+    await this.seatInventoryModel.deleteMany({
+      schedulingId: new Types.ObjectId(schedulingId),
+      _id: { $nin: mapped.map((entry) => entry.inventoryId) },
+    });
+
+    if (mapped.length === 0) return;
+
+    await this.seatInventoryModel.bulkWrite(
+      mapped.map(({ inventoryId, toSeat }) => ({
+        updateOne: {
+          filter: { _id: inventoryId },
+          update: {
+            $set: {
+              seatId: toSeat!._id,
+              busId: toSeat!.busId,
+              seatNo: toSeat!.seatNo,
+            },
+          },
+        },
+      })),
+    );
+  }
+
+  /**
+   * Every inventory row of a scheduling, as stored (for restoreInventory)
+   */
+  async getInventoryRows(schedulingId: string): Promise<SeatInventoryRow[]> {
+    return this.seatInventoryModel
+      .find({ schedulingId: new Types.ObjectId(schedulingId) })
+      .lean<SeatInventoryRow[]>()
+      .exec();
+  }
+
+  /**
+   * Put the inventory of a scheduling back to rows read by getInventoryRows:
+   * rows are rewritten in place (or re-created) and rows added since are dropped
+   */
+  async restoreInventory(
+    schedulingId: string,
+    rows: SeatInventoryRow[],
+  ): Promise<void> {
+    if (rows.length > 0) {
+      await this.seatInventoryModel.bulkWrite(
+        rows.map((row) => ({
+          replaceOne: {
+            filter: { _id: row._id },
+            replacement: row,
+            upsert: true,
+          },
+        })),
+      );
+    }
+
+    await this.seatInventoryModel.deleteMany({
+      schedulingId: new Types.ObjectId(schedulingId),
+      _id: { $nin: rows.map((row) => row._id) },
+    });
+  }
+
+  /**
+   * Render the bus layout of a scheduling with per-trip seat status and live locks.
+   * With a segment, a seat is free when it is free on every leg of the segment.
+   * Buses created before layouts existed return their seats without coordinates.
+   */
+  async getSeatMap(
+    schedulingId: string,
+    locks: SeatLock[],
+    segment?: RouteSegment,
+  ) {
+    const scheduling = await this.getScheduling(schedulingId);
+    const legs = await this.getTripLegs(scheduling, segment);
+
+    const [bus, seats, inventory] = await Promise.all([
+      this.busModel.findById(scheduling.busId).lean().exec(),
+      this.seatModel.find({ busId: scheduling.busId }).lean().exec(),
+      this.seatInventoryModel
+        .find({ schedulingId: scheduling._id, legIndex: { $in: legs } })
+        .lean()
+        .exec(),
+    ]);
+    if (!bus) throw new NotFoundException('Bus not found');
+
+    const seatsByNo = new Map(seats.map((seat) => [seat.seatNo, seat]));
+    const inventoryBySeatId = this.groupBySeat(inventory);
+    const locksBySeatNo = new Map(locks.map((lock) => [lock.seatId, lock]));
+
+    const renderSeat = (seatNo: string) => {
+      const seat = seatsByNo.get(seatNo);
+      const seatId = seat ? (seat._id as Types.ObjectId).toHexString() : null;
+      // Giữ chỗ PENDING đã hết hạn coi như ghế trống
+      const item = seatId
+        ? this.pickSeatState(inventoryBySeatId.get(seatId) ?? [])
+        : null;
+      const lock = locksBySeatNo.get(seatNo);
+
+      return {
+        seatId,
+        seatNo,
+        status: item?.status ?? SeatStatus.EMPTY,
+        holdExpiresAt: item?.holdExpiresAt ?? null,
+        locked: !!lock,
+        lockExpiresAt: lock?.expiresAt ?? null,
+      };
+    };
+
+    const layout = bus.layout;
+    if (!layout) {
+      return {
+        schedulingId,
+        busId: (bus._id as Types.ObjectId).toHexString(),
+        busType: bus.type,
+        layout: null,
+        cells: seats.map((seat) => ({
+          type: LayoutCellType.SEAT,
+          seatClass: seat.seatClass,
+          ...renderSeat(seat.seatNo),
+        })),
+      };
+    }
+
+    return {
+      schedulingId,
+      busId: (bus._id as Types.ObjectId).toHexString(),
+      busType: bus.type,
+      layout: {
+        decks: layout.decks,
+        rows: layout.rows,
+        columns: layout.columns,
+      },
+      cells: layout.cells.map((cell) => ({
+        deck: cell.deck,
+        row: cell.row,
+        column: cell.column,
+        type: cell.type,
+        ...(cell.type === LayoutCellType.SEAT && cell.seatNo
+          ? {
+              seatClass: cell.seatClass,
+              position: cell.position,
+              nearDriver: cell.nearDriver,
+              ...renderSeat(cell.seatNo),
+            }
+          : {}),
+      })),
+    };
+  }
+
   async getSeatByBusIdAndSeatNo(busId: string, seatNo: string) {
     // 1. Kiểm tra bus tồn tại
     const bus = await this.busModel.findById(busId);
@@ -204,91 +525,303 @@ export class SeatService {
   }
 
   /**
-   * Check if seat is available (EMPTY status) and belongs to the correct bus
+   * Check if seat is available on a scheduling and belongs to the correct bus
    */
-  async checkSeatAvailability(seatId: string, busId: string): Promise<void> {
-    const seat = await this.getSeatById(seatId);
-
+  async checkSeatAvailability(
+    seatId: string,
+    schedulingId: string,
+    busId: string,
+    segment?: RouteSegment,
+  ): Promise<void> {
     // Validate seat belongs to the bus
-    if (seat.busId.toString() !== busId) {
-      throw new BadRequestException(
-        `Seat ${seat.seatNo} does not belong to bus ${busId}`,
-      );
-    }
+    const seat = await this.getSeatOfBus(seatId, busId);
 
-    // Check if seat is available
-    if (seat.status !== SeatStatus.EMPTY) {
+    // Check if seat is available on this scheduling (segment)
+    const status = await this.getSeatStatus(seat, schedulingId, segment);
+    if (status !== SeatStatus.EMPTY) {
       throw new BadRequestException(
-        `Seat ${seat.seatNo} is not available (current status: ${seat.status})`,
+        `Seat ${seat.seatNo} is not available (current status: ${status})`,
       );
     }
   }
 
   /**
-   * Update single seat status by seatId
+   * Get per-trip status of a seat over the legs of a segment (default: the
+   * whole route). No inventory row = EMPTY; SOLD on any leg wins over PENDING.
+   * A PENDING hold whose holdExpiresAt has passed counts as EMPTY
    */
-  async updateSeatStatus(
-    seatId: string,
-    newStatus: SeatStatus,
-    expectedCurrentStatus?: SeatStatus,
-  ): Promise<SeatDocument> {
-    const seat = await this.getSeatById(seatId);
+  async getSeatStatus(
+    seat: SeatDocument,
+    schedulingId: string,
+    segment?: RouteSegment,
+  ): Promise<SeatStatus> {
+    const scheduling = await this.getScheduling(schedulingId);
+    const legs = await this.getTripLegs(scheduling, segment);
 
-    // Optional: validate current status before update
-    if (expectedCurrentStatus && seat.status !== expectedCurrentStatus) {
-      throw new BadRequestException(
-        `Cannot update seat: expected status ${expectedCurrentStatus}, but found ${seat.status}`,
-      );
+    const items = await this.seatInventoryModel
+      .find({
+        schedulingId: scheduling._id,
+        seatId: seat._id,
+        legIndex: { $in: legs },
+      })
+      .lean()
+      .exec();
+
+    return this.pickSeatState(items)?.status ?? SeatStatus.EMPTY;
+  }
+
+  /**
+   * Resolve a seat of the scheduling's bus by seatNo (or seat ID)
+   * and return its per-trip status. Used by SeatLockService.
+   */
+  async getSeatStatusForScheduling(
+    schedulingId: string,
+    seatRef: string,
+    segment?: RouteSegment,
+  ): Promise<{ seat: SeatDocument; status: SeatStatus }> {
+    const scheduling = await this.getScheduling(schedulingId);
+
+    const seat = await this.seatModel
+      .findOne({
+        busId: scheduling.busId,
+        ...(Types.ObjectId.isValid(seatRef) && seatRef.length === 24
+          ? { _id: new Types.ObjectId(seatRef) }
+          : { seatNo: seatRef }),
+      })
+      .exec();
+    if (!seat) {
+      throw new NotFoundException('Seat not found');
     }
 
-    seat.status = newStatus;
-    await seat.save();
+    return {
+      seat,
+      status: await this.getSeatStatus(seat, schedulingId, segment),
+    };
+  }
 
-    return seat;
+  /**
+   * Reserve single seat on a scheduling (EMPTY → PENDING) for a ticket
+   */
+  async reserveSeat(
+    seatId: string,
+    schedulingId: string,
+    busId: string,
+    ticketId?: Types.ObjectId,
+    holdExpiresAt?: Date,
+    segment?: RouteSegment,
+  ): Promise<SeatInventoryDocument> {
+    const seat = await this.getSeatOfBus(seatId, busId);
+
+    const [item] = await this.claimSeats(
+      schedulingId,
+      [{ seat, ticketId }],
+      SeatStatus.PENDING,
+      holdExpiresAt,
+      segment,
+    );
+    return item;
   }
 
   /**
-   * Reserve single seat (EMPTY → PENDING)
+   * Reserve several seats on a scheduling at once (all-or-nothing)
+   * Used by group booking: each seat is held for its own ticket
    */
-  async reserveSeat(seatId: string, busId: string): Promise<SeatDocument> {
-    // Check availability first
-    await this.checkSeatAvailability(seatId, busId);
+  async reserveSeats(
+    schedulingId: string,
+    busId: string,
+    holds: Array<{ seatId: string; ticketId: Types.ObjectId }>,
+    holdExpiresAt?: Date,
+    segment?: RouteSegment,
+  ): Promise<SeatInventoryDocument[]> {
+    const seats = await this.getSeatsByIds(holds.map((hold) => hold.seatId));
+    const seatsById = new Map(seats.map((seat) => [String(seat._id), seat]));
 
-    // Update to PENDING
-    return this.updateSeatStatus(
-      seatId,
+    const entries = holds.map((hold) => {
+      const seat = seatsById.get(hold.seatId)!;
+      if (seat.busId.toString() !== busId) {
+        throw new BadRequestException(
+          `Seat ${seat.seatNo} does not belong to bus ${busId}`,
+        );
+      }
+      return { seat, ticketId: hold.ticketId };
+    });
+
+    return this.claimSeats(
+      schedulingId,
+      entries,
       SeatStatus.PENDING,
-      SeatStatus.EMPTY, // Must be EMPTY to reserve
+      holdExpiresAt,
+      segment,
     );
   }
 
   /**
-   * Confirm seat payment (PENDING → SOLD)
+   * Sell single seat on a scheduling directly (EMPTY → SOLD)
+   * Used when a ticket is issued already paid (e.g. transfer)
    */
-  async confirmSeat(seatId: string): Promise<SeatDocument> {
-    return this.updateSeatStatus(
-      seatId,
+  async sellSeat(
+    seatId: string,
+    schedulingId: string,
+    busId: string,
+    ticketId?: Types.ObjectId,
+    segment?: RouteSegment,
+  ): Promise<SeatInventoryDocument> {
+    const seat = await this.getSeatOfBus(seatId, busId);
+
+    const [item] = await this.claimSeats(
+      schedulingId,
+      [{ seat, ticketId }],
       SeatStatus.SOLD,
-      SeatStatus.PENDING, // Must be PENDING to confirm
+      undefined,
+      segment,
     );
+    return item;
   }
 
   /**
-   * Release seat (PENDING → EMPTY or SOLD → EMPTY)
-   * Used when ticket fails or is cancelled
+   * Confirm seat payment on a scheduling (PENDING → SOLD)
+   * Only the ticket holding the seat can confirm it
    */
-  async releaseSeat(seatId: string): Promise<SeatDocument> {
-    // Don't validate current status - allow release from any status
-    return this.updateSeatStatus(seatId, SeatStatus.EMPTY);
+  async confirmSeat(
+    seatId: string,
+    schedulingId: string,
+    ticketId?: Types.ObjectId,
+  ): Promise<void> {
+    const filter = {
+      schedulingId: new Types.ObjectId(schedulingId),
+      seatId: new Types.ObjectId(seatId),
+      ...(ticketId ? { ticketId } : {}),
+    };
+
+    // Every leg held by the ticket
+    const result = await this.seatInventoryModel.updateMany(
+      { ...filter, status: SeatStatus.PENDING },
+      { $set: { status: SeatStatus.SOLD, holdExpiresAt: null } },
+    );
+
+    if (result.matchedCount === 0) {
+      // Idempotent: already SOLD for the same holder
+      const sold = await this.seatInventoryModel.exists({
+        ...filter,
+        status: SeatStatus.SOLD,
+      });
+      if (!sold) {
+        throw new BadRequestException(
+          'Cannot confirm seat: seat is not held by this ticket',
+        );
+      }
+    }
+  }
+
+  /**
+   * Sell the seat of a ticket whose payment just arrived, on every leg of its
+   * segment (default: the whole route). Legs the ticket still holds are
+   * confirmed; legs released after its hold lapsed are claimed again if still
+   * free. Returns false, leaving the seat to its new holder, when another
+   * ticket took a leg meanwhile.
+   */
+  async sellPaidSeat(
+    seatId: string,
+    schedulingId: string,
+    ticketId: Types.ObjectId,
+    segment?: RouteSegment,
+  ): Promise<boolean> {
+    const scheduling = await this.getScheduling(schedulingId);
+    const legs = await this.getTripLegs(scheduling, segment);
+    const seat = await this.getSeatOfBus(seatId, scheduling.busId.toString());
+    const filter = {
+      schedulingId: scheduling._id,
+      seatId: seat._id,
+      ticketId,
+    };
+
+    await this.seatInventoryModel.updateMany(
+      { ...filter, legIndex: { $in: legs }, status: SeatStatus.PENDING },
+      { $set: { status: SeatStatus.SOLD, holdExpiresAt: null } },
+    );
+    const sold = await this.seatInventoryModel
+      .find({ ...filter, legIndex: { $in: legs }, status: SeatStatus.SOLD })
+      .select('legIndex')
+      .lean()
+      .exec();
+    const soldLegs = new Set(sold.map((item) => item.legIndex));
+
+    try {
+      for (const legIndex of legs.filter((leg) => !soldLegs.has(leg))) {
+        await this.claimLeg(
+          scheduling._id as Types.ObjectId,
+          seat,
+          legIndex,
+          SeatStatus.SOLD,
+          ticketId,
+        );
+      }
+    } catch (error) {
+      // Duplicate key = another ticket holds the leg now
+      if ((error as { code?: number } | null)?.code !== 11000) throw error;
+
+      await this.seatInventoryModel.updateMany(filter, {
+        $set: { status: SeatStatus.EMPTY, ticketId: null, holdExpiresAt: null },
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Release seat on a scheduling (PENDING → EMPTY or SOLD → EMPTY)
+   * Used when ticket fails or is cancelled. When ticketId is given,
+   * the seat is only released if that ticket still holds it.
+   */
+  async releaseSeat(
+    seatId: string,
+    schedulingId: string,
+    ticketId?: Types.ObjectId,
+  ): Promise<boolean> {
+    const result = await this.seatInventoryModel.updateMany(
+      {
+        schedulingId: new Types.ObjectId(schedulingId),
+        seatId: new Types.ObjectId(seatId),
+        ...(ticketId ? { ticketId } : {}),
+      },
+      {
+        $set: { status: SeatStatus.EMPTY, ticketId: null, holdExpiresAt: null },
+      },
+    );
+
+    return result.modifiedCount > 0;
   }
 
   /**
    * Bulk release seats (used by cron job)
    */
-  async releaseSeats(seatIds: string[]): Promise<{ releasedCount: number }> {
-    const result = await this.seatModel.updateMany(
-      { _id: { $in: seatIds.map((id) => new Types.ObjectId(id)) } },
-      { $set: { status: SeatStatus.EMPTY } },
+  async releaseSeats(
+    holds: Array<{
+      seatId: string;
+      schedulingId: string;
+      ticketId?: Types.ObjectId;
+    }>,
+  ): Promise<{ releasedCount: number }> {
+    if (holds.length === 0) return { releasedCount: 0 };
+
+    const result = await this.seatInventoryModel.bulkWrite(
+      holds.map((hold) => ({
+        updateMany: {
+          filter: {
+            schedulingId: new Types.ObjectId(hold.schedulingId),
+            seatId: new Types.ObjectId(hold.seatId),
+            ...(hold.ticketId ? { ticketId: hold.ticketId } : {}),
+          },
+          update: {
+            $set: {
+              status: SeatStatus.EMPTY,
+              ticketId: null,
+              holdExpiresAt: null,
+            },
+          },
+        },
+      })),
     );
 
     return {
@@ -296,6 +829,187 @@ export class SeatService {
     };
   }
 
+  /**
+   * Recount bookedSeats of a scheduling from its SOLD inventory (a seat sold
+   * on any leg counts once) and derive availableSeats from the capacity.
+   * Capacity defaults to the scheduling's current bookedSeats + availableSeats.
+   */
+  async syncSeatCounts(
+    schedulingId: string,
+    totalSeats?: number,
+  ): Promise<{ bookedSeats: number; availableSeats: number }> {
+    const scheduling = await this.getScheduling(schedulingId);
+
+    const soldSeatIds = await this.seatInventoryModel.distinct('seatId', {
+      schedulingId: scheduling._id,
+      status: SeatStatus.SOLD,
+    });
+
+    const capacity =
+      totalSeats ??
+      (scheduling.bookedSeats ?? 0) + (scheduling.availableSeats ?? 0);
+    const counts = {
+      bookedSeats: soldSeatIds.length,
+      availableSeats: Math.max(0, capacity - soldSeatIds.length),
+    };
+
+    await this.schedulingModel.updateOne(
+      { _id: scheduling._id },
+      { $set: counts },
+    );
+    return counts;
+  }
+
+  /**
+   * Rebuild per-trip seat inventory from existing tickets
+   * SUCCESS tickets → SOLD, non-expired PENDING tickets → PENDING,
+   * one row per leg of the ticket's segment (whole route when not set)
+   */
+  async migrateInventoryFromTickets() {
+    this.logger.log('🔄 Migrating seat inventory from tickets...');
+
+    // Rows created before segment sales belong to leg 0; replace the old
+    // (schedulingId, seatId) unique index by the per-leg one
+    await this.seatInventoryModel.updateMany(
+      { legIndex: { $exists: false } },
+      { $set: { legIndex: 0 } },
+    );
+    await this.seatInventoryModel.syncIndexes();
+
+    const now = new Date();
+    const tickets = await this.ticketModel
+      .find({
+        $or: [
+          { status: 'SUCCESS' },
+          { status: 'PENDING', expiredTime: { $gt: now } },
+        ],
+      })
+      .select(
+        '_id seatId schedulingId status expiredTime boardingStopIndex alightingStopIndex',
+      )
+      .sort({ createdAt: 1 })
+      .lean<
+        Array<{
+          _id: Types.ObjectId;
+          seatId: Types.ObjectId;
+          schedulingId: Types.ObjectId;
+          status: string;
+          expiredTime: Date;
+          boardingStopIndex?: number;
+          alightingStopIndex?: number;
+        }>
+      >()
+      .exec();
+
+    // Number of legs of each scheduling's route
+    const schedulings = await this.schedulingModel
+      .find({ _id: { $in: tickets.map((ticket) => ticket.schedulingId) } })
+      .select('routeId')
+      .lean()
+      .exec();
+    const routes = await this.routeModel
+      .find({ _id: { $in: schedulings.map((item) => item.routeId) } })
+      .select('stationIds')
+      .lean()
+      .exec();
+    const stopCountByRoute = new Map(
+      routes.map((route) => [
+        (route._id as Types.ObjectId).toHexString(),
+        route.stationIds.length,
+      ]),
+    );
+    const legCountByScheduling = new Map(
+      schedulings.map((item) => [
+        (item._id as Types.ObjectId).toHexString(),
+        Math.max((stopCountByRoute.get(item.routeId.toString()) ?? 2) - 1, 1),
+      ]),
+    );
+
+    // SUCCESS wins over PENDING for the same scheduling × seat × leg
+    const entries = new Map<
+      string,
+      (typeof tickets)[number] & { legIndex: number }
+    >();
+    for (const ticket of tickets) {
+      const legCount =
+        legCountByScheduling.get(ticket.schedulingId.toString()) ?? 1;
+      const legs = getSegmentLegs({
+        fromStopIndex: ticket.boardingStopIndex ?? 0,
+        toStopIndex: ticket.alightingStopIndex ?? legCount,
+      });
+      for (const legIndex of legs) {
+        const key = `${ticket.schedulingId.toString()}:${ticket.seatId.toString()}:${legIndex}`;
+        const existing = entries.get(key);
+        if (!existing || existing.status !== 'SUCCESS') {
+          entries.set(key, { ...ticket, legIndex });
+        }
+      }
+    }
+
+    const seats = await this.seatModel
+      .find({
+        _id: { $in: [...entries.values()].map((ticket) => ticket.seatId) },
+      })
+      .lean()
+      .exec();
+    const seatsById = new Map(
+      seats.map((seat) => [(seat._id as Types.ObjectId).toHexString(), seat]),
+    );
+
+    const operations = [...entries.values()]
+      .filter((ticket) => seatsById.has(ticket.seatId.toString()))
+      .map((ticket) => {
+        const seat = seatsById.get(ticket.seatId.toString())!;
+        const isSold = ticket.status === 'SUCCESS';
+        return {
+          updateOne: {
+            filter: {
+              schedulingId: ticket.schedulingId,
+              seatId: ticket.seatId,
+              legIndex: ticket.legIndex,
+            },
+            update: {
+              $set: {
+                busId: seat.busId,
+                seatNo: seat.seatNo,
+                status: isSold ? SeatStatus.SOLD : SeatStatus.PENDING,
+                ticketId: ticket._id,
+                holdExpiresAt: isSold ? null : ticket.expiredTime,
+              },
+            },
+            upsert: true,
+          },
+        };
+      });
+
+    const result =
+      operations.length > 0
+        ? await this.seatInventoryModel.bulkWrite(operations)
+        : null;
+
+    const migratedCount =
+      (result?.upsertedCount ?? 0) + (result?.modifiedCount ?? 0);
+
+    // bookedSeats / availableSeats follow the rebuilt inventory
+    for (const scheduling of schedulings) {
+      await this.syncSeatCounts(
+        (scheduling._id as Types.ObjectId).toHexString(),
+      );
+    }
+
+    this.logger.log(`✅ Migrated ${migratedCount} seat inventory entries`);
+
+    const ticketCount = new Set(
+      [...entries.values()].map((ticket) => ticket._id.toString()),
+    ).size;
+
+    return {
+      message: `Successfully migrated seat inventory from ${ticketCount} tickets`,
+      ticketCount,
+      migratedCount,
+    };
+  }
+
   /**
    * Validate seat belongs to bus
    * Used in transfer ticket validation
@@ -324,4 +1038,233 @@ export class SeatService {
 
     return seats;
   }
+
+  private async getScheduling(schedulingId: string) {
+    const scheduling = await this.schedulingModel.findById(schedulingId).exec();
+    if (!scheduling) throw new NotFoundException('Scheduling not found');
+    return scheduling;
+  }
+
+  /**
+   * Station IDs of the scheduling's route, in travel order
+   */
+  private async getRouteStops(
+    scheduling: SchedulingDocument,
+  ): Promise<Types.ObjectId[]> {
+    const route = await this.routeModel
+      .findById(scheduling.routeId)
+      .select('stationIds')
+      .lean()
+      .exec();
+    if (!route) throw new NotFoundException('Route not found');
+    return route.stationIds;
+  }
+
+  /**
+   * Legs of the scheduling covered by a segment (default: every leg)
+   */
+  private async getTripLegs(
+    scheduling: SchedulingDocument,
+    segment?: RouteSegment,
+  ): Promise<number[]> {
+    if (segment) return getSegmentLegs(segment);
+
+    const stops = await this.getRouteStops(scheduling);
+    return getSegmentLegs({
+      fromStopIndex: 0,
+      toStopIndex: Math.max(stops.length - 1, 1),
+    });
+  }
+
+  private groupBySeat<T extends Pick<SeatInventory, 'seatId'>>(
+    items: T[],
+  ): Map<string, T[]> {
+    const bySeatId = new Map<string, T[]>();
+    for (const item of items) {
+      const key = item.seatId.toString();
+      bySeatId.set(key, [...(bySeatId.get(key) ?? []), item]);
+    }
+    return bySeatId;
+  }
+
+  /**
+   * Status of a seat over several legs: a SOLD leg wins over a PENDING one.
+   * PENDING holds whose holdExpiresAt has passed are ignored.
+   */
+  private pickSeatState<T extends SeatInventory>(items: T[]): T | null {
+    const now = new Date();
+    const held = items.filter(
+      (item) =>
+        item.status !== SeatStatus.EMPTY &&
+        !(
+          item.status === SeatStatus.PENDING &&
+          item.holdExpiresAt &&
+          item.holdExpiresAt <= now
+        ),
+    );
+
+    return (
+      held.find((item) => item.status === SeatStatus.SOLD) ?? held[0] ?? null
+    );
+  }
+
+  /**
+   * Inventory rows that hold a seat: SOLD, or PENDING with a live hold
+   */
+  private async getOccupiedInventory(
+    schedulingId: Types.ObjectId,
+    legs?: number[],
+  ): Promise<SeatInventoryDocument[]> {
+    return this.seatInventoryModel
+      .find({
+        schedulingId,
+        ...(legs ? { legIndex: { $in: legs } } : {}),
+        $or: [
+          { status: SeatStatus.SOLD },
+          {
+            status: SeatStatus.PENDING,
+            $or: [
+              { holdExpiresAt: null },
+              { holdExpiresAt: { $gt: new Date() } },
+            ],
+          },
+        ],
+      })
+      .exec();
+  }
+
+  private async getSeatOfBus(
+    seatId: string,
+    busId: string,
+  ): Promise<SeatDocument> {
+    const seat = await this.getSeatById(seatId);
+
+    if (seat.busId.toString() !== busId) {
+      throw new BadRequestException(
+        `Seat ${seat.seatNo} does not belong to bus ${busId}`,
+      );
+    }
+
+    return seat;
+  }
+
+  private async getSchedulingSeatsByNo(
+    schedulingId: string,
+    seatNos: string[],
+  ): Promise<SeatDocument[]> {
+    const scheduling = await this.getScheduling(schedulingId);
+
+    const seats = await this.seatModel
+      .find({ busId: scheduling.busId, seatNo: { $in: seatNos } })
+      .exec();
+
+    if (seats.length === 0) {
+      throw new NotFoundException('No seats found on this scheduling');
+    }
+
+    return seats;
+  }
+
+  /**
+   * Atomically claim seats on a scheduling (all-or-nothing) for every leg
+   * of the segment (default: the whole route).
+   * A seat leg can be claimed if it has no inventory row, is EMPTY,
+   * or is a PENDING hold that has already lapsed.
+   * Returns the first claimed leg of each seat.
+   */
+  private async claimSeats(
+    schedulingId: string,
+    entries: Array<{ seat: SeatDocument; ticketId?: Types.ObjectId }>,
+    status: SeatStatus,
+    holdExpiresAt?: Date,
+    segment?: RouteSegment,
+  ): Promise<SeatInventoryDocument[]> {
+    const scheduling = await this.getScheduling(schedulingId);
+    const legs = await this.getTripLegs(scheduling, segment);
+
+    const claimed: SeatInventoryDocument[] = [];
+    const firstLegs: SeatInventoryDocument[] = [];
+    let failedSeat: SeatDocument | undefined;
+
+    try {
+      for (const { seat, ticketId } of entries) {
+        failedSeat = seat;
+        for (const legIndex of legs) {
+          const item = await this.claimLeg(
+            scheduling._id as Types.ObjectId,
+            seat,
+            legIndex,
+            status,
+            ticketId,
+            holdExpiresAt,
+          );
+          claimed.push(item);
+          if (legIndex === legs[0]) firstLegs.push(item);
+        }
+      }
+    } catch (error) {
+      // Roll back seat legs claimed so far
+      if (claimed.length > 0) {
+        await this.seatInventoryModel.updateMany(
+          { _id: { $in: claimed.map((item) => item._id) } },
+          {
+            $set: {
+              status: SeatStatus.EMPTY,
+              ticketId: null,
+              holdExpiresAt: null,
+            },
+          },
+        );
+      }
+
+      // Duplicate key = seat is already held/sold on this scheduling leg
+      if ((error as { code?: number } | null)?.code === 11000) {
+        throw new BadRequestException(
+          `Seat ${failedSeat?.seatNo ?? ''} is not available on this scheduling`,
+        );
+      }
+      throw error;
+    }
+
+    return firstLegs;
+  }
+
+  private async claimLeg(
+    schedulingId: Types.ObjectId,
+    seat: SeatDocument,
+    legIndex: number,
+    status: SeatStatus,
+    ticketId?: Types.ObjectId,
+    holdExpiresAt?: Date,
+  ): Promise<SeatInventoryDocument> {
+    const item = await this.seatInventoryModel
+      .findOneAndUpdate(
+        {
+          schedulingId,
+          seatId: seat._id,
+          legIndex,
+          $or: [
+            { status: SeatStatus.EMPTY },
+            {
+              status: SeatStatus.PENDING,
+              holdExpiresAt: { $ne: null, $lte: new Date() },
+            },
+          ],
+        },
+        {
+          $set: {
+            busId: seat.busId,
+            seatNo: seat.seatNo,
+            status,
+            ticketId: ticketId ?? null,
+            holdExpiresAt:
+              status === SeatStatus.PENDING ? (holdExpiresAt ?? null) : null,
+          },
+        },
+        { upsert: true, new: true },
+      )
+      .exec();
+
+    return item as SeatInventoryDocument;
+  }
 }
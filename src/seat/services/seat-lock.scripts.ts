@@ -0,0 +1,143 @@
+/**
+ * Lua scripts for SeatLockService.
+ *
+ * Storage per scheduling:
+ *   seat:locks:{schedulingId}       ZSET  seatNo -> expiresAt (ms)
+ *   seat:locks:data:{schedulingId}  HASH  seatNo -> SeatLock JSON
+ * A lock is alive while its score is greater than `now`; expired entries are
+ * ignored by every script and purged by PURGE_EXPIRED_LOCKS.
+ */
+
+/**
+ * KEYS: zset, hash, client set, user set, schedulings index
+ * ARGV: seatNo, now, expiresAt, lockJson, userId, maxPerUser, ttlSeconds, schedulingId, clientMember
+ * Returns 1 = locked, 0 = already locked, -1 = user reached the per-trip cap
+ */
+export const ACQUIRE_LOCK_SCRIPT = `
+    local seatNo = ARGV[1]
+    local now = tonumber(ARGV[2])
+
+    local score = redis.call('ZSCORE', KEYS[1], seatNo)
+    if score and tonumber(score) > now then
+        return 0
+    end
+
+    local held = 0
+    for _, member in ipairs(redis.call('SMEMBERS', KEYS[4])) do
+        local memberScore = redis.call('ZSCORE', KEYS[1], member)
+        local data = redis.call('HGET', KEYS[2], member)
+        if memberScore and tonumber(memberScore) > now and data and cjson.decode(data).userId == ARGV[5] then
+            held = held + 1
+        else
+            redis.call('SREM', KEYS[4], member)
+        end
+    end
+    if held >= tonumber(ARGV[6]) then
+        return -1
+    end
+
+    redis.call('ZADD', KEYS[1], ARGV[3], seatNo)
+    redis.call('HSET', KEYS[2], seatNo, ARGV[4])
+    redis.call('SADD', KEYS[3], ARGV[9])
+    redis.call('SADD', KEYS[4], seatNo)
+    redis.call('SADD', KEYS[5], ARGV[8])
+    for i = 1, 4 do
+        redis.call('EXPIRE', KEYS[i], ARGV[7])
+    end
+    return 1
+`;
+
+/**
+ * KEYS: zset, hash
+ * ARGV: seatNo, clientId ('' = any client), now, userId ('' = any user)
+ * Returns the released lock JSON, or nil when there was no live lock owned by clientId/userId
+ */
+export const RELEASE_LOCK_SCRIPT = `
+    local data = redis.call('HGET', KEYS[2], ARGV[1])
+    if not data then
+        return false
+    end
+    local lock = cjson.decode(data)
+    if (ARGV[2] ~= '' and lock.clientId ~= ARGV[2]) or (ARGV[4] ~= '' and lock.userId ~= ARGV[4]) then
+        return false
+    end
+
+    local score = redis.call('ZSCORE', KEYS[1], ARGV[1])
+    redis.call('ZREM', KEYS[1], ARGV[1])
+    redis.call('HDEL', KEYS[2], ARGV[1])
+    if not score or tonumber(score) <= tonumber(ARGV[3]) then
+        return false
+    end
+    return data
+`;
+
+/**
+ * KEYS: zset, hash, client set
+ * ARGV: seatNo, clientId, now, expiresAt, expiresAtIso, ttlSeconds
+ * Returns the renewed lock JSON, or nil when the lock is gone or owned by another client
+ */
+export const RENEW_LOCK_SCRIPT = `
+    local score = redis.call('ZSCORE', KEYS[1], ARGV[1])
+    local data = redis.call('HGET', KEYS[2], ARGV[1])
+    if not score or not data or tonumber(score) <= tonumber(ARGV[3]) then
+        return false
+    end
+
+    local lock = cjson.decode(data)
+    if lock.clientId ~= ARGV[2] then
+        return false
+    end
+
+    lock.expiresAt = ARGV[5]
+    local renewed = cjson.encode(lock)
+    redis.call('ZADD', KEYS[1], ARGV[4], ARGV[1])
+    redis.call('HSET', KEYS[2], ARGV[1], renewed)
+    for i = 1, 3 do
+        redis.call('EXPIRE', KEYS[i], ARGV[6])
+    end
+    return renewed
+`;
+
+/**
+ * KEYS: zset, hash, schedulings index
+ * ARGV: now, schedulingId
+ * Returns the number of expired locks removed
+ */
+export const PURGE_EXPIRED_LOCKS_SCRIPT = `
+    local expired = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+    for _, seatNo in ipairs(expired) do
+        redis.call('HDEL', KEYS[2], seatNo)
+    end
+    if #expired > 0 then
+        redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+    end
+
+    if redis.call('ZCARD', KEYS[1]) == 0 then
+        redis.call('DEL', KEYS[2])
+        redis.call('SREM', KEYS[3], ARGV[2])
+    end
+    return #expired
+`;
+
+/**
+ * KEYS: zset, hash
+ * ARGV: seatNo, oldClientId, newClientId, now
+ * Returns the rebound lock JSON, or nil when the lock is gone or owned by another client
+ */
+export const REBIND_LOCK_SCRIPT = `
+    local score = redis.call('ZSCORE', KEYS[1], ARGV[1])
+    local data = redis.call('HGET', KEYS[2], ARGV[1])
+    if not score or not data or tonumber(score) <= tonumber(ARGV[4]) then
+        return false
+    end
+
+    local lock = cjson.decode(data)
+    if lock.clientId ~= ARGV[2] then
+        return false
+    end
+
+    lock.clientId = ARGV[3]
+    local rebound = cjson.encode(lock)
+    redis.call('HSET', KEYS[2], ARGV[1], rebound)
+    return rebound
+`;
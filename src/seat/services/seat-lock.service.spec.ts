@@ -0,0 +1,243 @@
+import Redis from 'ioredis';
+import { randomBytes } from 'crypto';
+import { SeatLockService } from './seat-lock.service';
+import type { SeatService } from '../seat.service';
+import { SeatStatus } from '../enums/seat-status.enum';
+
+// SeatService pulls in Mongoose schemas; only its seat status lookup is needed here
+jest.mock('../seat.service', () => ({ SeatService: class {} }));
+
+// Needs a real Redis for the Lua lock scripts: set REDIS_HOST (and REDIS_PORT) to run
+const describeWithRedis = process.env.REDIS_HOST ? describe : describe.skip;
+
+/**
+ * Runs against the Redis at REDIS_HOST / REDIS_PORT.
+ * Client and user ids are prefixed per run so every key written can be removed.
+ */
+describeWithRedis('SeatLockService (local Redis)', () => {
+  let redis: Redis;
+  let service: SeatLockService;
+
+  const seatService = {
+    getSeatStatusForScheduling: jest
+      .fn()
+      .mockResolvedValue({ status: SeatStatus.EMPTY }),
+  };
+
+  const runId = randomBytes(4).toString('hex');
+  const id = (name: string) => `test-${runId}-${name}`;
+
+  const usedSchedulingIds: string[] = [];
+  const newSchedulingId = () => {
+    const schedulingId = randomBytes(12).toString('hex');
+    usedSchedulingIds.push(schedulingId);
+    return schedulingId;
+  };
+
+  const scanKeys = async (pattern: string) => {
+    const keys: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = await redis.scan(cursor, 'MATCH', pattern);
+      cursor = next;
+      keys.push(...batch);
+    } while (cursor !== '0');
+    return keys;
+  };
+
+  beforeAll(() => {
+    redis = new Redis({
+      host: process.env.REDIS_HOST,
+      port: parseInt(process.env.REDIS_PORT || '6379'),
+      password: process.env.REDIS_PASSWORD || undefined,
+    });
+    service = new SeatLockService(seatService as unknown as SeatService);
+  });
+
+  afterAll(async () => {
+    for (const schedulingId of usedSchedulingIds) {
+      await redis.del(
+        `seat:locks:${schedulingId}`,
+        `seat:locks:data:${schedulingId}`,
+      );
+      await redis.srem('seat:locks:schedulings', schedulingId);
+    }
+
+    // Per client/user keys: seat sets, lock sessions and the sessions they point to
+    for (const key of await scanKeys(`client:session:${id('*')}`)) {
+      const sessionToken = await redis.get(key);
+      if (sessionToken) await redis.del(`seat:session:${sessionToken}`);
+      await redis.del(key);
+    }
+    for (const pattern of [
+      `client:seats:${id('*')}`,
+      `user:seats:${id('*')}`,
+    ]) {
+      for (const key of await scanKeys(pattern)) {
+        await redis.del(key);
+      }
+    }
+
+    await service.onModuleDestroy();
+    await redis.quit();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('locks a seat once and only the owner can unlock it', async () => {
+    const schedulingId = newSchedulingId();
+
+    await expect(
+      service.lockSeat(schedulingId, 'A1', id('client-1'), id('user-1')),
+    ).resolves.toBe(true);
+    await expect(
+      service.lockSeat(schedulingId, 'A1', id('client-2'), id('user-2')),
+    ).resolves.toBe(false);
+
+    await expect(
+      service.unlockSeat(schedulingId, 'A1', id('client-2')),
+    ).resolves.toBe(false);
+    await expect(
+      service.unlockSeat(schedulingId, 'A1', id('client-1')),
+    ).resolves.toBe(true);
+    await expect(service.isSeatLocked(schedulingId, 'A1')).resolves.toBe(false);
+  });
+
+  it('caps simultaneous locks per user on a scheduling', async () => {
+    const schedulingId = newSchedulingId();
+
+    for (let i = 1; i <= 10; i++) {
+      await service.lockSeat(
+        schedulingId,
+        `B${i}`,
+        id('client-1'),
+        id('user-cap'),
+      );
+    }
+
+    // Same user on a second socket still counts towards the cap
+    await expect(
+      service.lockSeat(schedulingId, 'B11', id('client-2'), id('user-cap')),
+    ).rejects.toThrow('at most 10 seats');
+    await expect(
+      service.lockSeat(
+        newSchedulingId(),
+        'B11',
+        id('client-2'),
+        id('user-cap'),
+      ),
+    ).resolves.toBe(true);
+  });
+
+  it('ignores expired locks and purges them on cleanup', async () => {
+    const schedulingId = newSchedulingId();
+    await service.lockSeat(schedulingId, 'C1', id('client-1'), id('user-1'));
+
+    const later = Date.now() + 11 * 60 * 1000;
+    jest.spyOn(Date, 'now').mockReturnValue(later);
+
+    await expect(service.getLockedSeats(schedulingId)).resolves.toEqual([]);
+    await expect(
+      service.lockSeat(schedulingId, 'C1', id('client-2'), id('user-2')),
+    ).resolves.toBe(true);
+    await expect(
+      service.renewLock(schedulingId, 'C1', id('client-1')),
+    ).resolves.toBe(false);
+
+    jest.spyOn(Date, 'now').mockReturnValue(later + 11 * 60 * 1000);
+    await service['cleanupExpiredLocks']();
+
+    await expect(
+      redis.exists(
+        `seat:locks:${schedulingId}`,
+        `seat:locks:data:${schedulingId}`,
+      ),
+    ).resolves.toBe(0);
+    await expect(
+      redis.sismember('seat:locks:schedulings', schedulingId),
+    ).resolves.toBe(0);
+  });
+
+  it('releases only the locks still owned by a disconnecting client', async () => {
+    const schedulingId = newSchedulingId();
+    await service.lockSeat(schedulingId, 'D1', id('client-1'), id('user-1'));
+    await service.lockSeat(schedulingId, 'D2', id('client-1'), id('user-1'));
+
+    // D2 is taken over by another client (e.g. through another instance)
+    await service.forceUnlock(schedulingId, 'D2');
+    await service.lockSeat(schedulingId, 'D2', id('client-2'), id('user-2'));
+    await redis.sadd(`client:seats:${id('client-1')}`, `${schedulingId}:D2`);
+
+    const released = await service.releaseAllSeatsForClient(id('client-1'));
+
+    expect(released.map((lock) => lock.seatId)).toEqual(['D1']);
+    await expect(service.isSeatLocked(schedulingId, 'D2')).resolves.toBe(true);
+  });
+
+  it('re-binds the locks of a resumed session to the new socket', async () => {
+    const schedulingId = newSchedulingId();
+    await service.lockSeat(schedulingId, 'E1', id('socket-old'), id('user-e'));
+    const sessionToken = await service.getOrCreateSession(
+      id('socket-old'),
+      id('user-e'),
+    );
+
+    await expect(
+      service.resumeSession(sessionToken, id('someone-else'), id('socket-x')),
+    ).resolves.toBeNull();
+
+    const resumed = await service.resumeSession(
+      sessionToken,
+      id('user-e'),
+      id('socket-new'),
+    );
+    expect(resumed?.previousClientId).toBe(id('socket-old'));
+    expect(resumed?.locks.map((lock) => lock.clientId)).toEqual([
+      id('socket-new'),
+    ]);
+
+    // Grace timer of the old socket fires later: nothing left to release
+    await expect(
+      service.releaseAllSeatsForClient(id('socket-old')),
+    ).resolves.toEqual([]);
+    await expect(
+      service.unlockSeat(schedulingId, 'E1', id('socket-new')),
+    ).resolves.toBe(true);
+  });
+
+  it('benchmark: listing a trip is independent of locks on other trips', async () => {
+    const target = newSchedulingId();
+    const otherTrips = Array.from({ length: 50 }, newSchedulingId);
+
+    for (let i = 0; i < 40; i++) {
+      await service.lockSeat(
+        target,
+        `T${i}`,
+        id(`bench-${i % 4}`),
+        id(`bench-user-${i % 4}`),
+      );
+    }
+    for (const schedulingId of otherTrips) {
+      for (let i = 0; i < 40; i++) {
+        await service.lockSeat(
+          schedulingId,
+          `S${i}`,
+          id(`noise-${i}`),
+          id(`noise-user-${i}`),
+        );
+      }
+    }
+
+    const runs = 200;
+    const start = process.hrtime.bigint();
+    for (let i = 0; i < runs; i++) {
+      const locks = await service.getLockedSeats(target);
+      expect(locks).toHaveLength(40);
+    }
+    const avgMs = Number(process.hrtime.bigint() - start) / 1e6 / runs;
+
+    expect(avgMs).toBeLessThan(20);
+  }, 60000);
+});
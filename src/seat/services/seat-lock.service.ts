@@ -1,9 +1,25 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import Redis from 'ioredis';
-import { Seat } from '../entities/seat.entity';
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import Redis, { Result } from 'ioredis';
+import { randomBytes } from 'crypto';
 import { SeatStatus } from '../enums/seat-status.enum';
+import { SeatService } from '../seat.service';
+import {
+    ACQUIRE_LOCK_SCRIPT,
+    PURGE_EXPIRED_LOCKS_SCRIPT,
+    REBIND_LOCK_SCRIPT,
+    RELEASE_LOCK_SCRIPT,
+    RENEW_LOCK_SCRIPT,
+} from './seat-lock.scripts';
+
+declare module 'ioredis' {
+    interface RedisCommander<Context> {
+        acquireSeatLock(...args: Array<string | number>): Result<number, Context>;
+        releaseSeatLock(...args: Array<string | number>): Result<string | null, Context>;
+        renewSeatLock(...args: Array<string | number>): Result<string | null, Context>;
+        purgeExpiredSeatLocks(...args: Array<string | number>): Result<number, Context>;
+        rebindSeatLock(...args: Array<string | number>): Result<string | null, Context>;
+    }
+}
 
 export interface SeatLock {
     schedulingId: string;
@@ -14,16 +30,32 @@ export interface SeatLock {
     expiresAt: Date;
 }
 
+/**
+ * Resumable lock session: lets a user get their locks back after a reconnect
+ */
+export interface SeatLockSession {
+    userId: string;
+    clientId: string;
+}
+
 @Injectable()
-export class SeatLockService {
+export class SeatLockService implements OnModuleDestroy {
     private readonly logger = new Logger(SeatLockService.name);
     private readonly redis: Redis;
-    private readonly LOCK_TTL = 600; // 10 minutes in seconds
-    private readonly LOCK_PREFIX = 'seat:lock:';
+    private readonly cleanupTimer: NodeJS.Timeout;
+    private readonly LOCK_TTL = 600; // 10 minutes in seconds (seat selection only, payment hold lives in seat inventory)
+    private readonly LOCKS_PREFIX = 'seat:locks:';
+    private readonly LOCK_DATA_PREFIX = 'seat:locks:data:';
+    private readonly SCHEDULINGS_KEY = 'seat:locks:schedulings';
     private readonly CLIENT_PREFIX = 'client:seats:';
+    private readonly USER_PREFIX = 'user:seats:';
+    private readonly SESSION_PREFIX = 'seat:session:';
+    private readonly CLIENT_SESSION_PREFIX = 'client:session:';
+    private readonly QUOTE_PREFIX = 'seat:quote:';
+    private readonly MAX_LOCKS_PER_USER = parseInt(process.env.SEAT_LOCK_MAX_PER_USER || '10');
 
     constructor(
-        @InjectModel(Seat.name) private seatModel: Model<Seat>,
+        private readonly seatService: SeatService,
     ) {
         // Initialize Redis connection
         this.redis = new Redis({
@@ -44,15 +76,34 @@ export class SeatLockService {
             this.logger.error(`Redis error: ${error.message}`);
         });
 
+        // Lock scripts run via EVALSHA (loaded once per connection)
+        this.redis.defineCommand('acquireSeatLock', { numberOfKeys: 5, lua: ACQUIRE_LOCK_SCRIPT });
+        this.redis.defineCommand('releaseSeatLock', { numberOfKeys: 2, lua: RELEASE_LOCK_SCRIPT });
+        this.redis.defineCommand('renewSeatLock', { numberOfKeys: 3, lua: RENEW_LOCK_SCRIPT });
+        this.redis.defineCommand('purgeExpiredSeatLocks', { numberOfKeys: 3, lua: PURGE_EXPIRED_LOCKS_SCRIPT });
+        this.redis.defineCommand('rebindSeatLock', { numberOfKeys: 2, lua: REBIND_LOCK_SCRIPT });
+
         // Cleanup expired locks periodically
-        setInterval(() => this.cleanupExpiredLocks(), 60000); // Every 1 minute
+        this.cleanupTimer = setInterval(() => this.cleanupExpiredLocks(), 60000); // Every 1 minute
+    }
+
+    async onModuleDestroy() {
+        clearInterval(this.cleanupTimer);
+        await this.redis.quit();
     }
 
     /**
-     * Generate Redis key for seat lock
+     * Generate Redis key for a scheduling's lock index (sorted by expiry)
      */
-    private getSeatLockKey(schedulingId: string, seatId: string): string {
-        return `${this.LOCK_PREFIX}${schedulingId}:${seatId}`;
+    private getLocksKey(schedulingId: string): string {
+        return `${this.LOCKS_PREFIX}${schedulingId}`;
+    }
+
+    /**
+     * Generate Redis key for a scheduling's lock data (seatNo → lock JSON)
+     */
+    private getLockDataKey(schedulingId: string): string {
+        return `${this.LOCK_DATA_PREFIX}${schedulingId}`;
     }
 
     /**
@@ -63,51 +114,100 @@ export class SeatLockService {
     }
 
     /**
-     * Lock a seat for a client
+     * Generate Redis key for a user's locked seats on a scheduling
+     */
+    private getUserSeatsKey(userId: string, schedulingId: string): string {
+        return `${this.USER_PREFIX}${userId}:${schedulingId}`;
+    }
+
+    /**
+     * Generate Redis key for a lock session
+     */
+    private getSessionKey(sessionToken: string): string {
+        return `${this.SESSION_PREFIX}${sessionToken}`;
+    }
+
+    /**
+     * Generate Redis key for the lock session of a client (socket)
+     */
+    private getClientSessionKey(clientId: string): string {
+        return `${this.CLIENT_SESSION_PREFIX}${clientId}`;
+    }
+
+    /**
+     * Generate Redis key for the price quotes pinned on a seat lock
+     */
+    private getQuoteKey(schedulingId: string, seatId: string): string {
+        return `${this.QUOTE_PREFIX}${schedulingId}:${seatId}`;
+    }
+
+    /**
+     * Member of a client's seat set: {schedulingId}:{seatId}
+     */
+    private getClientMember(schedulingId: string, seatId: string): string {
+        return `${schedulingId}:${seatId}`;
+    }
+
+    /**
+     * Lock a seat for a client. With boarding/alighting stations the seat only
+     * has to be free on that segment; the lock itself covers the whole seat while it lives.
      */
     async lockSeat(
         schedulingId: string,
         seatId: string,
         clientId: string,
-        userId?: string,
+        userId: string,
+        stations?: { boardingStationId?: string; alightingStationId?: string },
     ): Promise<boolean> {
-        const key = this.getSeatLockKey(schedulingId, seatId);
-
         try {
-            // Check if seat is already booked in database
+            // Check if seat is already booked on this scheduling (segment)
             // Note: seatId here is actually seatNo (like "A3", "B1")
-            const seat = await this.seatModel.findOne({ seatNo: seatId });
-            if (!seat) {
-                throw new Error('Seat not found');
-            }
-            if (seat.status === SeatStatus.SOLD) {
+            const segment = stations?.boardingStationId || stations?.alightingStationId
+                ? await this.seatService.resolveSegment(schedulingId, stations.boardingStationId, stations.alightingStationId)
+                : undefined;
+            const { status } = await this.seatService.getSeatStatusForScheduling(schedulingId, seatId, segment);
+            if (status === SeatStatus.SOLD) {
                 throw new Error('Seat already booked');
             }
+            if (status === SeatStatus.PENDING) {
+                throw new Error('Seat is pending payment');
+            }
 
-            // Try to set lock with NX (only if not exists) and EX (expiration)
+            const now = Date.now();
             const lockData: SeatLock = {
                 schedulingId,
                 seatId,
                 clientId,
                 userId,
-                lockedAt: new Date(),
-                expiresAt: new Date(Date.now() + this.LOCK_TTL * 1000),
+                lockedAt: new Date(now),
+                expiresAt: new Date(now + this.LOCK_TTL * 1000),
             };
 
-            const result = await this.redis.set(
-                key,
+            // Lock + per-user cap check in one atomic step
+            const result = await this.redis.acquireSeatLock(
+                this.getLocksKey(schedulingId),
+                this.getLockDataKey(schedulingId),
+                this.getClientSeatsKey(clientId),
+                this.getUserSeatsKey(userId, schedulingId),
+                this.SCHEDULINGS_KEY,
+                seatId,
+                now,
+                lockData.expiresAt.getTime(),
                 JSON.stringify(lockData),
-                'EX',
+                userId,
+                this.MAX_LOCKS_PER_USER,
                 this.LOCK_TTL,
-                'NX',
+                schedulingId,
+                this.getClientMember(schedulingId, seatId),
             );
 
-            if (result === 'OK') {
-                // Add seat to client's locked seats list
-                await this.redis.sadd(this.getClientSeatsKey(clientId), key);
-                await this.redis.expire(this.getClientSeatsKey(clientId), this.LOCK_TTL);
+            // Chặn một tài khoản giữ cả xe
+            if (result === -1) {
+                throw new Error(`You can lock at most ${this.MAX_LOCKS_PER_USER} seats on this trip`);
+            }
 
-                this.logger.log(`Seat ${seatId} locked by client ${clientId}`);
+            if (result === 1) {
+                this.logger.log(`Seat ${seatId} locked by client ${clientId} (user ${userId})`);
                 return true;
             }
 
@@ -118,6 +218,32 @@ export class SeatLockService {
         }
     }
 
+    /**
+     * Release a live lock; with clientId/userId only if that client/user still owns it
+     */
+    private async releaseLock(
+        schedulingId: string,
+        seatId: string,
+        clientId?: string,
+        userId?: string,
+    ): Promise<SeatLock | null> {
+        const lockData = await this.redis.releaseSeatLock(
+            this.getLocksKey(schedulingId),
+            this.getLockDataKey(schedulingId),
+            seatId,
+            clientId ?? '',
+            Date.now(),
+            userId ?? '',
+        );
+        if (!lockData) {
+            return null;
+        }
+
+        const lock: SeatLock = JSON.parse(lockData);
+        await this.redis.srem(this.getClientSeatsKey(lock.clientId), this.getClientMember(schedulingId, seatId));
+        return lock;
+    }
+
     /**
      * Unlock a seat
      */
@@ -126,24 +252,13 @@ export class SeatLockService {
         seatId: string,
         clientId: string,
     ): Promise<boolean> {
-        const key = this.getSeatLockKey(schedulingId, seatId);
-
         try {
-            // Check if the lock belongs to this client
-            const lockData = await this.redis.get(key);
-            if (!lockData) {
-                return false; // Lock doesn't exist
-            }
-
-            const lock: SeatLock = JSON.parse(lockData);
-            if (lock.clientId !== clientId) {
-                return false; // Lock belongs to another client
+            // Only the client holding the lock can release it
+            const lock = await this.releaseLock(schedulingId, seatId, clientId);
+            if (!lock) {
+                return false;
             }
 
-            // Delete the lock
-            await this.redis.del(key);
-            await this.redis.srem(this.getClientSeatsKey(clientId), key);
-
             this.logger.log(`Seat ${seatId} unlocked by client ${clientId}`);
             return true;
         } catch (error) {
@@ -153,49 +268,86 @@ export class SeatLockService {
     }
 
     /**
-     * Release all seats locked by a client (on disconnect)
+     * Hand seats over from socket locks to the payment hold of a booking.
+     * From here on the seat inventory (PENDING + holdExpiresAt) owns the seat,
+     * so the Redis locks are dropped instead of expiring on their own.
+     * Only locks of the booking's user are dropped; a lock taken by someone
+     * else in the meantime stays in place.
+     */
+    async convertToHold(schedulingId: string, seatNos: string[], userId: string): Promise<SeatLock[]> {
+        const converted: SeatLock[] = [];
+
+        try {
+            for (const seatNo of seatNos) {
+                const lock = await this.releaseLock(schedulingId, seatNo, undefined, userId);
+                if (lock) {
+                    converted.push(lock);
+                }
+            }
+
+            if (converted.length > 0) {
+                this.logger.log(`Converted ${converted.length} seat locks to payment hold in scheduling ${schedulingId}`);
+            }
+        } catch (error) {
+            this.logger.error(`Error converting seat locks: ${error.message}`);
+        }
+
+        return converted;
+    }
+
+    /**
+     * Release all seats locked by a client (on disconnect).
+     * Each lock is deleted only if it still belongs to this client: with several
+     * API instances the seat may meanwhile have been re-locked through another node.
+     * Returns the locks actually released.
      */
-    async releaseAllSeatsForClient(clientId: string): Promise<void> {
+    async releaseAllSeatsForClient(clientId: string): Promise<SeatLock[]> {
         const clientKey = this.getClientSeatsKey(clientId);
+        const released: SeatLock[] = [];
 
         try {
-            // Get all seats locked by this client
-            const seatKeys = await this.redis.smembers(clientKey);
+            const locks = await this.getClientLocksWithScheduling(clientId);
+
+            for (const { schedulingId, seatId } of locks) {
+                const lock = await this.releaseLock(schedulingId, seatId, clientId);
+                if (lock) {
+                    released.push(lock);
+                }
+            }
 
-            if (seatKeys.length > 0) {
-                // Delete all locks
-                await this.redis.del(...seatKeys);
-                // Delete client's seat list
-                await this.redis.del(clientKey);
+            // Delete client's seat list
+            await this.redis.del(clientKey);
 
-                this.logger.log(`Released ${seatKeys.length} seats for client ${clientId}`);
+            if (released.length > 0) {
+                this.logger.log(`Released ${released.length} seats for client ${clientId}`);
             }
         } catch (error) {
             this.logger.error(`Error releasing seats for client: ${error.message}`);
         }
+
+        return released;
     }
 
     /**
-     * Get all locked seats for a scheduling
+     * Get all locked seats for a scheduling (O(locks on this scheduling))
      */
     async getLockedSeats(schedulingId: string): Promise<SeatLock[]> {
         try {
-            const pattern = `${this.LOCK_PREFIX}${schedulingId}:*`;
-            const keys = await this.redis.keys(pattern);
+            const seatNos = await this.redis.zrangebyscore(
+                this.getLocksKey(schedulingId),
+                `(${Date.now()}`,
+                '+inf',
+            );
 
-            if (keys.length === 0) {
+            if (seatNos.length === 0) {
                 return [];
             }
 
-            const locks: SeatLock[] = [];
-            for (const key of keys) {
-                const lockData = await this.redis.get(key);
-                if (lockData) {
-                    locks.push(JSON.parse(lockData));
-                }
-            }
+            const lockData = await this.redis.hmget(this.getLockDataKey(schedulingId), ...seatNos);
 
-            return locks;
+            return lockData
+                .filter((data): data is string => !!data)
+                .map((data) => JSON.parse(data));
         } catch (error) {
             this.logger.error(`Error getting locked seats: ${error.message}`);
             return [];
@@ -206,14 +358,8 @@ export class SeatLockService {
      * Get all seats locked by a specific client
      */
     async getClientSeats(clientId: string): Promise<string[]> {
-        try {
-            const clientKey = this.getClientSeatsKey(clientId);
-            const seatKeys = await this.redis.smembers(clientKey);
-            return seatKeys.map(key => key.split(':').pop() || '');
-        } catch (error) {
-            this.logger.error(`Error getting client seats: ${error.message}`);
-            return [];
-        }
+        const locks = await this.getClientLocksWithScheduling(clientId);
+        return locks.map(lock => lock.seatId);
     }
 
     /**
@@ -222,15 +368,12 @@ export class SeatLockService {
     async getClientLocksWithScheduling(clientId: string): Promise<Array<{ schedulingId: string, seatId: string }>> {
         try {
             const clientKey = this.getClientSeatsKey(clientId);
-            const lockKeys = await this.redis.smembers(clientKey);
-
-            return lockKeys.map(key => {
-                // key format: seat:lock:{schedulingId}:{seatId}
-                const parts = key.replace(this.LOCK_PREFIX, '').split(':');
-                return {
-                    schedulingId: parts[0],
-                    seatId: parts[1]
-                };
+            const members = await this.redis.smembers(clientKey);
+
+            return members.map(member => {
+                // member format: {schedulingId}:{seatId}
+                const [schedulingId, seatId] = member.split(':');
+                return { schedulingId, seatId };
             });
         } catch (error) {
             this.logger.error(`Error getting client locks: ${error.message}`);
@@ -242,32 +385,91 @@ export class SeatLockService {
      * Check if a seat is locked
      */
     async isSeatLocked(schedulingId: string, seatId: string): Promise<boolean> {
-        const key = this.getSeatLockKey(schedulingId, seatId);
-        const exists = await this.redis.exists(key);
-        return exists === 1;
+        const score = await this.redis.zscore(this.getLocksKey(schedulingId), seatId);
+        return score !== null && Number(score) > Date.now();
+    }
+
+    /**
+     * Get the live lock on a seat
+     */
+    async getLock(schedulingId: string, seatId: string): Promise<SeatLock | null> {
+        if (!await this.isSeatLocked(schedulingId, seatId)) {
+            return null;
+        }
+        const lockData = await this.redis.hget(this.getLockDataKey(schedulingId), seatId);
+        return lockData ? JSON.parse(lockData) : null;
+    }
+
+    /**
+     * Price guarantee while a seat is locked: the first quote made during a lock
+     * is kept until that lock ends (renewals included), later calls get it back.
+     * quoteKey tells apart quotes of the same seat (e.g. one per route segment).
+     * Returns null when the seat is not locked; the caller prices it live.
+     */
+    async pinPriceQuote<T>(
+        schedulingId: string,
+        seatId: string,
+        quoteKey: string,
+        createQuote: () => Promise<T>,
+    ): Promise<{ quote: T; guaranteedUntil: Date } | null> {
+        const lock = await this.getLock(schedulingId, seatId);
+        if (!lock) {
+            return null;
+        }
+
+        const key = this.getQuoteKey(schedulingId, seatId);
+        const lockedAt = new Date(lock.lockedAt).toISOString();
+        const guaranteedUntil = new Date(lock.expiresAt);
+
+        const readPinned = async (): Promise<{ lockedAt: string; quote: T } | null> => {
+            const data = await this.redis.hget(key, quoteKey);
+            return data ? JSON.parse(data) : null;
+        };
+
+        let pinned = await readPinned();
+        if (pinned?.lockedAt !== lockedAt) {
+            // Quote of an earlier lock on this seat: replace it
+            if (pinned) {
+                await this.redis.hdel(key, quoteKey);
+            }
+            const created = { lockedAt, quote: await createQuote() };
+            const stored = await this.redis.hsetnx(key, quoteKey, JSON.stringify(created));
+            // Another request pinned a quote in between: keep that one
+            pinned = stored ? created : (await readPinned()) ?? created;
+        }
+
+        await this.redis.pexpireat(key, guaranteedUntil.getTime());
+        return { quote: pinned.quote, guaranteedUntil };
     }
 
     /**
      * Extend lock time for a seat (renew)
      */
     async renewLock(schedulingId: string, seatId: string, clientId: string): Promise<boolean> {
-        const key = this.getSeatLockKey(schedulingId, seatId);
-
         try {
-            const lockData = await this.redis.get(key);
+            const now = Date.now();
+            const expiresAt = new Date(now + this.LOCK_TTL * 1000);
+
+            const lockData = await this.redis.renewSeatLock(
+                this.getLocksKey(schedulingId),
+                this.getLockDataKey(schedulingId),
+                this.getClientSeatsKey(clientId),
+                seatId,
+                clientId,
+                now,
+                expiresAt.getTime(),
+                expiresAt.toISOString(),
+                this.LOCK_TTL,
+            );
             if (!lockData) {
                 return false;
             }
 
             const lock: SeatLock = JSON.parse(lockData);
-            if (lock.clientId !== clientId) {
-                return false;
+            if (lock.userId) {
+                await this.redis.expire(this.getUserSeatsKey(lock.userId, schedulingId), this.LOCK_TTL);
             }
 
-            // Extend expiration
-            await this.redis.expire(key, this.LOCK_TTL);
-            await this.redis.expire(this.getClientSeatsKey(clientId), this.LOCK_TTL);
-
             this.logger.log(`Lock renewed for seat ${seatId}`);
             return true;
         } catch (error) {
@@ -277,19 +479,23 @@ export class SeatLockService {
     }
 
     /**
-     * Cleanup expired locks (fallback mechanism)
+     * Cleanup expired locks: only visits schedulings that currently have locks
      */
     private async cleanupExpiredLocks(): Promise<void> {
         try {
-            const pattern = `${this.LOCK_PREFIX}*`;
-            const keys = await this.redis.keys(pattern);
-
-            for (const key of keys) {
-                const ttl = await this.redis.ttl(key);
-                if (ttl < 0) {
-                    // Key exists but has no expiration, delete it
-                    await this.redis.del(key);
-                    this.logger.warn(`Cleaned up expired lock: ${key}`);
+            const now = Date.now();
+            const schedulingIds = await this.redis.smembers(this.SCHEDULINGS_KEY);
+
+            for (const schedulingId of schedulingIds) {
+                const expired = await this.redis.purgeExpiredSeatLocks(
+                    this.getLocksKey(schedulingId),
+                    this.getLockDataKey(schedulingId),
+                    this.SCHEDULINGS_KEY,
+                    now,
+                    schedulingId,
+                );
+                if (expired > 0) {
+                    this.logger.warn(`Cleaned up ${expired} expired locks in scheduling ${schedulingId}`);
                 }
             }
         } catch (error) {
@@ -297,19 +503,129 @@ export class SeatLockService {
         }
     }
 
+    // ============================================
+    // LOCK SESSIONS (reconnect grace period)
+    // ============================================
+
     /**
-     * Force unlock a seat (admin action)
+     * Get the lock session of a client, creating one on its first lock.
+     * The token is handed to the client so it can resume after a reconnect.
      */
-    async forceUnlock(schedulingId: string, seatId: string): Promise<boolean> {
-        const key = this.getSeatLockKey(schedulingId, seatId);
+    async getOrCreateSession(clientId: string, userId: string): Promise<string> {
+        const clientSessionKey = this.getClientSessionKey(clientId);
+        let sessionToken = await this.redis.get(clientSessionKey);
+
+        if (!sessionToken) {
+            sessionToken = randomBytes(24).toString('hex');
+            const session: SeatLockSession = { userId, clientId };
+            await this.redis.set(this.getSessionKey(sessionToken), JSON.stringify(session), 'EX', this.LOCK_TTL);
+        } else {
+            await this.redis.expire(this.getSessionKey(sessionToken), this.LOCK_TTL);
+        }
 
-        try {
-            const lockData = await this.redis.get(key);
+        await this.redis.set(clientSessionKey, sessionToken, 'EX', this.LOCK_TTL);
+        return sessionToken;
+    }
+
+    /**
+     * Resume a lock session on a new socket: the session's locks are re-bound
+     * to the new client id. Returns null if the session is unknown, expired or
+     * belongs to another user.
+     */
+    async resumeSession(
+        sessionToken: string,
+        userId: string,
+        clientId: string,
+    ): Promise<{ previousClientId: string; locks: SeatLock[] } | null> {
+        const sessionKey = this.getSessionKey(sessionToken);
+        const sessionData = await this.redis.get(sessionKey);
+        if (!sessionData) {
+            return null;
+        }
+
+        const session: SeatLockSession = JSON.parse(sessionData);
+        if (session.userId !== userId) {
+            this.logger.warn(`Client ${clientId} tried to resume a lock session of another user`);
+            return null;
+        }
+
+        const previousClientId = session.clientId;
+        const locks = previousClientId === clientId
+            ? await this.getClientLocks(clientId)
+            : await this.rebindLocks(previousClientId, clientId);
+
+        const resumed: SeatLockSession = { userId, clientId };
+        await this.redis.set(sessionKey, JSON.stringify(resumed), 'EX', this.LOCK_TTL);
+        await this.redis.del(this.getClientSessionKey(previousClientId));
+        await this.redis.set(this.getClientSessionKey(clientId), sessionToken, 'EX', this.LOCK_TTL);
+
+        this.logger.log(`Lock session resumed by client ${clientId} (was ${previousClientId}), ${locks.length} seats re-bound`);
+        return { previousClientId, locks };
+    }
+
+    /**
+     * End the lock session of a client (its locks are released separately)
+     */
+    async endSession(clientId: string): Promise<void> {
+        const clientSessionKey = this.getClientSessionKey(clientId);
+        const sessionToken = await this.redis.get(clientSessionKey);
+        if (sessionToken) {
+            await this.redis.del(this.getSessionKey(sessionToken));
+        }
+        await this.redis.del(clientSessionKey);
+    }
+
+    /**
+     * Move live locks from one client id to another (owner check per seat)
+     */
+    private async rebindLocks(oldClientId: string, newClientId: string): Promise<SeatLock[]> {
+        const rebound: SeatLock[] = [];
+        const newClientKey = this.getClientSeatsKey(newClientId);
+
+        for (const { schedulingId, seatId } of await this.getClientLocksWithScheduling(oldClientId)) {
+            const lockData = await this.redis.rebindSeatLock(
+                this.getLocksKey(schedulingId),
+                this.getLockDataKey(schedulingId),
+                seatId,
+                oldClientId,
+                newClientId,
+                Date.now(),
+            );
             if (lockData) {
-                const lock: SeatLock = JSON.parse(lockData);
-                await this.redis.srem(this.getClientSeatsKey(lock.clientId), key);
+                await this.redis.sadd(newClientKey, this.getClientMember(schedulingId, seatId));
+                rebound.push(JSON.parse(lockData));
             }
-            await this.redis.del(key);
+        }
+
+        if (rebound.length > 0) {
+            await this.redis.expire(newClientKey, this.LOCK_TTL);
+        }
+        await this.redis.del(this.getClientSeatsKey(oldClientId));
+
+        return rebound;
+    }
+
+    /**
+     * Live locks currently owned by a client
+     */
+    private async getClientLocks(clientId: string): Promise<SeatLock[]> {
+        const locks: SeatLock[] = [];
+        for (const { schedulingId, seatId } of await this.getClientLocksWithScheduling(clientId)) {
+            const lockData = await this.redis.hget(this.getLockDataKey(schedulingId), seatId);
+            const lock: SeatLock | null = lockData ? JSON.parse(lockData) : null;
+            if (lock?.clientId === clientId && await this.isSeatLocked(schedulingId, seatId)) {
+                locks.push(lock);
+            }
+        }
+        return locks;
+    }
+
+    /**
+     * Force unlock a seat (admin action)
+     */
+    async forceUnlock(schedulingId: string, seatId: string): Promise<boolean> {
+        try {
+            await this.releaseLock(schedulingId, seatId);
             this.logger.log(`Force unlocked seat ${seatId}`);
             return true;
         } catch (error) {
@@ -0,0 +1,22 @@
+import { IsDateString, IsEnum, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { PaymentProviderName } from '../../payment-provider/enums/payment-provider.enum';
+
+export class ImportSettlementDto {
+    @ApiProperty({
+        enum: PaymentProviderName,
+        description: 'Cổng thanh toán của file đối soát',
+        example: PaymentProviderName.VNPAY,
+    })
+    @IsNotEmpty()
+    @IsEnum(PaymentProviderName)
+    provider: PaymentProviderName;
+
+    @ApiProperty({
+        description: 'Ngày đối soát (YYYY-MM-DD)',
+        example: '2025-01-15',
+    })
+    @IsNotEmpty()
+    @IsDateString({}, { message: 'Ngày đối soát phải có định dạng YYYY-MM-DD' })
+    settlementDate: string;
+}
@@ -0,0 +1,84 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { PaymentProviderName } from '../../payment-provider/enums/payment-provider.enum';
+
+export type SettlementReportDocument = SettlementReport & Document;
+
+export enum SettlementReportStatus {
+    PROCESSING = 'PROCESSING',
+    COMPLETED = 'COMPLETED',
+    FAILED = 'FAILED',
+}
+
+export enum SettlementMismatchType {
+    PAID_NOT_CONFIRMED = 'PAID_NOT_CONFIRMED', // Cổng đã thu tiền nhưng vé PENDING/FAILED
+    AMOUNT_MISMATCH = 'AMOUNT_MISMATCH', // Số tiền đối soát khác số tiền giao dịch
+    UNKNOWN_TRANSACTION = 'UNKNOWN_TRANSACTION', // Có trong file đối soát, không có trong hệ thống
+    MISSING_FROM_SETTLEMENT = 'MISSING_FROM_SETTLEMENT', // Hệ thống ghi nhận đã thanh toán, file không có
+}
+
+export class SettlementMismatch {
+    type: SettlementMismatchType;
+    orderId: string;
+    providerTransactionNo?: string;
+    settlementAmount?: number;
+    systemAmount?: number;
+    ticketStatus?: string;
+    paymentAttemptId?: string;
+    message: string;
+}
+
+/**
+ * Kết quả đối soát file settlement của cổng thanh toán cho một ngày
+ */
+@Schema({ timestamps: true, collection: 'settlement_reports' })
+export class SettlementReport {
+    @Prop({
+        type: String,
+        enum: Object.values(PaymentProviderName),
+        required: true,
+    })
+    provider: PaymentProviderName;
+
+    @Prop({ type: String, required: true })
+    settlementDate: string; // YYYY-MM-DD (giờ Việt Nam)
+
+    @Prop({ type: String })
+    fileName?: string;
+
+    @Prop({
+        type: String,
+        enum: Object.values(SettlementReportStatus),
+        default: SettlementReportStatus.PROCESSING,
+    })
+    status: SettlementReportStatus;
+
+    @Prop({ type: Number, default: 0 })
+    totalRows: number;
+
+    @Prop({ type: Number, default: 0 })
+    invalidRows: number; // Dòng thiếu mã giao dịch / số tiền
+
+    @Prop({ type: Number, default: 0 })
+    matchedCount: number;
+
+    @Prop({ type: Number, default: 0 })
+    settlementAmount: number; // Tổng tiền theo file đối soát
+
+    @Prop({ type: Number, default: 0 })
+    systemAmount: number; // Tổng tiền theo hệ thống trong ngày
+
+    @Prop({ type: Array, default: [] })
+    mismatches: SettlementMismatch[];
+
+    @Prop({ type: String })
+    error?: string;
+
+    @Prop({ type: Date })
+    completedAt?: Date;
+}
+
+export const SettlementReportSchema = SchemaFactory.createForClass(SettlementReport);
+
+// Indexes
+SettlementReportSchema.index({ provider: 1, settlementDate: -1 });
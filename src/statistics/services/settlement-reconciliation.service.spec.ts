@@ -0,0 +1,227 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { getQueueToken } from '@nestjs/bull';
+import { Types } from 'mongoose';
+import { SettlementReconciliationService } from './settlement-reconciliation.service';
+import {
+  SettlementMismatchType,
+  SettlementReport,
+  SettlementReportStatus,
+} from '../entities/settlement-report.entity';
+import {
+  PaymentAttempt,
+  PaymentAttemptStatus,
+} from '../../ticket/entities/payment-attempt.entity';
+import { Ticket } from '../../ticket/entities/ticket.entity';
+import { Booking } from '../../ticket/entities/booking.entity';
+import { TicketStatus } from '../../ticket/enums/ticket-status.enum';
+import { PaymentProviderName } from '../../payment-provider/enums/payment-provider.enum';
+
+interface AttemptFixture {
+  _id: Types.ObjectId;
+  ticketId: Types.ObjectId;
+  bookingId?: Types.ObjectId;
+  orderId: string;
+  providerOrderId?: string;
+  providerTransactionNo?: string;
+  amount: number;
+  status: PaymentAttemptStatus;
+  paidAt?: Date;
+}
+
+describe('SettlementReconciliationService', () => {
+  let service: SettlementReconciliationService;
+
+  const reportId = new Types.ObjectId();
+  const paidAt = new Date('2026-03-10T09:00:00+07:00');
+
+  let report: Record<string, unknown> & { save: jest.Mock };
+  let attempts: AttemptFixture[];
+  let ticketStatuses: Map<string, TicketStatus>;
+
+  const attempt = (fields: Partial<AttemptFixture>): AttemptFixture => ({
+    _id: new Types.ObjectId(),
+    ticketId: new Types.ObjectId(),
+    orderId: 'TICKET_1',
+    amount: 250000,
+    status: PaymentAttemptStatus.SUCCESS,
+    paidAt,
+    ...fields,
+  });
+
+  const paymentAttemptModel = {
+    // findAttempts looks up by order id, the second query lists the day's paid attempts
+    find: jest.fn(
+      (filter: { $or?: unknown; status?: PaymentAttemptStatus }) => ({
+        exec: () =>
+          Promise.resolve(
+            filter.$or
+              ? attempts
+              : attempts.filter(
+                  (item) => item.status === filter.status && item.paidAt,
+                ),
+          ),
+      }),
+    ),
+  };
+  const ticketModel = {
+    find: jest.fn(() => ({
+      select: () => ({
+        lean: () =>
+          Promise.resolve(
+            [...ticketStatuses].map(([_id, status]) => ({ _id, status })),
+          ),
+      }),
+    })),
+  };
+  const bookingModel = {
+    find: jest.fn(() => ({
+      select: () => ({ lean: () => Promise.resolve([]) }),
+    })),
+  };
+
+  const reconcile = (csv: string) => service.reconcile(String(reportId), csv);
+
+  beforeEach(async () => {
+    attempts = [];
+    ticketStatuses = new Map();
+    report = {
+      _id: reportId,
+      provider: PaymentProviderName.VNPAY,
+      settlementDate: '2026-03-10',
+      status: SettlementReportStatus.PROCESSING,
+      save: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SettlementReconciliationService,
+        {
+          provide: getModelToken(SettlementReport.name),
+          useValue: { findById: () => Promise.resolve(report) },
+        },
+        {
+          provide: getModelToken(PaymentAttempt.name),
+          useValue: paymentAttemptModel,
+        },
+        { provide: getModelToken(Ticket.name), useValue: ticketModel },
+        { provide: getModelToken(Booking.name), useValue: bookingModel },
+        {
+          provide: getQueueToken('payment-reconciliation'),
+          useValue: { add: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SettlementReconciliationService>(
+      SettlementReconciliationService,
+    );
+  });
+
+  it('should match a settled transaction that was confirmed', async () => {
+    const paid = attempt({ orderId: 'TICKET_1' });
+    attempts = [paid];
+    ticketStatuses.set(String(paid.ticketId), TicketStatus.SUCCESS);
+
+    const result = await reconcile('TxnRef,Amount\nTICKET_1,250000');
+
+    expect(result.mismatches).toEqual([]);
+    expect(result.matchedCount).toBe(1);
+    expect(result.status).toBe(SettlementReportStatus.COMPLETED);
+    expect(report.save).toHaveBeenCalled();
+  });
+
+  it('should report a settled transaction unknown to the system', async () => {
+    const result = await reconcile(
+      'vnp_TxnRef,vnp_TransactionNo,vnp_Amount\nTICKET_404,14226112,180000',
+    );
+
+    expect(result.mismatches).toEqual([
+      expect.objectContaining({
+        type: SettlementMismatchType.UNKNOWN_TRANSACTION,
+        orderId: 'TICKET_404',
+        providerTransactionNo: '14226112',
+        settlementAmount: 180000,
+      }),
+    ]);
+    expect(result.matchedCount).toBe(0);
+  });
+
+  it('should report a settled amount different from the charged one', async () => {
+    const paid = attempt({ orderId: 'TICKET_1', amount: 250000 });
+    attempts = [paid];
+    ticketStatuses.set(String(paid.ticketId), TicketStatus.SUCCESS);
+
+    const result = await reconcile('TxnRef,Amount\nTICKET_1,"200,000"');
+
+    expect(result.mismatches).toEqual([
+      expect.objectContaining({
+        type: SettlementMismatchType.AMOUNT_MISMATCH,
+        orderId: 'TICKET_1',
+        settlementAmount: 200000,
+        systemAmount: 250000,
+        paymentAttemptId: String(paid._id),
+      }),
+    ]);
+    expect(result.matchedCount).toBe(0);
+  });
+
+  it.each([
+    [
+      'attempt still pending',
+      PaymentAttemptStatus.PENDING,
+      TicketStatus.PENDING,
+    ],
+    ['ticket failed', PaymentAttemptStatus.SUCCESS, TicketStatus.FAILED],
+  ])(
+    'should report a settled payment that was not confirmed (%s)',
+    async (_, status, ticketStatus) => {
+      const unpaid = attempt({
+        orderId: 'TICKET_1',
+        providerOrderId: '260310_2553_1',
+        status,
+        paidAt: undefined,
+      });
+      attempts = [unpaid];
+      ticketStatuses.set(String(unpaid.ticketId), ticketStatus);
+
+      // ZaloPay files carry the provider order id (app_trans_id)
+      const result = await reconcile('AppTransId,Amount\n260310_2553_1,250000');
+
+      expect(result.mismatches).toEqual([
+        expect.objectContaining({
+          type: SettlementMismatchType.PAID_NOT_CONFIRMED,
+          orderId: 'TICKET_1',
+          ticketStatus,
+          paymentAttemptId: String(unpaid._id),
+        }),
+      ]);
+    },
+  );
+
+  it('should report a paid transaction missing from the settlement file', async () => {
+    const settled = attempt({ orderId: 'TICKET_1' });
+    const missing = attempt({
+      orderId: 'TICKET_2',
+      providerTransactionNo: '14226113',
+      amount: 320000,
+    });
+    attempts = [settled, missing];
+    ticketStatuses.set(String(settled.ticketId), TicketStatus.SUCCESS);
+    ticketStatuses.set(String(missing.ticketId), TicketStatus.SUCCESS);
+
+    const result = await reconcile('TxnRef,Amount\nTICKET_1,250000');
+
+    expect(result.mismatches).toEqual([
+      expect.objectContaining({
+        type: SettlementMismatchType.MISSING_FROM_SETTLEMENT,
+        orderId: 'TICKET_2',
+        providerTransactionNo: '14226113',
+        systemAmount: 320000,
+        paymentAttemptId: String(missing._id),
+      }),
+    ]);
+    expect(result.matchedCount).toBe(1);
+    expect(result.systemAmount).toBe(570000);
+  });
+});
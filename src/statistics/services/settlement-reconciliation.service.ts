@@ -0,0 +1,288 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { InjectQueue } from '@nestjs/bull';
+import type { Queue } from 'bull';
+import { Model, Types } from 'mongoose';
+import {
+    SettlementMismatch,
+    SettlementMismatchType,
+    SettlementReport,
+    SettlementReportDocument,
+    SettlementReportStatus,
+} from '../entities/settlement-report.entity';
+import {
+    PaymentAttempt,
+    PaymentAttemptDocument,
+    PaymentAttemptStatus,
+} from '../../ticket/entities/payment-attempt.entity';
+import { Ticket } from '../../ticket/entities/ticket.entity';
+import { Booking } from '../../ticket/entities/booking.entity';
+import { TicketStatus } from '../../ticket/enums/ticket-status.enum';
+import { PaymentProviderName } from '../../payment-provider/enums/payment-provider.enum';
+import { ImportSettlementDto } from '../dto/import-settlement.dto';
+import { parseCsv } from '../../common/utils/csv.util';
+
+export interface SettlementReconciliationJob {
+    reportId: string;
+    csv: string;
+}
+
+interface SettlementRow {
+    orderId: string;
+    providerTransactionNo?: string;
+    amount: number;
+}
+
+// Tên cột trong file settlement của VNPay / MoMo / ZaloPay (đã chuẩn hóa)
+const ORDER_ID_COLUMNS = ['txnref', 'orderid', 'apptransid'];
+const TRANSACTION_NO_COLUMNS = ['transactionno', 'transid', 'zptransid'];
+const AMOUNT_COLUMNS = ['amount', 'totalamount'];
+
+@Injectable()
+export class SettlementReconciliationService {
+    private readonly logger = new Logger(SettlementReconciliationService.name);
+
+    constructor(
+        @InjectModel(SettlementReport.name)
+        private settlementReportModel: Model<SettlementReportDocument>,
+        @InjectModel(PaymentAttempt.name)
+        private paymentAttemptModel: Model<PaymentAttemptDocument>,
+        @InjectModel(Ticket.name) private ticketModel: Model<Ticket>,
+        @InjectModel(Booking.name) private bookingModel: Model<Booking>,
+        @InjectQueue('payment-reconciliation')
+        private reconciliationQueue: Queue<SettlementReconciliationJob>,
+    ) { }
+
+    /**
+     * Lưu report PROCESSING và đẩy file vào queue để đối soát
+     */
+    async importSettlement(file: Express.Multer.File, dto: ImportSettlementDto) {
+        if (!file) {
+            throw new BadRequestException('Vui lòng chọn file CSV đối soát');
+        }
+        if (!file.originalname.match(/\.csv$/i)) {
+            throw new BadRequestException('File phải có định dạng CSV');
+        }
+
+        const report = await this.settlementReportModel.create({
+            provider: dto.provider,
+            settlementDate: dto.settlementDate.slice(0, 10),
+            fileName: file.originalname,
+            status: SettlementReportStatus.PROCESSING,
+        });
+
+        await this.reconciliationQueue.add(
+            'reconcile-settlement',
+            { reportId: String(report._id), csv: file.buffer.toString('utf-8') },
+            { removeOnComplete: true, removeOnFail: false },
+        );
+
+        this.logger.log(`Queued ${dto.provider} settlement ${dto.settlementDate} (report ${String(report._id)})`);
+
+        return report;
+    }
+
+    /**
+     * Đối soát file settlement với payment attempts của ngày đó
+     */
+    async reconcile(reportId: string, csv: string): Promise<SettlementReportDocument> {
+        const report = await this.settlementReportModel.findById(reportId);
+        if (!report) throw new NotFoundException('Settlement report not found');
+
+        try {
+            const records = parseCsv(csv);
+            const rows = records
+                .map((record) => this.toSettlementRow(record))
+                .filter((row): row is SettlementRow => row !== null);
+
+            const mismatches: SettlementMismatch[] = [];
+            const matchedAttemptIds = new Set<string>();
+
+            // 1. File → hệ thống
+            const attempts = await this.findAttempts(report.provider, rows);
+            const targetStatuses = await this.getTargetStatuses(attempts);
+
+            for (const row of rows) {
+                const attempt = attempts.find(
+                    (item) => item.orderId === row.orderId || item.providerOrderId === row.orderId,
+                );
+
+                if (!attempt) {
+                    mismatches.push({
+                        type: SettlementMismatchType.UNKNOWN_TRANSACTION,
+                        orderId: row.orderId,
+                        providerTransactionNo: row.providerTransactionNo,
+                        settlementAmount: row.amount,
+                        message: 'Giao dịch có trong file đối soát nhưng không có trong hệ thống',
+                    });
+                    continue;
+                }
+
+                const attemptId = String(attempt._id);
+                matchedAttemptIds.add(attemptId);
+                const ticketStatus = targetStatuses.get(attemptId);
+
+                if (row.amount !== attempt.amount) {
+                    mismatches.push({
+                        type: SettlementMismatchType.AMOUNT_MISMATCH,
+                        orderId: attempt.orderId,
+                        providerTransactionNo: row.providerTransactionNo,
+                        settlementAmount: row.amount,
+                        systemAmount: attempt.amount,
+                        ticketStatus,
+                        paymentAttemptId: attemptId,
+                        message: `Số tiền đối soát ${row.amount} khác số tiền giao dịch ${attempt.amount}`,
+                    });
+                }
+
+                if (
+                    attempt.status !== PaymentAttemptStatus.SUCCESS ||
+                    ticketStatus === TicketStatus.PENDING ||
+                    ticketStatus === TicketStatus.FAILED
+                ) {
+                    mismatches.push({
+                        type: SettlementMismatchType.PAID_NOT_CONFIRMED,
+                        orderId: attempt.orderId,
+                        providerTransactionNo: row.providerTransactionNo,
+                        settlementAmount: row.amount,
+                        systemAmount: attempt.amount,
+                        ticketStatus,
+                        paymentAttemptId: attemptId,
+                        message: `Cổng đã thu tiền nhưng giao dịch ${attempt.status}, vé ${ticketStatus ?? 'không tồn tại'}`,
+                    });
+                }
+            }
+
+            // 2. Hệ thống → file: giao dịch thành công trong ngày không có trong file
+            const { start, end } = this.getDayRange(report.settlementDate);
+            const paidAttempts = await this.paymentAttemptModel
+                .find({
+                    provider: report.provider,
+                    status: PaymentAttemptStatus.SUCCESS,
+                    paidAt: { $gte: start, $lt: end },
+                })
+                .exec();
+
+            for (const attempt of paidAttempts) {
+                if (matchedAttemptIds.has(String(attempt._id))) continue;
+
+                mismatches.push({
+                    type: SettlementMismatchType.MISSING_FROM_SETTLEMENT,
+                    orderId: attempt.orderId,
+                    providerTransactionNo: attempt.providerTransactionNo,
+                    systemAmount: attempt.amount,
+                    paymentAttemptId: String(attempt._id),
+                    message: 'Hệ thống ghi nhận đã thanh toán nhưng không có trong file đối soát',
+                });
+            }
+
+            const mismatchedOrders = new Set(mismatches.map((item) => item.orderId));
+
+            report.totalRows = records.length;
+            report.invalidRows = records.length - rows.length;
+            report.matchedCount = attempts.filter(
+                (attempt) =>
+                    matchedAttemptIds.has(String(attempt._id)) && !mismatchedOrders.has(attempt.orderId),
+            ).length;
+            report.settlementAmount = rows.reduce((sum, row) => sum + row.amount, 0);
+            report.systemAmount = paidAttempts.reduce((sum, attempt) => sum + attempt.amount, 0);
+            report.mismatches = mismatches;
+            report.status = SettlementReportStatus.COMPLETED;
+            report.completedAt = new Date();
+            await report.save();
+
+            this.logger.log(
+                `Settlement ${report.provider} ${report.settlementDate}: ${report.matchedCount} matched, ${mismatches.length} mismatches`,
+            );
+
+            return report;
+        } catch (error) {
+            report.status = SettlementReportStatus.FAILED;
+            report.error = error?.message || 'Reconciliation failed';
+            await report.save();
+            throw error;
+        }
+    }
+
+    async findReports(provider?: PaymentProviderName) {
+        return this.settlementReportModel
+            .find(provider ? { provider } : {})
+            .select('-mismatches')
+            .sort({ settlementDate: -1, createdAt: -1 })
+            .exec();
+    }
+
+    async findReport(id: string) {
+        if (!Types.ObjectId.isValid(id)) {
+            throw new BadRequestException('Invalid settlement report ID');
+        }
+
+        const report = await this.settlementReportModel.findById(id).exec();
+        if (!report) throw new NotFoundException('Settlement report not found');
+        return report;
+    }
+
+    private toSettlementRow(record: Record<string, string>): SettlementRow | null {
+        const pick = (columns: string[]) => {
+            const key = Object.keys(record).find((column) =>
+                columns.includes(column.toLowerCase().replace(/^vnp_/, '').replace(/[^a-z0-9]/g, '')),
+            );
+            return key ? record[key] : undefined;
+        };
+
+        const orderId = pick(ORDER_ID_COLUMNS);
+        const amount = Number((pick(AMOUNT_COLUMNS) ?? '').replace(/[^\d.-]/g, ''));
+        if (!orderId || !amount) return null;
+
+        return {
+            orderId,
+            providerTransactionNo: pick(TRANSACTION_NO_COLUMNS) || undefined,
+            amount,
+        };
+    }
+
+    private async findAttempts(provider: PaymentProviderName, rows: SettlementRow[]) {
+        const orderIds = rows.map((row) => row.orderId);
+        if (!orderIds.length) return [];
+
+        return this.paymentAttemptModel
+            .find({
+                provider,
+                $or: [{ orderId: { $in: orderIds } }, { providerOrderId: { $in: orderIds } }],
+            })
+            .exec();
+    }
+
+    /**
+     * Trạng thái vé (hoặc đơn) của từng attempt, theo attempt id
+     */
+    private async getTargetStatuses(attempts: PaymentAttemptDocument[]): Promise<Map<string, string>> {
+        const ticketIds = attempts.filter((item) => item.ticketId).map((item) => item.ticketId);
+        const bookingIds = attempts.filter((item) => item.bookingId).map((item) => item.bookingId);
+
+        const [tickets, bookings] = await Promise.all([
+            this.ticketModel.find({ _id: { $in: ticketIds } }).select('status').lean(),
+            this.bookingModel.find({ _id: { $in: bookingIds } }).select('status').lean(),
+        ]);
+
+        const statusById = new Map<string, string>(
+            [...tickets, ...bookings].map((item) => [String(item._id), item.status]),
+        );
+
+        const result = new Map<string, string>();
+        for (const attempt of attempts) {
+            const status = statusById.get(String(attempt.bookingId ?? attempt.ticketId));
+            if (status) result.set(String(attempt._id), status);
+        }
+        return result;
+    }
+
+    /**
+     * Một ngày theo giờ Việt Nam (GMT+7)
+     */
+    private getDayRange(settlementDate: string) {
+        const start = new Date(`${settlementDate}T00:00:00+07:00`);
+        const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+        return { start, end };
+    }
+}
@@ -0,0 +1,33 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import type { Job } from 'bull';
+import {
+    SettlementReconciliationJob,
+    SettlementReconciliationService,
+} from './services/settlement-reconciliation.service';
+
+@Processor('payment-reconciliation')
+export class SettlementReconciliationProcessor {
+    private readonly logger = new Logger(SettlementReconciliationProcessor.name);
+
+    constructor(private readonly reconciliationService: SettlementReconciliationService) { }
+
+    @Process('reconcile-settlement')
+    async handleReconcileSettlement(job: Job<SettlementReconciliationJob>) {
+        const { reportId, csv } = job.data;
+
+        this.logger.log(`Processing settlement reconciliation for report ${reportId}`);
+
+        try {
+            const report = await this.reconciliationService.reconcile(reportId, csv);
+            return {
+                success: true,
+                matchedCount: report.matchedCount,
+                mismatchCount: report.mismatches.length,
+            };
+        } catch (error) {
+            this.logger.error(`Settlement reconciliation failed for report ${reportId}:`, error);
+            throw error;
+        }
+    }
+}
@@ -1,6 +1,10 @@
-import { Controller, Get, Query, UseGuards } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
+import { Body, Controller, Get, Param, Post, Query, UploadedFile, UseGuards, UseInterceptors } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiQuery, ApiBearerAuth, ApiConsumes, ApiBody, ApiParam } from '@nestjs/swagger';
 import { StatisticsService } from './statistics.service';
+import { SettlementReconciliationService } from './services/settlement-reconciliation.service';
+import { ImportSettlementDto } from './dto/import-settlement.dto';
+import { PaymentProviderName } from '../payment-provider/enums/payment-provider.enum';
 import { Roles } from '../common/decorators/roles.decorator';
 import { UserRole } from '../users/enums/user-role.enum';
 import { RolesGuard } from '../auth/guards/roles.guard';
@@ -12,7 +16,10 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Roles(UserRole.ADMIN)
 export class StatisticsController {
-    constructor(private readonly statisticsService: StatisticsService) { }
+    constructor(
+        private readonly statisticsService: StatisticsService,
+        private readonly settlementReconciliationService: SettlementReconciliationService,
+    ) { }
 
     @Get('overview')
     @ApiOperation({ summary: 'Get dashboard overview statistics' })
@@ -70,4 +77,42 @@ export class StatisticsController {
     async getSchedulingDetailsToday() {
         return this.statisticsService.getSchedulingDetailsToday();
     }
+
+    // Payment settlement reconciliation
+
+    @Post('reconciliation/import')
+    @UseInterceptors(FileInterceptor('file'))
+    @ApiOperation({ summary: 'Import settlement CSV from payment gateway and reconcile in background' })
+    @ApiConsumes('multipart/form-data')
+    @ApiBody({
+        schema: {
+            type: 'object',
+            required: ['file', 'provider', 'settlementDate'],
+            properties: {
+                file: { type: 'string', format: 'binary' },
+                provider: { type: 'string', enum: Object.values(PaymentProviderName) },
+                settlementDate: { type: 'string', example: '2025-01-15' },
+            },
+        },
+    })
+    async importSettlement(
+        @UploadedFile() file: Express.Multer.File,
+        @Body() dto: ImportSettlementDto,
+    ) {
+        return this.settlementReconciliationService.importSettlement(file, dto);
+    }
+
+    @Get('reconciliation')
+    @ApiOperation({ summary: 'List settlement reconciliation reports' })
+    @ApiQuery({ name: 'provider', enum: PaymentProviderName, required: false })
+    async getReconciliationReports(@Query('provider') provider?: PaymentProviderName) {
+        return this.settlementReconciliationService.findReports(provider);
+    }
+
+    @Get('reconciliation/:id')
+    @ApiOperation({ summary: 'Get settlement reconciliation report with mismatches' })
+    @ApiParam({ name: 'id', description: 'Settlement report ID' })
+    async getReconciliationReport(@Param('id') id: string) {
+        return this.settlementReconciliationService.findReport(id);
+    }
 }
@@ -1,11 +1,17 @@
 import { Module } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
+import { BullModule } from '@nestjs/bull';
 import { StatisticsController } from './statistics.controller';
 import { StatisticsService } from './statistics.service';
 import { Ticket, TicketSchema } from '../ticket/entities/ticket.entity';
 import { Scheduling, SchedulingSchema } from '../scheduling/entities/scheduling.entity';
 import { Bus, BusSchema } from '../bus/entities/bus.entity';
 import { User, UserSchema } from '../users/entities/user.entity';
+import { Booking, BookingSchema } from '../ticket/entities/booking.entity';
+import { PaymentAttempt, PaymentAttemptSchema } from '../ticket/entities/payment-attempt.entity';
+import { SettlementReport, SettlementReportSchema } from './entities/settlement-report.entity';
+import { SettlementReconciliationService } from './services/settlement-reconciliation.service';
+import { SettlementReconciliationProcessor } from './settlement-reconciliation.processor';
 
 @Module({
     imports: [
@@ -14,10 +20,16 @@ import { User, UserSchema } from '../users/entities/user.entity';
             { name: Scheduling.name, schema: SchedulingSchema },
             { name: Bus.name, schema: BusSchema },
             { name: User.name, schema: UserSchema },
+            { name: Booking.name, schema: BookingSchema },
+            { name: PaymentAttempt.name, schema: PaymentAttemptSchema },
+            { name: SettlementReport.name, schema: SettlementReportSchema },
         ]),
+        BullModule.registerQueue({
+            name: 'payment-reconciliation',
+        }),
     ],
     controllers: [StatisticsController],
-    providers: [StatisticsService],
+    providers: [StatisticsService, SettlementReconciliationService, SettlementReconciliationProcessor],
     exports: [StatisticsService],
 })
 export class StatisticsModule { }
@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+} from '@nestjs/swagger';
+import { BusSwapService } from './bus-swap.service';
+import { SwapBusDto } from './dto/swap-bus.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+
+@ApiTags('Bus Swap')
+@Controller('bus-swaps')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class BusSwapController {
+  constructor(private readonly busSwapService: BusSwapService) {}
+
+  @Get(':schedulingId/preview')
+  @ApiOperation({
+    summary: 'Preview replacing the bus of a trip (Admin only)',
+    description:
+      'Shows where each sold or held seat would go on the new bus. Nothing is changed.',
+  })
+  @ApiParam({ name: 'schedulingId', description: 'Scheduling ID' })
+  @ApiQuery({ name: 'newBusId', description: 'Replacement bus ID' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bus unavailable (maintenance or overlapping trip)',
+  })
+  preview(
+    @Param('schedulingId') schedulingId: string,
+    @Query() dto: SwapBusDto,
+  ) {
+    return this.busSwapService.preview(schedulingId, dto.newBusId);
+  }
+
+  @Post(':schedulingId')
+  @ApiOperation({
+    summary: 'Replace the bus of a trip (Admin only)',
+    description: `
+      - The new bus is checked like any scheduling bus (maintenance, overlapping trips)
+      - Sold and held seats move to the same seatNo on the new bus, otherwise to the next free seat
+      - Tickets and their snapshots point at the new seats
+      - Tickets left without a seat are returned in "unmapped" and flagged with seatUnassigned
+      - availableSeats is recomputed from the new bus
+    `,
+  })
+  @ApiParam({ name: 'schedulingId', description: 'Scheduling ID' })
+  @ApiResponse({ status: 201, description: 'Bus swapped' })
+  @ApiResponse({
+    status: 400,
+    description: 'Trip already started or bus unavailable',
+  })
+  swapBus(
+    @Param('schedulingId') schedulingId: string,
+    @Body() dto: SwapBusDto,
+  ) {
+    return this.busSwapService.swapBus(schedulingId, dto.newBusId);
+  }
+}
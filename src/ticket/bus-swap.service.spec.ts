@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { BusSwapService } from './bus-swap.service';
+import { Ticket } from './entities/ticket.entity';
+import { SeatService } from '../seat/seat.service';
+import { SeatStatus } from '../seat/enums/seat-status.enum';
+import { SchedulingService } from '../scheduling/scheduling.service';
+
+// Keep the heavy service graphs (Bus schema, Elasticsearch) out of this test
+jest.mock('../seat/seat.service', () => ({
+  SeatService: class SeatService {},
+}));
+jest.mock('../scheduling/scheduling.service', () => ({
+  SchedulingService: class SchedulingService {},
+}));
+
+describe('BusSwapService', () => {
+  let service: BusSwapService;
+
+  const query = <T>(value: T) => ({
+    select: () => query(value),
+    populate: () => query(value),
+    lean: () => query(value),
+    exec: () => Promise.resolve(value),
+  });
+
+  const schedulingId = String(new Types.ObjectId());
+  const newBusId = String(new Types.ObjectId());
+  const current = {
+    _id: new Types.ObjectId(schedulingId),
+    busId: new Types.ObjectId(),
+    busIds: [],
+    bookedSeats: 1,
+    availableSeats: 39,
+  };
+
+  const ticketId = new Types.ObjectId();
+  const oldSeatId = new Types.ObjectId();
+  const newSeat = {
+    _id: new Types.ObjectId(),
+    busId: new Types.ObjectId(newBusId),
+    seatNo: 'A1',
+  };
+  const inventory = [
+    {
+      _id: new Types.ObjectId(),
+      schedulingId: current._id,
+      seatId: oldSeatId,
+      seatNo: 'A1',
+      status: SeatStatus.SOLD,
+      ticketId,
+    },
+  ];
+  const ticketSeat = {
+    _id: ticketId,
+    seatId: oldSeatId,
+    snapshot: { seat: { seatNo: 'A1' } },
+  };
+
+  // Writes in the order they happened
+  let writes: string[];
+  const record =
+    <T>(name: string, value?: T) =>
+    () => {
+      writes.push(name);
+      return Promise.resolve(value);
+    };
+
+  const ticketModel = {
+    find: jest.fn(),
+    bulkWrite: jest.fn(record('tickets')),
+    updateMany: jest.fn(record('unassigned tickets')),
+  };
+  const seatService = {
+    planBusSwap: jest.fn(() =>
+      Promise.resolve([
+        {
+          inventoryId: inventory[0]._id,
+          ticketId: String(ticketId),
+          status: SeatStatus.SOLD,
+          fromSeatNo: 'A1',
+          toSeat: newSeat,
+        },
+      ]),
+    ),
+    getInventoryRows: jest.fn(() => Promise.resolve(inventory)),
+    applyBusSwap: jest.fn(record('inventory')),
+    syncSeatCounts: jest.fn(record('seat counts')),
+    restoreInventory: jest.fn(record('restore inventory')),
+  };
+  const schedulingService = {
+    validateBusSwap: jest.fn(() => Promise.resolve(current)),
+    applyBusSwap: jest.fn(record('scheduling', 40)),
+    revertBusSwap: jest.fn(record('revert scheduling')),
+    publishBusSwap: jest.fn(() => Promise.resolve(current)),
+  };
+
+  beforeEach(async () => {
+    writes = [];
+    jest.clearAllMocks();
+    ticketModel.find
+      .mockReturnValueOnce(query([ticketSeat]))
+      .mockReturnValue(query([]));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BusSwapService,
+        { provide: getModelToken(Ticket.name), useValue: ticketModel },
+        { provide: SeatService, useValue: seatService },
+        { provide: SchedulingService, useValue: schedulingService },
+      ],
+    }).compile();
+
+    service = module.get<BusSwapService>(BusSwapService);
+  });
+
+  it('should move the inventory, then the tickets, then the trip onto the new bus', async () => {
+    const result = await service.swapBus(schedulingId, newBusId);
+
+    expect(writes).toEqual([
+      'inventory',
+      'tickets',
+      'scheduling',
+      'seat counts',
+    ]);
+    expect(seatService.syncSeatCounts).toHaveBeenCalledWith(schedulingId, 40);
+    expect(ticketModel.bulkWrite).toHaveBeenCalledWith([
+      {
+        updateOne: {
+          filter: { _id: ticketId },
+          update: { $set: { seatId: newSeat._id, seatUnassigned: false } },
+        },
+      },
+      {
+        updateOne: {
+          filter: { _id: ticketId, snapshot: { $type: 'object' } },
+          update: {
+            $set: {
+              'snapshot.seat.seatId': String(newSeat._id),
+              'snapshot.seat.seatNo': 'A1',
+              'snapshot.seat.busId': newBusId,
+              'snapshot.scheduling.busId': newBusId,
+            },
+          },
+        },
+      },
+    ]);
+    expect(schedulingService.publishBusSwap).toHaveBeenCalledWith(
+      schedulingId,
+      current.busId.toString(),
+      newBusId,
+    );
+    expect(result.summary).toEqual({
+      occupiedSeats: 1,
+      sameSeatNo: 1,
+      moved: 0,
+      unmapped: 0,
+    });
+  });
+
+  it('should put the trip, tickets and inventory back when a write fails', async () => {
+    const failure = new Error('connection reset');
+    schedulingService.applyBusSwap.mockImplementationOnce(() => {
+      writes.push('scheduling');
+      return Promise.reject(failure);
+    });
+
+    await expect(service.swapBus(schedulingId, newBusId)).rejects.toBe(failure);
+
+    expect(writes).toEqual([
+      'inventory',
+      'tickets',
+      'scheduling',
+      'revert scheduling',
+      'tickets',
+      'restore inventory',
+    ]);
+    expect(schedulingService.revertBusSwap).toHaveBeenCalledWith(
+      schedulingId,
+      current,
+    );
+    expect(ticketModel.bulkWrite).toHaveBeenLastCalledWith([
+      {
+        updateOne: {
+          filter: { _id: ticketId },
+          update: {
+            $set: {
+              seatId: oldSeatId,
+              seatUnassigned: false,
+              snapshot: ticketSeat.snapshot,
+            },
+          },
+        },
+      },
+    ]);
+    expect(seatService.restoreInventory).toHaveBeenCalledWith(
+      schedulingId,
+      inventory,
+    );
+    expect(schedulingService.publishBusSwap).not.toHaveBeenCalled();
+  });
+});
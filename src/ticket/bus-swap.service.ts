@@ -0,0 +1,281 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { AnyBulkWriteOperation, Model, Types } from 'mongoose';
+import { Ticket, TicketDocument } from './entities/ticket.entity';
+import {
+  SeatService,
+  SeatRemapping,
+  SeatInventoryRow,
+} from '../seat/seat.service';
+import { SchedulingService } from '../scheduling/scheduling.service';
+import { SchedulingDocument } from '../scheduling/entities/scheduling.entity';
+import { User } from '../users/entities/user.entity';
+
+type RemappedTicket = Pick<
+  Ticket,
+  'passengerName' | 'passengerPhone' | 'status'
+> & {
+  _id: Types.ObjectId;
+  userId: Pick<User, 'email' | 'firstName' | 'lastName' | 'phone'> | null;
+};
+
+type TicketSeat = Pick<Ticket, 'seatId' | 'seatUnassigned' | 'snapshot'> & {
+  _id: Types.ObjectId;
+};
+
+@Injectable()
+export class BusSwapService {
+  private readonly logger = new Logger(BusSwapService.name);
+
+  constructor(
+    @InjectModel(Ticket.name) private ticketModel: Model<TicketDocument>,
+    private readonly seatService: SeatService,
+    private readonly schedulingService: SchedulingService,
+  ) {}
+
+  /**
+   * Show where every occupied seat would go on the new bus (nothing is changed)
+   */
+  async preview(schedulingId: string, newBusId: string) {
+    await this.schedulingService.validateBusSwap(schedulingId, newBusId);
+    const remapping = await this.seatService.planBusSwap(
+      schedulingId,
+      newBusId,
+    );
+    return this.describe(schedulingId, newBusId, remapping);
+  }
+
+  /**
+   * Replace the bus of a scheduling: move the seat inventory and tickets onto
+   * the new bus, flag tickets that got no seat and recompute the seat counts.
+   * The writes run one after another without a transaction (MongoDB may run
+   * standalone); when one fails, the inventory, tickets and trip are put back
+   * as they were read before the swap.
+   */
+  async swapBus(schedulingId: string, newBusId: string) {
+    const current = await this.schedulingService.validateBusSwap(
+      schedulingId,
+      newBusId,
+    );
+    const remapping = await this.seatService.planBusSwap(
+      schedulingId,
+      newBusId,
+    );
+    const entries = this.perTicket(remapping);
+
+    const [inventory, tickets] = await Promise.all([
+      this.seatService.getInventoryRows(schedulingId),
+      this.getTicketSeats(entries),
+    ]);
+
+    try {
+      await this.seatService.applyBusSwap(schedulingId, remapping);
+      await this.remapTickets(entries);
+      const totalSeats = await this.schedulingService.applyBusSwap(
+        schedulingId,
+        newBusId,
+      );
+      await this.seatService.syncSeatCounts(schedulingId, totalSeats);
+    } catch (error) {
+      await this.rollback(schedulingId, current, inventory, tickets);
+      throw error;
+    }
+
+    const scheduling = await this.schedulingService.publishBusSwap(
+      schedulingId,
+      current.busId.toString(),
+      newBusId,
+    );
+
+    const result = await this.describe(schedulingId, newBusId, entries);
+    if (result.unmapped.length > 0) {
+      this.logger.warn(
+        `Bus swap on scheduling ${schedulingId}: ${result.unmapped.length} tickets have no seat on bus ${newBusId}`,
+      );
+    }
+
+    return { scheduling, ...result };
+  }
+
+  /**
+   * Undo a swap that failed half-way, in reverse order of the writes
+   */
+  private async rollback(
+    schedulingId: string,
+    previous: SchedulingDocument,
+    inventory: SeatInventoryRow[],
+    tickets: TicketSeat[],
+  ) {
+    try {
+      await this.schedulingService.revertBusSwap(schedulingId, previous);
+      if (tickets.length > 0) {
+        await this.ticketModel.bulkWrite(
+          tickets.map(({ _id, seatId, seatUnassigned, snapshot }) => ({
+            updateOne: {
+              filter: { _id },
+              update: {
+                $set: {
+                  seatId,
+                  seatUnassigned: seatUnassigned ?? false,
+                  ...(snapshot ? { snapshot } : {}),
+                },
+              },
+            },
+          })),
+        );
+      }
+      await this.seatService.restoreInventory(schedulingId, inventory);
+    } catch (error) {
+      this.logger.error(
+        `Bus swap on scheduling ${schedulingId} failed and could not be rolled back, check its seats and tickets:`,
+        error,
+      );
+    }
+  }
+
+  private async getTicketSeats(
+    remapping: SeatRemapping[],
+  ): Promise<TicketSeat[]> {
+    const ticketIds = remapping
+      .map((entry) => entry.ticketId)
+      .filter((id): id is string => !!id);
+    if (ticketIds.length === 0) return [];
+
+    return this.ticketModel
+      .find({ _id: { $in: ticketIds.map((id) => new Types.ObjectId(id)) } })
+      .select('seatId seatUnassigned snapshot')
+      .lean<TicketSeat[]>()
+      .exec();
+  }
+
+  /**
+   * One entry per ticket: a ticket holds one inventory row per leg it covers,
+   * and all of them move to the same seat
+   */
+  private perTicket(remapping: SeatRemapping[]): SeatRemapping[] {
+    const seen = new Set<string>();
+    return remapping.filter((entry) => {
+      if (!entry.ticketId) return true;
+      if (seen.has(entry.ticketId)) return false;
+      seen.add(entry.ticketId);
+      return true;
+    });
+  }
+
+  /**
+   * Point tickets at their seat on the new bus (snapshot included);
+   * tickets without a seat keep the old one and are flagged for staff
+   */
+  private async remapTickets(remapping: SeatRemapping[]) {
+    const operations: AnyBulkWriteOperation<TicketDocument>[] = [];
+    const unmappedIds: Types.ObjectId[] = [];
+
+    for (const { ticketId, toSeat } of remapping) {
+      if (!ticketId) continue;
+      const _id = new Types.ObjectId(ticketId);
+
+      if (!toSeat) {
+        unmappedIds.push(_id);
+        continue;
+      }
+
+      operations.push(
+        {
+          updateOne: {
+            filter: { _id },
+            update: { $set: { seatId: toSeat._id, seatUnassigned: false } },
+          },
+        },
+        {
+          // Tickets created before snapshots existed have none to update
+          updateOne: {
+            filter: { _id, snapshot: { $type: 'object' } },
+            update: {
+              $set: {
+                'snapshot.seat.seatId': String(toSeat._id),
+                'snapshot.seat.seatNo': toSeat.seatNo,
+                'snapshot.seat.busId': toSeat.busId.toString(),
+                'snapshot.scheduling.busId': toSeat.busId.toString(),
+              },
+            },
+          },
+        },
+      );
+    }
+
+    if (operations.length > 0) {
+      await this.ticketModel.bulkWrite(operations);
+    }
+    if (unmappedIds.length > 0) {
+      await this.ticketModel.updateMany(
+        { _id: { $in: unmappedIds } },
+        { $set: { seatUnassigned: true } },
+      );
+    }
+  }
+
+  private async describe(
+    schedulingId: string,
+    newBusId: string,
+    remapping: SeatRemapping[],
+  ) {
+    const ticketIds = remapping
+      .map((entry) => entry.ticketId)
+      .filter((id): id is string => !!id);
+
+    const tickets = await this.ticketModel
+      .find({ _id: { $in: ticketIds.map((id) => new Types.ObjectId(id)) } })
+      .select('passengerName passengerPhone status userId')
+      .populate('userId', 'email firstName lastName phone')
+      .lean<RemappedTicket[]>()
+      .exec();
+    const ticketsById = new Map(tickets.map((t) => [String(t._id), t]));
+
+    const passengerOf = (ticketId: string | null) => {
+      const ticket = ticketId ? ticketsById.get(ticketId) : undefined;
+      if (!ticket) return {};
+      return {
+        passengerName:
+          ticket.passengerName ??
+          ([ticket.userId?.firstName, ticket.userId?.lastName]
+            .filter(Boolean)
+            .join(' ') ||
+            undefined),
+        passengerPhone: ticket.passengerPhone ?? ticket.userId?.phone,
+        email: ticket.userId?.email,
+      };
+    };
+
+    const mapped = remapping
+      .filter((entry) => entry.toSeat)
+      .map((entry) => ({
+        ticketId: entry.ticketId,
+        status: entry.status,
+        fromSeatNo: entry.fromSeatNo,
+        toSeatNo: entry.toSeat!.seatNo,
+        sameSeatNo: entry.fromSeatNo === entry.toSeat!.seatNo,
+      }));
+
+    const unmapped = remapping
+      .filter((entry) => !entry.toSeat)
+      .map((entry) => ({
+        ticketId: entry.ticketId,
+        status: entry.status,
+        seatNo: entry.fromSeatNo,
+        ...passengerOf(entry.ticketId),
+      }));
+
+    return {
+      schedulingId,
+      newBusId,
+      summary: {
+        occupiedSeats: remapping.length,
+        sameSeatNo: mapped.filter((entry) => entry.sameSeatNo).length,
+        moved: mapped.filter((entry) => !entry.sameSeatNo).length,
+        unmapped: unmapped.length,
+      },
+      mapped,
+      unmapped,
+    };
+  }
+}
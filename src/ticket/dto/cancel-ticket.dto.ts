@@ -0,0 +1,13 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class CancelTicketDto {
+  @ApiPropertyOptional({
+    description: 'Reason for cancellation',
+    example: 'Thay đổi kế hoạch',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
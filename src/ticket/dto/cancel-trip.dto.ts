@@ -0,0 +1,51 @@
+import {
+  IsArray,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TripCancellationResolution } from '../enums/trip-cancellation-resolution.enum';
+
+export class CancelTripDto {
+  @ApiProperty({
+    description: 'Reason for cancelling the trip',
+    example: 'Xe hỏng máy',
+    maxLength: 500,
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+
+  @ApiPropertyOptional({
+    description:
+      'REBOOK: move passengers to the next trip on the same route (refund when no seat is left). REFUND: full refund for everyone.',
+    enum: TripCancellationResolution,
+    default: TripCancellationResolution.REBOOK,
+  })
+  @IsOptional()
+  @IsEnum(TripCancellationResolution)
+  resolution?: TripCancellationResolution;
+
+  @ApiPropertyOptional({
+    description: 'Only rebook onto this scheduling (same route)',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsOptional()
+  @IsMongoId()
+  targetSchedulingId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Tickets whose passengers asked for a refund instead of rebooking',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsMongoId({ each: true })
+  refundTicketIds?: string[];
+}
@@ -0,0 +1,57 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsMongoId,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  Matches,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { CreateTicketDto } from './create-ticket.dto';
+
+export const MAX_SEATS_PER_BOOKING = 10;
+
+export class BookingSeatDto {
+  @ApiProperty({ description: 'Seat ID', example: '507f1f77bcf86cd799439012' })
+  @IsNotEmpty()
+  @IsMongoId()
+  seatId: string;
+
+  @ApiPropertyOptional({
+    description: 'Passenger name for this seat (defaults to the customer)',
+    example: 'Nguyen Van A',
+  })
+  @IsOptional()
+  @IsString()
+  passengerName?: string;
+
+  @ApiPropertyOptional({
+    description: 'Passenger phone for this seat (defaults to the customer)',
+    example: '0901234567',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\+?[0-9]{10,15}$/, {
+    message: 'Phone number must be 10-15 digits, optionally starting with +',
+  })
+  passengerPhone?: string;
+}
+
+export class CreateBookingDto extends OmitType(CreateTicketDto, [
+  'seatId',
+] as const) {
+  @ApiProperty({
+    description: `Seats to book on the scheduling (1-${MAX_SEATS_PER_BOOKING})`,
+    type: [BookingSeatDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_SEATS_PER_BOOKING)
+  @ValidateNested({ each: true })
+  @Type(() => BookingSeatDto)
+  seats: BookingSeatDto[];
+}
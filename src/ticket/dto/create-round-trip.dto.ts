@@ -0,0 +1,40 @@
+import { IsNotEmpty, IsMongoId } from 'class-validator';
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { CreateTicketDto } from './create-ticket.dto';
+
+export class CreateRoundTripDto extends OmitType(CreateTicketDto, [
+  'seatId',
+  'schedulingId',
+] as const) {
+  @ApiProperty({
+    description: 'Outbound scheduling ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @IsNotEmpty()
+  @IsMongoId()
+  outboundSchedulingId: string;
+
+  @ApiProperty({
+    description: 'Seat ID on the outbound scheduling',
+    example: '507f1f77bcf86cd799439012',
+  })
+  @IsNotEmpty()
+  @IsMongoId()
+  outboundSeatId: string;
+
+  @ApiProperty({
+    description: 'Return scheduling ID (must run on the reverse route)',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsNotEmpty()
+  @IsMongoId()
+  returnSchedulingId: string;
+
+  @ApiProperty({
+    description: 'Seat ID on the return scheduling',
+    example: '507f1f77bcf86cd799439015',
+  })
+  @IsNotEmpty()
+  @IsMongoId()
+  returnSeatId: string;
+}
@@ -8,6 +8,7 @@ import {
 } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { PaymentMethod } from '../enums/payment-method.enum';
+import { PaymentProviderName } from '../../payment-provider/enums/payment-provider.enum';
 
 // Flexible phone regex for international and Vietnamese formats
 // Supports: +1234567890, 0901234567, etc.
@@ -57,6 +58,24 @@ export class CreateTicketDto {
   @IsMongoId()
   schedulingId: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Station where the passenger boards (multi-stop routes, defaults to the first stop)',
+    example: '507f1f77bcf86cd799439014',
+  })
+  @IsOptional()
+  @IsMongoId()
+  boardingStationId?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Station where the passenger gets off (multi-stop routes, defaults to the last stop)',
+    example: '507f1f77bcf86cd799439015',
+  })
+  @IsOptional()
+  @IsMongoId()
+  alightingStationId?: string;
+
   @ApiPropertyOptional({
     enum: PaymentMethod,
     description: 'Payment method',
@@ -67,6 +86,16 @@ export class CreateTicketDto {
   @IsEnum(PaymentMethod)
   paymentMethod?: PaymentMethod;
 
+  @ApiPropertyOptional({
+    enum: PaymentProviderName,
+    description: 'Online payment gateway (for Banking method)',
+    example: PaymentProviderName.VNPAY,
+    default: PaymentProviderName.VNPAY,
+  })
+  @IsOptional()
+  @IsEnum(PaymentProviderName)
+  paymentProvider?: PaymentProviderName;
+
   @ApiPropertyOptional({
     description: 'Fallback URL from payment gateway (for Banking method)',
     example: 'https://sandbox.vnpay.vn/return?...',
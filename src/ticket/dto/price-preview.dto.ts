@@ -1,6 +1,42 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { AppliedFareModifier } from '../../fare-modifier/entities/fare-modifier.entity';
+import type { DynamicPrice } from '../../pricing-curve/entities/pricing-curve.entity';
 export class PricePreviewDto {
-  @ApiProperty({ description: 'Original price before discount' })
+  @ApiProperty({
+    description: 'Scheduling price, or the segment fare for a partial trip',
+  })
+  basePrice: number;
+
+  @ApiProperty({
+    description:
+      'Load factor / time-to-departure adjustments applied to the base price',
+  })
+  dynamicPricing: DynamicPrice;
+
+  @ApiPropertyOptional({
+    description: 'Quoted price is kept until the seat lock expires',
+    nullable: true,
+  })
+  priceGuaranteedUntil: Date | null;
+
+  @ApiProperty({ description: 'Travelled distance (km)' })
+  distance: number;
+
+  @ApiProperty({ description: 'Boarding station ID' })
+  boardingStationId: string;
+
+  @ApiProperty({ description: 'Alighting station ID' })
+  alightingStationId: string;
+
+  @ApiProperty({
+    description: 'Seat class/position surcharge (negative = discount)',
+  })
+  seatSurcharge: number;
+
+  @ApiProperty({ description: 'Fare modifiers applied to the seat' })
+  fareModifiers: AppliedFareModifier[];
+
+  @ApiProperty({ description: 'Seat price before discount' })
   originalPrice: number;
 
   @ApiProperty({ description: 'Promotion name' })
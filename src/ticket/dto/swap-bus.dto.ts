@@ -0,0 +1,12 @@
+import { IsMongoId, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SwapBusDto {
+  @ApiProperty({
+    description: 'Replacement bus ID',
+    example: '507f1f77bcf86cd799439016',
+  })
+  @IsNotEmpty()
+  @IsMongoId()
+  newBusId: string;
+}
@@ -0,0 +1,28 @@
+import { IsString, Matches } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  BOOKING_CODE_PATTERN,
+  normalizeBookingCode,
+} from '../../common/utils/booking-code.util';
+
+export class TicketLookupQueryDto {
+  @ApiProperty({
+    description: 'Booking code printed on the ticket (case-insensitive)',
+    example: 'K7MX3Q',
+  })
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? normalizeBookingCode(value) : value,
+  )
+  @IsString()
+  @Matches(BOOKING_CODE_PATTERN, { message: 'Invalid booking code' })
+  code: string;
+
+  @ApiProperty({
+    description: 'Last 4 digits of the phone number used to book',
+    example: '4567',
+  })
+  @IsString()
+  @Matches(/^[0-9]{4}$/, { message: 'phoneLast4 must be 4 digits' })
+  phoneLast4: string;
+}
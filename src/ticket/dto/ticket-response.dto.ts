@@ -6,6 +6,9 @@ export class TicketResponseDto {
   @ApiProperty()
   _id: string;
 
+  @ApiProperty({ description: 'Short booking reference (PNR)' })
+  bookingCode: string;
+
   @ApiProperty()
   userId: any; // Can be populated
 
@@ -0,0 +1,82 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { TicketStatus } from '../enums/ticket-status.enum';
+import { PaymentMethod } from '../enums/payment-method.enum';
+import { PaymentProviderName } from '../../payment-provider/enums/payment-provider.enum';
+
+export type BookingDocument = Booking & Document;
+
+/**
+ * Đơn đặt vé: nhiều ghế trên cùng một chuyến hoặc vé khứ hồi,
+ * thanh toán một lần. Mỗi ghế vẫn có một Ticket riêng (ticket.bookingId) để lên xe.
+ */
+@Schema({ timestamps: true })
+export class Booking {
+  // ============================================
+  // USER & REFERENCES
+  // ============================================
+  @Prop({ type: String, uppercase: true })
+  bookingCode?: string; // Mã đặt chỗ của cả đơn (PNR)
+
+  @Prop({ type: Types.ObjectId, ref: 'User', required: true })
+  userId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Scheduling', required: true })
+  schedulingId: Types.ObjectId; // Chuyến đi (chiều đi nếu là khứ hồi)
+
+  @Prop({ type: Types.ObjectId, ref: 'Scheduling', default: null })
+  returnSchedulingId?: Types.ObjectId | null; // Chuyến về (vé khứ hồi)
+
+  @Prop({ type: Types.ObjectId, ref: 'Promotion', required: true })
+  promotionId: Types.ObjectId;
+
+  @Prop({ type: [{ type: Types.ObjectId, ref: 'Ticket' }], default: [] })
+  ticketIds: Types.ObjectId[];
+
+  // ============================================
+  // PAYMENT INFO
+  // ============================================
+  @Prop({
+    type: String,
+    enum: Object.values(PaymentMethod),
+    required: true,
+  })
+  paymentMethod: PaymentMethod;
+
+  @Prop({ type: String })
+  fallbackURL?: string;
+
+  @Prop({ type: String, enum: Object.values(PaymentProviderName) })
+  paymentProvider?: PaymentProviderName;
+
+  @Prop({ type: String, unique: true, sparse: true })
+  transactionId?: string; // Mã giao dịch của lần thanh toán gần nhất
+
+  @Prop({ type: Date })
+  paidAt?: Date;
+
+  // ============================================
+  // PRICING & STATUS
+  // ============================================
+  @Prop({ type: Number, required: true })
+  totalPrice: number; // Tổng tiền của tất cả vé trong đơn
+
+  @Prop({ type: Date, required: true })
+  expiredTime: Date;
+
+  @Prop({
+    type: String,
+    enum: Object.values(TicketStatus),
+    default: TicketStatus.PENDING,
+  })
+  status: TicketStatus;
+}
+
+export const BookingSchema = SchemaFactory.createForClass(Booking);
+
+// Indexes
+BookingSchema.index({ bookingCode: 1 }, { unique: true, sparse: true });
+BookingSchema.index({ userId: 1 });
+BookingSchema.index({ schedulingId: 1 });
+BookingSchema.index({ status: 1, expiredTime: 1 });
+BookingSchema.index({ createdAt: -1 });
@@ -0,0 +1,83 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PaymentProviderName } from '../../payment-provider/enums/payment-provider.enum';
+
+export type PaymentAttemptDocument = PaymentAttempt & Document;
+
+export enum PaymentAttemptStatus {
+  PENDING = 'PENDING',
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Một lần tạo giao dịch thanh toán online cho vé (hoặc cả đơn đặt vé).
+ * Một vé có thể có nhiều lần thử: đổi cổng, thanh toán lại sau khi thất bại...
+ */
+@Schema({ timestamps: true, collection: 'payment_attempts' })
+export class PaymentAttempt {
+  @Prop({ type: Types.ObjectId, ref: 'Ticket', default: null })
+  ticketId?: Types.ObjectId | null; // Thanh toán vé lẻ
+
+  @Prop({ type: Types.ObjectId, ref: 'Booking', default: null })
+  bookingId?: Types.ObjectId | null; // Thanh toán cả đơn
+
+  @Prop({
+    type: String,
+    enum: Object.values(PaymentProviderName),
+    required: true,
+  })
+  provider: PaymentProviderName;
+
+  @Prop({ type: String, required: true, unique: true })
+  orderId: string; // Mã giao dịch gửi sang cổng (vnp_TxnRef, MoMo orderId)
+
+  @Prop({ type: String })
+  providerOrderId?: string; // Mã đơn phía cổng nếu khác (ZaloPay app_trans_id)
+
+  @Prop({ type: Number, required: true })
+  amount: number;
+
+  @Prop({ type: Date, required: true })
+  requestedAt: Date; // Thời điểm tạo giao dịch - cần cho query/refund
+
+  @Prop({ type: String })
+  paymentUrl?: string;
+
+  @Prop({
+    type: String,
+    enum: Object.values(PaymentAttemptStatus),
+    default: PaymentAttemptStatus.PENDING,
+  })
+  status: PaymentAttemptStatus;
+
+  // ============================================
+  // PROVIDER RESULT
+  // ============================================
+  @Prop({ type: String })
+  providerTransactionNo?: string; // vnp_TransactionNo, MoMo transId, zp_trans_id
+
+  @Prop({ type: String })
+  bankCode?: string;
+
+  @Prop({ type: String })
+  responseCode?: string;
+
+  @Prop({ type: String })
+  responseMessage?: string;
+
+  @Prop({ type: Date })
+  paidAt?: Date;
+
+  @Prop({ type: Object })
+  rawResponse?: Record<string, any>;
+}
+
+export const PaymentAttemptSchema =
+  SchemaFactory.createForClass(PaymentAttempt);
+
+// Indexes
+PaymentAttemptSchema.index({ ticketId: 1, createdAt: -1 });
+PaymentAttemptSchema.index({ bookingId: 1, createdAt: -1 });
+PaymentAttemptSchema.index({ providerOrderId: 1 }, { sparse: true });
+PaymentAttemptSchema.index({ status: 1 });
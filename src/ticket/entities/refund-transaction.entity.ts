@@ -0,0 +1,74 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { PaymentProviderName } from '../../payment-provider/enums/payment-provider.enum';
+
+export type RefundTransactionDocument = RefundTransaction & Document;
+
+export enum RefundTransactionStatus {
+  PENDING = 'PENDING',
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Lịch sử yêu cầu hoàn tiền qua cổng thanh toán cho một vé
+ */
+@Schema({ timestamps: true, collection: 'refund_transactions' })
+export class RefundTransaction {
+  @Prop({ type: Types.ObjectId, ref: 'Ticket', required: true })
+  ticketId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'Booking', default: null })
+  bookingId?: Types.ObjectId | null;
+
+  @Prop({ type: Types.ObjectId, ref: 'PaymentAttempt', required: true })
+  paymentAttemptId: Types.ObjectId; // Giao dịch thanh toán gốc
+
+  @Prop({
+    type: String,
+    enum: Object.values(PaymentProviderName),
+    required: true,
+  })
+  provider: PaymentProviderName;
+
+  @Prop({ type: Number, required: true })
+  amount: number; // Số tiền hoàn (VND)
+
+  @Prop({ type: Boolean, default: true })
+  isFullRefund: boolean;
+
+  @Prop({ type: String })
+  requestId?: string; // Mã yêu cầu hoàn tiền gửi sang cổng
+
+  @Prop({ type: String, required: true })
+  orderId: string; // Mã giao dịch thanh toán gốc
+
+  @Prop({ type: String })
+  providerTransactionNo?: string;
+
+  @Prop({ type: String, required: true })
+  createdBy: string;
+
+  @Prop({
+    type: String,
+    enum: Object.values(RefundTransactionStatus),
+    default: RefundTransactionStatus.PENDING,
+  })
+  status: RefundTransactionStatus;
+
+  @Prop({ type: String })
+  responseCode?: string;
+
+  @Prop({ type: String })
+  responseMessage?: string;
+
+  @Prop({ type: Object })
+  rawResponse?: Record<string, any>;
+}
+
+export const RefundTransactionSchema =
+  SchemaFactory.createForClass(RefundTransaction);
+
+// Indexes
+RefundTransactionSchema.index({ ticketId: 1, createdAt: -1 });
+RefundTransactionSchema.index({ status: 1 });
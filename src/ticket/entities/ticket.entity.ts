@@ -2,6 +2,11 @@ import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document, Types } from 'mongoose';
 import { TicketStatus } from '../enums/ticket-status.enum';
 import { PaymentMethod } from '../enums/payment-method.enum';
+import { PaymentProviderName } from '../../payment-provider/enums/payment-provider.enum';
+import { TripLeg } from '../enums/trip-leg.enum';
+import { AppliedFareModifier } from '../../fare-modifier/entities/fare-modifier.entity';
+import { DynamicPrice } from '../../pricing-curve/entities/pricing-curve.entity';
+import type { SeatFare } from '../../fare-modifier/fare-modifier.service';
 
 export type TicketDocument = Ticket & Document;
 
@@ -31,6 +36,7 @@ export interface TicketSnapshot {
       name: string;
     };
     distance: number;
+    segmentDistance?: number; // Quãng đường của chặng đi (km), vé chặng
     etd: string;
   };
   promotion: {
@@ -41,7 +47,11 @@ export interface TicketSnapshot {
     description?: string;
   };
   pricing: {
-    originalPrice: number;
+    basePrice?: number; // Giá chuyến (vé chặng: giá chặng), sau giá động
+    dynamicPricing?: DynamicPrice; // Đường cong giá đã tạo ra giá này
+    seatSurcharge?: number; // Phụ thu theo hạng/vị trí ghế
+    fareModifiers?: AppliedFareModifier[];
+    originalPrice: number; // Giá ghế trước khuyến mãi
     promotionValue: number;
     discountAmount: number;
     finalPrice: number;
@@ -54,18 +64,63 @@ export class Ticket {
   // ============================================
   // USER & REFERENCES
   // ============================================
+  @Prop({ type: String, uppercase: true })
+  bookingCode?: string; // Mã đặt chỗ 6 ký tự (PNR) khách đọc khi gọi hỗ trợ
+
   @Prop({ type: Types.ObjectId, ref: 'User', required: true })
   userId: Types.ObjectId;
 
   @Prop({ type: Types.ObjectId, ref: 'Seat', required: true })
   seatId: Types.ObjectId;
 
+  @Prop({ type: Boolean, default: false })
+  seatUnassigned?: boolean; // Đổi xe: xe mới không còn ghế cho vé này, cần xếp lại
+
   @Prop({ type: Types.ObjectId, ref: 'Scheduling', required: true })
   schedulingId: Types.ObjectId;
 
   @Prop({ type: Types.ObjectId, ref: 'Promotion', required: true })
   promotionId: Types.ObjectId;
 
+  // Tuyến nhiều trạm: trạm lên / xuống xe và vị trí trong Route.stationIds.
+  // Vé cũ không có các trường này là vé cả tuyến
+  @Prop({ type: Types.ObjectId, ref: 'Station', default: null })
+  boardingStationId?: Types.ObjectId | null;
+
+  @Prop({ type: Types.ObjectId, ref: 'Station', default: null })
+  alightingStationId?: Types.ObjectId | null;
+
+  @Prop({ type: Number })
+  boardingStopIndex?: number;
+
+  @Prop({ type: Number })
+  alightingStopIndex?: number;
+
+  // Giá động lúc đặt vé (tỉ lệ lấp đầy, thời gian tới giờ khởi hành)
+  @Prop({ type: Object, default: null })
+  dynamicPricing?: DynamicPrice | null;
+
+  // Giá ghế lúc đặt vé (phụ thu hạng/vị trí ghế), snapshot dùng lại khi thanh toán
+  @Prop({ type: Object, default: null })
+  fare?: SeatFare | null;
+
+  @Prop({ type: Types.ObjectId, ref: 'Booking', default: null })
+  bookingId?: Types.ObjectId | null; // Đơn đặt vé nhóm (nếu có)
+
+  // Hành khách đi ghế này (đặt vé nhóm), mặc định là người đặt
+  @Prop({ type: String })
+  passengerName?: string;
+
+  @Prop({ type: String })
+  passengerPhone?: string;
+
+  // Vé khứ hồi: vé chiều đi/về liên kết với nhau
+  @Prop({ type: Types.ObjectId, ref: 'Ticket', default: null })
+  linkedTicketId?: Types.ObjectId | null;
+
+  @Prop({ type: String, enum: Object.values(TripLeg) })
+  tripLeg?: TripLeg;
+
   // ============================================
   // PAYMENT INFO
   // ============================================
@@ -77,23 +132,15 @@ export class Ticket {
   paymentMethod: PaymentMethod;
 
   @Prop({ type: String })
-  fallbackURL?: string; // URL callback từ VNPay
-
-  // ✅ VNPAY PAYMENT DETAILS
-  @Prop({ type: String, unique: true, sparse: true })
-  transactionId?: string; // vnp_TxnRef - Mã giao dịch unique
-
-  @Prop({ type: String })
-  vnpayTransactionNo?: string; // vnp_TransactionNo - Mã GD tại VNPay
+  fallbackURL?: string; // URL callback từ cổng thanh toán
 
-  @Prop({ type: String })
-  bankCode?: string; // vnp_BankCode
-
-  @Prop({ type: String })
-  responseCode?: string; // vnp_ResponseCode (00 = success)
+  // ✅ ONLINE PAYMENT (VNPay / MoMo / ZaloPay)
+  @Prop({ type: String, enum: Object.values(PaymentProviderName) })
+  paymentProvider?: PaymentProviderName; // Cổng thanh toán online (BANKING)
 
-  @Prop({ type: String })
-  responseMessage?: string; // Message từ VNPay
+  // Chi tiết từng lần thanh toán nằm ở PaymentAttempt
+  @Prop({ type: String, unique: true, sparse: true })
+  transactionId?: string; // Mã giao dịch của lần thanh toán gần nhất
 
   @Prop({ type: Date })
   paidAt?: Date; // Thời điểm thanh toán thành công
@@ -123,6 +170,24 @@ export class Ticket {
   @Prop({ type: String })
   transferDescription?: string;
 
+  // ============================================
+  // CANCELLATION & REFUND
+  // ============================================
+  @Prop({ type: Date })
+  cancelledAt?: Date;
+
+  @Prop({ type: String })
+  cancellationReason?: string;
+
+  @Prop({ type: Number })
+  refundPercent?: number; // % hoàn tiền theo chính sách tại thời điểm hủy
+
+  @Prop({ type: Number })
+  refundAmount?: number; // Số tiền hoàn cho khách
+
+  @Prop({ type: Date })
+  refundedAt?: Date;
+
   // ============================================
   // SNAPSHOT
   // ============================================
@@ -142,6 +207,8 @@ TicketSchema.index({ seatId: 1 });
 TicketSchema.index({ schedulingId: 1 });
 TicketSchema.index({ status: 1 });
 TicketSchema.index({ expiredTime: 1 });
+TicketSchema.index({ bookingCode: 1 }, { unique: true, sparse: true });
 TicketSchema.index({ transactionId: 1 });
 TicketSchema.index({ transferTicketId: 1 });
+TicketSchema.index({ bookingId: 1 });
 TicketSchema.index({ createdAt: -1 });
@@ -0,0 +1,73 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { TicketStatus } from '../enums/ticket-status.enum';
+import { TripCancellationResolution } from '../enums/trip-cancellation-resolution.enum';
+import { TripCancellationOutcome } from '../enums/trip-cancellation-outcome.enum';
+
+export type TripCancellationDocument = TripCancellation & Document;
+
+/**
+ * Kết quả xử lý một vé khi nhà xe hủy chuyến
+ */
+export interface TripCancellationEntry {
+  ticketId: string;
+  userId: string;
+  passengerName?: string;
+  passengerPhone?: string;
+  email?: string;
+  seatNo: string;
+  previousStatus: TicketStatus;
+  outcome: TripCancellationOutcome;
+  newTicketId?: string;
+  newSchedulingId?: string;
+  newDepartureAt?: Date;
+  newSeatNo?: string;
+  refundAmount?: number;
+  message?: string;
+}
+
+/**
+ * Báo cáo hủy chuyến: chuyến bị hủy và điều gì đã xảy ra với từng hành khách
+ */
+@Schema({ timestamps: true, collection: 'trip_cancellations' })
+export class TripCancellation {
+  @Prop({
+    type: Types.ObjectId,
+    ref: 'Scheduling',
+    required: true,
+    unique: true,
+  })
+  schedulingId: Types.ObjectId;
+
+  @Prop({ type: String, required: true })
+  reason: string;
+
+  @Prop({
+    type: String,
+    enum: Object.values(TripCancellationResolution),
+    required: true,
+  })
+  resolution: TripCancellationResolution;
+
+  @Prop({ type: String, required: true })
+  cancelledBy: string;
+
+  @Prop({ type: Types.ObjectId, ref: 'Scheduling', default: null })
+  targetSchedulingId?: Types.ObjectId | null; // Chỉ chuyển vé sang chuyến này
+
+  @Prop({ type: [String], default: [] })
+  refundTicketIds: string[]; // Vé khách chọn hoàn tiền thay vì chuyển chuyến
+
+  // Đang xử lý vé (chặn hai lần chạy song song); null khi đã chạy xong
+  @Prop({ type: Date, default: null })
+  processingStartedAt?: Date | null;
+
+  @Prop({ type: [Object], default: [] })
+  entries: TripCancellationEntry[];
+
+  @Prop({ type: Object, default: {} })
+  summary: Partial<Record<TripCancellationOutcome, number>>;
+}
+
+export const TripCancellationSchema =
+  SchemaFactory.createForClass(TripCancellation);
@@ -3,4 +3,6 @@ export enum TicketStatus {
   SUCCESS = 'SUCCESS',
   FAILED = 'FAILED',
   TRANSFER = 'TRANSFER',
+  CANCELLED = 'CANCELLED', // Khách hủy vé, chờ hoàn tiền
+  REFUNDED = 'REFUNDED', // Đã hoàn tiền
 }
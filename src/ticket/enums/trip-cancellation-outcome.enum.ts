@@ -0,0 +1,7 @@
+export enum TripCancellationOutcome {
+  REBOOKED = 'REBOOKED', // Đã có vé mới trên chuyến khác
+  REFUNDED = 'REFUNDED', // Đã hoàn tiền qua cổng thanh toán
+  REFUND_PENDING = 'REFUND_PENDING', // Vé đã hủy, chờ hoàn tiền (tiền mặt hoặc cổng lỗi)
+  VOIDED = 'VOIDED', // Vé chưa thanh toán, đã hủy giữ chỗ
+  ERROR = 'ERROR', // Không xử lý được, cần nhân viên xử lý tay
+}
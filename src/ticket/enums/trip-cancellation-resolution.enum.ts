@@ -0,0 +1,4 @@
+export enum TripCancellationResolution {
+  REBOOK = 'REBOOK', // Chuyển sang chuyến kế tiếp cùng tuyến, hết chỗ thì hoàn tiền
+  REFUND = 'REFUND', // Hoàn 100% tiền vé
+}
@@ -0,0 +1,4 @@
+export enum TripLeg {
+  OUTBOUND = 'OUTBOUND',
+  RETURN = 'RETURN',
+}
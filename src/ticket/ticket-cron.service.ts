@@ -9,10 +9,10 @@ export class TicketCronService {
   constructor(private readonly ticketService: TicketService) {}
 
   /**
-   * Run every 5 minutes to cancel expired tickets
-   * Cron expression: '0 0 5 * * * *' = every 5 minutes
+   * Run every minute to fail tickets whose payment hold has lapsed
+   * Cron expression: '0 * * * * *' = every minute (payment window is short)
    */
-  @Cron('0 */5 * * * *')
+  @Cron('0 * * * * *')
   async handleExpiredTickets() {
     this.logger.log('🔄 Running expired ticket cancellation job...');
 
@@ -29,6 +29,25 @@ export class TicketCronService {
     }
   }
 
+  /**
+   * Run every 5 minutes to confirm refunds the provider is still processing
+   * (or whose request timed out) through the provider's query API
+   */
+  @Cron('0 */5 * * * *')
+  async handlePendingRefunds() {
+    try {
+      const result = await this.ticketService.reconcilePendingRefunds();
+
+      if (result.checked > 0) {
+        this.logger.log(
+          `✅ Checked ${result.checked} pending refunds, ${result.settled} settled`,
+        );
+      }
+    } catch (error) {
+      this.logger.error('❌ Error reconciling pending refunds:', error);
+    }
+  }
+
   /**
    * Optional: Run daily cleanup for old FAILED tickets (e.g., delete after 30 days)
    * Cron expression: '0 0 2 * * *' = every day at 2:00 AM
@@ -0,0 +1,35 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { Throttle, ThrottlerGuard } from '@nestjs/throttler';
+import { TicketService } from './ticket.service';
+import { TicketLookupQueryDto } from './dto/ticket-lookup-query.dto';
+
+/**
+ * Guest access to a booking: no account needed, the booking code plus the
+ * last 4 digits of the phone stand in for a login
+ */
+@ApiTags('Ticket')
+@Controller('ticket-lookup')
+@UseGuards(ThrottlerGuard)
+export class TicketLookupController {
+  constructor(private readonly ticketService: TicketService) {}
+
+  @Get()
+  @Throttle({ default: { limit: 10, ttl: 300000 } }) // 10 attempts per 5 minutes
+  @ApiOperation({
+    summary: 'Find a booking by its code (guests)',
+    description: `
+      - code: 6-character booking code from the ticket PDF / QR code
+      - A booking code of a group or round-trip order returns all its tickets
+      - phoneLast4 must match the customer or passenger phone
+    `,
+  })
+  @ApiResponse({ status: 200, description: 'Tickets of the booking' })
+  @ApiResponse({
+    status: 404,
+    description: 'Unknown code or phone digits do not match',
+  })
+  lookup(@Query() query: TicketLookupQueryDto) {
+    return this.ticketService.findByBookingCode(query.code, query.phoneLast4);
+  }
+}
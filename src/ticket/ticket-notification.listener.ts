@@ -0,0 +1,101 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import { Ticket, TicketDocument } from './entities/ticket.entity';
+import { TicketStatus } from './enums/ticket-status.enum';
+import { User } from '../users/entities/user.entity';
+import { Route } from '../route/entities/route.entity';
+import { Scheduling } from '../scheduling/entities/scheduling.entity';
+import { EmailService } from '../modules/email/email.service';
+import { SchedulingDelayedEvent } from '../common/events/scheduling-delay.event';
+
+type NotifiedTicket = Omit<Ticket, 'userId' | 'seatId'> & {
+  userId: Pick<User, 'email' | 'firstName' | 'lastName'> | null;
+  seatId: { seatNo: string } | null;
+};
+
+@Injectable()
+export class TicketNotificationListener {
+  private readonly logger = new Logger(TicketNotificationListener.name);
+
+  constructor(
+    @InjectModel(Ticket.name) private ticketModel: Model<TicketDocument>,
+    @InjectModel(Scheduling.name) private schedulingModel: Model<Scheduling>,
+    private readonly emailService: EmailService,
+  ) {}
+
+  /**
+   * Email every passenger holding a paid ticket on the delayed trip
+   * (one email per account, listing all of their seats)
+   */
+  @OnEvent('scheduling.delayed')
+  async handleSchedulingDelayed(event: SchedulingDelayedEvent) {
+    try {
+      const scheduling = await this.schedulingModel
+        .findById(event.schedulingId)
+        .populate<{ routeId: Pick<Route, 'name'> | null }>('routeId', 'name')
+        .lean()
+        .exec();
+
+      const tickets = await this.ticketModel
+        .find({
+          schedulingId: new Types.ObjectId(event.schedulingId),
+          status: TicketStatus.SUCCESS,
+        })
+        .populate('userId', 'email firstName lastName')
+        .populate('seatId', 'seatNo')
+        .lean<NotifiedTicket[]>()
+        .exec();
+
+      const recipients = new Map<string, { name: string; seatNos: string[] }>();
+      for (const ticket of tickets) {
+        const email = ticket.userId?.email;
+        if (!email) continue;
+
+        const recipient = recipients.get(email) ?? {
+          name: [ticket.userId?.firstName, ticket.userId?.lastName]
+            .filter(Boolean)
+            .join(' '),
+          seatNos: [],
+        };
+        const seatNo = ticket.seatId?.seatNo ?? ticket.snapshot?.seat.seatNo;
+        if (seatNo) recipient.seatNos.push(seatNo);
+        recipients.set(email, recipient);
+      }
+
+      const routeName =
+        scheduling?.routeId?.name ??
+        tickets[0]?.snapshot?.route.name ??
+        'CheckItOut';
+
+      let sent = 0;
+      for (const [email, recipient] of recipients) {
+        try {
+          await this.emailService.sendTripDelayEmail(email, recipient.name, {
+            routeName,
+            seatNos: recipient.seatNos,
+            originalDepartureAt: event.originalDepartureAt,
+            expectedDepartureAt: event.expectedDepartureAt,
+            delayMinutes: event.delayMinutes,
+            reason: event.reason,
+          });
+          sent++;
+        } catch (error) {
+          this.logger.warn(
+            `Failed to send delay notice to ${email}: ${error.message}`,
+          );
+        }
+      }
+
+      this.logger.log(
+        `Sent ${sent}/${recipients.size} delay notices for scheduling ${event.schedulingId}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error notifying passengers of delayed scheduling ${event.schedulingId}:`,
+        error,
+      );
+    }
+  }
+}
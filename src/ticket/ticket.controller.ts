@@ -22,8 +22,11 @@ import {
 import type { Request, Response } from 'express';
 import { TicketService } from './ticket.service';
 import { CreateTicketDto } from '../ticket/dto/create-ticket.dto';
+import { CreateBookingDto } from '../ticket/dto/create-booking.dto';
+import { CreateRoundTripDto } from '../ticket/dto/create-round-trip.dto';
 import { UpdateTicketStatusDto } from '../ticket/dto/update-ticket-status.dto';
 import { TransferTicketDto } from '../ticket/dto/transfer-ticket.dto';
+import { CancelTicketDto } from '../ticket/dto/cancel-ticket.dto';
 import { TicketQueryDto } from '../ticket/dto/ticket-query.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
@@ -56,28 +59,7 @@ export class TicketController {
   })
   async create(@Body() dto: CreateTicketDto, @Req() req: any) {
     const userRole = req.user.role;
-    const userPhone = req.user.phone;
-
-    // Determine customer phone based on role
-    let customerPhone: string;
-
-    if (userRole === UserRole.CUSTOMER) {
-      // Customer creates ticket for themselves
-      if (!userPhone) {
-        throw new BadRequestException(
-          'Customer must have a phone number registered',
-        );
-      }
-      customerPhone = userPhone;
-    } else if (userRole === UserRole.ADMIN || userRole === UserRole.SELLER) {
-      // Admin/Seller creates ticket for customer - phone must be provided
-      if (!dto.phone) {
-        throw new BadRequestException('Phone is required to create ticket');
-      }
-      customerPhone = dto.phone;
-    } else {
-      throw new BadRequestException('Invalid user role');
-    }
+    const customerPhone = this.resolveCustomerPhone(req, dto.phone);
 
     // Pass role to service for validation logic
     return this.ticketService.create({ ...dto, phone: customerPhone, createdByRole: userRole });
@@ -90,7 +72,7 @@ export class TicketController {
       - Customer: Auto-uses their phone from JWT token
       - Admin/Seller: Must provide customer phone in request body
       - Auto-creates PRE_REGISTERED user if phone doesn't exist
-      - Creates ticket and immediately returns VNPay payment URL
+      - Creates ticket and immediately returns the payment URL (VNPay, MoMo or ZaloPay)
       - User should redirect to paymentUrl to complete payment
     `,
   })
@@ -123,26 +105,7 @@ export class TicketController {
   })
   async createAndPay(@Body() dto: CreateTicketDto, @Req() req: any) {
     const userRole = req.user.role;
-    const userPhone = req.user.phone;
-
-    // Determine customer phone based on role
-    let customerPhone: string;
-
-    if (userRole === UserRole.CUSTOMER) {
-      if (!userPhone) {
-        throw new BadRequestException(
-          'Customer must have a phone number registered',
-        );
-      }
-      customerPhone = userPhone;
-    } else if (userRole === UserRole.ADMIN || userRole === UserRole.SELLER) {
-      if (!dto.phone) {
-        throw new BadRequestException('Phone is required to create ticket');
-      }
-      customerPhone = dto.phone;
-    } else {
-      throw new BadRequestException('Invalid user role');
-    }
+    const customerPhone = this.resolveCustomerPhone(req, dto.phone);
 
     // 1. Create ticket
     const ticket = await this.ticketService.create({
@@ -156,10 +119,7 @@ export class TicketController {
     }
 
     // 2. Generate payment URL
-    const ipAddr = (req.ip ||
-      (req.headers['x-forwarded-for'] as string) ||
-      req.socket.remoteAddress ||
-      '127.0.0.1') as string;
+    const ipAddr = this.getClientIp(req);
 
     const ticketId = String(ticket._id);
     const payment = await this.ticketService.createPaymentUrl(ticketId, ipAddr);
@@ -171,6 +131,121 @@ export class TicketController {
     };
   }
 
+  @Post('booking')
+  @ApiOperation({
+    summary: 'Book several seats on one scheduling in a single order',
+    description: `
+      - Same customer rules as POST /ticket
+      - Seats are reserved all-or-nothing, one ticket is issued per seat
+      - Optional passenger name/phone per seat
+      - The whole order is paid once (see POST /ticket/booking/create-and-pay)
+    `,
+  })
+  @ApiResponse({ status: 201, description: 'Booking created successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - One or more seats unavailable or invalid data',
+  })
+  async createBooking(@Body() dto: CreateBookingDto, @Req() req: any) {
+    const userRole = req.user.role;
+    const customerPhone = this.resolveCustomerPhone(req, dto.phone);
+
+    return this.ticketService.createBooking({
+      ...dto,
+      phone: customerPhone,
+      createdByRole: userRole,
+    });
+  }
+
+  @Post('booking/create-and-pay')
+  @ApiOperation({
+    summary: 'Create group booking and generate one payment URL',
+    description:
+      'Creates the booking and returns a single payment URL for all seats',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Booking created and payment URL generated',
+  })
+  async createBookingAndPay(@Body() dto: CreateBookingDto, @Req() req: any) {
+    const booking = await this.createBooking(dto, req);
+
+    const payment = await this.ticketService.createPaymentUrl(
+      String(booking.ticketIds[0]._id),
+      this.getClientIp(req),
+    );
+
+    return {
+      booking,
+      payment,
+      message: 'Booking created. Redirect to paymentUrl to complete payment.',
+    };
+  }
+
+  @Post('round-trip')
+  @ApiOperation({
+    summary: 'Book a round trip (outbound + return) in a single order',
+    description: `
+      - Same customer rules as POST /ticket
+      - Return scheduling must run on the reverse route (stations in reverse order)
+      - Both seats are reserved atomically, the two tickets are linked
+      - Round-trip discount rule is applied when better than the date promotion
+    `,
+  })
+  @ApiResponse({ status: 201, description: 'Round trip booked successfully' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad Request - Seat unavailable, routes not reverse or invalid data',
+  })
+  async createRoundTrip(@Body() dto: CreateRoundTripDto, @Req() req: any) {
+    const userRole = req.user.role;
+    const customerPhone = this.resolveCustomerPhone(req, dto.phone);
+
+    return this.ticketService.createRoundTrip({
+      ...dto,
+      phone: customerPhone,
+      createdByRole: userRole,
+    });
+  }
+
+  @Post('round-trip/create-and-pay')
+  @ApiOperation({
+    summary: 'Book a round trip and generate one payment URL',
+    description:
+      'Creates the round-trip booking and returns a single payment URL for both tickets',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Round trip booked and payment URL generated',
+  })
+  async createRoundTripAndPay(
+    @Body() dto: CreateRoundTripDto,
+    @Req() req: any,
+  ) {
+    const booking = await this.createRoundTrip(dto, req);
+
+    const payment = await this.ticketService.createPaymentUrl(
+      String(booking.ticketIds[0]._id),
+      this.getClientIp(req),
+    );
+
+    return {
+      booking,
+      payment,
+      message: 'Round trip booked. Redirect to paymentUrl to complete payment.',
+    };
+  }
+
+  @Get('booking/:id')
+  @ApiOperation({ summary: 'Get group booking by ID' })
+  @ApiParam({ name: 'id', description: 'Booking ID' })
+  @ApiResponse({ status: 200, description: 'Booking with its tickets' })
+  @ApiResponse({ status: 404, description: 'Booking not found' })
+  findBooking(@Param('id') id: string) {
+    return this.ticketService.findBooking(id);
+  }
+
   @Get()
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.SELLER)
@@ -278,12 +353,37 @@ export class TicketController {
       'Preview the final price including promotion before creating a ticket',
   })
   @ApiParam({ name: 'schedulingId', description: 'Scheduling ID' })
+  @ApiQuery({
+    name: 'seatId',
+    required: false,
+    description: 'Apply seat class/position fare modifiers of this seat',
+  })
+  @ApiQuery({
+    name: 'boardingStationId',
+    required: false,
+    description: 'Boarding station (default: first stop of the route)',
+  })
+  @ApiQuery({
+    name: 'alightingStationId',
+    required: false,
+    description: 'Alighting station (default: last stop of the route)',
+  })
   @ApiResponse({
     status: 200,
     description: 'Price preview with promotion details',
   })
-  calculatePreview(@Param('schedulingId') schedulingId: string) {
-    return this.ticketService.calculatePricePreview(schedulingId);
+  calculatePreview(
+    @Param('schedulingId') schedulingId: string,
+    @Query('seatId') seatId?: string,
+    @Query('boardingStationId') boardingStationId?: string,
+    @Query('alightingStationId') alightingStationId?: string,
+  ) {
+    return this.ticketService.calculatePricePreview(
+      schedulingId,
+      seatId,
+      boardingStationId,
+      alightingStationId,
+    );
   }
 
   @Get(':id')
@@ -392,6 +492,42 @@ export class TicketController {
     return this.ticketService.transfer(id, dto);
   }
 
+  @Get(':id/refund-quote')
+  @ApiOperation({
+    summary: 'Preview refund if the ticket is cancelled now',
+    description:
+      'Refund percentage follows the route refund policy (or the default policy)',
+  })
+  @ApiParam({ name: 'id', description: 'Ticket ID' })
+  @ApiResponse({ status: 200, description: 'Refund quote' })
+  getRefundQuote(@Param('id') id: string, @Req() req: any) {
+    return this.ticketService.getRefundQuote(id, req.user);
+  }
+
+  @Post(':id/cancel')
+  @ApiOperation({
+    summary: 'Cancel a ticket',
+    description: `
+      - Customer: can cancel their own PENDING/SUCCESS tickets before departure
+      - Admin/Seller: can cancel any ticket
+      - Refund amount is calculated by the refund policy and stored on the ticket
+      - Seat is released and scheduling seat counters are updated
+    `,
+  })
+  @ApiParam({ name: 'id', description: 'Ticket ID' })
+  @ApiResponse({ status: 200, description: 'Ticket cancelled' })
+  @ApiResponse({
+    status: 400,
+    description: 'Ticket cannot be cancelled (status or departure passed)',
+  })
+  cancel(
+    @Param('id') id: string,
+    @Body() dto: CancelTicketDto,
+    @Req() req: any,
+  ) {
+    return this.ticketService.cancel(id, dto, req.user);
+  }
+
   @Post(':id/fail')
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.SELLER)
@@ -681,4 +817,38 @@ export class TicketController {
       limit: limit ? parseInt(String(limit), 10) : 10,
     });
   }
+
+  /**
+   * Determine customer phone based on role
+   * - Customer books for themselves (phone from JWT)
+   * - Admin/Seller books for a customer (phone must be provided)
+   */
+  private resolveCustomerPhone(req: any, phone?: string): string {
+    const userRole = req.user.role;
+
+    if (userRole === UserRole.CUSTOMER) {
+      if (!req.user.phone) {
+        throw new BadRequestException(
+          'Customer must have a phone number registered',
+        );
+      }
+      return req.user.phone;
+    }
+
+    if (userRole === UserRole.ADMIN || userRole === UserRole.SELLER) {
+      if (!phone) {
+        throw new BadRequestException('Phone is required to create ticket');
+      }
+      return phone;
+    }
+
+    throw new BadRequestException('Invalid user role');
+  }
+
+  private getClientIp(req: any): string {
+    return (req.ip ||
+      (req.headers['x-forwarded-for'] as string) ||
+      req.socket.remoteAddress ||
+      '127.0.0.1') as string;
+  }
 }
@@ -3,8 +3,27 @@ import { MongooseModule } from '@nestjs/mongoose';
 import { ConfigModule } from '@nestjs/config';
 import { TicketService } from './ticket.service';
 import { TicketController } from './ticket.controller';
+import { TicketLookupController } from './ticket-lookup.controller';
 import { TicketCronService } from '../ticket/ticket-cron.service';
+import { TicketNotificationListener } from './ticket-notification.listener';
+import { TripCancellationService } from './trip-cancellation.service';
+import { TripCancellationController } from './trip-cancellation.controller';
+import { BusSwapService } from './bus-swap.service';
+import { BusSwapController } from './bus-swap.controller';
 import { Ticket, TicketSchema } from './entities/ticket.entity';
+import { Booking, BookingSchema } from './entities/booking.entity';
+import {
+  RefundTransaction,
+  RefundTransactionSchema,
+} from './entities/refund-transaction.entity';
+import {
+  PaymentAttempt,
+  PaymentAttemptSchema,
+} from './entities/payment-attempt.entity';
+import {
+  TripCancellation,
+  TripCancellationSchema,
+} from './entities/trip-cancellation.entity';
 import { Seat, SeatSchema } from '../seat/entities/seat.entity';
 import {
   Scheduling,
@@ -16,13 +35,22 @@ import { PromotionModule } from '../promotion/promotion.module';
 import { AuthModule } from '../auth/auth.module';
 import { SeatModule } from '../seat/seat.module';
 import { UsersModule } from '../users/users.module';
-import { VNPayService } from '../vnpay/vnpay.service';
+import { RefundPolicyModule } from '../refund-policy/refund-policy.module';
+import { FareModifierModule } from '../fare-modifier/fare-modifier.module';
+import { PricingCurveModule } from '../pricing-curve/pricing-curve.module';
+import { PaymentProviderModule } from '../payment-provider/payment-provider.module';
+import { EmailModule } from '../modules/email/email.module';
+import { SchedulingModule } from '../scheduling/scheduling.module';
 
 @Module({
   imports: [
     ConfigModule,
     MongooseModule.forFeature([
       { name: Ticket.name, schema: TicketSchema },
+      { name: Booking.name, schema: BookingSchema },
+      { name: RefundTransaction.name, schema: RefundTransactionSchema },
+      { name: PaymentAttempt.name, schema: PaymentAttemptSchema },
+      { name: TripCancellation.name, schema: TripCancellationSchema },
       { name: Seat.name, schema: SeatSchema },
       { name: Scheduling.name, schema: SchedulingSchema },
       { name: Route.name, schema: RouteSchema },
@@ -32,9 +60,26 @@ import { VNPayService } from '../vnpay/vnpay.service';
     AuthModule,
     SeatModule,
     UsersModule,
+    RefundPolicyModule,
+    FareModifierModule,
+    PricingCurveModule,
+    PaymentProviderModule,
+    EmailModule,
+    SchedulingModule,
+  ],
+  providers: [
+    TicketService,
+    TicketCronService,
+    TicketNotificationListener,
+    TripCancellationService,
+    BusSwapService,
+  ],
+  controllers: [
+    TicketController,
+    TicketLookupController,
+    TripCancellationController,
+    BusSwapController,
   ],
-  providers: [TicketService, TicketCronService, VNPayService],
-  controllers: [TicketController],
   exports: [TicketService],
 })
 export class TicketModule {}
@@ -0,0 +1,315 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Types } from 'mongoose';
+import { TicketService } from './ticket.service';
+import { Ticket } from './entities/ticket.entity';
+import { Booking } from './entities/booking.entity';
+import { RefundTransaction } from './entities/refund-transaction.entity';
+import {
+  PaymentAttempt,
+  PaymentAttemptStatus,
+} from './entities/payment-attempt.entity';
+import { TicketStatus } from './enums/ticket-status.enum';
+import { Scheduling } from '../scheduling/entities/scheduling.entity';
+import { Route } from '../route/entities/route.entity';
+import { User } from '../users/entities/user.entity';
+import { SeatService } from '../seat/seat.service';
+import { SeatLockService } from '../seat/services/seat-lock.service';
+import { PromotionService } from '../promotion/promotion.service';
+import { PaymentProviderService } from '../payment-provider/payment-provider.service';
+import { PaymentProviderName } from '../payment-provider/enums/payment-provider.enum';
+import { PaymentCallbackResult } from '../payment-provider/interfaces/payment-provider.interface';
+import { UserActivityService } from '../users/user-activity.service';
+import { RefundPolicyService } from '../refund-policy/refund-policy.service';
+import { FareModifierService } from '../fare-modifier/fare-modifier.service';
+import { PricingCurveService } from '../pricing-curve/pricing-curve.service';
+
+// Keep the heavy service graphs (Redis, provider SDKs) out of this test
+jest.mock('../seat/seat.service', () => ({
+  SeatService: class SeatService {},
+}));
+jest.mock('../seat/services/seat-lock.service', () => ({
+  SeatLockService: class SeatLockService {},
+}));
+jest.mock('../payment-provider/payment-provider.service', () => ({
+  PaymentProviderService: class PaymentProviderService {},
+}));
+// Read the QR payload back as text
+jest.mock('qrcode', () => ({
+  toBuffer: (text: string) => Promise.resolve(Buffer.from(text)),
+}));
+
+describe('TicketService', () => {
+  let service: TicketService;
+
+  describe('payment IPN', () => {
+    const ticketId = new Types.ObjectId();
+    let attempt: { _id: Types.ObjectId; ticketId: Types.ObjectId } & Record<
+      string,
+      unknown
+    >;
+    let ticket: Record<string, unknown> & { save: jest.Mock };
+
+    const ipn: PaymentCallbackResult = {
+      isValid: true,
+      isSuccess: true,
+      orderId: 'TICKET_1_1704369845',
+      amount: 250000,
+      providerTransactionNo: '14226112',
+      responseCode: '00',
+      message: 'Giao dịch thành công',
+      raw: {},
+    };
+
+    // Atomic claim: only the first update of a PENDING attempt matches
+    const paymentAttemptModel = {
+      findOne: jest.fn(() => ({ exec: () => Promise.resolve({ ...attempt }) })),
+      findOneAndUpdate: jest.fn(
+        (
+          filter: { status: PaymentAttemptStatus },
+          update: { $set: Record<string, unknown> },
+        ) => ({
+          exec: () => {
+            if (attempt.status !== filter.status) return Promise.resolve(null);
+            Object.assign(attempt, update.$set);
+            return Promise.resolve({ ...attempt });
+          },
+        }),
+      ),
+    };
+    const ticketModel = {
+      findById: jest.fn(() => ({ exec: () => Promise.resolve(ticket) })),
+      find: jest.fn(() => ({
+        exec: () =>
+          Promise.resolve(
+            ticket.status === TicketStatus.PENDING ? [ticket] : [],
+          ),
+      })),
+    };
+    const seatService = {
+      sellPaidSeat: jest.fn(() => Promise.resolve(true)),
+      syncSeatCounts: jest.fn(),
+    };
+    const gateway = {
+      verifyCallback: jest.fn(() => ipn),
+      buildCallbackAck: jest.fn((outcome: string) => ({ outcome })),
+    };
+
+    beforeEach(async () => {
+      jest.clearAllMocks();
+      attempt = {
+        _id: new Types.ObjectId(),
+        ticketId,
+        bookingId: null,
+        provider: PaymentProviderName.VNPAY,
+        orderId: ipn.orderId,
+        amount: 250000,
+        status: PaymentAttemptStatus.PENDING,
+      };
+      ticket = {
+        _id: ticketId,
+        seatId: new Types.ObjectId(),
+        schedulingId: new Types.ObjectId(),
+        totalPrice: 250000,
+        status: TicketStatus.PENDING,
+        snapshot: { seat: { seatNo: 'A01' } },
+        save: jest.fn(),
+      };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          TicketService,
+          { provide: getModelToken(Ticket.name), useValue: ticketModel },
+          { provide: getModelToken(Booking.name), useValue: {} },
+          { provide: getModelToken(RefundTransaction.name), useValue: {} },
+          {
+            provide: getModelToken(PaymentAttempt.name),
+            useValue: paymentAttemptModel,
+          },
+          { provide: getModelToken(Scheduling.name), useValue: {} },
+          { provide: getModelToken(Route.name), useValue: {} },
+          { provide: getModelToken(User.name), useValue: {} },
+          { provide: SeatService, useValue: seatService },
+          { provide: SeatLockService, useValue: {} },
+          { provide: PromotionService, useValue: {} },
+          { provide: PaymentProviderService, useValue: { get: () => gateway } },
+          { provide: UserActivityService, useValue: {} },
+          { provide: RefundPolicyService, useValue: {} },
+          { provide: FareModifierService, useValue: {} },
+          { provide: PricingCurveService, useValue: {} },
+          { provide: ConfigService, useValue: { get: () => undefined } },
+          { provide: EventEmitter2, useValue: { emit: jest.fn() } },
+        ],
+      }).compile();
+
+      service = module.get<TicketService>(TicketService);
+    });
+
+    it('should confirm the ticket once when the IPN is delivered again', async () => {
+      const first = await service.handlePaymentNotification(
+        PaymentProviderName.VNPAY,
+        {},
+      );
+      const retry = await service.handlePaymentNotification(
+        PaymentProviderName.VNPAY,
+        {},
+      );
+
+      expect(first).toEqual({ outcome: 'CONFIRMED' });
+      expect(retry).toEqual({ outcome: 'ALREADY_CONFIRMED' });
+      expect(ticket.status).toBe(TicketStatus.SUCCESS);
+      expect(ticket.save).toHaveBeenCalledTimes(1);
+      expect(seatService.sellPaidSeat).toHaveBeenCalledTimes(1);
+    });
+
+    it('should settle concurrent duplicate IPNs only once', async () => {
+      const outcomes = await Promise.all([
+        service.handlePaymentNotification(PaymentProviderName.VNPAY, {}),
+        service.handlePaymentNotification(PaymentProviderName.VNPAY, {}),
+      ]);
+
+      expect(outcomes).toEqual(
+        expect.arrayContaining([
+          { outcome: 'CONFIRMED' },
+          { outcome: 'ALREADY_CONFIRMED' },
+        ]),
+      );
+      expect(paymentAttemptModel.findOneAndUpdate).toHaveBeenCalledTimes(2);
+      expect(seatService.sellPaidSeat).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refund instead of selling a seat re-claimed after the hold lapsed', async () => {
+      // Hold expired and another ticket claimed the seat before the IPN
+      seatService.sellPaidSeat.mockResolvedValueOnce(false);
+      const refundPayment = jest
+        .spyOn(service, 'refundPayment')
+        .mockResolvedValue(
+          {} as Awaited<ReturnType<typeof service.refundPayment>>,
+        );
+
+      const outcome = await service.handlePaymentNotification(
+        PaymentProviderName.VNPAY,
+        {},
+      );
+
+      expect(outcome).toEqual({ outcome: 'CONFIRMED' });
+      expect(attempt.status).toBe(PaymentAttemptStatus.SUCCESS);
+      expect(ticket).toMatchObject({
+        status: TicketStatus.CANCELLED,
+        refundPercent: 100,
+        refundAmount: 250000,
+      });
+      expect(ticket.paidAt).toBeInstanceOf(Date);
+      expect(refundPayment).toHaveBeenCalledWith(
+        ticketId.toHexString(),
+        'system',
+        '127.0.0.1',
+      );
+    });
+  });
+
+  describe('generateQRCode', () => {
+    const station = (name: string) => ({
+      _id: new Types.ObjectId(),
+      name,
+      address: `Bến xe ${name}`,
+    });
+    const stations = ['Hà Nội', 'Vinh', 'Huế', 'Đà Nẵng'].map(station);
+    let ticket: Record<string, unknown>;
+
+    const query = <T>(value: () => T) => {
+      const chain = {
+        populate: () => chain,
+        select: () => chain,
+        lean: () => chain,
+        exec: () => Promise.resolve(value()),
+      };
+      return chain;
+    };
+    // No code is taken when checked; the unique index may still reject one
+    const ticketModel = {
+      findById: jest.fn(() => query(() => ticket)),
+      find: jest.fn(() => query(() => [])),
+      updateOne: jest.fn(
+        (_filter: unknown, update: { $set: { bookingCode: string } }) => {
+          ticket.bookingCode = update.$set.bookingCode;
+          return Promise.resolve({ modifiedCount: 1 });
+        },
+      ),
+    };
+    const bookingModel = { find: jest.fn(() => query(() => [])) };
+
+    const qrPayload = async () =>
+      JSON.parse(
+        (await service.generateQRCode(String(ticket._id))).toString(),
+      ) as Record<string, unknown>;
+
+    beforeEach(async () => {
+      jest.clearAllMocks();
+      ticket = {
+        _id: new Types.ObjectId(),
+        bookingCode: 'K7M2QX',
+        userId: { firstName: 'An', lastName: 'Nguyễn', phone: '0901234567' },
+        seatId: { seatNo: 'A01' },
+        schedulingId: {
+          departureDate: new Date('2030-03-01'),
+          etd: '08:00',
+          routeId: { stationIds: stations },
+        },
+        boardingStationId: null,
+        alightingStationId: null,
+      };
+
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          TicketService,
+          { provide: getModelToken(Ticket.name), useValue: ticketModel },
+          { provide: getModelToken(Booking.name), useValue: bookingModel },
+        ],
+      })
+        .useMocker(() => ({}))
+        .compile();
+
+      service = module.get<TicketService>(TicketService);
+    });
+
+    it('should print the stations the ticket was sold for', async () => {
+      ticket.snapshot = {
+        route: {
+          from: { stationId: String(stations[1]._id), name: 'Vinh' },
+          to: { stationId: String(stations[2]._id), name: 'Huế' },
+        },
+      };
+
+      expect(await qrPayload()).toMatchObject({ from: 'Vinh', to: 'Huế' });
+    });
+
+    it('should fall back to the route ends for stations the ticket leaves open', async () => {
+      ticket.boardingStationId = stations[1]._id;
+
+      expect(await qrPayload()).toMatchObject({ from: 'Vinh', to: 'Đà Nẵng' });
+    });
+
+    it('should draw a new booking code when a concurrent insert took it', async () => {
+      delete ticket.bookingCode;
+      ticketModel.updateOne.mockRejectedValueOnce(
+        Object.assign(
+          new Error('E11000 duplicate key error index: bookingCode_1'),
+          { code: 11000 },
+        ),
+      );
+
+      const { bookingCode } = await qrPayload();
+
+      expect(ticketModel.updateOne).toHaveBeenCalledTimes(2);
+      expect(bookingCode).toBe(
+        ticketModel.updateOne.mock.calls[1][1].$set.bookingCode,
+      );
+      expect(bookingCode).not.toBe(
+        ticketModel.updateOne.mock.calls[0][1].$set.bookingCode,
+      );
+    });
+  });
+});
@@ -1,9 +1,12 @@
 import {
   Injectable,
+  Logger,
   BadRequestException,
   NotFoundException,
 } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Model, Types } from 'mongoose';
 import * as QRCode from 'qrcode';
 import PDFDocument from 'pdfkit';
@@ -14,6 +17,7 @@ import {
 } from './entities/ticket.entity';
 import { TicketStatus } from './enums/ticket-status.enum';
 import { SeatService } from '../seat/seat.service';
+import { SeatLock, SeatLockService } from '../seat/services/seat-lock.service';
 import {
   Scheduling,
   SchedulingDocument,
@@ -25,16 +29,103 @@ import { UserRole } from '../users/enums/user-role.enum';
 import { UserActivityService } from '../users/user-activity.service';
 import { UserActivityAction } from '../users/enums/user-activity-action.enum';
 import { PromotionService } from '../promotion/promotion.service';
+import { RefundPolicyService } from '../refund-policy/refund-policy.service';
+import {
+  FareModifierService,
+  SeatFare,
+} from '../fare-modifier/fare-modifier.service';
+import { PricingCurveService } from '../pricing-curve/pricing-curve.service';
+import { DynamicPrice } from '../pricing-curve/entities/pricing-curve.entity';
 import { CreateTicketDto } from './dto/create-ticket.dto';
+import { CreateBookingDto } from './dto/create-booking.dto';
+import { CreateRoundTripDto } from './dto/create-round-trip.dto';
+import { TripLeg } from './enums/trip-leg.enum';
+import { Booking, BookingDocument } from './entities/booking.entity';
+import {
+  RefundTransaction,
+  RefundTransactionDocument,
+  RefundTransactionStatus,
+} from './entities/refund-transaction.entity';
 import { UpdateTicketStatusDto } from './dto/update-ticket-status.dto';
 import { TransferTicketDto } from './dto/transfer-ticket.dto';
+import { CancelTicketDto } from './dto/cancel-ticket.dto';
 import { TicketQueryDto } from './dto/ticket-query.dto';
 import { PaginatedResult } from '../common/dto/pagination.dto';
-import { SeatStatus } from '../seat/enums/seat-status.enum';
 import { PaymentMethod } from './enums/payment-method.enum';
-import { VNPayService } from '../vnpay/vnpay.service';
+import {
+  PaymentAttempt,
+  PaymentAttemptDocument,
+  PaymentAttemptStatus,
+} from './entities/payment-attempt.entity';
+import { PaymentProviderService } from '../payment-provider/payment-provider.service';
+import { PaymentProviderName } from '../payment-provider/enums/payment-provider.enum';
+import {
+  PaymentCallbackOutcome,
+  PaymentCallbackResult,
+  RefundStatus,
+} from '../payment-provider/interfaces/payment-provider.interface';
 import { Seat } from '../seat/entities/seat.entity';
 import { Promotion } from '../promotion/entities/promotion.entity';
+import { PromotionType } from '../promotion/enums/promotion-type.enum';
+import {
+  SeatHoldCreatedEvent,
+  SeatHoldReleasedEvent,
+} from '../common/events/seat-hold.event';
+import {
+  RouteSegment,
+  calculateSegmentFare,
+  getSegmentDistance,
+  isFullRoute,
+  resolveRouteSegment,
+} from '../common/utils/route-segment.util';
+import {
+  generateBookingCode,
+  isBookingCodeConflict,
+  normalizeBookingCode,
+} from '../common/utils/booking-code.util';
+import {
+  ScheduledDeparture,
+  getDepartureAt,
+} from '../common/utils/departure-time.util';
+
+// Fresh codes drawn when a concurrent insert takes a booking code
+const BOOKING_CODE_ATTEMPTS = 5;
+
+// Payment fields stored on tickets/bookings before PaymentAttempt existed
+type LegacyVNPayPayment = {
+  vnpayTransactionNo?: string;
+  bankCode?: string;
+  responseCode?: string;
+  responseMessage?: string;
+  paymentCreatedAt?: Date;
+  createdAt?: Date;
+};
+
+// Route stop populated with the fields used for segments and snapshots
+type RouteStop = {
+  _id: Types.ObjectId;
+  name: string;
+  location?: { coordinates: [number, number] };
+};
+
+// Boarding/alighting part of a scheduling's route, priced
+interface TripSegment extends RouteSegment {
+  from: RouteStop;
+  to: RouteStop;
+  isFullTrip: boolean;
+  distance: number; // km
+  basePrice: number; // Scheduling price, or the segment fare
+}
+
+interface TicketStations {
+  boardingStationId?: string | null;
+  alightingStationId?: string | null;
+}
+
+interface SnapshotOptions extends TicketStations {
+  dynamicPricing?: DynamicPrice | null; // Giá động đã chốt lúc đặt vé
+  fare?: SeatFare | null; // Giá ghế (phụ thu hạng/vị trí) đã chốt lúc đặt vé
+}
 
 // Type helper for populated ticket documents
 type TicketPopulated = TicketDocument & {
@@ -46,18 +137,38 @@ type TicketPopulated = TicketDocument & {
   updatedAt: Date;
 };
 
+// Populated route station printed on a ticket
+type TicketStop = {
+  _id?: Types.ObjectId;
+  name: string;
+  address?: string;
+};
+
 @Injectable()
 export class TicketService {
+  private readonly logger = new Logger(TicketService.name);
+
   constructor(
     @InjectModel(Ticket.name) private ticketModel: Model<TicketDocument>,
+    @InjectModel(Booking.name) private bookingModel: Model<BookingDocument>,
+    @InjectModel(RefundTransaction.name)
+    private refundTransactionModel: Model<RefundTransactionDocument>,
+    @InjectModel(PaymentAttempt.name)
+    private paymentAttemptModel: Model<PaymentAttemptDocument>,
     @InjectModel(Scheduling.name)
     private schedulingModel: Model<SchedulingDocument>,
     @InjectModel(Route.name) private routeModel: Model<RouteDocument>,
     @InjectModel(User.name) private userModel: Model<UserDocument>,
     private readonly seatService: SeatService,
+    private readonly seatLockService: SeatLockService,
     private readonly promotionService: PromotionService,
-    private readonly vnpayService: VNPayService,
+    private readonly paymentProviderService: PaymentProviderService,
     private readonly userActivityService: UserActivityService,
+    private readonly refundPolicyService: RefundPolicyService,
+    private readonly fareModifierService: FareModifierService,
+    private readonly pricingCurveService: PricingCurveService,
+    private readonly configService: ConfigService,
+    private readonly eventEmitter: EventEmitter2,
   ) { }
 
   // ============================================
@@ -68,6 +179,7 @@ export class TicketService {
     schedulingId: Types.ObjectId,
     promotionId: Types.ObjectId,
     totalPrice: number,
+    options: SnapshotOptions = {},
   ): Promise<TicketSnapshot> {
     const [seat, scheduling, promotion] = await Promise.all([
       this.seatService.getSeatForSnapshot(seatId.toString()),
@@ -83,21 +195,29 @@ export class TicketService {
       throw new BadRequestException('Scheduling must have price for snapshot');
     }
 
-    const route = await this.routeModel
-      .findById(scheduling.routeId)
-      .populate('stationIds', 'name')
-      .lean();
-
-    if (!route || !route.stationIds?.length) {
+    const route = await this.routeModel.findById(scheduling.routeId).lean();
+    if (!route) {
       throw new BadRequestException('Invalid route data');
     }
 
-    type PopulatedStation = { _id: Types.ObjectId; name: string };
-    const stations = route.stationIds as unknown as PopulatedStation[];
-    const fromStation = stations[0];
-    const toStation = stations[stations.length - 1];
-
-    const originalPrice = scheduling.price;
+    const segment = await this.getTripSegment(
+      scheduling,
+      options.boardingStationId,
+      options.alightingStationId,
+      true,
+    );
+    const fromStation = segment.from;
+    const toStation = segment.to;
+
+    // Fare modifiers may have changed since booking: keep the charged fare
+    const fare =
+      options.fare ??
+      (await this.fareModifierService.calculateSeatFare(
+        options.dynamicPricing?.price ?? segment.basePrice,
+        seat,
+        scheduling.routeId,
+      ));
+    const originalPrice = fare.seatPrice;
     const discountAmount = this.promotionService.calculateDiscount(
       originalPrice,
       promotion.value,
@@ -128,6 +248,7 @@ export class TicketService {
           name: toStation.name,
         },
         distance: route.distance ?? 0,
+        segmentDistance: segment.isFullTrip ? undefined : segment.distance,
         etd: route.etd,
       },
       promotion: {
@@ -138,6 +259,10 @@ export class TicketService {
         description: promotion.description,
       },
       pricing: {
+        basePrice: fare.basePrice,
+        dynamicPricing: options.dynamicPricing ?? undefined,
+        seatSurcharge: fare.seatSurcharge,
+        fareModifiers: fare.fareModifiers,
         originalPrice,
         promotionValue: promotion.value,
         discountAmount,
@@ -150,10 +275,16 @@ export class TicketService {
   }
 
   // ============================================
-  // CREATE TICKET (using phone with auto-user-creation)
+  // BOOKING HELPERS (shared by single ticket & group booking)
   // ============================================
-  async create(dto: CreateTicketDto) {
-    // 1. Find or create user by phone (atomic operation using upsert)
+  /**
+   * Find or create customer by phone (atomic operation using upsert)
+   */
+  private async findOrCreateCustomer(dto: {
+    phone?: string;
+    firstName?: string;
+    lastName?: string;
+  }): Promise<UserDocument> {
     const user = await this.userModel
       .findOneAndUpdate(
         { phone: dto.phone },
@@ -203,20 +334,36 @@ export class TicketService {
       );
     }
 
-    // 2. Get and validate scheduling
-    const scheduling = await this.schedulingModel
-      .findById(dto.schedulingId)
-      .exec();
+    return user;
+  }
+
+  /**
+   * Validate scheduling can be booked and calculate expired time
+   * (3 hours before departure)
+   */
+  private async getBookableScheduling(
+    schedulingId: string,
+    createdByRole?: string,
+    holdMinutes?: number,
+  ): Promise<{
+    scheduling: SchedulingDocument;
+    price: number;
+    expiredTime: Date;
+  }> {
+    const scheduling = await this.schedulingModel.findById(schedulingId).exec();
     if (!scheduling) {
       throw new NotFoundException('Scheduling not found');
     }
+    if (scheduling.status === 'cancelled') {
+      throw new BadRequestException('Scheduling has been cancelled');
+    }
     if (!scheduling.price) {
       throw new BadRequestException(
         'Scheduling does not have price information',
       );
     }
 
-    // 3. Validate scheduling is in the future
+    // Validate scheduling is in the future
     const now = new Date();
     const departureTime = new Date(scheduling.departureDate).getTime();
     const currentTime = now.getTime();
@@ -225,53 +372,511 @@ export class TicketService {
       throw new BadRequestException('Cannot book ticket for past scheduling');
     }
 
-    // 4. Calculate expired time (3 hours before departure)
-    const expiredTime = new Date(scheduling.departureDate);
-    expiredTime.setHours(expiredTime.getHours() - 3);
-
     // Only enforce 3-hour rule for CUSTOMER role
     // ADMIN/SELLER can create tickets within 3 hours for walk-in customers
-    const isCustomer = dto.createdByRole === UserRole.CUSTOMER;
-    if (isCustomer && expiredTime <= now) {
+    const isCustomer = createdByRole === UserRole.CUSTOMER;
+    if (isCustomer && this.getBookingCutoff(scheduling.departureDate) <= now) {
       throw new BadRequestException(
         'Cannot book ticket: departure time is too soon (less than 3 hours from now)',
       );
     }
 
-    // 5. Check seat availability
+    const expiredTime = this.getPaymentHoldExpiry(
+      scheduling.departureDate,
+      isCustomer,
+      now,
+      holdMinutes,
+    );
+
+    return { scheduling, price: scheduling.price, expiredTime };
+  }
+
+  /**
+   * Customers must finish booking 3 hours before departure
+   */
+  private getBookingCutoff(departureDate: Date): Date {
+    const cutoff = new Date(departureDate);
+    cutoff.setHours(cutoff.getHours() - 3);
+    return cutoff;
+  }
+
+  /**
+   * Seats of a PENDING ticket are held for the payment window
+   * (PAYMENT_WINDOW_MINUTES unless given), never past the booking cutoff
+   */
+  private getPaymentHoldExpiry(
+    departureDate: Date,
+    isCustomer: boolean,
+    now: Date = new Date(),
+    holdMinutes?: number,
+  ): Date {
+    const windowMinutes =
+      holdMinutes ??
+      Number(this.configService.get<string>('PAYMENT_WINDOW_MINUTES') ?? 15);
+    const windowEnd = now.getTime() + windowMinutes * 60 * 1000;
+    const cutoff = isCustomer
+      ? this.getBookingCutoff(departureDate)
+      : new Date(departureDate);
+
+    return new Date(Math.min(windowEnd, cutoff.getTime()));
+  }
+
+  /**
+   * Let SeatGateway turn the user's socket locks into the payment hold
+   */
+  private emitSeatsHeld(
+    schedulingId: string,
+    seatNos: string[],
+    holdExpiresAt: Date,
+    userId: Types.ObjectId,
+  ) {
+    this.eventEmitter.emit(
+      'seat.hold.created',
+      new SeatHoldCreatedEvent(
+        schedulingId,
+        seatNos,
+        holdExpiresAt,
+        userId.toString(),
+      ),
+    );
+  }
+
+  /**
+   * A seat someone else is picking (socket lock) can't be booked by this user.
+   * Without Redis the locks can't be read; the inventory hold still guards the seat.
+   */
+  private async assertSeatsNotLockedByOthers(
+    schedulingId: string,
+    seatNos: string[],
+    userId: Types.ObjectId,
+  ) {
+    for (const seatNo of seatNos) {
+      let lock: SeatLock | null;
+      try {
+        lock = await this.seatLockService.getLock(schedulingId, seatNo);
+      } catch (error) {
+        this.logger.warn(
+          `Seat lock check unavailable for seat ${seatNo}: ${(error as Error).message}`,
+        );
+        return;
+      }
+
+      if (lock && lock.userId !== userId.toString()) {
+        throw new BadRequestException(
+          `Seat ${seatNo} is being selected by another customer`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Booking codes not used yet by a ticket or a booking. The check is not
+   * atomic: the unique indexes reject a code taken by a concurrent insert of
+   * the same collection (see insertWithBookingCodes), but a ticket and a
+   * booking can still end up sharing a code, and the guest lookup then
+   * resolves it to the booking.
+   */
+  private async generateBookingCodes(count: number): Promise<string[]> {
+    const codes = new Set<string>();
+    while (codes.size < count) {
+      const candidates = Array.from(
+        { length: count - codes.size },
+        generateBookingCode,
+      );
+      const filter = { bookingCode: { $in: candidates } };
+      const [tickets, bookings] = await Promise.all([
+        this.ticketModel.find(filter).select('bookingCode').lean().exec(),
+        this.bookingModel.find(filter).select('bookingCode').lean().exec(),
+      ]);
+      const taken = new Set(
+        [...tickets, ...bookings].map((item) => item.bookingCode),
+      );
+      for (const code of candidates) {
+        if (!taken.has(code)) codes.add(code);
+      }
+    }
+    return [...codes];
+  }
+
+  /**
+   * Write documents with fresh booking codes, drawing new codes when a
+   * concurrent insert took one of them in between (duplicate key).
+   * discard undoes a partial write before the next attempt.
+   */
+  private async insertWithBookingCodes<T>(
+    count: number,
+    insert: (codes: string[]) => Promise<T>,
+    discard?: () => Promise<unknown>,
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const codes = await this.generateBookingCodes(count);
+      try {
+        return await insert(codes);
+      } catch (error) {
+        if (attempt >= BOOKING_CODE_ATTEMPTS || !isBookingCodeConflict(error)) {
+          throw error;
+        }
+        this.logger.warn('Booking code taken concurrently, retrying');
+        await discard?.();
+      }
+    }
+  }
+
+  /**
+   * Tickets issued before booking codes existed get one when first printed
+   */
+  private async ensureBookingCode(ticket: TicketDocument): Promise<string> {
+    if (!ticket.bookingCode) {
+      const bookingCode = await this.insertWithBookingCodes(
+        1,
+        async ([code]) => {
+          await this.ticketModel.updateOne(
+            { _id: ticket._id, bookingCode: { $exists: false } },
+            { $set: { bookingCode: code } },
+          );
+          return code;
+        },
+      );
+      const saved = await this.ticketModel
+        .findById(ticket._id)
+        .select('bookingCode')
+        .lean()
+        .exec();
+      ticket.bookingCode = saved?.bookingCode ?? bookingCode;
+    }
+    return ticket.bookingCode;
+  }
+
+  /**
+   * Seats free again: SeatGateway updates seat maps, the waitlist offers them
+   */
+  private emitSeatsReleased(schedulingId: string, seatNos: string[]) {
+    this.eventEmitter.emit(
+      'seat.hold.released',
+      new SeatHoldReleasedEvent(schedulingId, seatNos),
+    );
+  }
+
+  /**
+   * Find applicable promotion (by code if provided, otherwise by date)
+   */
+  private async resolvePromotion(
+    departureDate: Date,
+    promotionCode?: string,
+  ): Promise<Promotion> {
+    if (promotionCode) {
+      const promotion = await this.promotionService.findByCode(promotionCode);
+      // Round-trip rules are applied automatically, only to round trips
+      if (promotion.type === PromotionType.ROUND_TRIP) {
+        throw new BadRequestException(
+          `Promotion '${promotionCode}' only applies to round-trip bookings`,
+        );
+      }
+      return promotion;
+    }
+    return this.promotionService.findApplicablePromotion(departureDate);
+  }
+
+  /**
+   * Online payment gateway for BANKING tickets (VNPay by default)
+   */
+  private resolvePaymentProvider(
+    paymentMethod: PaymentMethod,
+    paymentProvider?: PaymentProviderName,
+  ): PaymentProviderName | undefined {
+    if (paymentMethod !== PaymentMethod.BANKING) return undefined;
+    return paymentProvider ?? PaymentProviderName.VNPAY;
+  }
+
+  /**
+   * Seat price before promotion: scheduling price + seat class/position modifiers
+   */
+  private async getSeatFare(
+    scheduling: Pick<Scheduling, 'price' | 'routeId'>,
+    seatId: string,
+    basePrice = scheduling.price ?? 0,
+  ): Promise<SeatFare> {
+    const seat = await this.seatService.getSeatById(seatId);
+    return this.fareModifierService.calculateSeatFare(
+      basePrice,
+      seat,
+      scheduling.routeId,
+    );
+  }
+
+  /**
+   * Resolve the boarding/alighting stations of a ticket on the scheduling's route.
+   * Omitted stations default to the first/last stop. The base price is the
+   * scheduling price for the whole route, otherwise the segment fare.
+   * With fallbackToFullTrip, stations that are no longer on the route resolve
+   * to the whole route instead of failing (existing tickets, transfers).
+   */
+  private async getTripSegment(
+    scheduling: Pick<Scheduling, 'price' | 'routeId'>,
+    boardingStationId?: string | null,
+    alightingStationId?: string | null,
+    fallbackToFullTrip = false,
+  ): Promise<TripSegment> {
+    const route = await this.routeModel
+      .findById(scheduling.routeId)
+      .populate('stationIds', 'name location')
+      .lean();
+
+    if (!route || !route.stationIds?.length) {
+      throw new BadRequestException('Invalid route data');
+    }
+
+    const stations = route.stationIds as unknown as RouteStop[];
+    const stationIds = stations.map((station) => station._id);
+    const segment =
+      resolveRouteSegment(stationIds, boardingStationId, alightingStationId) ??
+      (fallbackToFullTrip ? resolveRouteSegment(stationIds) : null);
+
+    if (!segment) {
+      throw new BadRequestException(
+        'Boarding and alighting stations must be stops of this route, in travel order',
+      );
+    }
+
+    const tripPrice = scheduling.price ?? 0;
+    const routeDistance = route.distance ?? 0;
+    const isFullTrip = isFullRoute(segment, stations.length);
+    const legs = route.googleRouteData?.legs;
+    const distance = isFullTrip
+      ? routeDistance
+      : getSegmentDistance(
+          {
+            distance: routeDistance,
+            legDistances: legs?.map((leg) => leg.distance.value / 1000),
+            stopCoordinates: stations.map(
+              (station) => station.location?.coordinates ?? null,
+            ),
+          },
+          segment,
+          stations.length,
+        );
+
+    return {
+      ...segment,
+      from: stations[segment.fromStopIndex],
+      to: stations[segment.toStopIndex],
+      isFullTrip,
+      distance,
+      basePrice: isFullTrip
+        ? tripPrice
+        : calculateSegmentFare(tripPrice, routeDistance, distance, route),
+    };
+  }
+
+  /**
+   * Station pair stored on a ticket (null: first/last stop of the route)
+   */
+  private getTicketStations(
+    ticket: Pick<Ticket, 'boardingStationId' | 'alightingStationId'>,
+  ): TicketStations {
+    return {
+      boardingStationId: ticket.boardingStationId?.toString() ?? null,
+      alightingStationId: ticket.alightingStationId?.toString() ?? null,
+    };
+  }
+
+  /**
+   * Boarding/alighting stops a ticket was sold for, named as in its snapshot.
+   * The address comes from the route's populated stations when still on it.
+   */
+  private getTicketStops(
+    ticket: Pick<
+      Ticket,
+      'snapshot' | 'boardingStationId' | 'alightingStationId'
+    >,
+    stations: TicketStop[],
+  ): { from: TicketStop; to: TicketStop } {
+    const sold = ticket.snapshot?.route;
+    const { boardingStationId, alightingStationId } = sold
+      ? {
+          boardingStationId: sold.from.stationId,
+          alightingStationId: sold.to.stationId,
+        }
+      : this.getTicketStations(ticket);
+
+    const stop = (
+      stationId: string | null | undefined,
+      routeEnd: TicketStop | undefined,
+      name?: string,
+    ): TicketStop => {
+      const station = stationId
+        ? stations.find((item) => String(item._id) === stationId)
+        : routeEnd;
+      return {
+        _id: station?._id,
+        name: name ?? station?.name ?? 'N/A',
+        address: station?.address ?? 'N/A',
+      };
+    };
+
+    return {
+      from: stop(boardingStationId, stations[0], sold?.from.name),
+      to: stop(
+        alightingStationId,
+        stations[stations.length - 1],
+        sold?.to.name,
+      ),
+    };
+  }
+
+  /**
+   * Stations and locked-in dynamic price / seat fare of a ticket, for its snapshot
+   */
+  private getSnapshotOptions(
+    ticket: Pick<
+      Ticket,
+      'boardingStationId' | 'alightingStationId' | 'dynamicPricing' | 'fare'
+    >,
+  ): SnapshotOptions {
+    return {
+      ...this.getTicketStations(ticket),
+      dynamicPricing: ticket.dynamicPricing,
+      fare: ticket.fare,
+    };
+  }
+
+  /**
+   * Trip (segment) price adjusted by the route's pricing curves. While the
+   * seat is locked the first quote is kept, so the customer pays the price
+   * shown when picking the seat.
+   */
+  private async getDynamicPrice(
+    scheduling: SchedulingDocument,
+    segment: TripSegment,
+    seatNo?: string,
+  ): Promise<DynamicPrice> {
+    const createQuote = () =>
+      this.pricingCurveService.evaluate(scheduling, segment.basePrice);
+    if (!seatNo) return createQuote();
+
+    try {
+      const pinned = await this.seatLockService.pinPriceQuote(
+        (scheduling._id as Types.ObjectId).toString(),
+        seatNo,
+        `${segment.fromStopIndex}-${segment.toStopIndex}`,
+        createQuote,
+      );
+      if (pinned) {
+        return {
+          ...pinned.quote,
+          quotedAt: new Date(pinned.quote.quotedAt),
+          guaranteedUntil: pinned.guaranteedUntil,
+        };
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Price guarantee unavailable for seat ${seatNo}: ${error.message}`,
+      );
+    }
+    return createQuote();
+  }
+
+  /**
+   * Segment fields persisted on a ticket
+   */
+  private getSegmentFields(segment: TripSegment) {
+    return {
+      boardingStationId: segment.from._id,
+      alightingStationId: segment.to._id,
+      boardingStopIndex: segment.fromStopIndex,
+      alightingStopIndex: segment.toStopIndex,
+    };
+  }
+
+  // ============================================
+  // CREATE TICKET (using phone with auto-user-creation)
+  // ============================================
+  /**
+   * holdMinutes overrides the payment window (e.g. waitlist offers)
+   */
+  async create(dto: CreateTicketDto, holdMinutes?: number) {
+    // 1. Find or create user by phone (atomic operation using upsert)
+    const user = await this.findOrCreateCustomer(dto);
+
+    // 2-4. Get and validate scheduling, calculate expired time
+    const { scheduling, expiredTime } = await this.getBookableScheduling(
+      dto.schedulingId,
+      dto.createdByRole,
+      holdMinutes,
+    );
+
+    // 5. Resolve boarding/alighting segment, check seat availability on it,
+    //    price the seat (dynamic price guaranteed while the seat is locked)
+    const segment = await this.getTripSegment(
+      scheduling,
+      dto.boardingStationId,
+      dto.alightingStationId,
+    );
     await this.seatService.checkSeatAvailability(
       dto.seatId,
+      dto.schedulingId,
       scheduling.busId.toString(),
+      segment,
+    );
+    const seat = await this.seatService.getSeatById(dto.seatId);
+    await this.assertSeatsNotLockedByOthers(
+      dto.schedulingId,
+      [seat.seatNo],
+      user._id as Types.ObjectId,
+    );
+    const dynamicPricing = await this.getDynamicPrice(
+      scheduling,
+      segment,
+      seat.seatNo,
+    );
+    const fare = await this.fareModifierService.calculateSeatFare(
+      dynamicPricing.price,
+      seat,
+      scheduling.routeId,
     );
 
     // 6. Find applicable promotion (by code if provided, otherwise by date)
-    let promotion;
-    if (dto.promotionCode) {
-      // Use the provided promotion code
-      promotion = await this.promotionService.findByCode(dto.promotionCode);
-    } else {
-      // Use the current logic to find promotion by date
-      promotion = await this.promotionService.findApplicablePromotion(
-        scheduling.departureDate,
-      );
-    }
+    const promotion = await this.resolvePromotion(
+      scheduling.departureDate,
+      dto.promotionCode,
+    );
 
     // 7. Calculate final price
     const totalPrice = this.promotionService.calculateFinalPrice(
-      scheduling.price,
+      fare.seatPrice,
       promotion.value,
     );
 
     // 8. Set default paymentMethod if missing
     const paymentMethod = dto.paymentMethod ?? PaymentMethod.BANKING;
+    const paymentProvider = this.resolvePaymentProvider(
+      paymentMethod,
+      dto.paymentProvider,
+    );
+
+    // 9. Reserve seat on this scheduling (atomic, held until expiredTime)
+    const ticketId = new Types.ObjectId();
+    const hold = await this.seatService.reserveSeat(
+      dto.seatId,
+      dto.schedulingId,
+      scheduling.busId.toString(),
+      ticketId,
+      expiredTime,
+      segment,
+    );
 
-    // 9. Create ticket
+    // 10. Create ticket
     const ticket = new this.ticketModel({
+      _id: ticketId,
       userId: user._id,
       seatId: new Types.ObjectId(dto.seatId),
       schedulingId: new Types.ObjectId(dto.schedulingId),
+      ...this.getSegmentFields(segment),
+      dynamicPricing,
+      fare,
       promotionId: promotion._id as Types.ObjectId,
       paymentMethod,
+      paymentProvider,
       fallbackURL: dto.fallbackURL,
       totalPrice,
       expiredTime,
@@ -279,10 +884,27 @@ export class TicketService {
       snapshot: null,
     });
 
-    const savedTicket = await ticket.save();
+    let savedTicket: TicketDocument;
+    try {
+      savedTicket = await this.insertWithBookingCodes(1, ([bookingCode]) => {
+        ticket.bookingCode = bookingCode;
+        return ticket.save();
+      });
+    } catch (error) {
+      await this.seatService.releaseSeat(
+        dto.seatId,
+        dto.schedulingId,
+        ticketId,
+      );
+      throw error;
+    }
 
-    // 10. Reserve seat
-    await this.seatService.reserveSeat(dto.seatId, scheduling.busId.toString());
+    this.emitSeatsHeld(
+      dto.schedulingId,
+      [hold.seatNo],
+      expiredTime,
+      user._id as Types.ObjectId,
+    );
 
     return this.ticketModel
       .findById(savedTicket._id)
@@ -294,35 +916,461 @@ export class TicketService {
   }
 
   // ============================================
-  // UPDATE STATUS (with paymentMethod update)
+  // GROUP BOOKING (multiple seats, one payment)
   // ============================================
-  async updateStatus(id: string, dto: UpdateTicketStatusDto) {
-    const ticket = await this.ticketModel.findById(id).exec();
-    if (!ticket) throw new NotFoundException('Ticket not found');
+  async createBooking(dto: CreateBookingDto) {
+    // 1. Find or create user by phone
+    const user = await this.findOrCreateCustomer(dto);
 
-    this.validateStatusTransition(ticket.status, dto.status);
+    // 2. Get and validate scheduling
+    const { scheduling, expiredTime } = await this.getBookableScheduling(
+      dto.schedulingId,
+      dto.createdByRole,
+    );
 
-    // Validate expiry for SUCCESS transition
-    if (
-      dto.status === TicketStatus.SUCCESS &&
-      ticket.status === TicketStatus.PENDING
-    ) {
-      const now = new Date();
-      if (now > ticket.expiredTime) {
-        throw new BadRequestException('Cannot confirm: ticket has expired');
-      }
+    const seatIds = dto.seats.map((seat) => seat.seatId);
+    if (new Set(seatIds).size !== seatIds.length) {
+      throw new BadRequestException('Duplicate seats in booking');
     }
 
-    // Create snapshot when status becomes final
-    const shouldCreateSnapshot =
-      dto.status === TicketStatus.SUCCESS || dto.status === TicketStatus.FAILED;
+    // 3. Resolve boarding/alighting segment (shared by all seats), find
+    //    applicable promotion & price each seat (dynamic price guaranteed
+    //    while the seat is locked, then class/position modifiers)
+    const segment = await this.getTripSegment(
+      scheduling,
+      dto.boardingStationId,
+      dto.alightingStationId,
+    );
+    const promotion = await this.resolvePromotion(
+      scheduling.departureDate,
+      dto.promotionCode,
+    );
+    const seats = await this.seatService.getSeatsByIds(seatIds);
+    await this.assertSeatsNotLockedByOthers(
+      dto.schedulingId,
+      seats.map((seat) => seat.seatNo),
+      user._id as Types.ObjectId,
+    );
+    const seatPrices = new Map(
+      await Promise.all(
+        seats.map(async (seat) => {
+          const dynamicPricing = await this.getDynamicPrice(
+            scheduling,
+            segment,
+            seat.seatNo,
+          );
+          const fare = await this.fareModifierService.calculateSeatFare(
+            dynamicPricing.price,
+            seat,
+            scheduling.routeId,
+          );
+          return [
+            (seat._id as Types.ObjectId).toString(),
+            {
+              dynamicPricing,
+              fare,
+              totalPrice: this.promotionService.calculateFinalPrice(
+                fare.seatPrice,
+                promotion.value,
+              ),
+            },
+          ] as const;
+        }),
+      ),
+    );
 
-    if (shouldCreateSnapshot && !ticket.snapshot) {
-      ticket.snapshot = await this.buildSnapshot(
-        ticket.seatId,
-        ticket.schedulingId,
+    const paymentMethod = dto.paymentMethod ?? PaymentMethod.BANKING;
+    const paymentProvider = this.resolvePaymentProvider(
+      paymentMethod,
+      dto.paymentProvider,
+    );
+
+    // 4. Reserve all seats on this scheduling (all-or-nothing)
+    const bookingId = new Types.ObjectId();
+    const holds = dto.seats.map((seat) => ({
+      ...seat,
+      ticketId: new Types.ObjectId(),
+      ...seatPrices.get(seat.seatId)!,
+    }));
+    const totalPrice = holds.reduce((sum, hold) => sum + hold.totalPrice, 0);
+
+    const reservedSeats = await this.seatService.reserveSeats(
+      dto.schedulingId,
+      scheduling.busId.toString(),
+      holds.map(({ seatId, ticketId }) => ({ seatId, ticketId })),
+      expiredTime,
+      segment,
+    );
+
+    // 5. Create one ticket per seat + the booking
+    try {
+      await this.insertWithBookingCodes(
+        holds.length + 1,
+        async ([bookingCode, ...ticketCodes]) => {
+          await this.ticketModel.insertMany(
+            holds.map((hold, index) => ({
+              _id: hold.ticketId,
+              bookingCode: ticketCodes[index],
+              userId: user._id,
+              seatId: new Types.ObjectId(hold.seatId),
+              schedulingId: new Types.ObjectId(dto.schedulingId),
+              ...this.getSegmentFields(segment),
+              dynamicPricing: hold.dynamicPricing,
+              fare: hold.fare,
+              promotionId: promotion._id as Types.ObjectId,
+              bookingId,
+              passengerName: hold.passengerName,
+              passengerPhone: hold.passengerPhone,
+              paymentMethod,
+              paymentProvider,
+              fallbackURL: dto.fallbackURL,
+              totalPrice: hold.totalPrice,
+              expiredTime,
+              status: TicketStatus.PENDING,
+              snapshot: null,
+            })),
+          );
+
+          await this.bookingModel.create({
+            _id: bookingId,
+            bookingCode,
+            userId: user._id,
+            schedulingId: new Types.ObjectId(dto.schedulingId),
+            promotionId: promotion._id as Types.ObjectId,
+            ticketIds: holds.map((hold) => hold.ticketId),
+            paymentMethod,
+            paymentProvider,
+            fallbackURL: dto.fallbackURL,
+            totalPrice,
+            expiredTime,
+            status: TicketStatus.PENDING,
+          });
+        },
+        () => this.ticketModel.deleteMany({ bookingId }),
+      );
+    } catch (error) {
+      await this.ticketModel.deleteMany({ bookingId });
+      await this.seatService.releaseSeats(
+        holds.map((hold) => ({
+          seatId: hold.seatId,
+          schedulingId: dto.schedulingId,
+          ticketId: hold.ticketId,
+        })),
+      );
+      throw error;
+    }
+
+    this.emitSeatsHeld(
+      dto.schedulingId,
+      reservedSeats.map((item) => item.seatNo),
+      expiredTime,
+      user._id as Types.ObjectId,
+    );
+
+    return this.findBooking(bookingId.toString());
+  }
+
+  async findBooking(id: string) {
+    const booking = await this.bookingModel
+      .findById(id)
+      .populate('userId', 'firstName lastName email phone')
+      .populate('schedulingId')
+      .populate('returnSchedulingId')
+      .populate('promotionId', 'name value type description')
+      .populate({
+        path: 'ticketIds',
+        select:
+          'seatId schedulingId status totalPrice passengerName passengerPhone tripLeg linkedTicketId expiredTime',
+        populate: { path: 'seatId', select: 'seatNo' },
+      })
+      .exec();
+
+    if (!booking) throw new NotFoundException('Booking not found');
+    return booking;
+  }
+
+  // ============================================
+  // ROUND TRIP (outbound + return, one payment)
+  // ============================================
+  async createRoundTrip(dto: CreateRoundTripDto) {
+    // 1. Find or create user by phone
+    const user = await this.findOrCreateCustomer(dto);
+
+    // 2. Validate both schedulings
+    const outbound = await this.getBookableScheduling(
+      dto.outboundSchedulingId,
+      dto.createdByRole,
+    );
+    const inbound = await this.getBookableScheduling(
+      dto.returnSchedulingId,
+      dto.createdByRole,
+    );
+
+    const outboundArrival =
+      outbound.scheduling.arrivalDate || outbound.scheduling.departureDate;
+    if (inbound.scheduling.departureDate < outboundArrival) {
+      throw new BadRequestException(
+        'Return trip must depart after the outbound trip arrives',
+      );
+    }
+
+    // 3. Return scheduling must run on the reverse route
+    await this.validateReverseRoutes(
+      outbound.scheduling.routeId,
+      inbound.scheduling.routeId,
+    );
+
+    // 4. Price both legs like one-way tickets on the whole route (dynamic
+    // price, then seat modifiers), applying the round-trip discount rule if
+    // better
+    const [outboundPricing, returnPricing] = await Promise.all([
+      this.getRoundTripLegPricing(
+        outbound.scheduling,
+        dto.outboundSeatId,
+        user._id as Types.ObjectId,
+      ),
+      this.getRoundTripLegPricing(
+        inbound.scheduling,
+        dto.returnSeatId,
+        user._id as Types.ObjectId,
+      ),
+    ]);
+    const [outboundPromotion, returnPromotion, roundTripPromotion] =
+      await Promise.all([
+        this.resolvePromotion(
+          outbound.scheduling.departureDate,
+          dto.promotionCode,
+        ),
+        this.resolvePromotion(
+          inbound.scheduling.departureDate,
+          dto.promotionCode,
+        ),
+        this.promotionService.findRoundTripPromotion(
+          outbound.scheduling.departureDate,
+        ),
+      ]);
+
+    const legs = [
+      {
+        leg: TripLeg.OUTBOUND,
+        ticketId: new Types.ObjectId(),
+        seatId: dto.outboundSeatId,
+        schedulingId: dto.outboundSchedulingId,
+        busId: outbound.scheduling.busId.toString(),
+        ...outboundPricing,
+        promotion: this.promotionService.pickRoundTripLegPromotion(
+          outboundPromotion,
+          roundTripPromotion,
+        ),
+      },
+      {
+        leg: TripLeg.RETURN,
+        ticketId: new Types.ObjectId(),
+        seatId: dto.returnSeatId,
+        schedulingId: dto.returnSchedulingId,
+        busId: inbound.scheduling.busId.toString(),
+        ...returnPricing,
+        promotion: this.promotionService.pickRoundTripLegPromotion(
+          returnPromotion,
+          roundTripPromotion,
+        ),
+      },
+    ].map((item) => ({
+      ...item,
+      totalPrice: this.promotionService.calculateFinalPrice(
+        item.fare.seatPrice,
+        item.promotion.value,
+      ),
+    }));
+
+    // Both legs share one payment hold (the earlier of the two)
+    const expiredTime = new Date(
+      Math.min(outbound.expiredTime.getTime(), inbound.expiredTime.getTime()),
+    );
+    const paymentMethod = dto.paymentMethod ?? PaymentMethod.BANKING;
+    const paymentProvider = this.resolvePaymentProvider(
+      paymentMethod,
+      dto.paymentProvider,
+    );
+    const bookingId = new Types.ObjectId();
+
+    // 5. Reserve both seats (all-or-nothing)
+    const reserved: Array<(typeof legs)[number] & { seatNo: string }> = [];
+    try {
+      for (const item of legs) {
+        const hold = await this.seatService.reserveSeat(
+          item.seatId,
+          item.schedulingId,
+          item.busId,
+          item.ticketId,
+          expiredTime,
+        );
+        reserved.push({ ...item, seatNo: hold.seatNo });
+      }
+
+      // 6. Create the two linked tickets + the booking
+      await this.insertWithBookingCodes(
+        legs.length + 1,
+        async ([bookingCode, ...ticketCodes]) => {
+          await this.ticketModel.insertMany(
+            legs.map((item, index) => ({
+              _id: item.ticketId,
+              bookingCode: ticketCodes[index],
+              userId: user._id,
+              seatId: new Types.ObjectId(item.seatId),
+              schedulingId: new Types.ObjectId(item.schedulingId),
+              promotionId: item.promotion._id as Types.ObjectId,
+              bookingId,
+              linkedTicketId: legs[1 - index].ticketId,
+              tripLeg: item.leg,
+              dynamicPricing: item.dynamicPricing,
+              fare: item.fare,
+              paymentMethod,
+              paymentProvider,
+              fallbackURL: dto.fallbackURL,
+              totalPrice: item.totalPrice,
+              expiredTime,
+              status: TicketStatus.PENDING,
+              snapshot: null,
+            })),
+          );
+
+          await this.bookingModel.create({
+            _id: bookingId,
+            bookingCode,
+            userId: user._id,
+            schedulingId: new Types.ObjectId(dto.outboundSchedulingId),
+            returnSchedulingId: new Types.ObjectId(dto.returnSchedulingId),
+            promotionId: legs[0].promotion._id as Types.ObjectId,
+            ticketIds: legs.map((item) => item.ticketId),
+            paymentMethod,
+            paymentProvider,
+            fallbackURL: dto.fallbackURL,
+            totalPrice: legs.reduce((sum, item) => sum + item.totalPrice, 0),
+            expiredTime,
+            status: TicketStatus.PENDING,
+          });
+        },
+        () => this.ticketModel.deleteMany({ bookingId }),
+      );
+    } catch (error) {
+      await this.ticketModel.deleteMany({ bookingId });
+      await this.seatService.releaseSeats(
+        reserved.map((item) => ({
+          seatId: item.seatId,
+          schedulingId: item.schedulingId,
+          ticketId: item.ticketId,
+        })),
+      );
+      throw error;
+    }
+
+    for (const item of reserved) {
+      this.emitSeatsHeld(
+        item.schedulingId,
+        [item.seatNo],
+        expiredTime,
+        user._id as Types.ObjectId,
+      );
+    }
+
+    return this.findBooking(bookingId.toString());
+  }
+
+  /**
+   * Price of a round-trip leg, the same as a one-way ticket for the whole
+   * route (dynamic price guaranteed while the seat is locked)
+   */
+  private async getRoundTripLegPricing(
+    scheduling: SchedulingDocument,
+    seatId: string,
+    userId: Types.ObjectId,
+  ): Promise<{ dynamicPricing: DynamicPrice; fare: SeatFare }> {
+    const segment = await this.getTripSegment(scheduling);
+    const seat = await this.seatService.getSeatById(seatId);
+    await this.assertSeatsNotLockedByOthers(
+      (scheduling._id as Types.ObjectId).toString(),
+      [seat.seatNo],
+      userId,
+    );
+    const dynamicPricing = await this.getDynamicPrice(
+      scheduling,
+      segment,
+      seat.seatNo,
+    );
+    const fare = await this.fareModifierService.calculateSeatFare(
+      dynamicPricing.price,
+      seat,
+      scheduling.routeId,
+    );
+    return { dynamicPricing, fare };
+  }
+
+  /**
+   * Return route must be the reverse of the outbound route:
+   * its first/last stations are the outbound's last/first stations
+   */
+  private async validateReverseRoutes(
+    outboundRouteId: Types.ObjectId,
+    returnRouteId: Types.ObjectId,
+  ): Promise<void> {
+    const [outboundRoute, returnRoute] = await Promise.all([
+      this.routeModel.findById(outboundRouteId).lean(),
+      this.routeModel.findById(returnRouteId).lean(),
+    ]);
+
+    if (!outboundRoute || !returnRoute) {
+      throw new NotFoundException('Route not found');
+    }
+
+    // Same stops in the opposite order, intermediate stops included
+    const outboundStations = outboundRoute.stationIds.map(String);
+    const returnStations = returnRoute.stationIds.map(String).reverse();
+
+    const isReverse =
+      outboundStations.length === returnStations.length &&
+      outboundStations.every(
+        (stationId, index) => stationId === returnStations[index],
+      );
+
+    if (!isReverse) {
+      throw new BadRequestException(
+        'Return scheduling must run on the reverse route of the outbound trip',
+      );
+    }
+  }
+
+  // ============================================
+  // UPDATE STATUS (with paymentMethod update)
+  // ============================================
+  async updateStatus(id: string, dto: UpdateTicketStatusDto) {
+    const ticket = await this.ticketModel.findById(id).exec();
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    this.validateStatusTransition(ticket.status, dto.status);
+
+    // Validate expiry for SUCCESS transition
+    if (
+      dto.status === TicketStatus.SUCCESS &&
+      ticket.status === TicketStatus.PENDING
+    ) {
+      const now = new Date();
+      if (now > ticket.expiredTime) {
+        throw new BadRequestException('Cannot confirm: ticket has expired');
+      }
+    }
+
+    // Create snapshot when status becomes final
+    const shouldCreateSnapshot =
+      dto.status === TicketStatus.SUCCESS || dto.status === TicketStatus.FAILED;
+
+    if (shouldCreateSnapshot && !ticket.snapshot) {
+      ticket.snapshot = await this.buildSnapshot(
+        ticket.seatId,
+        ticket.schedulingId,
         ticket.promotionId,
         ticket.totalPrice,
+        this.getSnapshotOptions(ticket),
       );
     }
 
@@ -337,21 +1385,34 @@ export class TicketService {
       ticket.paymentMethod = dto.paymentMethod;
     }
 
+    // Refund paid out (e.g. cash refund at the counter)
+    if (dto.status === TicketStatus.REFUNDED) {
+      ticket.refundedAt = new Date();
+    }
+
     await ticket.save();
 
     // Update seat status
     if (dto.status === TicketStatus.SUCCESS) {
-      await this.seatService.confirmSeat(ticket.seatId.toString());
-
-      // Increment bookedSeats in scheduling
-      await this.schedulingModel.findByIdAndUpdate(
-        ticket.schedulingId,
-        { $inc: { bookedSeats: 1, availableSeats: -1 } }
+      await this.seatService.confirmSeat(
+        ticket.seatId.toString(),
+        ticket.schedulingId.toString(),
+        ticket._id as Types.ObjectId,
       );
     } else if (dto.status === TicketStatus.FAILED) {
-      await this.seatService.releaseSeat(ticket.seatId.toString());
+      await this.seatService.releaseSeat(
+        ticket.seatId.toString(),
+        ticket.schedulingId.toString(),
+        ticket._id as Types.ObjectId,
+      );
+      this.emitSeatsReleased(ticket.schedulingId.toString(), [
+        ticket.snapshot!.seat.seatNo,
+      ]);
     }
 
+    // Keep bookedSeats/availableSeats in line with the sold inventory
+    await this.seatService.syncSeatCounts(ticket.schedulingId.toString());
+
     return this.findOne(id);
   }
 
@@ -412,134 +1473,505 @@ export class TicketService {
     // if (oldScheduling.routeId.toString() !== newScheduling.routeId.toString()) {
     //   throw new BadRequestException('Transfer must be on the same route');
     // }
-    if (oldScheduling.price <= newScheduling.price) {
+    // Compare seat prices (segment base price + seat class/position modifiers),
+    // for the same boarding/alighting stations when the new route serves them
+    const oldSeat = oldTicket.seatId as unknown as TicketPopulated['seatId'];
+    const stations = this.getTicketStations(oldTicket);
+    const [oldSegment, newSegment] = await Promise.all([
+      this.getTripSegment(
+        oldScheduling as SchedulingDocument,
+        stations.boardingStationId,
+        stations.alightingStationId,
+        true,
+      ),
+      this.getTripSegment(
+        newScheduling,
+        stations.boardingStationId,
+        stations.alightingStationId,
+        true,
+      ),
+    ]);
+    const [oldFare, newFare] = await Promise.all([
+      this.getSeatFare(
+        oldScheduling as SchedulingDocument,
+        oldSeat._id.toString(),
+        oldSegment.basePrice,
+      ),
+      this.getSeatFare(newScheduling, dto.newSeatId, newSegment.basePrice),
+    ]);
+    if (oldFare.seatPrice <= newFare.seatPrice) {
       throw new BadRequestException('Transfer requires equal or lower price');
     }
 
-    // 6. Check new seat availability
-    await this.seatService.checkSeatAvailability(
-      dto.newSeatId,
-      newScheduling.busId.toString(),
-    );
-
-    // 7. Find applicable promotion for new scheduling
+    // 6. Find applicable promotion for new scheduling
     const promotion = await this.promotionService.findApplicablePromotion(
       newScheduling.departureDate,
     );
 
-    // 8. Calculate new price and expired time
+    // 7. Calculate new price
     const totalPrice = this.promotionService.calculateFinalPrice(
-      newScheduling.price,
+      newFare.seatPrice,
       promotion.value,
     );
 
+    // 8. Generate transfer description
+    const oldUser = oldTicket.userId as any;
+    const transferDescription = dto.reason
+      ? `Transferred from ticket #${oldTicketId} (Seat ${oldSeat?.seatNo}, Departure: ${new Date(oldScheduling.departureDate).toLocaleString()}). Reason: ${dto.reason}`
+      : `Transferred from ticket #${oldTicketId} (Seat ${oldSeat?.seatNo}, Departure: ${new Date(oldScheduling.departureDate).toLocaleString()}, Customer: ${oldUser?.email})`;
+
+    // 9. Issue the new ticket and release the old seat
+    const savedNewTicket = await this.reissueTicket(
+      oldTicket,
+      oldSeat._id.toString(),
+      oldScheduling._id.toString(),
+      newScheduling,
+      dto.newSeatId,
+      {
+        totalPrice,
+        promotionId: promotion._id as Types.ObjectId,
+        fare: newFare,
+        transferDescription,
+      },
+    );
+
+    return {
+      oldTicket: await this.findOne(oldTicketId),
+      newTicket: await this.findOne(
+        (savedNewTicket._id as Types.ObjectId).toString(),
+      ),
+      message: 'Ticket transferred successfully',
+      transferDescription,
+      linkedTicketWarning: await this.getLinkedTicketWarning(
+        oldTicket,
+        'transferred',
+      ),
+    };
+  }
+
+  /**
+   * Operator rebooking (trip cancelled by the operator): move a SUCCESS ticket
+   * to another scheduling without the customer transfer rules (3-hour cutoff,
+   * equal or lower price). The passenger keeps the price already paid.
+   */
+  async rebookTicket(
+    ticketId: string,
+    newSchedulingId: string,
+    newSeatId: string,
+    reason: string,
+  ): Promise<TicketDocument> {
+    const oldTicket = await this.ticketModel.findById(ticketId).exec();
+    if (!oldTicket) throw new NotFoundException('Ticket not found');
+
+    if (oldTicket.status !== TicketStatus.SUCCESS) {
+      throw new BadRequestException(
+        'Can only rebook confirmed (SUCCESS) tickets',
+      );
+    }
+    if (oldTicket.transferTicketId) {
+      throw new BadRequestException('This ticket has already been transferred');
+    }
+
+    const newScheduling = await this.schedulingModel
+      .findById(newSchedulingId)
+      .exec();
+    if (!newScheduling) throw new NotFoundException('New scheduling not found');
+
+    const oldSchedulingId = oldTicket.schedulingId.toString();
+    const newTicket = await this.reissueTicket(
+      oldTicket,
+      oldTicket.seatId.toString(),
+      oldSchedulingId,
+      newScheduling,
+      newSeatId,
+      {
+        totalPrice: oldTicket.totalPrice,
+        promotionId: oldTicket.promotionId,
+        transferDescription: `Rebooked from ticket #${ticketId} (trip ${oldSchedulingId} cancelled by operator). Reason: ${reason}`,
+      },
+    );
+
+    return newTicket;
+  }
+
+  /**
+   * Issue a SUCCESS ticket on a seat of another scheduling for the holder of
+   * oldTicket, then mark the old ticket TRANSFER and release its seat.
+   * The new ticket keeps the boarding/alighting stations when the new route
+   * serves them, otherwise it covers the whole route.
+   */
+  private async reissueTicket(
+    oldTicket: TicketDocument,
+    oldSeatId: string,
+    oldSchedulingId: string,
+    newScheduling: SchedulingDocument,
+    newSeatId: string,
+    issue: {
+      totalPrice: number;
+      promotionId: Types.ObjectId;
+      fare?: SeatFare; // Giá ghế mới đã tính khi đổi vé
+      transferDescription: string;
+    },
+  ): Promise<TicketDocument> {
+    const newSchedulingId = (newScheduling._id as Types.ObjectId).toString();
+    const stations = this.getTicketStations(oldTicket);
+    const segment = await this.getTripSegment(
+      newScheduling,
+      stations.boardingStationId,
+      stations.alightingStationId,
+      true,
+    );
+
+    // Check new seat availability
+    await this.seatService.checkSeatAvailability(
+      newSeatId,
+      newSchedulingId,
+      newScheduling.busId.toString(),
+      segment,
+    );
+
     const expiredTime = new Date(newScheduling.departureDate);
     expiredTime.setHours(expiredTime.getHours() - 3);
 
-    // 9. Create snapshot for new ticket
     const newTicketSnapshot = await this.buildSnapshot(
-      new Types.ObjectId(dto.newSeatId),
-      new Types.ObjectId(dto.newSchedulingId),
-      promotion._id as Types.ObjectId,
-      totalPrice,
+      new Types.ObjectId(newSeatId),
+      newScheduling._id as Types.ObjectId,
+      issue.promotionId,
+      issue.totalPrice,
+      {
+        boardingStationId: segment.from._id.toString(),
+        alightingStationId: segment.to._id.toString(),
+        fare: issue.fare,
+      },
     );
 
-    //  10. Generate transfer description
-    const oldSeat = oldTicket.seatId as any;
-    const oldUser = oldTicket.userId as any;
-    const transferDescription = dto.reason
-      ? `Transferred from ticket #${oldTicketId} (Seat ${oldSeat?.seatNo}, Departure: ${new Date(oldScheduling.departureDate).toLocaleString()}). Reason: ${dto.reason}`
-      : `Transferred from ticket #${oldTicketId} (Seat ${oldSeat?.seatNo}, Departure: ${new Date(oldScheduling.departureDate).toLocaleString()}, Customer: ${oldUser?.email})`;
+    // Sell new seat on the new scheduling, then create new ticket
+    const newTicketId = new Types.ObjectId();
+    await this.seatService.sellSeat(
+      newSeatId,
+      newSchedulingId,
+      newScheduling.busId.toString(),
+      newTicketId,
+      segment,
+    );
 
-    // 11. Create new ticket
     const newTicket = new this.ticketModel({
+      _id: newTicketId,
       userId: oldTicket.userId,
-      seatId: new Types.ObjectId(dto.newSeatId),
-      schedulingId: new Types.ObjectId(dto.newSchedulingId),
-      promotionId: promotion._id as Types.ObjectId,
+      seatId: new Types.ObjectId(newSeatId),
+      schedulingId: newScheduling._id,
+      ...this.getSegmentFields(segment),
+      promotionId: issue.promotionId,
+      fare: issue.fare ?? null,
+      passengerName: oldTicket.passengerName,
+      passengerPhone: oldTicket.passengerPhone,
       paymentMethod: oldTicket.paymentMethod,
+      paymentProvider: oldTicket.paymentProvider,
       fallbackURL: oldTicket.fallbackURL,
-      totalPrice,
+      totalPrice: issue.totalPrice,
       expiredTime,
       status: TicketStatus.SUCCESS,
       snapshot: newTicketSnapshot,
-      transferDescription, // Add description
+      transferDescription: issue.transferDescription,
+      // Keep round-trip link on the replacement ticket
+      linkedTicketId: oldTicket.linkedTicketId ?? null,
+      tripLeg: oldTicket.tripLeg,
     });
 
-    const savedNewTicket = await newTicket.save();
+    let savedNewTicket: TicketDocument;
+    try {
+      savedNewTicket = await this.insertWithBookingCodes(1, ([bookingCode]) => {
+        newTicket.bookingCode = bookingCode;
+        return newTicket.save();
+      });
+    } catch (error) {
+      await this.seatService.releaseSeat(
+        newSeatId,
+        newSchedulingId,
+        newTicketId,
+      );
+      throw error;
+    }
 
-    // 12. Create snapshot for old ticket if not exists
+    // Create snapshot for old ticket if not exists
     if (!oldTicket.snapshot) {
       oldTicket.snapshot = await this.buildSnapshot(
-        oldTicket.seatId,
-        oldTicket.schedulingId,
+        new Types.ObjectId(oldSeatId),
+        new Types.ObjectId(oldSchedulingId),
         oldTicket.promotionId,
         oldTicket.totalPrice,
+        this.getSnapshotOptions(oldTicket),
       );
     }
 
-    // 13. Update old ticket status and link to new ticket
+    // Update old ticket status and link to new ticket
     oldTicket.status = TicketStatus.TRANSFER;
-    oldTicket.transferTicketId = savedNewTicket._id as Types.ObjectId;
+    oldTicket.transferTicketId = newTicketId;
     await oldTicket.save();
 
-    // 14. Update seat statuses
-    await Promise.all([
-      this.seatService.releaseSeat((oldTicket.seatId as any)._id.toString()),
-      this.seatService.updateSeatStatus(dto.newSeatId, SeatStatus.SOLD),
-    ]);
-
-    return {
-      oldTicket: await this.findOne(oldTicketId),
-      newTicket: await this.findOne(
-        (savedNewTicket._id as Types.ObjectId).toString(),
-      ),
-      message: 'Ticket transferred successfully',
-      transferDescription,
-    };
-  }
-  // ============================================
-  // CANCEL EXPIRED TICKETS
-  // ============================================
-  async cancelExpiredTickets() {
-    const now = new Date();
-
-    const expiredTickets = await this.ticketModel
-      .find({
-        status: TicketStatus.PENDING,
-        expiredTime: { $lte: now },
-      })
-      .exec();
-
-    const results: Types.ObjectId[] = [];
-    const seatIdsToRelease: string[] = [];
-
-    for (const ticket of expiredTickets) {
-      if (!ticket.snapshot) {
-        ticket.snapshot = await this.buildSnapshot(
-          ticket.seatId,
-          ticket.schedulingId,
-          ticket.promotionId,
-          ticket.totalPrice,
-        );
-      }
-
-      ticket.status = TicketStatus.FAILED;
-      await ticket.save();
+    // Release old seat on the old scheduling
+    await this.seatService.releaseSeat(
+      oldSeatId,
+      oldSchedulingId,
+      oldTicket._id as Types.ObjectId,
+    );
+    this.emitSeatsReleased(oldSchedulingId, [oldTicket.snapshot.seat.seatNo]);
 
-      seatIdsToRelease.push(ticket.seatId.toString());
-      results.push(ticket._id as Types.ObjectId);
+    await this.seatService.syncSeatCounts(oldSchedulingId);
+    if (newSchedulingId !== oldSchedulingId) {
+      await this.seatService.syncSeatCounts(newSchedulingId);
     }
 
-    if (seatIdsToRelease.length > 0) {
-      await this.seatService.releaseSeats(seatIdsToRelease);
+    // Round trip: point the other leg at the new ticket
+    if (oldTicket.linkedTicketId) {
+      await this.ticketModel.updateOne(
+        { _id: oldTicket.linkedTicketId },
+        { $set: { linkedTicketId: newTicketId } },
+      );
     }
 
-    return {
-      message: `Cancelled ${expiredTickets.length} expired tickets`,
-      count: expiredTickets.length,
-      ticketIds: results,
-    };
+    return savedNewTicket;
+  }
+
+  // ============================================
+  // CUSTOMER CANCELLATION (with refund policy)
+  // ============================================
+  /**
+   * Preview refund amount if the ticket were cancelled now
+   */
+  async getRefundQuote(
+    id: string,
+    requester?: { userId: string; role: string },
+  ) {
+    const { ticket, scheduling } = await this.getCancellableTicket(
+      id,
+      requester,
+    );
+    return this.quoteRefund(ticket, scheduling);
+  }
+
+  async cancel(
+    id: string,
+    dto: CancelTicketDto,
+    requester?: { userId: string; role: string },
+  ) {
+    const { ticket, scheduling } = await this.getCancellableTicket(
+      id,
+      requester,
+    );
+    const wasPaid = ticket.status === TicketStatus.SUCCESS;
+    const refund = await this.quoteRefund(ticket, scheduling);
+
+    if (!ticket.snapshot) {
+      ticket.snapshot = await this.buildSnapshot(
+        ticket.seatId,
+        ticket.schedulingId,
+        ticket.promotionId,
+        ticket.totalPrice,
+        this.getSnapshotOptions(ticket),
+      );
+    }
+
+    ticket.status = TicketStatus.CANCELLED;
+    ticket.cancelledAt = new Date();
+    ticket.cancellationReason = dto.reason;
+    ticket.refundPercent = refund.refundPercent;
+    ticket.refundAmount = refund.refundAmount;
+    await ticket.save();
+
+    // Release seat on this scheduling
+    await this.seatService.releaseSeat(
+      ticket.seatId.toString(),
+      ticket.schedulingId.toString(),
+      ticket._id as Types.ObjectId,
+    );
+    this.emitSeatsReleased(ticket.schedulingId.toString(), [
+      ticket.snapshot.seat.seatNo,
+    ]);
+
+    // Paid tickets were counted in bookedSeats
+    if (wasPaid) {
+      await this.seatService.syncSeatCounts(ticket.schedulingId.toString());
+    }
+
+    return {
+      ticket: await this.findOne(id),
+      refund,
+      message:
+        refund.refundAmount > 0
+          ? `Ticket cancelled. Refund ${refund.refundAmount} (${refund.refundPercent}%) will be processed.`
+          : 'Ticket cancelled. No refund applies.',
+      linkedTicketWarning: await this.getLinkedTicketWarning(
+        ticket,
+        'cancelled',
+      ),
+    };
+  }
+
+  /**
+   * Operator cancellation (trip cancelled by the operator): the passenger gets
+   * the full amount back regardless of the refund policy
+   */
+  async cancelWithFullRefund(
+    id: string,
+    reason: string,
+  ): Promise<TicketDocument> {
+    const ticket = await this.ticketModel.findById(id).exec();
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    if (ticket.status !== TicketStatus.SUCCESS) {
+      throw new BadRequestException(
+        `Cannot refund ticket with status ${ticket.status}`,
+      );
+    }
+
+    if (!ticket.snapshot) {
+      ticket.snapshot = await this.buildSnapshot(
+        ticket.seatId,
+        ticket.schedulingId,
+        ticket.promotionId,
+        ticket.totalPrice,
+        this.getSnapshotOptions(ticket),
+      );
+    }
+
+    ticket.status = TicketStatus.CANCELLED;
+    ticket.cancelledAt = new Date();
+    ticket.cancellationReason = reason;
+    ticket.refundPercent = 100;
+    ticket.refundAmount = ticket.totalPrice;
+    await ticket.save();
+
+    await this.seatService.releaseSeat(
+      ticket.seatId.toString(),
+      ticket.schedulingId.toString(),
+      ticket._id as Types.ObjectId,
+    );
+    await this.seatService.syncSeatCounts(ticket.schedulingId.toString());
+
+    return ticket;
+  }
+
+  private async getCancellableTicket(
+    id: string,
+    requester?: { userId: string; role: string },
+  ) {
+    const ticket = await this.ticketModel.findById(id).exec();
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    // Customers can only cancel their own tickets
+    if (
+      requester?.role === UserRole.CUSTOMER &&
+      ticket.userId.toString() !== requester.userId
+    ) {
+      throw new NotFoundException('Ticket not found');
+    }
+
+    if (
+      ticket.status !== TicketStatus.SUCCESS &&
+      ticket.status !== TicketStatus.PENDING
+    ) {
+      throw new BadRequestException(
+        `Cannot cancel ticket with status ${ticket.status}`,
+      );
+    }
+
+    const scheduling = await this.schedulingModel
+      .findById(ticket.schedulingId)
+      .lean()
+      .exec();
+    if (!scheduling) throw new NotFoundException('Scheduling not found');
+
+    if (getDepartureAt(scheduling) <= new Date()) {
+      throw new BadRequestException('Cannot cancel ticket after departure');
+    }
+
+    return { ticket, scheduling };
+  }
+
+  private async quoteRefund(
+    ticket: TicketDocument,
+    scheduling: ScheduledDeparture & { routeId: Types.ObjectId },
+  ) {
+    // Unpaid tickets have nothing to refund
+    const paidAmount =
+      ticket.status === TicketStatus.SUCCESS ? ticket.totalPrice : 0;
+
+    return this.refundPolicyService.calculateRefund(
+      scheduling.routeId,
+      getDepartureAt(scheduling),
+      paidAmount,
+    );
+  }
+
+  // ============================================
+  // CANCEL EXPIRED TICKETS
+  // ============================================
+  async cancelExpiredTickets() {
+    const now = new Date();
+
+    const expiredTickets = await this.ticketModel
+      .find({
+        status: TicketStatus.PENDING,
+        expiredTime: { $lte: now },
+      })
+      .exec();
+
+    const results: Types.ObjectId[] = [];
+    const seatsToRelease: Array<{
+      seatId: string;
+      schedulingId: string;
+      ticketId: Types.ObjectId;
+    }> = [];
+    const releasedSeatNos = new Map<string, string[]>();
+
+    for (const ticket of expiredTickets) {
+      if (!ticket.snapshot) {
+        ticket.snapshot = await this.buildSnapshot(
+          ticket.seatId,
+          ticket.schedulingId,
+          ticket.promotionId,
+          ticket.totalPrice,
+          this.getSnapshotOptions(ticket),
+        );
+      }
+
+      ticket.status = TicketStatus.FAILED;
+      await ticket.save();
+
+      seatsToRelease.push({
+        seatId: ticket.seatId.toString(),
+        schedulingId: ticket.schedulingId.toString(),
+        ticketId: ticket._id as Types.ObjectId,
+      });
+      results.push(ticket._id as Types.ObjectId);
+
+      const schedulingId = ticket.schedulingId.toString();
+      releasedSeatNos.set(schedulingId, [
+        ...(releasedSeatNos.get(schedulingId) ?? []),
+        ticket.snapshot.seat.seatNo,
+      ]);
+    }
+
+    if (seatsToRelease.length > 0) {
+      await this.seatService.releaseSeats(seatsToRelease);
+    }
+
+    for (const [schedulingId, seatNos] of releasedSeatNos) {
+      this.emitSeatsReleased(schedulingId, seatNos);
+    }
+
+    // Group bookings expire together with their tickets
+    await this.bookingModel.updateMany(
+      { status: TicketStatus.PENDING, expiredTime: { $lte: now } },
+      { $set: { status: TicketStatus.FAILED } },
+    );
+
+    return {
+      message: `Cancelled ${expiredTickets.length} expired tickets`,
+      count: expiredTickets.length,
+      ticketIds: results,
+    };
   }
 
   // ============================================
@@ -559,20 +1991,51 @@ export class TicketService {
         ticket.schedulingId,
         ticket.promotionId,
         ticket.totalPrice,
+        this.getSnapshotOptions(ticket),
       );
     }
 
     ticket.status = TicketStatus.FAILED;
     await ticket.save();
 
-    await this.seatService.releaseSeat(ticket.seatId.toString());
+    await this.seatService.releaseSeat(
+      ticket.seatId.toString(),
+      ticket.schedulingId.toString(),
+      ticket._id as Types.ObjectId,
+    );
+    this.emitSeatsReleased(ticket.schedulingId.toString(), [
+      ticket.snapshot.seat.seatNo,
+    ]);
 
     return {
       ticket: await this.findOne(id),
       message: `Ticket failed: ${reason || 'Manual cancellation'}`,
+      linkedTicketWarning: await this.getLinkedTicketWarning(
+        ticket,
+        'cancelled',
+      ),
     };
   }
 
+  /**
+   * Round trip: warn that the other leg is NOT changed together
+   */
+  private async getLinkedTicketWarning(
+    ticket: TicketDocument,
+    action: string,
+  ): Promise<string | undefined> {
+    if (!ticket.linkedTicketId) return undefined;
+
+    const linked = await this.ticketModel
+      .findById(ticket.linkedTicketId)
+      .select('status tripLeg')
+      .lean()
+      .exec();
+    if (!linked) return undefined;
+
+    return `This ticket is part of a round trip. The linked ${linked.tripLeg?.toLowerCase() ?? ''} ticket #${ticket.linkedTicketId.toString()} (status: ${linked.status}) was not ${action} and must be handled separately.`;
+  }
+
   // ============================================
   // HELPER METHODS
   // ============================================
@@ -675,7 +2138,16 @@ export class TicketService {
     };
   }
 
-  async calculatePricePreview(schedulingId: string) {
+  /**
+   * Price preview for a scheduling; with seatId the seat class/position
+   * modifiers are applied before the promotion
+   */
+  async calculatePricePreview(
+    schedulingId: string,
+    seatId?: string,
+    boardingStationId?: string,
+    alightingStationId?: string,
+  ) {
     const scheduling = await this.schedulingModel.findById(schedulingId).exec();
     if (!scheduling) throw new NotFoundException('Scheduling not found');
     if (!scheduling.price) {
@@ -684,255 +2156,1107 @@ export class TicketService {
       );
     }
 
+    const segment = await this.getTripSegment(
+      scheduling,
+      boardingStationId,
+      alightingStationId,
+    );
+    // A locked seat keeps the dynamic price quoted when it was picked
+    const seat = seatId ? await this.seatService.getSeatById(seatId) : null;
+    const dynamicPricing = await this.getDynamicPrice(
+      scheduling,
+      segment,
+      seat?.seatNo,
+    );
+    const fare: SeatFare = seat
+      ? await this.fareModifierService.calculateSeatFare(
+          dynamicPricing.price,
+          seat,
+          scheduling.routeId,
+        )
+      : {
+          basePrice: dynamicPricing.price,
+          seatSurcharge: 0,
+          seatPrice: dynamicPricing.price,
+          fareModifiers: [],
+        };
+
     const promotion = await this.promotionService.findApplicablePromotion(
       scheduling.departureDate,
     );
 
     const discount = this.promotionService.calculateDiscount(
-      scheduling.price,
+      fare.seatPrice,
       promotion.value,
     );
-    const totalPrice = scheduling.price - discount;
+    const totalPrice = fare.seatPrice - discount;
 
-    const expiredTime = new Date(scheduling.departureDate);
-    expiredTime.setHours(expiredTime.getHours() - 3);
+    const expiredTime = this.getPaymentHoldExpiry(
+      scheduling.departureDate,
+      true,
+    );
+
+    return {
+      basePrice: fare.basePrice,
+      dynamicPricing,
+      priceGuaranteedUntil: dynamicPricing.guaranteedUntil ?? null,
+      seatSurcharge: fare.seatSurcharge,
+      fareModifiers: fare.fareModifiers,
+      originalPrice: fare.seatPrice,
+      promotionName: promotion.name,
+      promotionValue: promotion.value,
+      discount,
+      totalPrice,
+      expiredTime,
+      departureDate: scheduling.departureDate,
+      boardingStationId: segment.from._id.toString(),
+      alightingStationId: segment.to._id.toString(),
+      distance: segment.distance,
+    };
+  }
+
+  async getUserTicketsByEmail(email: string, status?: TicketStatus) {
+    // Find user by email
+    const user = await this.userModel.findOne({ email }).select('_id').exec();
+    if (!user) {
+      throw new NotFoundException(`User with email ${email} not found`);
+    }
+
+    const filter: any = { userId: user._id };
+    if (status) filter.status = status;
+
+    return this.ticketModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .populate('userId', 'firstName lastName email phone')
+      .populate('seatId', 'seatNo')
+      .populate('schedulingId')
+      .populate('promotionId', 'name value')
+      .exec();
+  }
+
+  async getUserTicketsByPhone(phone: string, status?: TicketStatus) {
+    // Find user by phone
+    const user = await this.userModel.findOne({ phone }).select('_id').exec();
+    if (!user) {
+      throw new NotFoundException(`User with phone ${phone} not found`);
+    }
+
+    const filter: any = { userId: user._id };
+    if (status) filter.status = status;
+
+    return this.ticketModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .populate('userId', 'firstName lastName email phone')
+      .populate('seatId', 'seatNo')
+      .populate('schedulingId')
+      .populate('promotionId', 'name value')
+      .exec();
+  }
+
+  /**
+   * Guest lookup by booking code (of a ticket or of a whole booking),
+   * confirmed with the last 4 digits of the customer or passenger phone
+   */
+  async findByBookingCode(code: string, phoneLast4: string) {
+    const bookingCode = normalizeBookingCode(code);
+    const booking = await this.bookingModel
+      .findOne({ bookingCode })
+      .select('_id')
+      .lean()
+      .exec();
+
+    const ticketDocs = await this.ticketModel
+      .find(booking ? { bookingId: booking._id } : { bookingCode })
+      .sort({ createdAt: 1 })
+      .populate('userId', 'firstName lastName phone')
+      .populate('seatId', 'seatNo')
+      .populate({
+        path: 'schedulingId',
+        select: 'routeId departureDate etd eta status',
+        populate: { path: 'routeId', select: 'name' },
+      })
+      .exec();
+    const tickets = ticketDocs as unknown as Array<
+      TicketPopulated & {
+        schedulingId: SchedulingDocument & { routeId: RouteDocument };
+      }
+    >;
+
+    // Same answer for an unknown code and a wrong phone
+    const phoneMatches = (phone?: string) =>
+      !!phone && phone.replace(/\D/g, '').endsWith(phoneLast4);
+    const verified = tickets.some(
+      (ticket) =>
+        phoneMatches(ticket.userId?.phone) ||
+        phoneMatches(ticket.passengerPhone),
+    );
+    if (!verified) {
+      throw new NotFoundException(
+        'No booking found for this code and phone number',
+      );
+    }
+
+    return {
+      bookingCode,
+      tickets: tickets.map((ticket) => ({
+        _id: String(ticket._id),
+        bookingCode: ticket.bookingCode,
+        status: ticket.status,
+        passengerName:
+          ticket.passengerName ??
+          `${ticket.userId?.firstName ?? ''} ${ticket.userId?.lastName ?? ''}`.trim(),
+        seatNo: ticket.seatId?.seatNo ?? ticket.snapshot?.seat.seatNo,
+        routeName:
+          ticket.schedulingId?.routeId?.name ?? ticket.snapshot?.route.name,
+        from: ticket.snapshot?.route.from.name,
+        to: ticket.snapshot?.route.to.name,
+        departureDate: ticket.schedulingId?.departureDate,
+        etd: ticket.schedulingId?.etd,
+        eta: ticket.schedulingId?.eta,
+        totalPrice: ticket.totalPrice,
+        expiredTime: ticket.expiredTime,
+        paidAt: ticket.paidAt,
+      })),
+    };
+  }
+
+  async getTicketsByScheduling(schedulingId: string, status?: TicketStatus) {
+    const filter: any = { schedulingId: new Types.ObjectId(schedulingId) };
+    if (status) filter.status = status;
+
+    return this.ticketModel
+      .find(filter)
+      .sort({ createdAt: -1 })
+      .populate('userId', 'firstName lastName phone')
+      .populate('seatId', 'seatNo')
+      .exec();
+  }
+
+  private validateStatusTransition(
+    currentStatus: TicketStatus,
+    newStatus: TicketStatus,
+  ) {
+    const validTransitions: Record<TicketStatus, TicketStatus[]> = {
+      [TicketStatus.PENDING]: [TicketStatus.SUCCESS, TicketStatus.FAILED],
+      [TicketStatus.SUCCESS]: [TicketStatus.TRANSFER, TicketStatus.FAILED],
+      [TicketStatus.FAILED]: [],
+      [TicketStatus.TRANSFER]: [],
+      // Hủy vé đi qua POST /ticket/:id/cancel (tính tiền hoàn theo chính sách)
+      [TicketStatus.CANCELLED]: [TicketStatus.REFUNDED],
+      [TicketStatus.REFUNDED]: [],
+    };
+
+    if (!validTransitions[currentStatus].includes(newStatus)) {
+      throw new BadRequestException(
+        `Cannot transition from ${currentStatus} to ${newStatus}`,
+      );
+    }
+  }
+
+  // ============================================
+  // ONLINE PAYMENT (VNPay / MoMo / ZaloPay)
+  // ============================================
+  async createPaymentUrl(
+    ticketId: string,
+    ipAddr: string,
+    provider?: PaymentProviderName,
+  ): Promise<{
+    success: boolean;
+    paymentUrl: string;
+    transactionId: string;
+    provider: PaymentProviderName;
+    amount: number;
+    expiredTime: Date;
+    bookingId?: string;
+  }> {
+    const ticket = await this.ticketModel
+      .findById(ticketId)
+      .populate('schedulingId')
+      .populate('seatId', 'seatNo')
+      .exec();
+
+    if (!ticket) {
+      throw new NotFoundException('Ticket not found');
+    }
+
+    if (ticket.status !== TicketStatus.PENDING) {
+      throw new BadRequestException('Only PENDING tickets can be paid');
+    }
+
+    const now = new Date();
+    if (now > ticket.expiredTime) {
+      throw new BadRequestException('Ticket has expired');
+    }
+
+    // Ticket thuộc đơn đặt nhóm → thanh toán cả đơn một lần
+    if (ticket.bookingId) {
+      return this.createBookingPaymentUrl(
+        ticket.bookingId.toString(),
+        ipAddr,
+        provider,
+      );
+    }
+
+    const scheduling = ticket.schedulingId as any;
+    const seat = ticket.seatId as any;
+    const route = await this.routeModel.findById(scheduling.routeId).lean();
+
+    const orderInfo = `Thanh toan ve xe ${route?.name || 'Bus'} Ghe ${seat?.seatNo}`;
+
+    const attempt = await this.startPaymentAttempt({
+      provider: provider ?? ticket.paymentProvider ?? PaymentProviderName.VNPAY,
+      orderPrefix: `TICKET_${ticketId}`,
+      ticketId: ticket._id as Types.ObjectId,
+      amount: ticket.totalPrice,
+      orderInfo,
+      ipAddr,
+    });
+
+    ticket.paymentProvider = attempt.provider;
+    ticket.transactionId = attempt.orderId;
+    await ticket.save();
+
+    return {
+      success: true,
+      paymentUrl: attempt.paymentUrl!,
+      transactionId: attempt.orderId,
+      provider: attempt.provider,
+      amount: ticket.totalPrice,
+      expiredTime: ticket.expiredTime,
+    };
+  }
+
+  private async createBookingPaymentUrl(
+    bookingId: string,
+    ipAddr: string,
+    provider?: PaymentProviderName,
+  ) {
+    const booking = await this.bookingModel
+      .findById(bookingId)
+      .populate('schedulingId')
+      .exec();
+
+    if (!booking) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    if (booking.status !== TicketStatus.PENDING) {
+      throw new BadRequestException('Only PENDING bookings can be paid');
+    }
+
+    const now = new Date();
+    if (now > booking.expiredTime) {
+      throw new BadRequestException('Booking has expired');
+    }
+
+    const scheduling = booking.schedulingId as any;
+    const route = await this.routeModel.findById(scheduling.routeId).lean();
+
+    const orderInfo = `Thanh toan ${booking.ticketIds.length} ve xe ${route?.name || 'Bus'}`;
+
+    const attempt = await this.startPaymentAttempt({
+      provider:
+        provider ?? booking.paymentProvider ?? PaymentProviderName.VNPAY,
+      orderPrefix: `BOOKING_${bookingId}`,
+      bookingId: booking._id as Types.ObjectId,
+      amount: booking.totalPrice,
+      orderInfo,
+      ipAddr,
+    });
+
+    booking.paymentProvider = attempt.provider;
+    booking.transactionId = attempt.orderId;
+    await booking.save();
+
+    return {
+      success: true,
+      paymentUrl: attempt.paymentUrl!,
+      transactionId: attempt.orderId,
+      provider: attempt.provider,
+      amount: booking.totalPrice,
+      expiredTime: booking.expiredTime,
+      bookingId,
+    };
+  }
+
+  /**
+   * Record a new payment attempt and create the payment on the provider
+   */
+  private async startPaymentAttempt(data: {
+    provider: PaymentProviderName;
+    orderPrefix: string;
+    ticketId?: Types.ObjectId;
+    bookingId?: Types.ObjectId;
+    amount: number;
+    orderInfo: string;
+    ipAddr: string;
+  }): Promise<PaymentAttemptDocument> {
+    const gateway = this.paymentProviderService.get(data.provider);
+    const requestedAt = new Date();
+
+    const attempt = await this.paymentAttemptModel.create({
+      ticketId: data.ticketId ?? null,
+      bookingId: data.bookingId ?? null,
+      provider: data.provider,
+      orderId: `${data.orderPrefix}_${requestedAt.getTime()}`,
+      amount: data.amount,
+      requestedAt,
+      status: PaymentAttemptStatus.PENDING,
+    });
+
+    try {
+      const result = await gateway.createPayment({
+        orderId: attempt.orderId,
+        amount: data.amount,
+        orderInfo: data.orderInfo,
+        ipAddr: data.ipAddr,
+        createdAt: requestedAt,
+      });
+
+      attempt.paymentUrl = result.paymentUrl;
+      attempt.providerOrderId = result.providerOrderId;
+      return await attempt.save();
+    } catch (error) {
+      attempt.status = PaymentAttemptStatus.FAILED;
+      attempt.responseMessage = error?.message || 'Create payment failed';
+      await attempt.save();
+      throw new BadRequestException(
+        `Cannot create ${data.provider} payment: ${attempt.responseMessage}`,
+      );
+    }
+  }
+
+  /**
+   * VNPay return URL (browser redirect) - chỉ hiển thị kết quả.
+   * Trạng thái vé được cập nhật bởi IPN (handlePaymentNotification).
+   */
+  async handleVNPayCallback(vnpParams: any): Promise<{
+    success: boolean;
+    message: string;
+    ticket?: any;
+    booking?: any;
+    paymentInfo?: any;
+  }> {
+    const callback = this.paymentProviderService
+      .get(PaymentProviderName.VNPAY)
+      .verifyCallback(vnpParams);
+
+    if (!callback.isValid) {
+      throw new BadRequestException('Invalid payment signature');
+    }
+
+    const attempt = await this.findPaymentAttempt(callback);
+    if (!attempt) {
+      throw new NotFoundException('Ticket not found with this transaction ID');
+    }
+
+    const paymentInfo = {
+      transactionId: callback.orderId,
+      vnpayTransactionNo: callback.providerTransactionNo,
+      amount: callback.amount,
+      bankCode: callback.bankCode,
+      responseCode: callback.responseCode,
+    };
+
+    if (callback.isSuccess) {
+      const ticketId = attempt.ticketId
+        ? attempt.ticketId
+        : (
+            await this.ticketModel
+              .findOne({ bookingId: attempt.bookingId })
+              .select('_id')
+              .exec()
+          )?._id;
+      const fullTicket = await this.findOne(String(ticketId));
+      // IPN có thể đến sau redirect của trình duyệt
+      const confirmed = fullTicket.status === TicketStatus.SUCCESS;
+
+      return {
+        success: true,
+        message: confirmed
+          ? 'Thanh toán thành công'
+          : 'Thanh toán thành công, đang chờ VNPay xác nhận',
+        ticket: fullTicket,
+        booking: attempt.bookingId
+          ? await this.findBooking(String(attempt.bookingId))
+          : undefined,
+        paymentInfo: { ...paymentInfo, paidAt: fullTicket.paidAt, confirmed },
+      };
+    }
+
+    return {
+      success: false,
+      message: callback.message,
+      paymentInfo: { ...paymentInfo, responseMessage: callback.message },
+    };
+  }
+
+  /**
+   * IPN (server-to-server) của cổng thanh toán - nguồn xác nhận thanh toán duy nhất.
+   * Trả về đúng định dạng phản hồi của từng cổng; gọi lại nhiều lần không xử lý lại.
+   */
+  async handlePaymentNotification(
+    providerName: PaymentProviderName,
+    params: Record<string, any>,
+  ) {
+    const gateway = this.paymentProviderService.get(providerName);
+
+    let outcome: PaymentCallbackOutcome;
+    try {
+      outcome = await this.processPaymentNotification(
+        gateway.verifyCallback(params),
+      );
+    } catch (error) {
+      this.logger.error(
+        `${providerName} IPN processing failed: ${error?.message}`,
+      );
+      outcome = 'ERROR';
+    }
+
+    return gateway.buildCallbackAck(outcome);
+  }
+
+  private async processPaymentNotification(
+    callback: PaymentCallbackResult,
+  ): Promise<PaymentCallbackOutcome> {
+    if (!callback.isValid) return 'INVALID_SIGNATURE';
+
+    const attempt = await this.findPaymentAttempt(callback);
+    if (!attempt) return 'NOT_FOUND';
+
+    const target = attempt.bookingId
+      ? await this.bookingModel.findById(attempt.bookingId).exec()
+      : await this.ticketModel.findById(attempt.ticketId).exec();
+    if (!target) return 'NOT_FOUND';
+
+    if (callback.amount !== target.totalPrice) return 'INVALID_AMOUNT';
+
+    // Đã xử lý ở lần IPN trước (hoặc đã đối soát / hết hạn)
+    if (
+      attempt.status !== PaymentAttemptStatus.PENDING ||
+      target.status !== TicketStatus.PENDING
+    ) {
+      return 'ALREADY_CONFIRMED';
+    }
+
+    const settled = await this.settlePayment(attempt, callback.isSuccess, {
+      providerTransactionNo: callback.providerTransactionNo,
+      responseCode: callback.responseCode,
+      responseMessage: callback.message,
+      bankCode: callback.bankCode,
+      rawResponse: callback.raw,
+    });
+
+    return settled ? 'CONFIRMED' : 'ALREADY_CONFIRMED';
+  }
+
+  /**
+   * Resolve a provider callback to the payment attempt it belongs to
+   */
+  private async findPaymentAttempt(callback: {
+    orderId?: string;
+    providerOrderId?: string;
+  }): Promise<PaymentAttemptDocument | null> {
+    const conditions: Record<string, string>[] = [];
+    if (callback.orderId) conditions.push({ orderId: callback.orderId });
+    if (callback.providerOrderId) {
+      conditions.push({ providerOrderId: callback.providerOrderId });
+    }
+    if (!conditions.length) return null;
+
+    return this.paymentAttemptModel.findOne({ $or: conditions }).exec();
+  }
+
+  /**
+   * Close a PENDING attempt with the provider result. On success confirm the
+   * ticket, or every PENDING ticket of the booking. A failed attempt leaves
+   * the ticket PENDING so the customer can retry until it expires.
+   * Returns false if another notification already closed the attempt.
+   */
+  private async settlePayment(
+    attempt: PaymentAttemptDocument,
+    isSuccess: boolean,
+    details: {
+      providerTransactionNo?: string;
+      responseCode?: string;
+      responseMessage?: string;
+      bankCode?: string;
+      rawResponse?: Record<string, any>;
+    },
+  ): Promise<boolean> {
+    const paidAt = isSuccess ? new Date() : undefined;
+
+    // Atomic claim → IPN gửi trùng / song song chỉ được xử lý một lần
+    const claimed = await this.paymentAttemptModel
+      .findOneAndUpdate(
+        { _id: attempt._id, status: PaymentAttemptStatus.PENDING },
+        {
+          $set: {
+            ...details,
+            status: isSuccess
+              ? PaymentAttemptStatus.SUCCESS
+              : PaymentAttemptStatus.FAILED,
+            paidAt,
+          },
+        },
+        { new: true },
+      )
+      .exec();
+
+    if (!claimed || !isSuccess) return !!claimed;
+
+    const tickets = await this.ticketModel
+      .find({
+        ...(claimed.bookingId
+          ? { bookingId: claimed.bookingId }
+          : { _id: claimed.ticketId }),
+        status: TicketStatus.PENDING,
+      })
+      .exec();
+
+    let seatsSecured = 0;
+    for (const item of tickets) {
+      if (!claimed.bookingId) {
+        item.paymentProvider = claimed.provider;
+        item.transactionId = claimed.orderId;
+      }
+      if (await this.confirmPaidTicket(item, paidAt!)) seatsSecured++;
+    }
+
+    if (claimed.bookingId) {
+      await this.bookingModel.updateOne(
+        { _id: claimed.bookingId },
+        {
+          $set: {
+            status:
+              seatsSecured > 0 ? TicketStatus.SUCCESS : TicketStatus.CANCELLED,
+            paidAt,
+            paymentProvider: claimed.provider,
+            transactionId: claimed.orderId,
+          },
+        },
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Mark one ticket paid: seat inventory first, then snapshot and status.
+   * A payment arriving after the hold lapsed takes the seat back if it is
+   * still free; if another ticket got it, the ticket is cancelled with a full
+   * refund instead of selling the seat twice. Returns false in that case.
+   */
+  private async confirmPaidTicket(
+    ticket: TicketDocument,
+    paidAt: Date,
+  ): Promise<boolean> {
+    const secured = await this.seatService.sellPaidSeat(
+      ticket.seatId.toString(),
+      ticket.schedulingId.toString(),
+      ticket._id as Types.ObjectId,
+      this.getTicketSegment(ticket),
+    );
+
+    if (!ticket.snapshot) {
+      ticket.snapshot = await this.buildSnapshot(
+        ticket.seatId,
+        ticket.schedulingId,
+        ticket.promotionId,
+        ticket.totalPrice,
+        this.getSnapshotOptions(ticket),
+      );
+    }
+
+    ticket.paidAt = paidAt;
+    if (secured) {
+      ticket.status = TicketStatus.SUCCESS;
+    } else {
+      ticket.status = TicketStatus.CANCELLED;
+      ticket.cancelledAt = new Date();
+      ticket.cancellationReason =
+        'Seat was given to another ticket before the payment arrived';
+      ticket.refundPercent = 100;
+      ticket.refundAmount = ticket.totalPrice;
+    }
+    await ticket.save();
+    await this.seatService.syncSeatCounts(ticket.schedulingId.toString());
+
+    if (!secured) {
+      const ticketId = (ticket._id as Types.ObjectId).toHexString();
+      this.logger.warn(
+        `Ticket ${ticketId} was paid after its seat was taken, refunding it`,
+      );
+      try {
+        await this.refundPayment(ticketId, 'system', '127.0.0.1');
+      } catch (error) {
+        // Left CANCELLED with its refund amount for staff to refund
+        this.logger.error(
+          `Refund of ticket ${ticketId} failed: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    return secured;
+  }
+
+  /**
+   * Stop indexes of a ticket's segment (undefined: the whole route)
+   */
+  private getTicketSegment(
+    ticket: Pick<Ticket, 'boardingStopIndex' | 'alightingStopIndex'>,
+  ): RouteSegment | undefined {
+    if (ticket.boardingStopIndex == null || ticket.alightingStopIndex == null) {
+      return undefined;
+    }
+    return {
+      fromStopIndex: ticket.boardingStopIndex,
+      toStopIndex: ticket.alightingStopIndex,
+    };
+  }
+
+  // ============================================
+  // PAYMENT RECONCILIATION & REFUND (provider API)
+  // ============================================
+  /**
+   * Query the provider for a ticket whose IPN never arrived
+   * and apply the result if the attempt is still PENDING
+   */
+  async reconcilePayment(ticketId: string, ipAddr: string) {
+    const ticket = await this.ticketModel.findById(ticketId).exec();
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    const attempt =
+      (await this.paymentAttemptModel
+        .findOne({
+          ...this.paymentAttemptFilter(ticket),
+          status: PaymentAttemptStatus.PENDING,
+        })
+        .sort({ createdAt: -1 })
+        .exec()) ??
+      (await this.paymentAttemptModel
+        .findOne(this.paymentAttemptFilter(ticket))
+        .sort({ createdAt: -1 })
+        .exec());
+
+    if (!attempt) {
+      throw new BadRequestException(
+        'No online payment has been created for this ticket',
+      );
+    }
+
+    const result = await this.paymentProviderService
+      .get(attempt.provider)
+      .queryPayment({
+        orderId: attempt.orderId,
+        providerOrderId: attempt.providerOrderId,
+        amount: attempt.amount,
+        createdAt: attempt.requestedAt,
+        orderInfo: `Truy van giao dich ${attempt.orderId}`,
+        ipAddr,
+      });
+
+    if (!result.isValid) {
+      throw new BadRequestException(
+        `Invalid ${attempt.provider} response signature`,
+      );
+    }
+
+    let updated = false;
+    let message = result.message;
+
+    if (
+      result.status !== 'PENDING' &&
+      attempt.status === PaymentAttemptStatus.PENDING
+    ) {
+      if (result.status === 'PAID' && result.amount !== attempt.amount) {
+        message = `Amount mismatch: ${attempt.provider} ${result.amount}, expected ${attempt.amount}`;
+      } else {
+        updated = await this.settlePayment(attempt, result.status === 'PAID', {
+          providerTransactionNo: result.providerTransactionNo,
+          responseCode: result.responseCode,
+          responseMessage: result.message,
+          bankCode: result.bankCode,
+          rawResponse: result.raw,
+        });
+      }
+    }
 
     return {
-      originalPrice: scheduling.price,
-      promotionName: promotion.name,
-      promotionValue: promotion.value,
-      discount,
-      totalPrice,
-      expiredTime,
-      departureDate: scheduling.departureDate,
+      updated,
+      message,
+      ticket: await this.findOne(ticketId),
+      payment: {
+        provider: attempt.provider,
+        transactionId: attempt.orderId,
+        status: result.status,
+        responseCode: result.responseCode,
+        providerTransactionNo: result.providerTransactionNo,
+        amount: result.amount,
+      },
     };
   }
 
-  async getUserTicketsByEmail(email: string, status?: TicketStatus) {
-    // Find user by email
-    const user = await this.userModel.findOne({ email }).select('_id').exec();
-    if (!user) {
-      throw new NotFoundException(`User with email ${email} not found`);
+  /**
+   * Refund a cancelled BANKING ticket through the provider it was paid with
+   */
+  async refundPayment(ticketId: string, createdBy: string, ipAddr: string) {
+    const ticket = await this.ticketModel.findById(ticketId).exec();
+    if (!ticket) throw new NotFoundException('Ticket not found');
+
+    if (ticket.status !== TicketStatus.CANCELLED) {
+      throw new BadRequestException('Only CANCELLED tickets can be refunded');
+    }
+    if (ticket.paymentMethod !== PaymentMethod.BANKING || !ticket.paidAt) {
+      throw new BadRequestException(
+        'Only tickets paid online can be refunded online',
+      );
+    }
+    if (!ticket.refundAmount || ticket.refundAmount <= 0) {
+      throw new BadRequestException('No refund amount for this ticket');
     }
 
-    const filter: any = { userId: user._id };
-    if (status) filter.status = status;
+    const alreadyRefunded = await this.refundTransactionModel.exists({
+      ticketId: ticket._id,
+      status: {
+        $in: [RefundTransactionStatus.PENDING, RefundTransactionStatus.SUCCESS],
+      },
+    });
+    if (alreadyRefunded) {
+      throw new BadRequestException(
+        'A refund is already in progress or completed for this ticket',
+      );
+    }
 
-    return this.ticketModel
-      .find(filter)
+    const attempt = await this.paymentAttemptModel
+      .findOne({
+        ...this.paymentAttemptFilter(ticket),
+        status: PaymentAttemptStatus.SUCCESS,
+      })
       .sort({ createdAt: -1 })
-      .populate('userId', 'firstName lastName email phone')
-      .populate('seatId', 'seatNo')
-      .populate('schedulingId')
-      .populate('promotionId', 'name value')
       .exec();
-  }
-
-  async getUserTicketsByPhone(phone: string, status?: TicketStatus) {
-    // Find user by phone
-    const user = await this.userModel.findOne({ phone }).select('_id').exec();
-    if (!user) {
-      throw new NotFoundException(`User with phone ${phone} not found`);
+    if (!attempt) {
+      throw new BadRequestException(
+        'No successful online payment found for this ticket',
+      );
     }
 
-    const filter: any = { userId: user._id };
-    if (status) filter.status = status;
+    const provider = this.paymentProviderService.get(attempt.provider);
+    const record = await this.refundTransactionModel.create({
+      ticketId: ticket._id,
+      bookingId: attempt.bookingId ?? null,
+      paymentAttemptId: attempt._id,
+      provider: attempt.provider,
+      amount: ticket.refundAmount,
+      isFullRefund: ticket.refundAmount >= attempt.amount,
+      requestId: provider.createRefundRequestId(),
+      orderId: attempt.orderId,
+      providerTransactionNo: attempt.providerTransactionNo,
+      createdBy,
+      status: RefundTransactionStatus.PENDING,
+    });
 
-    return this.ticketModel
-      .find(filter)
-      .sort({ createdAt: -1 })
-      .populate('userId', 'firstName lastName email phone')
-      .populate('seatId', 'seatNo')
-      .populate('schedulingId')
-      .populate('promotionId', 'name value')
-      .exec();
-  }
+    try {
+      const result = await provider.refund({
+        requestId: record.requestId!,
+        orderId: attempt.orderId,
+        providerOrderId: attempt.providerOrderId,
+        providerTransactionNo: attempt.providerTransactionNo,
+        amount: ticket.refundAmount,
+        originalAmount: attempt.amount,
+        createdAt: attempt.requestedAt,
+        description: `Hoan tien ve ${ticketId}`,
+        createdBy,
+        ipAddr,
+      });
 
-  async getTicketsByScheduling(schedulingId: string, status?: TicketStatus) {
-    const filter: any = { schedulingId: new Types.ObjectId(schedulingId) };
-    if (status) filter.status = status;
+      await this.applyRefundResult(record, ticket, {
+        // Unverifiable answer: the refund may have gone through
+        status: result.isValid ? result.status : 'PENDING',
+        responseCode: result.responseCode,
+        responseMessage: result.isValid
+          ? result.message
+          : `Invalid ${attempt.provider} response signature`,
+        rawResponse: result.raw,
+      });
+    } catch (error) {
+      // Timeout / network error: the provider may still process the refund,
+      // keep it PENDING so it is confirmed by query instead of retried
+      await this.applyRefundResult(record, ticket, {
+        status: 'PENDING',
+        responseMessage: (error as Error).message || 'Refund request failed',
+      });
+    }
 
-    return this.ticketModel
-      .find(filter)
-      .sort({ createdAt: -1 })
-      .populate('userId', 'firstName lastName phone')
-      .populate('seatId', 'seatNo')
-      .exec();
+    return this.toRefundResponse(record, ticketId);
   }
 
-  private validateStatusTransition(
-    currentStatus: TicketStatus,
-    newStatus: TicketStatus,
-  ) {
-    const validTransitions: Record<TicketStatus, TicketStatus[]> = {
-      [TicketStatus.PENDING]: [TicketStatus.SUCCESS, TicketStatus.FAILED],
-      [TicketStatus.SUCCESS]: [TicketStatus.TRANSFER, TicketStatus.FAILED],
-      [TicketStatus.FAILED]: [],
-      [TicketStatus.TRANSFER]: [],
-    };
-
-    if (!validTransitions[currentStatus].includes(newStatus)) {
-      throw new BadRequestException(
-        `Cannot transition from ${currentStatus} to ${newStatus}`,
-      );
+  /**
+   * Confirm the PENDING refund of a ticket through the provider's query API
+   */
+  async reconcileRefund(ticketId: string, ipAddr: string) {
+    const record = await this.refundTransactionModel
+      .findOne({
+        ticketId: new Types.ObjectId(ticketId),
+        status: RefundTransactionStatus.PENDING,
+      })
+      .sort({ createdAt: -1 })
+      .exec();
+    if (!record) {
+      throw new BadRequestException('No pending refund for this ticket');
     }
+
+    await this.confirmPendingRefund(record, ipAddr);
+    return this.toRefundResponse(record, ticketId);
   }
 
-  // ============================================
-  // VNPAY INTEGRATION
-  // ============================================
-  async createPaymentUrl(
-    ticketId: string,
-    ipAddr: string,
-  ): Promise<{
-    success: boolean;
-    paymentUrl: string;
-    transactionId: string;
-    amount: number;
-    expiredTime: Date;
-  }> {
-    const ticket = await this.ticketModel
-      .findById(ticketId)
-      .populate('schedulingId')
-      .populate('seatId', 'seatNo')
+  /**
+   * Cron: confirm refunds left PENDING (provider processing or timeout)
+   * once the provider had time to settle them
+   */
+  async reconcilePendingRefunds(olderThanMinutes = 5) {
+    const records = await this.refundTransactionModel
+      .find({
+        status: RefundTransactionStatus.PENDING,
+        createdAt: {
+          $lte: new Date(Date.now() - olderThanMinutes * 60 * 1000),
+        },
+      })
       .exec();
 
-    if (!ticket) {
-      throw new NotFoundException('Ticket not found');
+    let settled = 0;
+    for (const record of records) {
+      try {
+        await this.confirmPendingRefund(record, '127.0.0.1');
+        if (record.status !== RefundTransactionStatus.PENDING) settled++;
+      } catch (error) {
+        this.logger.warn(
+          `Refund query failed for ticket ${record.ticketId.toString()}: ${(error as Error).message}`,
+        );
+      }
     }
 
-    if (ticket.status !== TicketStatus.PENDING) {
-      throw new BadRequestException('Only PENDING tickets can be paid');
-    }
+    return { checked: records.length, settled };
+  }
 
-    const now = new Date();
-    if (now > ticket.expiredTime) {
-      throw new BadRequestException('Ticket has expired');
+  private async confirmPendingRefund(
+    record: RefundTransactionDocument,
+    ipAddr: string,
+  ): Promise<void> {
+    const [ticket, attempt] = await Promise.all([
+      this.ticketModel.findById(record.ticketId).exec(),
+      this.paymentAttemptModel.findById(record.paymentAttemptId).exec(),
+    ]);
+    if (!ticket || !attempt) {
+      throw new NotFoundException('Ticket or payment of this refund not found');
+    }
+    if (!record.requestId) {
+      throw new BadRequestException('Refund request was never sent');
     }
 
-    const transactionId = `TICKET_${ticketId}_${Date.now()}`;
-
-    const scheduling = ticket.schedulingId as any;
-    const seat = ticket.seatId as any;
-    const route = await this.routeModel.findById(scheduling.routeId).lean();
+    const result = await this.paymentProviderService
+      .get(record.provider)
+      .queryRefund({
+        requestId: record.requestId,
+        orderId: attempt.orderId,
+        providerOrderId: attempt.providerOrderId,
+        createdAt: attempt.requestedAt,
+        orderInfo: `Truy van hoan tien ${attempt.orderId}`,
+        ipAddr,
+      });
 
-    const orderInfo = `Thanh toan ve xe ${route?.name || 'Bus'} Ghe ${seat?.seatNo}`;
+    if (!result.isValid) {
+      throw new BadRequestException(
+        `Invalid ${record.provider} response signature`,
+      );
+    }
 
-    const paymentUrl = this.vnpayService.createPaymentUrl({
-      amount: ticket.totalPrice,
-      orderInfo,
-      orderId: transactionId,
-      ipAddr,
+    await this.applyRefundResult(record, ticket, {
+      status: result.status,
+      responseCode: result.responseCode,
+      responseMessage: result.message,
+      rawResponse: result.raw,
     });
+  }
 
-    ticket.transactionId = transactionId;
-    await ticket.save();
-
-    return {
-      success: true,
-      paymentUrl,
-      transactionId,
-      amount: ticket.totalPrice,
-      expiredTime: ticket.expiredTime,
+  /**
+   * Record the provider answer; only a confirmed refund marks the ticket REFUNDED
+   */
+  private async applyRefundResult(
+    record: RefundTransactionDocument,
+    ticket: TicketDocument,
+    result: {
+      status: RefundStatus;
+      responseCode?: string;
+      responseMessage?: string;
+      rawResponse?: Record<string, any>;
+    },
+  ): Promise<void> {
+    const statuses: Record<RefundStatus, RefundTransactionStatus> = {
+      REFUNDED: RefundTransactionStatus.SUCCESS,
+      FAILED: RefundTransactionStatus.FAILED,
+      PENDING: RefundTransactionStatus.PENDING,
     };
-  }
 
-  async handleVNPayCallback(vnpParams: any): Promise<{
-    success: boolean;
-    message: string;
-    ticket?: any;
-    paymentInfo?: any;
-  }> {
-    const verifyResult = this.vnpayService.verifyReturnUrl(vnpParams);
+    record.status = statuses[result.status];
+    record.responseCode = result.responseCode ?? record.responseCode;
+    record.responseMessage = result.responseMessage;
+    record.rawResponse = result.rawResponse ?? record.rawResponse;
+    await record.save();
 
-    if (!verifyResult.isValid) {
-      throw new BadRequestException('Invalid payment signature');
+    if (result.status === 'REFUNDED') {
+      ticket.status = TicketStatus.REFUNDED;
+      ticket.refundedAt = new Date();
+      await ticket.save();
     }
+  }
 
-    const transactionId = vnpParams.vnp_TxnRef;
-    const responseCode = vnpParams.vnp_ResponseCode;
-    const vnpayTransactionNo = vnpParams.vnp_TransactionNo;
-    const bankCode = vnpParams.vnp_BankCode;
-    const amount = parseInt(vnpParams.vnp_Amount) / 100;
-
-    const ticket = await this.ticketModel.findOne({ transactionId }).exec();
+  private async toRefundResponse(
+    record: RefundTransactionDocument,
+    ticketId: string,
+  ) {
+    const messages: Partial<Record<RefundTransactionStatus, string>> = {
+      [RefundTransactionStatus.PENDING]: `Refund sent to ${record.provider}, waiting for confirmation`,
+    };
 
-    if (!ticket) {
-      throw new NotFoundException('Ticket not found with this transaction ID');
-    }
+    return {
+      success: record.status === RefundTransactionStatus.SUCCESS,
+      status: record.status,
+      message: messages[record.status] ?? record.responseMessage,
+      refundTransaction: record,
+      ticket: await this.findOne(ticketId),
+    };
+  }
 
-    ticket.vnpayTransactionNo = vnpayTransactionNo;
-    ticket.responseCode = responseCode;
-    ticket.responseMessage = verifyResult.message;
-    ticket.bankCode = bankCode;
+  /**
+   * Move VNPay payments stored on tickets/bookings before payment attempts
+   * existed (transactionId, vnpayTransactionNo, paymentCreatedAt...) into
+   * SUCCESS payment attempts, so refund and reconcile can find them.
+   * Tickets of a booking were paid with the booking's transaction.
+   */
+  async migrateLegacyPayments() {
+    this.logger.log(
+      '🔄 Migrating legacy VNPay payments to payment attempts...',
+    );
 
-    if (responseCode === '00') {
-      ticket.paidAt = new Date();
+    const legacyFilter = {
+      transactionId: { $exists: true, $ne: null },
+      paidAt: { $ne: null },
+    };
+    const [tickets, bookings] = await Promise.all([
+      this.ticketModel
+        .find({ ...legacyFilter, bookingId: null })
+        .lean<Array<Ticket & LegacyVNPayPayment & { _id: Types.ObjectId }>>()
+        .exec(),
+      this.bookingModel
+        .find(legacyFilter)
+        .lean<Array<Booking & LegacyVNPayPayment & { _id: Types.ObjectId }>>()
+        .exec(),
+    ]);
 
-      if (!ticket.snapshot) {
-        ticket.snapshot = await this.buildSnapshot(
-          ticket.seatId,
-          ticket.schedulingId,
-          ticket.promotionId,
-          ticket.totalPrice,
-        );
-      }
+    const toAttempt = (
+      payment: (Ticket | Booking) & LegacyVNPayPayment,
+      owner: { ticketId: Types.ObjectId } | { bookingId: Types.ObjectId },
+    ) => ({
+      updateOne: {
+        filter: { orderId: payment.transactionId! },
+        update: {
+          $setOnInsert: {
+            ticketId: null,
+            bookingId: null,
+            ...owner,
+            provider: PaymentProviderName.VNPAY,
+            orderId: payment.transactionId!,
+            amount: payment.totalPrice,
+            // vnp_CreateDate is required by querydr/refund
+            requestedAt:
+              payment.paymentCreatedAt ?? payment.createdAt ?? payment.paidAt,
+            status: PaymentAttemptStatus.SUCCESS,
+            providerTransactionNo: payment.vnpayTransactionNo,
+            bankCode: payment.bankCode,
+            responseCode: payment.responseCode,
+            responseMessage: payment.responseMessage,
+            paidAt: payment.paidAt,
+          },
+        },
+        upsert: true,
+      },
+    });
 
-      ticket.status = TicketStatus.SUCCESS;
-      await ticket.save();
+    const operations = [
+      ...tickets.map((ticket) => toAttempt(ticket, { ticketId: ticket._id })),
+      ...bookings.map((booking) =>
+        toAttempt(booking, { bookingId: booking._id }),
+      ),
+    ];
+    const result =
+      operations.length > 0
+        ? await this.paymentAttemptModel.bulkWrite(operations)
+        : null;
+
+    // Provider was implied (VNPay was the only gateway)
+    const providerFilter = {
+      ...legacyFilter,
+      paymentProvider: { $exists: false },
+    };
+    const [ticketUpdate, bookingUpdate] = await Promise.all([
+      this.ticketModel.updateMany(providerFilter, {
+        $set: { paymentProvider: PaymentProviderName.VNPAY },
+      }),
+      this.bookingModel.updateMany(providerFilter, {
+        $set: { paymentProvider: PaymentProviderName.VNPAY },
+      }),
+    ]);
 
-      await this.seatService.confirmSeat(ticket.seatId.toString());
+    const migratedCount = result?.upsertedCount ?? 0;
+    this.logger.log(`✅ Created ${migratedCount} payment attempts`);
 
-      const fullTicket = await this.findOne(String(ticket._id));
+    return {
+      message: `Migrated ${migratedCount} legacy VNPay payments`,
+      migratedCount,
+      alreadyMigrated: operations.length - migratedCount,
+      providerSetCount:
+        ticketUpdate.modifiedCount + bookingUpdate.modifiedCount,
+    };
+  }
 
-      return {
-        success: true,
-        message: 'Thanh toán thành công',
-        ticket: fullTicket,
-        paymentInfo: {
-          transactionId,
-          vnpayTransactionNo,
-          amount,
-          bankCode,
-          paidAt: ticket.paidAt,
-          responseCode,
-        },
-      };
-    } else {
-      if (!ticket.snapshot) {
-        ticket.snapshot = await this.buildSnapshot(
-          ticket.seatId,
-          ticket.schedulingId,
-          ticket.promotionId,
-          ticket.totalPrice,
-        );
-      }
+  async getRefundTransactions(ticketId: string) {
+    return this.refundTransactionModel
+      .find({ ticketId: new Types.ObjectId(ticketId) })
+      .sort({ createdAt: -1 })
+      .exec();
+  }
 
-      ticket.status = TicketStatus.FAILED;
-      await ticket.save();
+  async getPaymentAttempts(ticketId: string) {
+    const ticket = await this.ticketModel
+      .findById(ticketId)
+      .select('bookingId')
+      .exec();
+    if (!ticket) throw new NotFoundException('Ticket not found');
 
-      await this.seatService.releaseSeat(ticket.seatId.toString());
+    return this.paymentAttemptModel
+      .find(this.paymentAttemptFilter(ticket))
+      .select('-rawResponse')
+      .sort({ createdAt: -1 })
+      .exec();
+  }
 
-      return {
-        success: false,
-        message: verifyResult.message,
-        paymentInfo: {
-          transactionId,
-          vnpayTransactionNo,
-          amount,
-          bankCode,
-          responseCode,
-          responseMessage: verifyResult.message,
-        },
-      };
-    }
+  /**
+   * Attempts of a ticket are its own, or its booking's
+   */
+  private paymentAttemptFilter(ticket: TicketDocument) {
+    return ticket.bookingId
+      ? { bookingId: ticket.bookingId }
+      : { ticketId: ticket._id };
   }
 
   async getPaymentStatus(ticketId: string) {
     const ticket = await this.ticketModel
       .findById(ticketId)
       .select(
-        'status transactionId vnpayTransactionNo responseCode responseMessage bankCode paidAt totalPrice',
+        'status bookingId paymentProvider transactionId paidAt totalPrice refundAmount refundedAt',
       )
       .exec();
 
@@ -940,6 +3264,11 @@ export class TicketService {
       throw new NotFoundException('Ticket not found');
     }
 
+    const attempt = await this.paymentAttemptModel
+      .findOne(this.paymentAttemptFilter(ticket))
+      .sort({ createdAt: -1 })
+      .exec();
+
     return {
       ticketId: String(ticket._id),
       status: ticket.status,
@@ -948,14 +3277,22 @@ export class TicketService {
           ? 'PAID'
           : ticket.status === TicketStatus.FAILED
             ? 'FAILED'
-            : 'PENDING',
-      transactionId: ticket.transactionId,
-      vnpayTransactionNo: ticket.vnpayTransactionNo,
-      responseCode: ticket.responseCode,
-      responseMessage: ticket.responseMessage,
-      bankCode: ticket.bankCode,
+            : ticket.status === TicketStatus.REFUNDED
+              ? 'REFUNDED'
+              : ticket.status === TicketStatus.CANCELLED
+                ? 'CANCELLED'
+                : 'PENDING',
+      provider: attempt?.provider ?? ticket.paymentProvider,
+      transactionId: attempt?.orderId ?? ticket.transactionId,
+      attemptStatus: attempt?.status,
+      providerTransactionNo: attempt?.providerTransactionNo,
+      responseCode: attempt?.responseCode,
+      responseMessage: attempt?.responseMessage,
+      bankCode: attempt?.bankCode,
       paidAt: ticket.paidAt,
       amount: ticket.totalPrice,
+      refundAmount: ticket.refundAmount,
+      refundedAt: ticket.refundedAt,
     };
   }
 
@@ -1024,12 +3361,18 @@ export class TicketService {
       pendingCount,
       failedCount,
       transferCount,
+      cancelledCount,
+      refundedCount,
       totalCount,
     ] = await Promise.all([
       this.ticketModel.find({ status: TicketStatus.SUCCESS }).exec(),
       this.ticketModel.countDocuments({ status: TicketStatus.PENDING }).exec(),
       this.ticketModel.countDocuments({ status: TicketStatus.FAILED }).exec(),
       this.ticketModel.countDocuments({ status: TicketStatus.TRANSFER }).exec(),
+      this.ticketModel
+        .countDocuments({ status: TicketStatus.CANCELLED })
+        .exec(),
+      this.ticketModel.countDocuments({ status: TicketStatus.REFUNDED }).exec(),
       this.ticketModel.countDocuments().exec(),
     ]);
 
@@ -1049,6 +3392,8 @@ export class TicketService {
         success: successCount,
         failed: failedCount,
         transfer: transferCount,
+        cancelled: cancelledCount,
+        refunded: refundedCount,
       },
     };
   }
@@ -1417,7 +3762,15 @@ export class TicketService {
       .findById(ticketId)
       .populate('userId', 'firstName lastName phone email')
       .populate('seatId', 'seatNo')
-      .populate('schedulingId', 'departureDate arrivalDate etd eta')
+      .populate({
+        path: 'schedulingId',
+        select: 'departureDate arrivalDate etd eta routeId',
+        populate: {
+          path: 'routeId',
+          select: 'stationIds',
+          populate: { path: 'stationIds', select: 'name' },
+        },
+      })
       .exec();
 
     if (!ticketDoc) {
@@ -1425,15 +3778,25 @@ export class TicketService {
     }
 
     // Cast to populated type for type safety
-    const ticket = ticketDoc as unknown as TicketPopulated;
+    const ticket = ticketDoc as unknown as TicketPopulated & {
+      schedulingId: { routeId?: { stationIds?: TicketStop[] } | null };
+    };
+    const bookingCode = await this.ensureBookingCode(ticketDoc);
+    const stops = this.getTicketStops(
+      ticket,
+      ticket.schedulingId.routeId?.stationIds ?? [],
+    );
 
     // Create QR code data with ticket information
     const qrData = {
+      bookingCode,
       ticketId: String(ticket._id),
       transactionId: ticket.transactionId,
       passengerName: `${ticket.userId.firstName} ${ticket.userId.lastName}`,
       phone: ticket.userId.phone,
       seatNo: ticket.seatId.seatNo,
+      from: stops.from.name,
+      to: stops.to.name,
       departureDate: ticket.schedulingId.departureDate,
       etd: ticket.schedulingId.etd,
       totalPrice: ticket.totalPrice,
@@ -1489,23 +3852,22 @@ export class TicketService {
     const ticket = ticketDoc as unknown as TicketPopulated & {
       schedulingId: SchedulingDocument & {
         routeId: RouteDocument & {
-          stationIds: any[];
+          stationIds: TicketStop[];
         };
         busId: any;
       };
     };
 
-    // Generate QR code for the ticket
+    // Generate QR code for the ticket (assigns a booking code if missing)
     const qrBuffer = await this.generateQRCode(ticketId);
+    const bookingCode = await this.ensureBookingCode(ticketDoc);
 
-    // Get route info from stationIds array
+    // Segment tickets board/alight at intermediate stops of the route
     const route = ticket.schedulingId.routeId;
-    const stations = route.stationIds || [];
-    const departureStation = stations[0] || { name: 'N/A', address: 'N/A' };
-    const arrivalStation = stations[stations.length - 1] || {
-      name: 'N/A',
-      address: 'N/A',
-    };
+    const { from: departureStation, to: arrivalStation } = this.getTicketStops(
+      ticket,
+      route.stationIds || [],
+    );
     const departureDate = new Date(ticket.schedulingId.departureDate);
 
     return new Promise((resolve, reject) => {
@@ -1533,7 +3895,14 @@ export class TicketService {
           .text('CHECK!T OUT', { align: 'center' })
           .moveDown(1);
 
-        // Ticket ID & Status
+        // Booking code, Ticket ID & Status
+        doc
+          .fontSize(16)
+          .font('Helvetica-Bold')
+          .text(`Ma dat cho: ${bookingCode}`, { align: 'center' })
+          .font('Helvetica')
+          .moveDown(0.3);
+
         doc
           .fontSize(10)
           .text(`Ma ve: ${String(ticket._id)}`, { align: 'center' })
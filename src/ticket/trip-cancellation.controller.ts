@@ -0,0 +1,130 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import { TripCancellationService } from './trip-cancellation.service';
+import { CancelTripDto } from './dto/cancel-trip.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+
+@ApiTags('Trip Cancellation')
+@Controller('trip-cancellations')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth('JWT-auth')
+export class TripCancellationController {
+  constructor(
+    private readonly tripCancellationService: TripCancellationService,
+  ) {}
+
+  @Get(':schedulingId/preview')
+  @ApiOperation({
+    summary: 'Preview cancelling a trip (Admin only)',
+    description:
+      'Lists affected tickets and the rebooking/refund each one would get. Nothing is changed.',
+  })
+  @ApiParam({ name: 'schedulingId', description: 'Scheduling ID' })
+  @ApiQuery({
+    name: 'targetSchedulingId',
+    required: false,
+    description: 'Only rebook onto this scheduling',
+  })
+  preview(
+    @Param('schedulingId') schedulingId: string,
+    @Query('targetSchedulingId') targetSchedulingId?: string,
+  ) {
+    return this.tripCancellationService.preview(
+      schedulingId,
+      targetSchedulingId,
+    );
+  }
+
+  @Post(':schedulingId')
+  @ApiOperation({
+    summary: 'Cancel a trip and rebook or refund its passengers (Admin only)',
+    description: `
+      - The scheduling becomes cancelled and its status jobs are removed
+      - PENDING tickets are voided and their seats released
+      - REBOOK: SUCCESS tickets move to the next trip on the same route with a free seat (no price or 3-hour restriction), otherwise they are refunded
+      - REFUND: SUCCESS tickets are cancelled with a 100% refund (online tickets are refunded through their provider)
+      - The report is written ticket by ticket; an interrupted run can be resumed
+      - Returns the report of what happened to every passenger
+    `,
+  })
+  @ApiParam({ name: 'schedulingId', description: 'Scheduling ID' })
+  @ApiResponse({ status: 201, description: 'Trip cancelled, report created' })
+  @ApiResponse({
+    status: 400,
+    description: 'Trip already cancelled, started or completed',
+  })
+  cancelTrip(
+    @Param('schedulingId') schedulingId: string,
+    @Body() dto: CancelTripDto,
+    @Req() req: Request & { user?: { email?: string; userId?: string } },
+  ) {
+    const cancelledBy = req.user?.email || req.user?.userId || 'admin';
+    return this.tripCancellationService.cancelTrip(
+      schedulingId,
+      dto,
+      cancelledBy,
+      this.getClientIp(req),
+    );
+  }
+
+  @Post(':schedulingId/resume')
+  @ApiOperation({
+    summary: 'Resume an interrupted trip cancellation (Admin only)',
+    description:
+      'Resolves again the tickets still paid or held on the cancelled trip (e.g. ERROR entries or a run that stopped half-way) and updates the report.',
+  })
+  @ApiParam({ name: 'schedulingId', description: 'Scheduling ID' })
+  @ApiResponse({ status: 201, description: 'Report updated' })
+  @ApiResponse({
+    status: 400,
+    description: 'The cancellation is still being processed',
+  })
+  @ApiResponse({ status: 404, description: 'Trip was not cancelled' })
+  resumeCancellation(
+    @Param('schedulingId') schedulingId: string,
+    @Req() req: Request & { user?: { email?: string; userId?: string } },
+  ) {
+    const cancelledBy = req.user?.email || req.user?.userId || 'admin';
+    return this.tripCancellationService.resumeCancellation(
+      schedulingId,
+      cancelledBy,
+      this.getClientIp(req),
+    );
+  }
+
+  @Get(':schedulingId')
+  @ApiOperation({ summary: 'Cancellation report of a trip (Admin only)' })
+  @ApiParam({ name: 'schedulingId', description: 'Scheduling ID' })
+  @ApiResponse({ status: 404, description: 'Trip was not cancelled' })
+  getReport(@Param('schedulingId') schedulingId: string) {
+    return this.tripCancellationService.getReport(schedulingId);
+  }
+
+  private getClientIp(req: Request): string {
+    return (req.ip ||
+      req.headers['x-forwarded-for'] ||
+      req.socket.remoteAddress ||
+      '127.0.0.1') as string;
+  }
+}
@@ -0,0 +1,300 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { Types } from 'mongoose';
+import { TripCancellationService } from './trip-cancellation.service';
+import {
+  TripCancellation,
+  TripCancellationEntry,
+} from './entities/trip-cancellation.entity';
+import { Ticket } from './entities/ticket.entity';
+import { TicketStatus } from './enums/ticket-status.enum';
+import { PaymentMethod } from './enums/payment-method.enum';
+import { TripCancellationOutcome } from './enums/trip-cancellation-outcome.enum';
+import { TripCancellationResolution } from './enums/trip-cancellation-resolution.enum';
+import { TicketService } from './ticket.service';
+import { SeatService } from '../seat/seat.service';
+import { SchedulingService } from '../scheduling/scheduling.service';
+import { Scheduling } from '../scheduling/entities/scheduling.entity';
+
+// Keep the heavy service graphs (Bus schema, Redis, provider SDKs) out of this test
+jest.mock('./ticket.service', () => ({
+  TicketService: class TicketService {},
+}));
+jest.mock('../seat/seat.service', () => ({
+  SeatService: class SeatService {},
+}));
+jest.mock('../scheduling/scheduling.service', () => ({
+  SchedulingService: class SchedulingService {},
+}));
+
+describe('TripCancellationService', () => {
+  let service: TripCancellationService;
+
+  const query = <T>(value: T) => ({
+    populate: () => query(value),
+    sort: () => query(value),
+    limit: () => query(value),
+    exec: () => Promise.resolve(value),
+  });
+
+  const routeId = new Types.ObjectId();
+  const trip = (departureDate: string, etd: string) => ({
+    _id: new Types.ObjectId(),
+    routeId,
+    departureDate: new Date(departureDate),
+    etd,
+    status: 'scheduled',
+    isDeleted: false,
+  });
+  const seat = (seatNo: string) => ({
+    _id: new Types.ObjectId(),
+    seatNo,
+    seatClass: 'standard',
+  });
+  const ticket = (seatNo: string, bookingId: Types.ObjectId | null = null) => ({
+    _id: new Types.ObjectId(),
+    status: TicketStatus.SUCCESS,
+    bookingId,
+    seatId: seat(seatNo),
+    userId: { _id: new Types.ObjectId(), email: 'khach@example.com' },
+    totalPrice: 250000,
+  });
+
+  const cancelled = trip('2030-03-01', '08:00');
+  const morning = trip('2030-03-01', '14:00');
+  const evening = trip('2030-03-01', '20:00');
+
+  let tickets: ReturnType<typeof ticket>[];
+  let freeSeats: Map<string, ReturnType<typeof seat>[]>;
+  let report: Record<string, any> & { entries: TripCancellationEntry[] };
+
+  const tripCancellationModel = {
+    create: jest.fn((data: Record<string, unknown>) => {
+      report = { _id: new Types.ObjectId(), entries: [], ...data };
+      report.save = jest.fn(() => Promise.resolve(report));
+      return Promise.resolve(report);
+    }),
+    findOneAndUpdate: jest.fn(() => query(report)),
+    deleteOne: jest.fn(),
+  };
+  const ticketModel = {
+    find: jest.fn(() => query(tickets)),
+    findById: jest.fn(),
+  };
+  const schedulingModel = {
+    findById: jest.fn(() => query(cancelled)),
+    find: jest.fn(() => query([morning, evening])),
+  };
+
+  const ticketService = {
+    rebookTicket: jest.fn(() => Promise.resolve({ _id: new Types.ObjectId() })),
+    cancelWithFullRefund: jest.fn(() =>
+      Promise.resolve({
+        refundAmount: 250000,
+        paymentMethod: PaymentMethod.BANKING,
+        paidAt: new Date(),
+      }),
+    ),
+    refundPayment: jest.fn(),
+    failTicket: jest.fn(),
+  };
+  const seatService = {
+    getFreeSeats: jest.fn((schedulingId: string) =>
+      Promise.resolve(freeSeats.get(schedulingId) ?? []),
+    ),
+  };
+  const schedulingService = {
+    cancelTrip: jest.fn(() => Promise.resolve()),
+  };
+
+  const rebookedOnto = (ticketId: Types.ObjectId) =>
+    (ticketService.rebookTicket.mock.calls as unknown as string[][]).find(
+      ([id]) => id === String(ticketId),
+    )?.[1];
+
+  beforeEach(async () => {
+    tickets = [];
+    freeSeats = new Map();
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TripCancellationService,
+        {
+          provide: getModelToken(TripCancellation.name),
+          useValue: tripCancellationModel,
+        },
+        { provide: getModelToken(Ticket.name), useValue: ticketModel },
+        { provide: getModelToken(Scheduling.name), useValue: schedulingModel },
+        { provide: TicketService, useValue: ticketService },
+        { provide: SeatService, useValue: seatService },
+        { provide: SchedulingService, useValue: schedulingService },
+      ],
+    }).compile();
+
+    service = module.get<TripCancellationService>(TripCancellationService);
+  });
+
+  describe('cancelTrip', () => {
+    it('should rebook a booking onto the soonest trip with room for all of its passengers', async () => {
+      const bookingId = new Types.ObjectId();
+      const [first, second] = [
+        ticket('A1', bookingId),
+        ticket('A2', bookingId),
+      ];
+      const single = ticket('B1');
+      tickets = [first, second, single];
+      freeSeats.set(String(morning._id), [seat('A1')]);
+      freeSeats.set(String(evening._id), [seat('A1'), seat('A2'), seat('A3')]);
+
+      await service.cancelTrip(
+        String(cancelled._id),
+        { reason: 'Xe hỏng' },
+        'admin',
+        '127.0.0.1',
+      );
+
+      expect(rebookedOnto(first._id)).toBe(String(evening._id));
+      expect(rebookedOnto(second._id)).toBe(String(evening._id));
+      expect(rebookedOnto(single._id)).toBe(String(morning._id));
+      expect(report.summary).toEqual({ [TripCancellationOutcome.REBOOKED]: 3 });
+    });
+
+    it('should spread a booking over the trips when none can hold it as a whole', async () => {
+      const bookingId = new Types.ObjectId();
+      const [first, second] = [
+        ticket('A1', bookingId),
+        ticket('A2', bookingId),
+      ];
+      tickets = [first, second];
+      freeSeats.set(String(morning._id), [seat('C1')]);
+      freeSeats.set(String(evening._id), [seat('C2')]);
+
+      await service.cancelTrip(
+        String(cancelled._id),
+        { reason: 'Xe hỏng' },
+        'admin',
+        '127.0.0.1',
+      );
+
+      expect(rebookedOnto(first._id)).toBe(String(morning._id));
+      expect(rebookedOnto(second._id)).toBe(String(evening._id));
+    });
+
+    it('should leave a ticket REFUND_PENDING when its online refund fails', async () => {
+      const single = ticket('B1');
+      tickets = [single];
+      ticketService.refundPayment.mockResolvedValueOnce({
+        success: false,
+        message: 'Giao dịch không thành công',
+      });
+
+      await service.cancelTrip(
+        String(cancelled._id),
+        { reason: 'Xe hỏng' },
+        'admin',
+        '127.0.0.1',
+      );
+
+      expect(report.entries).toEqual([
+        expect.objectContaining({
+          ticketId: String(single._id),
+          outcome: TripCancellationOutcome.REFUND_PENDING,
+          refundAmount: 250000,
+        }),
+      ]);
+      expect(report.processingStartedAt).toBeNull();
+    });
+  });
+
+  describe('resumeCancellation', () => {
+    it('should send a failed online refund again', async () => {
+      const refundTicketId = new Types.ObjectId();
+      report = {
+        _id: new Types.ObjectId(),
+        reason: 'Xe hỏng',
+        resolution: TripCancellationResolution.REFUND,
+        refundTicketIds: [],
+        entries: [
+          {
+            ticketId: String(refundTicketId),
+            userId: String(new Types.ObjectId()),
+            seatNo: 'B1',
+            previousStatus: TicketStatus.SUCCESS,
+            outcome: TripCancellationOutcome.REFUND_PENDING,
+            refundAmount: 250000,
+            message: 'Online refund failed: Giao dịch không thành công',
+          },
+        ],
+        summary: { [TripCancellationOutcome.REFUND_PENDING]: 1 },
+      };
+      report.save = jest.fn(() => Promise.resolve(report));
+      ticketModel.findById.mockReturnValue(
+        query({
+          _id: refundTicketId,
+          status: TicketStatus.CANCELLED,
+          paymentMethod: PaymentMethod.BANKING,
+          paidAt: new Date(),
+        }),
+      );
+      ticketService.refundPayment.mockResolvedValueOnce({ success: true });
+
+      await service.resumeCancellation(
+        String(cancelled._id),
+        'admin',
+        '127.0.0.1',
+      );
+
+      expect(ticketService.refundPayment).toHaveBeenCalledWith(
+        String(refundTicketId),
+        'admin',
+        '127.0.0.1',
+      );
+      expect(report.entries).toEqual([
+        expect.objectContaining({
+          outcome: TripCancellationOutcome.REFUNDED,
+          message: undefined,
+        }),
+      ]);
+      expect(report.summary).toEqual({ [TripCancellationOutcome.REFUNDED]: 1 });
+    });
+
+    it('should leave a cash refund to the counter', async () => {
+      report = {
+        _id: new Types.ObjectId(),
+        reason: 'Xe hỏng',
+        resolution: TripCancellationResolution.REFUND,
+        refundTicketIds: [],
+        entries: [
+          {
+            ticketId: String(new Types.ObjectId()),
+            userId: String(new Types.ObjectId()),
+            seatNo: 'B1',
+            previousStatus: TicketStatus.SUCCESS,
+            outcome: TripCancellationOutcome.REFUND_PENDING,
+            message: 'Refund in cash at the counter',
+          },
+        ],
+        summary: { [TripCancellationOutcome.REFUND_PENDING]: 1 },
+      };
+      report.save = jest.fn(() => Promise.resolve(report));
+      ticketModel.findById.mockReturnValue(
+        query({
+          status: TicketStatus.CANCELLED,
+          paymentMethod: PaymentMethod.CASH,
+        }),
+      );
+
+      await service.resumeCancellation(
+        String(cancelled._id),
+        'admin',
+        '127.0.0.1',
+      );
+
+      expect(ticketService.refundPayment).not.toHaveBeenCalled();
+      expect(report.summary).toEqual({
+        [TripCancellationOutcome.REFUND_PENDING]: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,650 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, Types } from 'mongoose';
+import {
+  TripCancellation,
+  TripCancellationDocument,
+  TripCancellationEntry,
+} from './entities/trip-cancellation.entity';
+import { Ticket, TicketDocument } from './entities/ticket.entity';
+import { TicketStatus } from './enums/ticket-status.enum';
+import { PaymentMethod } from './enums/payment-method.enum';
+import { TripCancellationResolution } from './enums/trip-cancellation-resolution.enum';
+import { TripCancellationOutcome } from './enums/trip-cancellation-outcome.enum';
+import { CancelTripDto } from './dto/cancel-trip.dto';
+import { TicketService } from './ticket.service';
+import { SeatService } from '../seat/seat.service';
+import { SeatDocument } from '../seat/entities/seat.entity';
+import { SchedulingService } from '../scheduling/scheduling.service';
+import {
+  Scheduling,
+  SchedulingDocument,
+} from '../scheduling/entities/scheduling.entity';
+import { User } from '../users/entities/user.entity';
+import { getDepartureAt } from '../common/utils/departure-time.util';
+
+type AffectedTicket = TicketDocument & {
+  seatId: Pick<SeatDocument, '_id' | 'seatNo' | 'seatClass'>;
+  userId: Pick<User, 'email' | 'firstName' | 'lastName'> & {
+    _id: Types.ObjectId;
+  };
+};
+
+interface RebookingCandidate {
+  scheduling: SchedulingDocument;
+  departureAt: Date;
+  freeSeats: SeatDocument[];
+}
+
+interface PlannedRebooking {
+  scheduling: SchedulingDocument;
+  departureAt: Date;
+  seat: SeatDocument;
+}
+
+// Số chuyến kế tiếp được xét khi tìm chỗ chuyển vé
+const MAX_REBOOKING_CANDIDATES = 10;
+
+// Lần xử lý hủy chuyến bị gián đoạn quá lâu được coi là đã dừng, cho phép chạy tiếp
+const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
+@Injectable()
+export class TripCancellationService {
+  private readonly logger = new Logger(TripCancellationService.name);
+
+  constructor(
+    @InjectModel(TripCancellation.name)
+    private tripCancellationModel: Model<TripCancellationDocument>,
+    @InjectModel(Ticket.name) private ticketModel: Model<TicketDocument>,
+    @InjectModel(Scheduling.name)
+    private schedulingModel: Model<SchedulingDocument>,
+    private readonly ticketService: TicketService,
+    private readonly seatService: SeatService,
+    private readonly schedulingService: SchedulingService,
+  ) {}
+
+  /**
+   * List the tickets of a trip and what cancelling it would do to each one
+   * (nothing is changed)
+   */
+  async preview(schedulingId: string, targetSchedulingId?: string) {
+    const scheduling = await this.getCancellableScheduling(schedulingId);
+    const [tickets, candidates] = await Promise.all([
+      this.getAffectedTickets(schedulingId),
+      this.getRebookingCandidates(scheduling, targetSchedulingId),
+    ]);
+    const plan = this.planRebooking(tickets, candidates);
+
+    return {
+      schedulingId,
+      departureAt: getDepartureAt(scheduling),
+      totalTickets: tickets.length,
+      tickets: tickets.map((ticket) => {
+        const planned = plan.get(String(ticket._id));
+        return {
+          ...this.describeTicket(ticket),
+          proposal:
+            ticket.status === TicketStatus.PENDING
+              ? { outcome: TripCancellationOutcome.VOIDED }
+              : planned
+                ? {
+                    outcome: TripCancellationOutcome.REBOOKED,
+                    newSchedulingId: String(planned.scheduling._id),
+                    newDepartureAt: planned.departureAt,
+                    newSeatNo: planned.seat.seatNo,
+                  }
+                : {
+                    outcome: TripCancellationOutcome.REFUND_PENDING,
+                    refundAmount: ticket.totalPrice,
+                  },
+        };
+      }),
+      rebookingOptions: candidates.map((candidate) => ({
+        schedulingId: String(candidate.scheduling._id),
+        departureAt: candidate.departureAt,
+        freeSeats: candidate.freeSeats.length,
+      })),
+    };
+  }
+
+  /**
+   * Cancel a trip on behalf of the operator: stop the trip, then rebook or
+   * refund every passenger and keep a report of the outcome
+   */
+  async cancelTrip(
+    schedulingId: string,
+    dto: CancelTripDto,
+    cancelledBy: string,
+    ipAddr: string,
+  ) {
+    const scheduling = await this.getCancellableScheduling(schedulingId);
+    const resolution = dto.resolution ?? TripCancellationResolution.REBOOK;
+    const candidates =
+      resolution === TripCancellationResolution.REBOOK
+        ? await this.getRebookingCandidates(scheduling, dto.targetSchedulingId)
+        : [];
+
+    // The report comes first: it is unique per trip, so a second request stops here
+    let report: TripCancellationDocument;
+    try {
+      report = await this.tripCancellationModel.create({
+        schedulingId: scheduling._id,
+        reason: dto.reason,
+        resolution,
+        cancelledBy,
+        targetSchedulingId: dto.targetSchedulingId
+          ? new Types.ObjectId(dto.targetSchedulingId)
+          : null,
+        refundTicketIds: dto.refundTicketIds ?? [],
+        processingStartedAt: new Date(),
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) {
+        throw new BadRequestException('This trip has already been cancelled');
+      }
+      throw error;
+    }
+
+    // Stop sales on the trip before touching its tickets
+    try {
+      await this.schedulingService.cancelTrip(schedulingId, dto.reason);
+    } catch (error) {
+      await this.tripCancellationModel.deleteOne({ _id: report._id });
+      throw error;
+    }
+
+    return this.resolveTickets(
+      report,
+      scheduling,
+      cancelledBy,
+      ipAddr,
+      candidates,
+    );
+  }
+
+  /**
+   * Resume an interrupted cancellation: tickets still paid or held on the trip
+   * (including the ones that ended in ERROR) are resolved again, and online
+   * refunds that failed are sent again
+   */
+  async resumeCancellation(
+    schedulingId: string,
+    cancelledBy: string,
+    ipAddr: string,
+  ) {
+    const report = await this.tripCancellationModel
+      .findOneAndUpdate(
+        {
+          schedulingId: new Types.ObjectId(schedulingId),
+          $or: [
+            { processingStartedAt: null },
+            {
+              processingStartedAt: {
+                $lt: new Date(Date.now() - STALE_PROCESSING_MS),
+              },
+            },
+          ],
+        },
+        { $set: { processingStartedAt: new Date() } },
+        { new: true },
+      )
+      .exec();
+    if (!report) {
+      const exists = await this.tripCancellationModel.exists({
+        schedulingId: new Types.ObjectId(schedulingId),
+      });
+      throw exists
+        ? new BadRequestException('This trip cancellation is still in progress')
+        : new NotFoundException('No cancellation report for this trip');
+    }
+
+    const scheduling = await this.schedulingModel.findById(schedulingId).exec();
+    if (!scheduling) {
+      await this.tripCancellationModel.updateOne(
+        { _id: report._id },
+        { $set: { processingStartedAt: null } },
+      );
+      throw new NotFoundException('Scheduling not found');
+    }
+
+    return this.resolveTickets(report, scheduling, cancelledBy, ipAddr);
+  }
+
+  async getReport(schedulingId: string) {
+    const report = await this.tripCancellationModel
+      .findOne({ schedulingId: new Types.ObjectId(schedulingId) })
+      .exec();
+    if (!report) {
+      throw new NotFoundException('No cancellation report for this trip');
+    }
+    return report;
+  }
+
+  private async getCancellableScheduling(
+    schedulingId: string,
+  ): Promise<SchedulingDocument> {
+    const scheduling = await this.schedulingModel.findById(schedulingId).exec();
+    if (!scheduling || scheduling.isDeleted) {
+      throw new NotFoundException('Scheduling not found');
+    }
+    if (!['scheduled', 'delayed'].includes(scheduling.status)) {
+      throw new BadRequestException(
+        `Cannot cancel a trip with status ${scheduling.status}`,
+      );
+    }
+    return scheduling;
+  }
+
+  /**
+   * Paid and still-held tickets of the trip, sorted so that the tickets of
+   * a booking come one after another
+   */
+  private async getAffectedTickets(
+    schedulingId: string,
+  ): Promise<AffectedTicket[]> {
+    return this.ticketModel
+      .find({
+        schedulingId: new Types.ObjectId(schedulingId),
+        status: { $in: [TicketStatus.SUCCESS, TicketStatus.PENDING] },
+      })
+      .populate('seatId', 'seatNo seatClass')
+      .populate('userId', 'email firstName lastName')
+      .sort({ bookingId: 1, createdAt: 1 })
+      .exec() as unknown as Promise<AffectedTicket[]>;
+  }
+
+  /**
+   * Later trips on the same route that still have free seats, soonest first
+   */
+  private async getRebookingCandidates(
+    scheduling: SchedulingDocument,
+    targetSchedulingId?: string,
+  ): Promise<RebookingCandidate[]> {
+    if (targetSchedulingId && targetSchedulingId === String(scheduling._id)) {
+      throw new BadRequestException(
+        'Cannot rebook passengers onto the cancelled trip',
+      );
+    }
+
+    const dayStart = new Date(scheduling.departureDate);
+    dayStart.setHours(0, 0, 0, 0);
+
+    const schedulings = await this.schedulingModel
+      .find({
+        _id: targetSchedulingId
+          ? new Types.ObjectId(targetSchedulingId)
+          : { $ne: scheduling._id },
+        routeId: scheduling.routeId,
+        isDeleted: false,
+        status: { $in: ['scheduled', 'delayed'] },
+        departureDate: { $gte: dayStart },
+      })
+      .sort({ departureDate: 1, etd: 1 })
+      .limit(MAX_REBOOKING_CANDIDATES)
+      .exec();
+
+    const departureAt = getDepartureAt(scheduling);
+    const now = new Date();
+    const candidates: RebookingCandidate[] = [];
+
+    for (const candidate of schedulings) {
+      const candidateDepartureAt = getDepartureAt(candidate);
+      if (candidateDepartureAt <= departureAt || candidateDepartureAt <= now) {
+        continue;
+      }
+
+      const freeSeats = await this.seatService.getFreeSeats(
+        String(candidate._id),
+      );
+      if (freeSeats.length > 0) {
+        candidates.push({
+          scheduling: candidate,
+          departureAt: candidateDepartureAt,
+          freeSeats,
+        });
+      }
+    }
+
+    if (targetSchedulingId && candidates.length === 0) {
+      throw new BadRequestException(
+        'Target scheduling must be a later trip on the same route with free seats',
+      );
+    }
+
+    return candidates.sort(
+      (a, b) => a.departureAt.getTime() - b.departureAt.getTime(),
+    );
+  }
+
+  /**
+   * Give each paid ticket a seat on the soonest trip that has one,
+   * preferring the same seat number, then the same seat class. The tickets
+   * of a booking go to the soonest trip with room for all of them; a booking
+   * that no trip can hold as a whole is spread over the trips.
+   */
+  private planRebooking(
+    tickets: AffectedTicket[],
+    candidates: RebookingCandidate[],
+  ): Map<string, PlannedRebooking> {
+    const plan = new Map<string, PlannedRebooking>();
+    const freeSeats = candidates.map((candidate) => [...candidate.freeSeats]);
+
+    const bookings = new Map<string, AffectedTicket[]>();
+    for (const ticket of tickets) {
+      if (ticket.status !== TicketStatus.SUCCESS) continue;
+      const key = String(ticket.bookingId ?? ticket._id);
+      bookings.set(key, [...(bookings.get(key) ?? []), ticket]);
+    }
+
+    for (const group of bookings.values()) {
+      const together = freeSeats.findIndex(
+        (seats) => seats.length >= group.length,
+      );
+
+      for (const ticket of group) {
+        const index =
+          together !== -1
+            ? together
+            : freeSeats.findIndex((seats) => seats.length > 0);
+        if (index === -1) break;
+
+        plan.set(String(ticket._id), {
+          scheduling: candidates[index].scheduling,
+          departureAt: candidates[index].departureAt,
+          seat: this.takeSeat(freeSeats[index], ticket),
+        });
+      }
+    }
+
+    return plan;
+  }
+
+  private takeSeat(seats: SeatDocument[], ticket: AffectedTicket) {
+    let seatIndex = seats.findIndex(
+      (seat) => seat.seatNo === ticket.seatId?.seatNo,
+    );
+    if (seatIndex === -1) {
+      seatIndex = seats.findIndex(
+        (seat) => seat.seatClass === ticket.seatId?.seatClass,
+      );
+    }
+    if (seatIndex === -1) seatIndex = 0;
+
+    const [seat] = seats.splice(seatIndex, 1);
+    return seat;
+  }
+
+  /**
+   * Rebook or refund every ticket still open on the cancelled trip. Each
+   * outcome is written to the report as soon as it is known, so a run that
+   * stops half-way can be resumed. Refunds left REFUND_PENDING by an earlier
+   * run are retried at the end.
+   */
+  private async resolveTickets(
+    report: TripCancellationDocument,
+    scheduling: SchedulingDocument,
+    cancelledBy: string,
+    ipAddr: string,
+    candidates?: RebookingCandidate[],
+  ): Promise<TripCancellationDocument> {
+    const schedulingId = String(scheduling._id);
+    const wantsRebooking =
+      report.resolution === TripCancellationResolution.REBOOK;
+    const unsettled = report.entries.filter(
+      (entry) => entry.outcome === TripCancellationOutcome.REFUND_PENDING,
+    );
+
+    try {
+      const [tickets, rebookingCandidates] = await Promise.all([
+        this.getAffectedTickets(schedulingId),
+        candidates ??
+          (wantsRebooking
+            ? this.getRebookingCandidates(
+                scheduling,
+                report.targetSchedulingId
+                  ? String(report.targetSchedulingId)
+                  : undefined,
+              )
+            : Promise.resolve([])),
+      ]);
+
+      const refundTicketIds = new Set(report.refundTicketIds);
+      const plan = this.planRebooking(
+        tickets.filter((ticket) => !refundTicketIds.has(String(ticket._id))),
+        rebookingCandidates,
+      );
+
+      for (const ticket of tickets) {
+        const entry = await this.resolveTicket(
+          ticket,
+          plan.get(String(ticket._id)),
+          report.reason,
+          cancelledBy,
+          ipAddr,
+          wantsRebooking && !refundTicketIds.has(String(ticket._id)),
+        );
+
+        await this.saveEntry(report, entry);
+      }
+
+      for (const entry of unsettled) {
+        await this.saveEntry(
+          report,
+          await this.retryRefund(entry, cancelledBy, ipAddr),
+        );
+      }
+
+      this.logger.log(
+        `Trip ${schedulingId} cancelled by ${cancelledBy}: ${JSON.stringify(report.summary)}`,
+      );
+    } finally {
+      report.processingStartedAt = null;
+      await report.save();
+    }
+
+    return report;
+  }
+
+  private async saveEntry(
+    report: TripCancellationDocument,
+    entry: TripCancellationEntry,
+  ) {
+    // A resumed ticket replaces its earlier (ERROR / REFUND_PENDING) entry
+    report.entries = [
+      ...report.entries.filter((item) => item.ticketId !== entry.ticketId),
+      entry,
+    ];
+    report.summary = this.summarize(report.entries);
+    await report.save();
+  }
+
+  private summarize(entries: TripCancellationEntry[]) {
+    const summary: Partial<Record<TripCancellationOutcome, number>> = {};
+    for (const entry of entries) {
+      summary[entry.outcome] = (summary[entry.outcome] ?? 0) + 1;
+    }
+    return summary;
+  }
+
+  private async resolveTicket(
+    ticket: AffectedTicket,
+    planned: PlannedRebooking | undefined,
+    reason: string,
+    cancelledBy: string,
+    ipAddr: string,
+    wantsRebooking: boolean,
+  ): Promise<TripCancellationEntry> {
+    const ticketId = String(ticket._id);
+    const entry: TripCancellationEntry = {
+      ...this.describeTicket(ticket),
+      outcome: TripCancellationOutcome.ERROR,
+    };
+
+    try {
+      if (ticket.status === TicketStatus.PENDING) {
+        await this.ticketService.failTicket(ticketId, reason);
+        return { ...entry, outcome: TripCancellationOutcome.VOIDED };
+      }
+
+      let note: string | undefined;
+      if (planned) {
+        try {
+          const newTicket = await this.ticketService.rebookTicket(
+            ticketId,
+            String(planned.scheduling._id),
+            String(planned.seat._id),
+            reason,
+          );
+          return {
+            ...entry,
+            outcome: TripCancellationOutcome.REBOOKED,
+            newTicketId: String(newTicket._id),
+            newSchedulingId: String(planned.scheduling._id),
+            newDepartureAt: planned.departureAt,
+            newSeatNo: planned.seat.seatNo,
+          };
+        } catch (error) {
+          // Seat taken in the meantime: fall back to a refund
+          note = `Rebooking failed (${(error as Error).message}), refunded instead`;
+        }
+      } else if (wantsRebooking) {
+        note = 'No free seat on later trips of this route, refunded instead';
+      }
+
+      return await this.refundTicket(
+        ticket,
+        entry,
+        reason,
+        cancelledBy,
+        ipAddr,
+        note,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to resolve ticket ${ticketId} of cancelled trip:`,
+        error,
+      );
+      return { ...entry, message: (error as Error).message };
+    }
+  }
+
+  /**
+   * Full refund: online through the payment provider when the ticket was paid
+   * online, otherwise left for the counter to pay back
+   */
+  private async refundTicket(
+    ticket: AffectedTicket,
+    entry: TripCancellationEntry,
+    reason: string,
+    cancelledBy: string,
+    ipAddr: string,
+    note?: string,
+  ): Promise<TripCancellationEntry> {
+    const ticketId = String(ticket._id);
+    const cancelled = await this.ticketService.cancelWithFullRefund(
+      ticketId,
+      reason,
+    );
+    const result: TripCancellationEntry = {
+      ...entry,
+      outcome: TripCancellationOutcome.REFUND_PENDING,
+      refundAmount: cancelled.refundAmount,
+      message: note,
+    };
+
+    if (
+      cancelled.paymentMethod !== PaymentMethod.BANKING ||
+      !cancelled.paidAt
+    ) {
+      return {
+        ...result,
+        message: [note, 'Refund in cash at the counter']
+          .filter(Boolean)
+          .join('. '),
+      };
+    }
+
+    try {
+      const refund = await this.ticketService.refundPayment(
+        ticketId,
+        cancelledBy,
+        ipAddr,
+      );
+      if (refund.success) {
+        return { ...result, outcome: TripCancellationOutcome.REFUNDED };
+      }
+      return {
+        ...result,
+        message: [note, `Online refund failed: ${refund.message}`]
+          .filter(Boolean)
+          .join('. '),
+      };
+    } catch (error) {
+      return {
+        ...result,
+        message: [note, (error as Error).message].filter(Boolean).join('. '),
+      };
+    }
+  }
+
+  /**
+   * Send again the online refund of a ticket cancelled by an earlier run.
+   * Cash refunds stay with the counter; a refund still waiting for the
+   * provider is confirmed by reconcilePendingRefunds, not sent twice.
+   */
+  private async retryRefund(
+    entry: TripCancellationEntry,
+    cancelledBy: string,
+    ipAddr: string,
+  ): Promise<TripCancellationEntry> {
+    const ticket = await this.ticketModel.findById(entry.ticketId).exec();
+    const refunded = {
+      ...entry,
+      outcome: TripCancellationOutcome.REFUNDED,
+      message: undefined,
+    };
+    if (ticket?.status === TicketStatus.REFUNDED) return refunded;
+    if (
+      ticket?.status !== TicketStatus.CANCELLED ||
+      ticket.paymentMethod !== PaymentMethod.BANKING ||
+      !ticket.paidAt
+    ) {
+      return entry;
+    }
+
+    try {
+      const refund = await this.ticketService.refundPayment(
+        entry.ticketId,
+        cancelledBy,
+        ipAddr,
+      );
+      return refund.success
+        ? refunded
+        : { ...entry, message: `Online refund failed: ${refund.message}` };
+    } catch (error) {
+      return { ...entry, message: (error as Error).message };
+    }
+  }
+
+  private describeTicket(ticket: AffectedTicket) {
+    return {
+      ticketId: String(ticket._id),
+      userId: String(ticket.userId?._id ?? ticket.userId),
+      passengerName:
+        ticket.passengerName ??
+        ([ticket.userId?.firstName, ticket.userId?.lastName]
+          .filter(Boolean)
+          .join(' ') ||
+          undefined),
+      passengerPhone: ticket.passengerPhone,
+      email: ticket.userId?.email,
+      seatNo: ticket.seatId?.seatNo ?? ticket.snapshot?.seat.seatNo ?? '',
+      previousStatus: ticket.status,
+    };
+  }
+}
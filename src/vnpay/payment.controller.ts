@@ -7,6 +7,10 @@ import {
   Req,
   Res,
   UseGuards,
+  HttpCode,
+  HttpStatus,
+  Body,
+  ParseEnumPipe,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -19,6 +23,10 @@ import {
 import type { Request, Response } from 'express';
 import { TicketService } from '../ticket/ticket.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+import { PaymentProviderName } from '../payment-provider/enums/payment-provider.enum';
 import { ConfigService } from '@nestjs/config';
 
 @ApiTags('Payment')
@@ -30,30 +38,39 @@ export class PaymentController {
   ) {}
 
   /**
-   * Tạo VNPay payment URL cho ticket
+   * Tạo payment URL cho ticket (VNPay / MoMo / ZaloPay)
    */
   @Post('create/:ticketId')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
-  @ApiOperation({ summary: 'Create VNPay payment URL' })
+  @ApiOperation({ summary: 'Create online payment URL' })
   @ApiParam({ name: 'ticketId', description: 'Ticket ID' })
+  @ApiQuery({
+    name: 'provider',
+    required: false,
+    enum: PaymentProviderName,
+    description: "Payment gateway, defaults to the ticket's provider",
+  })
   async createPaymentUrl(
     @Param('ticketId') ticketId: string,
     @Req() req: Request,
+    @Query(
+      'provider',
+      new ParseEnumPipe(PaymentProviderName, { optional: true }),
+    )
+    provider?: PaymentProviderName,
   ) {
-    const ipAddr = (req.ip ||
-      req.headers['x-forwarded-for'] ||
-      req.socket.remoteAddress ||
-      '127.0.0.1') as string;
-
-    return this.ticketService.createPaymentUrl(ticketId, ipAddr);
+    return this.ticketService.createPaymentUrl(
+      ticketId,
+      this.getClientIp(req),
+      provider,
+    );
   }
 
   /**
-   * VNPay callback endpoint
+   * VNPay return URL (browser redirect)
    * → Verify signature
-   * → Update ticket & payment
-   * → Redirect về Frontend
+   * → Redirect về Frontend (chỉ hiển thị, IPN mới cập nhật ticket)
    */
   @Get('vnpay-return')
   @ApiOperation({ summary: 'VNPay callback endpoint' })
@@ -73,8 +90,10 @@ export class PaymentController {
 
       if (result.success) {
         const ticketId = result.ticket?._id?.toString() || '';
+        const bookingId = result.booking?._id?.toString();
         return res.redirect(
-          `${frontendUrl}/payment/success?ticketId=${ticketId}&transactionId=${transactionId}`,
+          `${frontendUrl}/payment/success?ticketId=${ticketId}&transactionId=${transactionId}` +
+            (bookingId ? `&bookingId=${bookingId}` : ''),
         );
       }
 
@@ -92,6 +111,53 @@ export class PaymentController {
     }
   }
 
+  /**
+   * VNPay IPN endpoint (server-to-server)
+   * → Verify signature, amount
+   * → Update ticket & payment (idempotent)
+   * → Trả về { RspCode, Message } theo hợp đồng VNPay
+   */
+  @Get('vnpay-ipn')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'VNPay IPN endpoint (called by VNPay server)' })
+  @ApiQuery({ name: 'vnp_TxnRef', required: true })
+  @ApiQuery({ name: 'vnp_SecureHash', required: true })
+  @ApiResponse({ status: 200, description: '{ RspCode, Message }' })
+  async vnpayIpn(@Query() query: any) {
+    return this.ticketService.handlePaymentNotification(
+      PaymentProviderName.VNPAY,
+      query,
+    );
+  }
+
+  /**
+   * MoMo IPN endpoint (server-to-server), MoMo chờ HTTP 204
+   */
+  @Post('momo-ipn')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'MoMo IPN endpoint (called by MoMo server)' })
+  @ApiResponse({ status: 204, description: 'Notification received' })
+  async momoIpn(@Body() body: any) {
+    await this.ticketService.handlePaymentNotification(
+      PaymentProviderName.MOMO,
+      body,
+    );
+  }
+
+  /**
+   * ZaloPay callback endpoint (server-to-server)
+   */
+  @Post('zalopay-callback')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'ZaloPay callback endpoint (called by ZaloPay)' })
+  @ApiResponse({ status: 200, description: '{ return_code, return_message }' })
+  async zaloPayCallback(@Body() body: any) {
+    return this.ticketService.handlePaymentNotification(
+      PaymentProviderName.ZALOPAY,
+      body,
+    );
+  }
+
   /**
    * Get payment status của ticket
    */
@@ -103,4 +169,107 @@ export class PaymentController {
   async getPaymentStatus(@Param('ticketId') ticketId: string) {
     return this.ticketService.getPaymentStatus(ticketId);
   }
+
+  /**
+   * Các lần thanh toán của ticket (hoặc của đơn chứa ticket)
+   */
+  @Get('attempts/:ticketId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'List payment attempts of a ticket' })
+  @ApiParam({ name: 'ticketId', description: 'Ticket ID' })
+  async getPaymentAttempts(@Param('ticketId') ticketId: string) {
+    return this.ticketService.getPaymentAttempts(ticketId);
+  }
+
+  // ============================================
+  // ADMIN - provider API (query / refund)
+  // ============================================
+
+  /**
+   * Đối soát giao dịch với cổng thanh toán khi không nhận được IPN
+   */
+  @Post('admin/query/:ticketId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Query payment provider and reconcile ticket' })
+  @ApiParam({ name: 'ticketId', description: 'Ticket ID' })
+  async queryTransaction(
+    @Param('ticketId') ticketId: string,
+    @Req() req: Request,
+  ) {
+    return this.ticketService.reconcilePayment(ticketId, this.getClientIp(req));
+  }
+
+  /**
+   * Hoàn tiền vé đã hủy qua cổng đã thanh toán
+   */
+  @Post('admin/refund/:ticketId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Refund a cancelled ticket via its provider' })
+  @ApiParam({ name: 'ticketId', description: 'Ticket ID' })
+  @ApiResponse({ status: 400, description: 'Ticket cannot be refunded' })
+  async refundTicket(
+    @Param('ticketId') ticketId: string,
+    @Req() req: Request & { user?: any },
+  ) {
+    const createdBy = req.user?.email || req.user?.userId || 'admin';
+    return this.ticketService.refundPayment(
+      ticketId,
+      createdBy,
+      this.getClientIp(req),
+    );
+  }
+
+  /**
+   * Tra cứu kết quả hoàn tiền đang chờ (cổng đang xử lý hoặc timeout)
+   */
+  @Post('admin/refund/:ticketId/query')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Query the provider for a pending refund' })
+  @ApiParam({ name: 'ticketId', description: 'Ticket ID' })
+  @ApiResponse({ status: 400, description: 'No pending refund' })
+  async queryRefund(@Param('ticketId') ticketId: string, @Req() req: Request) {
+    return this.ticketService.reconcileRefund(ticketId, this.getClientIp(req));
+  }
+
+  /**
+   * Chuyển thanh toán VNPay lưu trên vé/đơn cũ sang PaymentAttempt
+   */
+  @Post('admin/migrate-legacy')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary:
+      'Create payment attempts for VNPay payments made before attempts existed',
+  })
+  async migrateLegacyPayments() {
+    return this.ticketService.migrateLegacyPayments();
+  }
+
+  /**
+   * Lịch sử hoàn tiền của vé
+   */
+  @Get('admin/refunds/:ticketId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get refund transactions of a ticket' })
+  @ApiParam({ name: 'ticketId', description: 'Ticket ID' })
+  async getRefundTransactions(@Param('ticketId') ticketId: string) {
+    return this.ticketService.getRefundTransactions(ticketId);
+  }
+
+  private getClientIp(req: Request): string {
+    return (req.ip ||
+      req.headers['x-forwarded-for'] ||
+      req.socket.remoteAddress ||
+      '127.0.0.1') as string;
+  }
 }
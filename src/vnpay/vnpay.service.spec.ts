@@ -2,6 +2,8 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ConfigService } from '@nestjs/config';
 import { VNPayService } from './vnpay.service';
 import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
 import * as querystring from 'qs';
 
 describe('VNPayService - Signature Fix Tests', () => {
@@ -502,3 +504,228 @@ describe('VNPayService - Signature Fix Tests', () => {
     });
   });
 });
+
+describe('VNPayService - Merchant API (mock VNPay server)', () => {
+  const HASH_SECRET = 'TEST_SECRET_KEY_123456789';
+
+  let service: VNPayService;
+  let server: http.Server;
+  let requests: Record<string, any>[];
+  let tamperResponse: boolean;
+
+  const hmac = (values: Array<string | undefined>) =>
+    crypto
+      .createHmac('sha512', HASH_SECRET)
+      .update(Buffer.from(values.map((v) => v ?? '').join('|'), 'utf-8'))
+      .digest('hex');
+
+  // Local mock of https://sandbox.vnpayment.vn/merchant_webapi/api/transaction
+  const handleMerchantRequest = (body: Record<string, any>) => {
+    const expectedHash =
+      body.vnp_Command === 'querydr'
+        ? hmac([
+            body.vnp_RequestId,
+            body.vnp_Version,
+            body.vnp_Command,
+            body.vnp_TmnCode,
+            body.vnp_TxnRef,
+            body.vnp_TransactionDate,
+            body.vnp_CreateDate,
+            body.vnp_IpAddr,
+            body.vnp_OrderInfo,
+          ])
+        : hmac([
+            body.vnp_RequestId,
+            body.vnp_Version,
+            body.vnp_Command,
+            body.vnp_TmnCode,
+            body.vnp_TransactionType,
+            body.vnp_TxnRef,
+            body.vnp_Amount,
+            body.vnp_TransactionNo,
+            body.vnp_TransactionDate,
+            body.vnp_CreateBy,
+            body.vnp_CreateDate,
+            body.vnp_IpAddr,
+            body.vnp_OrderInfo,
+          ]);
+
+    if (body.vnp_SecureHash !== expectedHash) {
+      return { vnp_ResponseCode: '97', vnp_Message: 'Invalid Checksum' };
+    }
+
+    const response: Record<string, string> = {
+      vnp_ResponseId: `RES${body.vnp_RequestId}`,
+      vnp_Command: body.vnp_Command,
+      vnp_ResponseCode: body.vnp_TxnRef === 'UNKNOWN' ? '91' : '00',
+      vnp_Message: body.vnp_TxnRef === 'UNKNOWN' ? 'Not found' : 'Success',
+      vnp_TmnCode: body.vnp_TmnCode,
+      vnp_TxnRef: body.vnp_TxnRef,
+      vnp_Amount: body.vnp_Amount ?? '22500000',
+      vnp_BankCode: 'NCB',
+      vnp_PayDate: '20250101120000',
+      vnp_TransactionNo: body.vnp_TransactionNo || '14000001',
+      vnp_TransactionType: body.vnp_TransactionType ?? '01',
+      vnp_TransactionStatus: body.vnp_Command === 'refund' ? '05' : '00',
+      vnp_OrderInfo: body.vnp_OrderInfo,
+    };
+
+    const hashFields: Array<string | undefined> = [
+      response.vnp_ResponseId,
+      response.vnp_Command,
+      response.vnp_ResponseCode,
+      response.vnp_Message,
+      response.vnp_TmnCode,
+      response.vnp_TxnRef,
+      response.vnp_Amount,
+      response.vnp_BankCode,
+      response.vnp_PayDate,
+      response.vnp_TransactionNo,
+      response.vnp_TransactionType,
+      response.vnp_TransactionStatus,
+      response.vnp_OrderInfo,
+    ];
+    if (body.vnp_Command === 'querydr') {
+      hashFields.push(undefined, undefined); // PromotionCode, PromotionAmount
+    }
+
+    response.vnp_SecureHash = tamperResponse ? 'tampered' : hmac(hashFields);
+    return response;
+  };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const body = JSON.parse(raw);
+        requests.push(body);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(handleMerchantRequest(body)));
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(async () => {
+    requests = [];
+    tamperResponse = false;
+
+    const { port } = server.address() as AddressInfo;
+    const config = {
+      VNPAY_TMN_CODE: 'TEST_TMN_CODE',
+      VNPAY_HASH_SECRET: HASH_SECRET,
+      VNPAY_API_URL: 'https://sandbox.vnpayment.vn/paymentv2/vpcpay.html',
+      VNPAY_RETURN_URL: 'http://localhost:3000/payment/vnpay-return',
+      VNPAY_MERCHANT_API_URL: `http://127.0.0.1:${port}/merchant_webapi/api/transaction`,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VNPayService,
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<VNPayService>(VNPayService);
+  });
+
+  describe('queryTransaction (querydr)', () => {
+    it('should send a signed querydr request and verify the response', async () => {
+      const result = await service.queryTransaction({
+        txnRef: 'TICKET_123_1704369845',
+        transactionDate: new Date('2025-01-01T05:00:00Z'),
+        orderInfo: 'Truy vấn giao dịch',
+        ipAddr: '::1',
+      });
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].vnp_Command).toBe('querydr');
+      expect(requests[0].vnp_TransactionDate).toBe('20250101120000'); // GMT+7
+      expect(requests[0].vnp_IpAddr).toBe('127.0.0.1');
+      expect(requests[0].vnp_OrderInfo).toBe('Truy van giao dich');
+
+      expect(result.isValid).toBe(true);
+      expect(result.responseCode).toBe('00');
+      expect(result.transactionStatus).toBe('00');
+      expect(result.transactionNo).toBe('14000001');
+      expect(result.amount).toBe(225000);
+    });
+
+    it('should return VNPay error codes as-is', async () => {
+      const result = await service.queryTransaction({
+        txnRef: 'UNKNOWN',
+        transactionDate: new Date(),
+        orderInfo: 'Query',
+        ipAddr: '127.0.0.1',
+      });
+
+      expect(result.isValid).toBe(true);
+      expect(result.responseCode).toBe('91');
+    });
+
+    it('should flag a response with an invalid signature', async () => {
+      tamperResponse = true;
+
+      const result = await service.queryTransaction({
+        txnRef: 'TICKET_123_1704369845',
+        transactionDate: new Date(),
+        orderInfo: 'Query',
+        ipAddr: '127.0.0.1',
+      });
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+
+  describe('refundTransaction (refund)', () => {
+    it('should send a signed refund request with amount x100', async () => {
+      const result = await service.refundTransaction({
+        txnRef: 'TICKET_123_1704369845',
+        transactionDate: new Date('2025-01-01T05:00:00Z'),
+        amount: 112500,
+        transactionType: '03',
+        transactionNo: '14000001',
+        orderInfo: 'Hoàn tiền vé 123',
+        createBy: 'admin@checkitout.com',
+        ipAddr: '127.0.0.1',
+      });
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].vnp_Command).toBe('refund');
+      expect(requests[0].vnp_Amount).toBe('11250000');
+      expect(requests[0].vnp_TransactionType).toBe('03');
+      expect(requests[0].vnp_CreateBy).toBe('admin@checkitout.com');
+
+      // Mock server answers 97 if our signature is wrong
+      expect(result.responseCode).toBe('00');
+      expect(result.isValid).toBe(true);
+      expect(result.amount).toBe(112500);
+    });
+
+    it('should flag a refund response with an invalid signature', async () => {
+      tamperResponse = true;
+
+      const result = await service.refundTransaction({
+        txnRef: 'TICKET_123_1704369845',
+        transactionDate: new Date(),
+        amount: 225000,
+        transactionType: '02',
+        orderInfo: 'Refund',
+        createBy: 'admin',
+        ipAddr: '127.0.0.1',
+      });
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+});
@@ -4,12 +4,14 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as crypto from 'crypto';
 import * as querystring from 'qs';
+import axios from 'axios';
 
 export interface VNPayConfig {
   tmnCode: string;
   hashSecret: string;
   apiUrl: string;
   returnUrl: string;
+  merchantApiUrl: string;
   version: string;
   command: string;
   orderType: string;
@@ -22,6 +24,34 @@ export interface CreatePaymentUrlDto {
   ipAddr: string;
   locale?: string;
   bankCode?: string;
+  createDate?: Date; // Lưu lại để gọi querydr/refund sau này
+}
+
+export interface QueryTransactionDto {
+  txnRef: string; // vnp_TxnRef đã gửi khi tạo URL thanh toán
+  transactionDate: Date; // vnp_CreateDate của giao dịch thanh toán
+  orderInfo: string;
+  ipAddr: string;
+}
+
+export interface RefundTransactionDto extends QueryTransactionDto {
+  requestId?: string; // vnp_RequestId, sinh trước để tra cứu lại khi timeout
+  amount: number; // Số tiền hoàn (VND)
+  transactionType: '02' | '03'; // 02: hoàn toàn phần, 03: hoàn một phần
+  transactionNo?: string; // vnp_TransactionNo tại VNPay
+  createBy: string; // Người thực hiện hoàn tiền
+}
+
+export interface MerchantApiResult {
+  isValid: boolean; // Chữ ký phản hồi hợp lệ
+  requestId: string;
+  responseCode: string;
+  message: string;
+  transactionStatus?: string;
+  transactionNo?: string;
+  amount?: number; // VND
+  payDate?: string;
+  raw: Record<string, string>;
 }
 
 @Injectable()
@@ -34,6 +64,9 @@ export class VNPayService {
     const hashSecret = this.configService.get<string>('VNPAY_HASH_SECRET');
     const apiUrl = this.configService.get<string>('VNPAY_API_URL');
     const returnUrl = this.configService.get<string>('VNPAY_RETURN_URL');
+    const merchantApiUrl =
+      this.configService.get<string>('VNPAY_MERCHANT_API_URL') ||
+      'https://sandbox.vnpayment.vn/merchant_webapi/api/transaction';
 
     // LOG ĐỂ DEBUG
     this.logger.log('=====================================');
@@ -46,6 +79,7 @@ export class VNPayService {
     this.logger.log(`Hash Secret (length): ${hashSecret?.length}`);
     this.logger.log(`API URL: ${apiUrl}`);
     this.logger.log(`Return URL: ${returnUrl}`);
+    this.logger.log(`Merchant API URL: ${merchantApiUrl}`);
     this.logger.log('=====================================');
 
     if (!tmnCode || !hashSecret || !apiUrl || !returnUrl) {
@@ -66,6 +100,7 @@ export class VNPayService {
       hashSecret,
       apiUrl,
       returnUrl,
+      merchantApiUrl,
       version: '2.1.0',
       command: 'pay',
       orderType: 'other',
@@ -280,7 +315,7 @@ export class VNPayService {
     this.logger.log(`🌐 IP Address: ${data.ipAddr} → ${ipAddr}`);
 
     // Get current date
-    const date = new Date();
+    const date = data.createDate ?? new Date();
     const createDate = this.formatDate(date);
 
     // Expire date = now + 15 minutes
@@ -426,6 +461,197 @@ export class VNPayService {
     }
   }
 
+  // ============================================
+  // MERCHANT API (querydr / refund)
+  // Reference: https://sandbox.vnpayment.vn/apis/docs/truy-van-hoan-tien/querydr&refund.html
+  // ============================================
+
+  /**
+   * Truy vấn kết quả giao dịch (vnp_Command=querydr)
+   * Dùng để đối soát khi không nhận được callback
+   */
+  async queryTransaction(
+    data: QueryTransactionDto,
+  ): Promise<MerchantApiResult> {
+    const params: Record<string, string> = {
+      vnp_RequestId: this.generateRequestId(),
+      vnp_Version: this.config.version,
+      vnp_Command: 'querydr',
+      vnp_TmnCode: this.config.tmnCode,
+      vnp_TxnRef: data.txnRef,
+      vnp_OrderInfo: this.removeVietnameseDiacritics(data.orderInfo),
+      vnp_TransactionDate: this.formatDate(data.transactionDate),
+      vnp_CreateDate: this.formatDate(new Date()),
+      vnp_IpAddr: this.normalizeIp(data.ipAddr),
+    };
+
+    params.vnp_SecureHash = this.hashPipe([
+      params.vnp_RequestId,
+      params.vnp_Version,
+      params.vnp_Command,
+      params.vnp_TmnCode,
+      params.vnp_TxnRef,
+      params.vnp_TransactionDate,
+      params.vnp_CreateDate,
+      params.vnp_IpAddr,
+      params.vnp_OrderInfo,
+    ]);
+
+    const response = await this.callMerchantApi(params);
+
+    const isValid =
+      response.vnp_SecureHash ===
+      this.hashPipe([
+        response.vnp_ResponseId,
+        response.vnp_Command,
+        response.vnp_ResponseCode,
+        response.vnp_Message,
+        response.vnp_TmnCode,
+        response.vnp_TxnRef,
+        response.vnp_Amount,
+        response.vnp_BankCode,
+        response.vnp_PayDate,
+        response.vnp_TransactionNo,
+        response.vnp_TransactionType,
+        response.vnp_TransactionStatus,
+        response.vnp_OrderInfo,
+        response.vnp_PromotionCode,
+        response.vnp_PromotionAmount,
+      ]);
+
+    return this.toMerchantApiResult(params.vnp_RequestId, response, isValid);
+  }
+
+  /**
+   * Hoàn tiền giao dịch (vnp_Command=refund)
+   */
+  async refundTransaction(
+    data: RefundTransactionDto,
+  ): Promise<MerchantApiResult> {
+    const params: Record<string, string> = {
+      vnp_RequestId: data.requestId ?? this.generateRequestId(),
+      vnp_Version: this.config.version,
+      vnp_Command: 'refund',
+      vnp_TmnCode: this.config.tmnCode,
+      vnp_TransactionType: data.transactionType,
+      vnp_TxnRef: data.txnRef,
+      vnp_Amount: String(Math.round(data.amount * 100)),
+      vnp_OrderInfo: this.removeVietnameseDiacritics(data.orderInfo),
+      vnp_TransactionNo: data.transactionNo ?? '',
+      vnp_TransactionDate: this.formatDate(data.transactionDate),
+      vnp_CreateBy: data.createBy,
+      vnp_CreateDate: this.formatDate(new Date()),
+      vnp_IpAddr: this.normalizeIp(data.ipAddr),
+    };
+
+    params.vnp_SecureHash = this.hashPipe([
+      params.vnp_RequestId,
+      params.vnp_Version,
+      params.vnp_Command,
+      params.vnp_TmnCode,
+      params.vnp_TransactionType,
+      params.vnp_TxnRef,
+      params.vnp_Amount,
+      params.vnp_TransactionNo,
+      params.vnp_TransactionDate,
+      params.vnp_CreateBy,
+      params.vnp_CreateDate,
+      params.vnp_IpAddr,
+      params.vnp_OrderInfo,
+    ]);
+
+    const response = await this.callMerchantApi(params);
+
+    const isValid =
+      response.vnp_SecureHash ===
+      this.hashPipe([
+        response.vnp_ResponseId,
+        response.vnp_Command,
+        response.vnp_ResponseCode,
+        response.vnp_Message,
+        response.vnp_TmnCode,
+        response.vnp_TxnRef,
+        response.vnp_Amount,
+        response.vnp_BankCode,
+        response.vnp_PayDate,
+        response.vnp_TransactionNo,
+        response.vnp_TransactionType,
+        response.vnp_TransactionStatus,
+        response.vnp_OrderInfo,
+      ]);
+
+    return this.toMerchantApiResult(params.vnp_RequestId, response, isValid);
+  }
+
+  /**
+   * Merchant API ký HMAC SHA512 trên chuỗi các giá trị nối bằng "|"
+   */
+  private hashPipe(values: Array<string | number | undefined>): string {
+    const data = values.map((value) => value ?? '').join('|');
+    return crypto
+      .createHmac('sha512', this.config.hashSecret)
+      .update(Buffer.from(data, 'utf-8'))
+      .digest('hex');
+  }
+
+  private async callMerchantApi(
+    params: Record<string, string>,
+  ): Promise<Record<string, any>> {
+    this.logger.log(
+      `📡 VNPay ${params.vnp_Command} → ${params.vnp_TxnRef} (request ${params.vnp_RequestId})`,
+    );
+
+    const { data } = await axios.post(this.config.merchantApiUrl, params, {
+      headers: { 'Content-Type': 'application/json' },
+      timeout: 15000,
+    });
+
+    this.logger.log(
+      `📨 VNPay ${params.vnp_Command} response: ${data?.vnp_ResponseCode} ${data?.vnp_Message}`,
+    );
+
+    return data ?? {};
+  }
+
+  private toMerchantApiResult(
+    requestId: string,
+    response: Record<string, any>,
+    isValid: boolean,
+  ): MerchantApiResult {
+    if (!isValid) {
+      this.logger.error('❌ VNPay merchant API response signature invalid');
+    }
+
+    return {
+      isValid,
+      requestId,
+      responseCode: response.vnp_ResponseCode,
+      message: response.vnp_Message,
+      transactionStatus: response.vnp_TransactionStatus,
+      transactionNo: response.vnp_TransactionNo,
+      amount:
+        response.vnp_Amount !== undefined
+          ? parseInt(response.vnp_Amount) / 100
+          : undefined,
+      payDate: response.vnp_PayDate,
+      raw: response,
+    };
+  }
+
+  /**
+   * vnp_RequestId: duy nhất trong ngày
+   */
+  generateRequestId(): string {
+    return `${Date.now()}${crypto.randomInt(100000, 999999)}`;
+  }
+
+  private normalizeIp(ipAddr: string): string {
+    if (ipAddr === '::1' || ipAddr === '::ffff:127.0.0.1') {
+      return '127.0.0.1';
+    }
+    return ipAddr;
+  }
+
   /**
    * Get response message from code
    */
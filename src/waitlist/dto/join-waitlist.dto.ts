@@ -0,0 +1,62 @@
+import {
+  IsEmail,
+  IsEnum,
+  IsMongoId,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { SeatClass } from '../../seat/enums/seat-class.enum';
+
+const FLEXIBLE_PHONE_REGEX = /^\+?[0-9]{10,15}$/;
+
+export class JoinWaitlistDto {
+  @ApiProperty({
+    description: 'Sold-out scheduling ID',
+    example: '507f1f77bcf86cd799439013',
+  })
+  @IsNotEmpty()
+  @IsMongoId()
+  schedulingId: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Customer phone number (taken from the token for CUSTOMER, required for ADMIN/SELLER)',
+    example: '0901234567',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(FLEXIBLE_PHONE_REGEX, {
+    message: 'Phone number must be 10-15 digits, optionally starting with +',
+  })
+  phone?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Email that receives the seat offer (defaults to the account email)',
+    example: 'customer@example.com',
+  })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+
+  @ApiPropertyOptional({ example: 'John' })
+  @IsOptional()
+  @IsString()
+  firstName?: string;
+
+  @ApiPropertyOptional({ example: 'Doe' })
+  @IsOptional()
+  @IsString()
+  lastName?: string;
+
+  @ApiPropertyOptional({
+    enum: SeatClass,
+    description: 'Only offer seats of this class (any class when omitted)',
+  })
+  @IsOptional()
+  @IsEnum(SeatClass)
+  seatClass?: SeatClass;
+}
@@ -0,0 +1,65 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document, Types } from 'mongoose';
+import { WaitlistStatus } from '../enums/waitlist-status.enum';
+import { SeatClass } from '../../seat/enums/seat-class.enum';
+
+export type WaitlistEntryDocument = WaitlistEntry & Document;
+
+/**
+ * Khách chờ ghế của một chuyến đã hết chỗ. Khi một ghế được trả lại, người
+ * chờ lâu nhất (đúng hạng ghế mong muốn) được giữ ghế đó trong một khoảng
+ * thời gian ngắn bằng một vé PENDING và nhận email kèm link thanh toán.
+ */
+@Schema({ timestamps: true, collection: 'waitlist_entries' })
+export class WaitlistEntry {
+  @Prop({ type: Types.ObjectId, ref: 'Scheduling', required: true })
+  schedulingId: Types.ObjectId;
+
+  @Prop({ type: Types.ObjectId, ref: 'User', default: null })
+  userId?: Types.ObjectId | null; // Tài khoản khách (khi khách tự đăng ký)
+
+  @Prop({ required: true })
+  phone: string;
+
+  @Prop({ required: true, lowercase: true, trim: true })
+  email: string;
+
+  @Prop({ type: String, trim: true })
+  firstName?: string;
+
+  @Prop({ type: String, trim: true })
+  lastName?: string;
+
+  @Prop({ type: String, enum: Object.values(SeatClass), default: null })
+  seatClass?: SeatClass | null; // null = hạng ghế nào cũng được
+
+  @Prop({
+    type: String,
+    enum: Object.values(WaitlistStatus),
+    default: WaitlistStatus.WAITING,
+  })
+  status: WaitlistStatus;
+
+  @Prop({ type: Types.ObjectId, ref: 'Ticket', default: null })
+  ticketId?: Types.ObjectId | null; // Vé PENDING giữ ghế được mời
+
+  @Prop({ type: String })
+  offeredSeatNo?: string;
+
+  @Prop({ type: Date })
+  offeredAt?: Date;
+
+  @Prop({ type: Date })
+  offerExpiresAt?: Date;
+
+  readonly createdAt?: Date;
+
+  readonly updatedAt?: Date;
+}
+
+export const WaitlistEntrySchema = SchemaFactory.createForClass(WaitlistEntry);
+
+// Indexes
+WaitlistEntrySchema.index({ schedulingId: 1, status: 1, createdAt: 1 });
+WaitlistEntrySchema.index({ schedulingId: 1, phone: 1 });
+WaitlistEntrySchema.index({ ticketId: 1 });
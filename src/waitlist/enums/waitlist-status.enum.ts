@@ -0,0 +1,7 @@
+export enum WaitlistStatus {
+  WAITING = 'WAITING',
+  OFFERED = 'OFFERED', // Đang giữ ghế riêng cho khách, chờ thanh toán
+  BOOKED = 'BOOKED', // Khách đã thanh toán vé được mời
+  EXPIRED = 'EXPIRED', // Hết hạn giữ ghế hoặc chuyến không còn bán
+  CANCELLED = 'CANCELLED', // Khách rời danh sách chờ
+}
@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Param,
+  Body,
+  Req,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+} from '@nestjs/swagger';
+import { WaitlistService } from './waitlist.service';
+import { JoinWaitlistDto } from './dto/join-waitlist.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+
+@ApiTags('Waitlist')
+@Controller('waitlist')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@ApiBearerAuth('JWT-auth')
+export class WaitlistController {
+  constructor(private readonly waitlistService: WaitlistService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Join the waitlist of a sold-out scheduling',
+    description: `
+      - Customer: uses the phone and email of their account (email can be overridden)
+      - Admin/Seller: must provide the customer phone and email
+      - Only allowed when no seat (of the preferred class) is free
+      - When a seat is released, the first customer in line gets it held
+        for WAITLIST_HOLD_MINUTES and an email with a pay link
+    `,
+  })
+  @ApiResponse({ status: 201, description: 'Joined, returns queue position' })
+  @ApiResponse({ status: 409, description: 'Already on this waitlist' })
+  join(@Body() dto: JoinWaitlistDto, @Req() req: any) {
+    const isCustomer = req.user.role === UserRole.CUSTOMER;
+    const phone = isCustomer ? req.user.phone : dto.phone;
+    if (!phone) {
+      throw new BadRequestException(
+        isCustomer
+          ? 'Customer must have a phone number registered'
+          : 'Phone is required to join the waitlist',
+      );
+    }
+
+    return this.waitlistService.join(
+      {
+        ...dto,
+        phone,
+        email: dto.email ?? (isCustomer ? req.user.email : undefined),
+      },
+      req.user,
+    );
+  }
+
+  @Get('scheduling/:schedulingId')
+  @Roles(UserRole.ADMIN, UserRole.SELLER)
+  @ApiOperation({
+    summary: 'Waitlist of a scheduling (Admin/Seller only)',
+    description: 'Entries in queue order with offers and their hold tickets',
+  })
+  @ApiParam({ name: 'schedulingId', description: 'Scheduling ID' })
+  findByScheduling(@Param('schedulingId') schedulingId: string) {
+    return this.waitlistService.findByScheduling(schedulingId);
+  }
+
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Waitlist entry with its queue position',
+    description: 'OFFERED entries carry the held ticket and its expiry',
+  })
+  @ApiParam({ name: 'id', description: 'Waitlist entry ID' })
+  findOne(@Param('id') id: string, @Req() req: any) {
+    return this.waitlistService.findOne(id, req.user);
+  }
+
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Leave the waitlist',
+    description:
+      'A pending seat offer is declined and passed to the next customer',
+  })
+  @ApiParam({ name: 'id', description: 'Waitlist entry ID' })
+  leave(@Param('id') id: string, @Req() req: any) {
+    return this.waitlistService.leave(id, req.user);
+  }
+}
@@ -0,0 +1,58 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { WaitlistService } from './waitlist.service';
+import { SeatHoldReleasedEvent } from '../common/events/seat-hold.event';
+
+@Injectable()
+export class WaitlistListener {
+  private readonly logger = new Logger(WaitlistListener.name);
+
+  constructor(private readonly waitlistService: WaitlistService) {}
+
+  /**
+   * Released seats go to the waitlist before anyone else can take them
+   */
+  @OnEvent('seat.hold.released')
+  async handleSeatsReleased(event: SeatHoldReleasedEvent) {
+    try {
+      await this.waitlistService.offerReleasedSeats(
+        event.schedulingId,
+        event.seatNos,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error offering released seats of scheduling ${event.schedulingId}:`,
+        error,
+      );
+    }
+  }
+
+  @OnEvent('scheduling.status.changed')
+  async handleStatusChanged(payload: {
+    schedulingId: string;
+    oldStatus: string;
+    newStatus: string;
+  }) {
+    if (
+      !['in-progress', 'completed', 'cancelled'].includes(payload.newStatus)
+    ) {
+      return;
+    }
+
+    try {
+      const closed = await this.waitlistService.closeScheduling(
+        payload.schedulingId,
+      );
+      if (closed > 0) {
+        this.logger.log(
+          `Closed ${closed} waitlist entries of scheduling ${payload.schedulingId} (${payload.newStatus})`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error closing waitlist of scheduling ${payload.schedulingId}:`,
+        error,
+      );
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { ConfigModule } from '@nestjs/config';
+import { WaitlistService } from './waitlist.service';
+import { WaitlistController } from './waitlist.controller';
+import { WaitlistListener } from './waitlist.listener';
+import {
+  WaitlistEntry,
+  WaitlistEntrySchema,
+} from './entities/waitlist-entry.entity';
+import {
+  Scheduling,
+  SchedulingSchema,
+} from '../scheduling/entities/scheduling.entity';
+import { Ticket, TicketSchema } from '../ticket/entities/ticket.entity';
+import { AuthModule } from '../auth/auth.module';
+import { SeatModule } from '../seat/seat.module';
+import { TicketModule } from '../ticket/ticket.module';
+import { EmailModule } from '../modules/email/email.module';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@Module({
+  imports: [
+    ConfigModule,
+    MongooseModule.forFeature([
+      { name: WaitlistEntry.name, schema: WaitlistEntrySchema },
+      { name: Scheduling.name, schema: SchedulingSchema },
+      { name: Ticket.name, schema: TicketSchema },
+    ]),
+    AuthModule,
+    SeatModule,
+    TicketModule,
+    EmailModule,
+  ],
+  providers: [WaitlistService, WaitlistListener, JwtAuthGuard],
+  controllers: [WaitlistController],
+  exports: [WaitlistService],
+})
+export class WaitlistModule {}
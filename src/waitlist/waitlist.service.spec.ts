@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getModelToken } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { Types } from 'mongoose';
+import { WaitlistService } from './waitlist.service';
+import { WaitlistEntry } from './entities/waitlist-entry.entity';
+import { WaitlistStatus } from './enums/waitlist-status.enum';
+import { Scheduling } from '../scheduling/entities/scheduling.entity';
+import { Ticket } from '../ticket/entities/ticket.entity';
+import { TicketService } from '../ticket/ticket.service';
+import { SeatService } from '../seat/seat.service';
+import { EmailService } from '../modules/email/email.service';
+import { SeatClass } from '../seat/enums/seat-class.enum';
+import { UserRole } from '../users/enums/user-role.enum';
+
+// Keep the heavy service graphs (Bus schema, Redis, SMTP) out of this test
+jest.mock('../ticket/ticket.service', () => ({
+  TicketService: class TicketService {},
+}));
+jest.mock('../seat/seat.service', () => ({
+  SeatService: class SeatService {},
+}));
+jest.mock('../modules/email/email.service', () => ({
+  EmailService: class EmailService {},
+}));
+
+describe('WaitlistService', () => {
+  let service: WaitlistService;
+
+  const query = <T>(value: T) => ({
+    select: () => query(value),
+    populate: () => query(value),
+    lean: () => query(value),
+    exec: () => Promise.resolve(value),
+  });
+
+  const schedulingId = new Types.ObjectId();
+  const scheduling = {
+    _id: schedulingId,
+    busId: new Types.ObjectId(),
+    routeId: { name: 'Sài Gòn - Đà Lạt' },
+    status: 'scheduled',
+    departureDate: new Date(Date.now() + 2 * 24 * 3600 * 1000),
+  };
+  const vipSeat = {
+    _id: new Types.ObjectId(),
+    seatNo: 'A01',
+    seatClass: SeatClass.VIP,
+  };
+
+  const entry = {
+    _id: new Types.ObjectId(),
+    schedulingId,
+    phone: '0901234567',
+    email: 'khach@example.com',
+    firstName: 'An',
+    status: WaitlistStatus.OFFERED,
+    save: jest.fn(),
+  };
+  const hold = {
+    _id: new Types.ObjectId(),
+    totalPrice: 350000,
+    expiredTime: new Date(Date.now() + 30 * 60 * 1000),
+  };
+
+  const waitlistModel = {
+    find: jest.fn(() => query([])),
+    findOneAndUpdate: jest.fn(() => query(entry)),
+    updateOne: jest.fn(),
+    exists: jest.fn(),
+  };
+  const seatService = {
+    getFreeSeats: jest.fn(),
+    getSeatByBusIdAndSeatNo: jest.fn(() => Promise.resolve(vipSeat)),
+  };
+  const ticketService = { create: jest.fn() };
+  const emailService = { sendWaitlistOfferEmail: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WaitlistService,
+        { provide: getModelToken(WaitlistEntry.name), useValue: waitlistModel },
+        {
+          provide: getModelToken(Scheduling.name),
+          useValue: {
+            findById: () => query(scheduling),
+          },
+        },
+        { provide: getModelToken(Ticket.name), useValue: {} },
+        { provide: TicketService, useValue: ticketService },
+        { provide: SeatService, useValue: seatService },
+        { provide: EmailService, useValue: emailService },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = module.get<WaitlistService>(WaitlistService);
+  });
+
+  it('should refuse to join while a seat of the wanted class is free', async () => {
+    seatService.getFreeSeats.mockResolvedValue([vipSeat]);
+
+    await expect(
+      service.join({
+        schedulingId: String(schedulingId),
+        phone: '0901234567',
+        email: 'khach@example.com',
+        seatClass: SeatClass.VIP,
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(waitlistModel.exists).not.toHaveBeenCalled();
+  });
+
+  it('should hold a released seat for the first matching customer', async () => {
+    ticketService.create.mockResolvedValue(hold);
+
+    const offered = await service.offerReleasedSeats(String(schedulingId), [
+      'A01',
+    ]);
+
+    expect(offered).toBe(1);
+    expect(waitlistModel.findOneAndUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: WaitlistStatus.WAITING,
+        seatClass: { $in: [null, SeatClass.VIP] },
+      }),
+      expect.anything(),
+      expect.objectContaining({ sort: { createdAt: 1 } }),
+    );
+    expect(ticketService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        seatId: String(vipSeat._id),
+        phone: entry.phone,
+        createdByRole: UserRole.CUSTOMER,
+      }),
+      30,
+    );
+    expect(entry).toMatchObject({
+      ticketId: hold._id,
+      offerExpiresAt: hold.expiredTime,
+    });
+    expect(emailService.sendWaitlistOfferEmail).toHaveBeenCalledWith(
+      entry.email,
+      'An',
+      expect.objectContaining({ seatNo: 'A01', ticketId: String(hold._id) }),
+    );
+  });
+
+  it('should put the customer back in line when the hold fails', async () => {
+    ticketService.create.mockRejectedValue(
+      new BadRequestException('Seat A01 is not available on this scheduling'),
+    );
+
+    const offered = await service.offerReleasedSeats(String(schedulingId), [
+      'A01',
+    ]);
+
+    expect(offered).toBe(0);
+    expect(waitlistModel.updateOne).toHaveBeenCalledWith(
+      { _id: entry._id },
+      expect.objectContaining({ $set: { status: WaitlistStatus.WAITING } }),
+    );
+    expect(emailService.sendWaitlistOfferEmail).not.toHaveBeenCalled();
+  });
+});
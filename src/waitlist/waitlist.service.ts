@@ -0,0 +1,400 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model, Types } from 'mongoose';
+import {
+  WaitlistEntry,
+  WaitlistEntryDocument,
+} from './entities/waitlist-entry.entity';
+import { JoinWaitlistDto } from './dto/join-waitlist.dto';
+import { WaitlistStatus } from './enums/waitlist-status.enum';
+import {
+  Scheduling,
+  SchedulingDocument,
+} from '../scheduling/entities/scheduling.entity';
+import { Ticket, TicketDocument } from '../ticket/entities/ticket.entity';
+import { TicketStatus } from '../ticket/enums/ticket-status.enum';
+import { TicketService } from '../ticket/ticket.service';
+import { SeatService } from '../seat/seat.service';
+import { SeatDocument } from '../seat/entities/seat.entity';
+import { Route } from '../route/entities/route.entity';
+import { EmailService } from '../modules/email/email.service';
+import { UserRole } from '../users/enums/user-role.enum';
+
+type Requester = { userId: string; role: string };
+
+const OPEN_STATUSES = ['scheduled', 'delayed'];
+
+@Injectable()
+export class WaitlistService {
+  private readonly logger = new Logger(WaitlistService.name);
+
+  constructor(
+    @InjectModel(WaitlistEntry.name)
+    private waitlistModel: Model<WaitlistEntryDocument>,
+    @InjectModel(Scheduling.name)
+    private schedulingModel: Model<SchedulingDocument>,
+    @InjectModel(Ticket.name) private ticketModel: Model<TicketDocument>,
+    private readonly ticketService: TicketService,
+    private readonly seatService: SeatService,
+    private readonly emailService: EmailService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Join the waitlist of a sold-out scheduling (phone and email resolved by
+   * the controller)
+   */
+  async join(
+    dto: JoinWaitlistDto & { phone: string; email?: string },
+    requester?: Requester,
+  ) {
+    const scheduling = await this.getOpenScheduling(dto.schedulingId);
+    if (!dto.email) {
+      throw new BadRequestException(
+        'An email is required to receive the seat offer',
+      );
+    }
+
+    const freeSeats = await this.seatService.getFreeSeats(dto.schedulingId);
+    if (
+      freeSeats.some(
+        (seat) => !dto.seatClass || seat.seatClass === dto.seatClass,
+      )
+    ) {
+      throw new BadRequestException(
+        'Seats are still available on this scheduling, book one directly',
+      );
+    }
+
+    const joined = await this.waitlistModel.exists({
+      schedulingId: scheduling._id,
+      phone: dto.phone,
+      status: { $in: [WaitlistStatus.WAITING, WaitlistStatus.OFFERED] },
+    });
+    if (joined) {
+      throw new ConflictException('Already on the waitlist of this scheduling');
+    }
+
+    const entry = await this.waitlistModel.create({
+      schedulingId: scheduling._id,
+      userId:
+        requester?.role === UserRole.CUSTOMER
+          ? new Types.ObjectId(requester.userId)
+          : null,
+      phone: dto.phone,
+      email: dto.email,
+      firstName: dto.firstName,
+      lastName: dto.lastName,
+      seatClass: dto.seatClass ?? null,
+    });
+
+    return { entry, position: await this.getPosition(entry) };
+  }
+
+  /**
+   * Entry with its place in the queue (position only while WAITING)
+   */
+  async findOne(id: string, requester?: Requester) {
+    let entry = await this.getOwnEntry(id, requester);
+    if (entry.status === WaitlistStatus.OFFERED) {
+      await this.syncOffers(entry.schedulingId);
+      entry = await this.getOwnEntry(id, requester);
+    }
+
+    return {
+      entry,
+      position: await this.getPosition(entry),
+      waitingCount: await this.waitlistModel.countDocuments({
+        schedulingId: entry.schedulingId,
+        status: WaitlistStatus.WAITING,
+      }),
+    };
+  }
+
+  /**
+   * Leave the waitlist; a pending offer is declined and passed on
+   */
+  async leave(id: string, requester?: Requester) {
+    const entry = await this.getOwnEntry(id, requester);
+    if (
+      entry.status !== WaitlistStatus.WAITING &&
+      entry.status !== WaitlistStatus.OFFERED
+    ) {
+      throw new BadRequestException(
+        `Cannot leave the waitlist with status ${entry.status}`,
+      );
+    }
+
+    const offeredTicketId =
+      entry.status === WaitlistStatus.OFFERED ? entry.ticketId : null;
+    entry.status = WaitlistStatus.CANCELLED;
+    await entry.save();
+
+    if (offeredTicketId) {
+      const ticket = await this.ticketModel
+        .findById(offeredTicketId)
+        .select('status')
+        .lean()
+        .exec();
+      if (ticket?.status === TicketStatus.PENDING) {
+        await this.ticketService.failTicket(
+          offeredTicketId.toString(),
+          'Waitlist offer declined',
+        );
+      }
+    }
+
+    return { entry, message: 'Left the waitlist' };
+  }
+
+  /**
+   * Admin view: every entry of a scheduling, queue positions for WAITING ones
+   */
+  async findByScheduling(schedulingId: string) {
+    await this.syncOffers(new Types.ObjectId(schedulingId));
+
+    const entries = await this.waitlistModel
+      .find({ schedulingId: new Types.ObjectId(schedulingId) })
+      .sort({ createdAt: 1 })
+      .populate('ticketId', 'status totalPrice expiredTime')
+      .lean()
+      .exec();
+
+    let position = 0;
+    const summary: Partial<Record<WaitlistStatus, number>> = {};
+    const items = entries.map((entry) => {
+      summary[entry.status] = (summary[entry.status] ?? 0) + 1;
+      return {
+        ...entry,
+        position: entry.status === WaitlistStatus.WAITING ? ++position : null,
+      };
+    });
+
+    return { schedulingId, summary, entries: items };
+  }
+
+  /**
+   * Seats released on a scheduling: hold each one for the longest-waiting
+   * customer wanting that seat class, then email them a pay link
+   */
+  async offerReleasedSeats(schedulingId: string, seatNos: string[]) {
+    await this.syncOffers(new Types.ObjectId(schedulingId));
+
+    const scheduling = await this.schedulingModel
+      .findById(schedulingId)
+      .populate<{ routeId: Pick<Route, 'name'> | null }>('routeId', 'name')
+      .lean()
+      .exec();
+    if (
+      !scheduling ||
+      !OPEN_STATUSES.includes(scheduling.status) ||
+      new Date(scheduling.departureDate) <= new Date()
+    ) {
+      return 0;
+    }
+
+    let offered = 0;
+    for (const seatNo of seatNos) {
+      let seat: SeatDocument;
+      try {
+        seat = await this.seatService.getSeatByBusIdAndSeatNo(
+          scheduling.busId.toString(),
+          seatNo,
+        );
+      } catch {
+        continue; // Seat no longer on this scheduling's bus (bus swap)
+      }
+
+      const entry = await this.waitlistModel
+        .findOneAndUpdate(
+          {
+            schedulingId: scheduling._id,
+            status: WaitlistStatus.WAITING,
+            seatClass: { $in: [null, seat.seatClass] },
+          },
+          {
+            $set: {
+              status: WaitlistStatus.OFFERED,
+              offeredSeatNo: seatNo,
+              offeredAt: new Date(),
+            },
+          },
+          { sort: { createdAt: 1 }, new: true },
+        )
+        .exec();
+      if (!entry) continue;
+
+      let ticket: TicketDocument | null;
+      try {
+        ticket = await this.ticketService.create(
+          {
+            schedulingId,
+            seatId: String(seat._id),
+            phone: entry.phone,
+            firstName: entry.firstName,
+            lastName: entry.lastName,
+            createdByRole: UserRole.CUSTOMER,
+          },
+          this.getHoldMinutes(),
+        );
+        if (!ticket) throw new Error('Ticket not created');
+      } catch (error) {
+        // Seat taken in between or trip no longer bookable: keep their place
+        await this.waitlistModel.updateOne(
+          { _id: entry._id },
+          {
+            $set: { status: WaitlistStatus.WAITING },
+            $unset: { offeredSeatNo: 1, offeredAt: 1 },
+          },
+        );
+        this.logger.warn(
+          `Could not offer seat ${seatNo} of scheduling ${schedulingId}: ${(error as Error).message}`,
+        );
+        continue;
+      }
+
+      entry.ticketId = ticket._id as Types.ObjectId;
+      entry.offerExpiresAt = ticket.expiredTime;
+      await entry.save();
+      offered++;
+
+      try {
+        await this.emailService.sendWaitlistOfferEmail(
+          entry.email,
+          [entry.firstName, entry.lastName].filter(Boolean).join(' ') ||
+            'Customer',
+          {
+            routeName: scheduling.routeId?.name ?? 'CheckItOut',
+            seatNo,
+            departureDate: scheduling.departureDate,
+            totalPrice: ticket.totalPrice,
+            expiresAt: ticket.expiredTime,
+            ticketId: String(ticket._id),
+          },
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to send waitlist offer to ${entry.email}: ${(error as Error).message}`,
+        );
+      }
+    }
+
+    if (offered > 0) {
+      this.logger.log(
+        `Offered ${offered}/${seatNos.length} released seats of scheduling ${schedulingId} to the waitlist`,
+      );
+    }
+    return offered;
+  }
+
+  /**
+   * Trip departed or cancelled: nobody can be offered a seat anymore
+   */
+  async closeScheduling(schedulingId: string) {
+    const result = await this.waitlistModel.updateMany(
+      {
+        schedulingId: new Types.ObjectId(schedulingId),
+        status: WaitlistStatus.WAITING,
+      },
+      { $set: { status: WaitlistStatus.EXPIRED } },
+    );
+    return result.modifiedCount;
+  }
+
+  /**
+   * Settle offers from their hold tickets: paid → BOOKED, lapsed → EXPIRED
+   */
+  private async syncOffers(schedulingId: Types.ObjectId) {
+    const offers = await this.waitlistModel
+      .find({ schedulingId, status: WaitlistStatus.OFFERED })
+      .exec();
+    if (offers.length === 0) return;
+
+    const tickets = await this.ticketModel
+      .find({ _id: { $in: offers.map((offer) => offer.ticketId) } })
+      .select('status paidAt expiredTime')
+      .lean()
+      .exec();
+    const ticketsById = new Map(
+      tickets.map((ticket) => [
+        (ticket._id as Types.ObjectId).toString(),
+        ticket,
+      ]),
+    );
+
+    const now = new Date();
+    for (const offer of offers) {
+      const ticket = ticketsById.get(String(offer.ticketId));
+      if (!ticket) continue; // Hold ticket still being created
+
+      if (ticket.paidAt || ticket.status === TicketStatus.SUCCESS) {
+        offer.status = WaitlistStatus.BOOKED;
+      } else if (
+        ticket.status !== TicketStatus.PENDING ||
+        new Date(ticket.expiredTime) <= now
+      ) {
+        offer.status = WaitlistStatus.EXPIRED;
+      } else {
+        continue;
+      }
+      await offer.save();
+    }
+  }
+
+  private async getPosition(
+    entry: WaitlistEntryDocument,
+  ): Promise<number | null> {
+    if (entry.status !== WaitlistStatus.WAITING) return null;
+
+    const ahead = await this.waitlistModel.countDocuments({
+      schedulingId: entry.schedulingId,
+      status: WaitlistStatus.WAITING,
+      createdAt: { $lt: entry.createdAt },
+    });
+    return ahead + 1;
+  }
+
+  private async getOwnEntry(id: string, requester?: Requester) {
+    const entry = await this.waitlistModel.findById(id).exec();
+    if (!entry) throw new NotFoundException('Waitlist entry not found');
+
+    // Customers only see their own entries
+    if (
+      requester?.role === UserRole.CUSTOMER &&
+      entry.userId?.toString() !== requester.userId
+    ) {
+      throw new NotFoundException('Waitlist entry not found');
+    }
+    return entry;
+  }
+
+  private async getOpenScheduling(schedulingId: string) {
+    const scheduling = await this.schedulingModel.findById(schedulingId).exec();
+    if (!scheduling || scheduling.isDeleted) {
+      throw new NotFoundException('Scheduling not found');
+    }
+    if (
+      !OPEN_STATUSES.includes(scheduling.status) ||
+      new Date(scheduling.departureDate) <= new Date()
+    ) {
+      throw new BadRequestException('Scheduling is no longer open for booking');
+    }
+    return scheduling;
+  }
+
+  /**
+   * How long an offered seat is held (WAITLIST_HOLD_MINUTES, default 30)
+   */
+  private getHoldMinutes(): number {
+    return Number(
+      this.configService.get<string>('WAITLIST_HOLD_MINUTES') ?? 30,
+    );
+  }
+}